@@ -1,8 +1,6 @@
 /** @jsxImportSource @emotion/react */
 import React, {
   useState,
-  useLayoutEffect,
-  useEffect,
   useRef,
   cloneElement,
   isValidElement,
@@ -10,8 +8,9 @@ import React, {
   forwardRef,
 } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
 import { useFocusRing } from "../utils/focusRing";
+import { useCollapse } from "../utils/collapse";
 import { ChevronDown } from "lucide-react";
 
 type AccordionVariant = "subtle" | "outlined" | "ghost";
@@ -32,7 +31,7 @@ export type AccordionProps = {
 export type AccordionSummaryProps = {
   children?: React.ReactNode;
   expandIcon?: React.ReactNode;
-  expandIconPosition?: "left" | "right";
+  expandIconPosition?: "left" | "right" | "start" | "end";
   hideExpandIcon?: boolean;
   className?: string;
   css?: Interpolation<Theme>;
@@ -60,7 +59,7 @@ export const AccordionSummary: React.ForwardRefExoticComponent<
     {
       children,
       expandIcon,
-      expandIconPosition = "right",
+      expandIconPosition = "end",
       hideExpandIcon = false,
       className,
       css: userCss,
@@ -69,6 +68,11 @@ export const AccordionSummary: React.ForwardRefExoticComponent<
     ref
   ) => {
     const theme = usePlainframeUITheme();
+    const dir = useDirection();
+    const iconAtStart =
+      expandIconPosition === "start" ||
+      (expandIconPosition === "left" && dir === "ltr") ||
+      (expandIconPosition === "right" && dir === "rtl");
 
     const fontSize = theme.typography.sizes.sm;
     const iconSize = 20;
@@ -100,8 +104,8 @@ export const AccordionSummary: React.ForwardRefExoticComponent<
       gap: 8,
     });
 
-    const leftIconCss = css({ marginRight: 0, marginLeft: -2, lineHeight: 0, color: theme.text.secondary });
-    const rightIconCss = css({ marginLeft: 5, marginRight: -2, lineHeight: 0, color: theme.text.secondary });
+    const leftIconCss = css({ marginInlineEnd: 0, marginInlineStart: -2, lineHeight: 0, color: theme.text.secondary });
+    const rightIconCss = css({ marginInlineStart: 5, marginInlineEnd: -2, lineHeight: 0, color: theme.text.secondary });
 
     return (
       <div
@@ -113,7 +117,7 @@ export const AccordionSummary: React.ForwardRefExoticComponent<
           .trim()}
         css={[baseCss, userCss]}
       >
-        {!hideExpandIcon && expandIconPosition === "left" && (
+        {!hideExpandIcon && iconAtStart && (
           <span
             className="plainframe-ui-accordion-icon plainframe-ui-accordion-icon-left"
             css={[leftIconCss, expandIconCss]}
@@ -131,7 +135,7 @@ export const AccordionSummary: React.ForwardRefExoticComponent<
           {children}
         </span>
 
-        {!hideExpandIcon && expandIconPosition === "right" && (
+        {!hideExpandIcon && !iconAtStart && (
           <span
             className="plainframe-ui-accordion-icon plainframe-ui-accordion-icon-right"
             css={[rightIconCss, expandIconCss]}
@@ -214,12 +218,13 @@ export const Accordion: React.FC<AccordionProps> = ({
 
   const focusRing = useFocusRing();
 
-  const [maxH, setMaxH] = useState(0);
-  const [ready, setReady] = useState(false);
-
-  const measureRef = useRef<HTMLDivElement>(null);
-  const detailsClipRef = useRef<HTMLDivElement>(null);
   const rootRef = useRef<HTMLDivElement>(null);
+  const {
+    clipRef: detailsClipRef,
+    measureRef,
+    clipCss,
+    innerCss,
+  } = useCollapse(open, { focusOnHide: rootRef });
 
   const ensureDetailsBlurred = () => {
     if (!open) return;
@@ -283,82 +288,6 @@ export const Accordion: React.FC<AccordionProps> = ({
     cursor: disabled ? "not-allowed" : undefined,
   });
 
-  useLayoutEffect(() => {
-    const el = measureRef.current;
-    if (!el) return;
-    setMaxH(el.scrollHeight);
-  }, [open, children]);
-
-  useEffect(() => {
-    const el = measureRef.current;
-    if (!el) return;
-    const ro = new ResizeObserver(() => setMaxH(el.scrollHeight));
-    ro.observe(el);
-    return () => ro.disconnect();
-  }, []);
-
-  useEffect(() => {
-    if (maxH > 0 && !ready) setReady(true);
-  }, [maxH, ready]);
-
-  useLayoutEffect(() => {
-    if (!open && detailsClipRef.current) {
-      const active = document.activeElement;
-      if (detailsClipRef.current.contains(active)) {
-        rootRef.current?.focus();
-      }
-    }
-  }, [open]);
-
-  useLayoutEffect(() => {
-    const el = detailsClipRef.current;
-    if (!el) return;
-
-    const focusable = Array.from(
-      el.querySelectorAll<HTMLElement>(
-        "a[href], area[href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), button:not([disabled]), iframe, [tabindex]"
-      )
-    );
-
-    if (!open) {
-      focusable.forEach(node => {
-        if (node.dataset.accordionTabindex == null) {
-          node.dataset.accordionTabindex = node.hasAttribute("tabindex")
-            ? node.getAttribute("tabindex") ?? ""
-            : "";
-        }
-        node.tabIndex = -1;
-      });
-      el.setAttribute("inert", "");
-    } else {
-      focusable.forEach(node => {
-        const value = node.dataset.accordionTabindex;
-        if (value != null) {
-          if (value === "") {
-            node.removeAttribute("tabindex");
-          } else {
-            node.tabIndex = Number(value);
-          }
-          delete node.dataset.accordionTabindex;
-        }
-      });
-      el.removeAttribute("inert");
-    }
-  }, [open]);
-
-  const clipCss = css({
-    maxHeight: open ? (maxH ? maxH : "none") : 0,
-    overflow: open && !ready ? "visible" : "hidden",
-    transition: ready ? "max-height 0.36s cubic-bezier(.25,.8,.4,1)" : "none",
-    willChange: ready ? "max-height" : undefined,
-  });
-
-  const innerCss = css({
-    opacity: open ? 1 : 0,
-    transform: open ? "translateY(0)" : "translateY(1rem)",
-    transition: ready ? "transform 0.28s ease, opacity 0.28s ease" : "none",
-  });
-
   const iconRotationCss = css({
     "& .plainframe-ui-accordion-icon": {
       transition: "transform 0.3s cubic-bezier(.6,1.3,.5,1)",
@@ -2,6 +2,7 @@
 import React, { createContext, useContext, forwardRef, useMemo, useId } from "react";
 import { css, type Interpolation } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
 import { CircleAlert, CircleCheckBig, Info, TriangleAlert, X } from "lucide-react";
 import type { Theme } from "@emotion/react";
 import { Progress } from "./Progress";
@@ -100,6 +101,7 @@ export const Alert = forwardRef<HTMLDivElement, AlertProps>(function Alert(
   ref
 ) {
   const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
   const titleId = useId();
   const descId = useId();
 
@@ -264,7 +266,7 @@ export const Alert = forwardRef<HTMLDivElement, AlertProps>(function Alert(
           <div className="plainframe-ui-alert-actions" css={rightCss}>
             <button
               type="button"
-              aria-label="Close alert"
+              aria-label={messages.alert.close}
               onClick={onClose}
               disabled={loading}
               className="plainframe-ui-alert-close"
@@ -19,8 +19,13 @@ import {
 import { MenuItem, MenuCheckboxItem, MenuCheckboxGroup, MenuLabel } from "./MenuItems";
 import { ChevronDown } from "lucide-react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatMessage } from "../locale/messages";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
+import { useAnnouncer } from "../utils/announcer";
+import type { VirtualizeOptions } from "../utils/virtualList";
 
-type AutocompleteItem = {
+export type AutocompleteItem = {
   value: string;
   title?: string;
   description?: string;
@@ -34,9 +39,18 @@ type AutocompleteItem = {
 
 type WithCss = { css?: Interpolation<Theme> };
 
-type AutocompleteProps = WithCss & {
+type AutocompleteProps = WithCss & NativeFormProps & {
   items?: AutocompleteItem[];
   onSelect?: (item: AutocompleteItem) => void;
+  // Controls the single selection by item value; `null` clears it.
+  selectedValue?: string | null;
+  // Controls the text in the input.
+  inputValue?: string;
+  onInputChange?: (value: string) => void;
+  // Replaces the built-in match on `title`; items keep the returned order.
+  filterItems?: (items: AutocompleteItem[], query: string) => AutocompleteItem[];
+  // Highlights the first enabled item whenever the list changes, so Enter picks it.
+  autoHighlight?: boolean;
 
   width?: number | string;
   fullWidth?: boolean;
@@ -78,6 +92,7 @@ type AutocompleteProps = WithCss & {
 
   maxHeight?: number | string;
   maxItems?: number;
+  virtualize?: boolean | VirtualizeOptions;
   noResultsText?: string;
 
   highlightTypedValue?: boolean;
@@ -330,6 +345,11 @@ AutocompleteRow.displayName = "AutocompleteRow";
 export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
   items = [],
   onSelect,
+  selectedValue,
+  inputValue: inputValueProp,
+  onInputChange,
+  filterItems,
+  autoHighlight = false,
 
   width = 300,
   fullWidth = false,
@@ -366,7 +386,8 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
 
   maxHeight,
   maxItems,
-  noResultsText = "No Items Found",
+  virtualize = false,
+  noResultsText: noResultsTextProp,
 
   highlightTypedValue,
   typedValueHighlightCss,
@@ -378,7 +399,7 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
 
   loadItems,
   loading: loadingProp,
-  loadingText = "Loading…",
+  loadingText: loadingTextProp,
   debounceMs = 200,
 
   multiple = false,
@@ -398,11 +419,26 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
   textFieldEndIconCss,
 
   menuContentCss,
+
+  name,
+  required,
+  form,
 }) => {
   const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
+  const noResultsText = noResultsTextProp ?? messages.autocomplete.noResults;
+  const loadingText = loadingTextProp ?? messages.autocomplete.loading;
   const descriptionColor = theme.text.secondary;
   
-  const [inputValue, setInputValue] = useState("");
+  const [ucInputValue, setUcInputValue] = useState("");
+  const isInputControlled = inputValueProp !== undefined;
+  const inputValue = isInputControlled ? inputValueProp : ucInputValue;
+  const onInputChangeRef = useRef(onInputChange);
+  onInputChangeRef.current = onInputChange;
+  const setInputValue = useCallback((next: string) => {
+    if (!isInputControlled) setUcInputValue(next);
+    onInputChangeRef.current?.(next);
+  }, [isInputControlled]);
   const isOpenControlled = typeof openProp === "boolean";
   const [ucOpen, setUcOpen] = useState(false);
   const open = isOpenControlled ? (openProp as boolean) : ucOpen;
@@ -489,6 +525,7 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
 
   const filteredBase = useMemo(() => {
     if (isAsync) return effectiveItems;
+    if (filterItems) return filterItems(effectiveItems, inputValue);
     const q = normalize(inputValue);
     if (!q) return effectiveItems;
     
@@ -506,7 +543,7 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
     }
     
     return startsWithMatches.length > 0 ? startsWithMatches : includesMatches;
-  }, [effectiveItems, inputValue, isAsync]);
+  }, [effectiveItems, inputValue, isAsync, filterItems]);
 
   const baseWithFree = useMemo(() => {
     if (allowFree) {
@@ -516,6 +553,17 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
     return filteredBase;
   }, [filteredBase, allowFree, inputValue]);
 
+  // Announced once typing settles, so each keystroke doesn't queue a message.
+  const announce = useAnnouncer();
+  const resultCount = filteredBase.length;
+  useEffect(() => {
+    if (!open || isLoading) return;
+    const handle = window.setTimeout(() => {
+      announce(resultCount ? formatMessage(messages.autocomplete.results, { count: resultCount }) : noResultsText);
+    }, 500);
+    return () => window.clearTimeout(handle);
+  }, [open, isLoading, resultCount, noResultsText, messages, announce]);
+
   const sections = useMemo(() => {
     const order: string[] = [];
     const groups = new Map<string, AutocompleteItem[]>();
@@ -651,7 +699,7 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
     } else {
       requestAnimationFrame(() => inputRef.current?.focus());
     }
-  }, [onSelect, isOpenControlled, closeOnSelect, blurOnSelect]);
+  }, [onSelect, isOpenControlled, closeOnSelect, blurOnSelect, setInputValue]);
 
   const handleInputChange = useCallback((val: string) => {
     if (disabled) return;
@@ -671,7 +719,33 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
     if (!isOpenControlled && !isEmpty && openOnType && !open) {
       requestOpen(true);
     }
-  }, [multiple, isOpenControlled, openOnType, open, requestOpen, disabled, freeSolo, onSelect]);
+  }, [multiple, isOpenControlled, openOnType, open, requestOpen, disabled, freeSolo, onSelect, setInputValue]);
+
+  useEffect(() => {
+    if (multiple || selectedValue === undefined) return;
+    // freeSolo emits the trimmed text while typing; don't write it back over the input.
+    if (freeSolo ? lastFreeSoloValueRef.current === (selectedValue ?? "") : (selectedRef.current?.value ?? null) === selectedValue) return;
+    const it =
+      selectedValue === null
+        ? null
+        : effectiveItemsRef.current.find((o) => o.value === selectedValue) ?? ({ value: selectedValue, title: selectedValue } as AutocompleteItem);
+    lastFreeSoloValueRef.current = it ? (it.title ?? it.value).trim() : "";
+    setSelected(it);
+    setInputValue(it ? it.title ?? it.value : "");
+  }, [multiple, freeSolo, selectedValue, setInputValue]);
+
+  const formInputRef = useRef<HTMLInputElement>(null);
+  useFormReset(formInputRef, () => {
+    if (multiple) {
+      if (!selectedValues) setUcMulti(defaultSelectedValues ?? []);
+      return;
+    }
+    lastFreeSoloValueRef.current = "";
+    setSelected(null);
+    setInputValue("");
+  });
+
+  const formValue = multiple ? currentMulti : freeSolo ? inputValue.trim() : selected?.value ?? "";
 
   const cls = autocompleteClassName;
 
@@ -717,6 +791,33 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
     menuCtxRef.current = ctx;
   }, []);
 
+  const highlight = useCallback((next: number) => {
+    const ctx = menuCtxRef.current;
+    if (!ctx) return;
+    const virtual = ctx.virtualRef?.current;
+
+    ctx.setActiveIndex?.(next);
+    virtual?.scrollToIndex(next);
+
+    requestAnimationFrame(() => {
+      const menuContainer = wrapperRef.current?.querySelector('[data-menu-id]') 
+        ?? document.querySelector('[data-menu-id]');
+      if (!menuContainer) return;
+      
+      menuContainer.setAttribute('data-keyboard-nav', '');
+      
+      menuContainer.querySelectorAll('[data-active]').forEach(el => el.removeAttribute('data-active'));
+      menuContainer.querySelectorAll('[data-hovered]').forEach(el => el.removeAttribute('data-hovered'));
+      
+      const items = menuContainer.querySelectorAll('[role="menuitem"], [role="menuitemcheckbox"]');
+      const item = virtual ? menuContainer.querySelector(`[data-index="${next}"] > *`) : items[next];
+      if (item) {
+        item.setAttribute('data-active', '');
+        (item as HTMLElement).scrollIntoView?.({ block: 'nearest' });
+      }
+    });
+  }, []);
+
   const moveActive = useCallback((direction: 1 | -1) => {
     const ctx = menuCtxRef.current;
     if (!ctx) return;
@@ -726,13 +827,16 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
     
     const container = wrapperRef.current?.querySelector('[data-menu-id]') 
       ?? document.querySelector('[data-menu-id]');
+    const virtual = ctx.virtualRef?.current;
     
     let cur = -1;
     if (container) {
       const items = container.querySelectorAll('[role="menuitem"], [role="menuitemcheckbox"]');
       const activeItem = container.querySelector('[data-active]') || container.querySelector('[data-hovered]');
       if (activeItem) {
-        cur = Array.from(items).indexOf(activeItem as Element);
+        cur = virtual
+          ? Number(activeItem.closest<HTMLElement>('[data-index]')?.dataset.index ?? -1)
+          : Array.from(items).indexOf(activeItem as Element);
       }
     }
     
@@ -744,26 +848,14 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
       ? (direction === 1 ? 0 : total - 1) 
       : (cur + direction + total) % total;
     
-    ctx.setActiveIndex?.(next);
-    
-    requestAnimationFrame(() => {
-      const menuContainer = wrapperRef.current?.querySelector('[data-menu-id]') 
-        ?? document.querySelector('[data-menu-id]');
-      if (!menuContainer) return;
-      
-      menuContainer.setAttribute('data-keyboard-nav', '');
-      
-      menuContainer.querySelectorAll('[data-active]').forEach(el => el.removeAttribute('data-active'));
-      menuContainer.querySelectorAll('[data-hovered]').forEach(el => el.removeAttribute('data-hovered'));
-      
-      const items = menuContainer.querySelectorAll('[role="menuitem"], [role="menuitemcheckbox"]');
-      const item = items[next];
-      if (item) {
-        item.setAttribute('data-active', '');
-        (item as HTMLElement).scrollIntoView?.({ block: 'nearest' });
-      }
-    });
-  }, [flatItems.length]);
+    highlight(next);
+  }, [flatItems.length, highlight]);
+
+  useEffect(() => {
+    if (!autoHighlight || !open) return;
+    const first = flatItems.findIndex((it) => !it.disabled);
+    if (first >= 0) highlight(first);
+  }, [autoHighlight, open, flatItems, highlight]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === " " || e.code === "Space" || e.key === "Spacebar") {
@@ -846,7 +938,7 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
         setInputValue("");
       }
     }
-  }, [closeOnBlur, freeSolo, multiple, selected, inputValue, requestOpen]);
+  }, [closeOnBlur, freeSolo, multiple, selected, inputValue, requestOpen, setInputValue]);
 
   const renderMultipleContent = useCallback(() => {
     const groupChildren: React.ReactNode[] = [];
@@ -1089,11 +1181,22 @@ export const Autocomplete: React.FC<AutocompleteProps> = React.memo(({
             ignoreOutsidePressRefs={ignoreOutsidePressRefs}
             disableOutsidePressDismiss={isOpenControlled}
             returnFocus={!blurOnSelect}
+            virtualize={virtualize}
           >
             {contentNodes}
           </DropdownMenuContent>
         )}
       </DropdownRoot>
+
+      <HiddenInput
+        inputRef={formInputRef}
+        name={name}
+        value={formValue}
+        required={required}
+        form={form}
+        disabled={disabled}
+        onFocus={() => inputRef.current?.focus()}
+      />
     </div>
   );
 });
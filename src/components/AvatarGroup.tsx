@@ -2,6 +2,8 @@
 import React, { Children, isValidElement, cloneElement } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatMessage } from "../locale/messages";
 import { useFocusRing } from "../utils/focusRing";
 
 type AvatarGroupProps = {
@@ -33,6 +35,7 @@ export const AvatarGroup: React.FC<AvatarGroupProps> = ({
   className,
 }) => {
   const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
   const focusRing = useFocusRing();
 
   const resolveDiameter = (): string => {
@@ -98,7 +101,7 @@ export const AvatarGroup: React.FC<AvatarGroupProps> = ({
     <div
       role="group"
       tabIndex={-1}
-      aria-label="Avatar group"
+      aria-label={messages.avatarGroup.label}
       className={`plainframe-ui-avatar-group${className ? ` ${className}` : ""}`}
       css={[containerCss, userCss, focusRing()]}
     >
@@ -149,7 +152,7 @@ export const AvatarGroup: React.FC<AvatarGroupProps> = ({
             }),
             extraLabelCss,
           ]}
-          aria-label={`+${extra} more`}
+          aria-label={formatMessage(messages.avatarGroup.more, { count: extra })}
         >
           +{extra}
         </span>
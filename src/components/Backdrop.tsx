@@ -1,8 +1,9 @@
 /** @jsxImportSource @emotion/react */
-import React, { useEffect, useRef, useState, useMemo } from "react";
+import React, { useContext, useEffect, useRef, useState, useMemo } from "react";
 import { css as emCss, type Interpolation } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
 import type { Theme } from "@emotion/react";
+import { OverlayLayerContext, useOverlayLayer } from "../utils/overlayStack";
 
 type BackdropProps = Omit<React.HTMLAttributes<HTMLDivElement>, "style"> & {
   on: boolean;
@@ -20,6 +21,7 @@ type BackdropProps = Omit<React.HTMLAttributes<HTMLDivElement>, "style"> & {
   className?: string;
   contentClassName?: string;
   lockScroll?: boolean;
+  closeOnEscape?: boolean;
 };
 
 export const Backdrop: React.FC<BackdropProps> = ({
@@ -28,7 +30,7 @@ export const Backdrop: React.FC<BackdropProps> = ({
   blur = false,
   blurDepth = 2.5,
   color,
-  zIndex = 1000,
+  zIndex,
   css: userRootCss,
   contentCss: userContentCss,
   overlayCss: userOverlayCss,
@@ -38,6 +40,7 @@ export const Backdrop: React.FC<BackdropProps> = ({
   className,
   contentClassName,
   lockScroll = true,
+  closeOnEscape = true,
   ...rest
 }) => {
   const theme = usePlainframeUITheme();
@@ -88,33 +91,16 @@ export const Backdrop: React.FC<BackdropProps> = ({
     };
   }, [on, transitionDuration]);
 
-  useEffect(() => {
-    if (!lockScroll || !on) return;
-    const body = document.body;
-    const prevOverflow = body.style.overflow;
-    const prevPad = body.style.paddingRight;
-    const scrollbar = window.innerWidth - document.documentElement.clientWidth;
-    const computedPad = parseFloat(getComputedStyle(body).paddingRight || "0");
-    body.style.overflow = "hidden";
-    if (scrollbar > 0) body.style.paddingRight = `${computedPad + scrollbar}px`;
-    return () => {
-      body.style.overflow = prevOverflow;
-      body.style.paddingRight = prevPad;
-    };
-  }, [on, lockScroll]);
-
-  useEffect(() => {
-    if (!show || !onClickAway) return;
-    const onEsc = (e: KeyboardEvent) => {
-      if (e.key === "Escape") onClickAway();
-    };
-    document.addEventListener("keydown", onEsc);
-    return () => document.removeEventListener("keydown", onEsc);
-  }, [show, onClickAway]);
+  const hostLayer = useContext(OverlayLayerContext);
+  const ownLayer = useOverlayLayer(on && !hostLayer, {
+    lockScroll,
+    onEscape: closeOnEscape ? onClickAway : undefined,
+  });
+  const layer = hostLayer ?? ownLayer;
 
   const handleRootPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
-    if (!show || !onClickAway) return;
-    
+    if (!show || !onClickAway || !layer.isTopmost()) return;
+
     const dialog = contentRef.current?.querySelector('[role="dialog"]');
     if (dialog) {
       const rect = dialog.getBoundingClientRect();
@@ -147,7 +133,7 @@ export const Backdrop: React.FC<BackdropProps> = ({
     inset: 0,
     width: "100vw",
     height: "100vh",
-    zIndex,
+    zIndex: zIndex ?? layer.zIndex,
     display: "grid",
     placeItems: "center",
     pointerEvents: show ? "auto" : "none",
@@ -194,7 +180,7 @@ export const Backdrop: React.FC<BackdropProps> = ({
           .trim()}
         css={[contentBaseCss, userContentCss]}
       >
-        {children}
+        <OverlayLayerContext.Provider value={null}>{children}</OverlayLayerContext.Provider>
       </div>
     </div>
   );
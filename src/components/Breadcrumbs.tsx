@@ -1,7 +1,8 @@
 /** @jsxImportSource @emotion/react */
 import React from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
 import { useFocusRing } from "../utils/focusRing";
 
 type WithCss = { css?: Interpolation<Theme> };
@@ -68,6 +69,9 @@ export const BreadCrumbs: React.FC<BreadCrumbsProps> = React.memo(({
 }) => {
   const theme = usePlainframeUITheme();
   const focusRing = useFocusRing();
+  const dir = useDirection();
+  const { messages } = useLocale();
+  const mirrorSep = dir === "rtl" && typeof separator !== "string" && typeof separator !== "number";
 
   const items = React.useMemo(() =>
     React.Children.toArray(children).flatMap((child) => {
@@ -109,7 +113,8 @@ export const BreadCrumbs: React.FC<BreadCrumbsProps> = React.memo(({
     justifyContent: "center",
     alignItems: "center",
     display: "flex",
-  }), [theme]);
+    transform: mirrorSep ? "scaleX(-1)" : undefined,
+  }), [theme, mirrorSep]);
 
   const makeCrumbCss = React.useCallback((
     isLast: boolean,
@@ -153,7 +158,7 @@ export const BreadCrumbs: React.FC<BreadCrumbsProps> = React.memo(({
 
   return (
     <nav
-      aria-label="Breadcrumb"
+      aria-label={messages.breadcrumbs.label}
       className={["plainframe-ui-breadcrumbs", className || ""]
         .join(" ")
         .trim()}
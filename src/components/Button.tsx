@@ -9,6 +9,7 @@ import { css, type Interpolation, type Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
 import type { PlainframeUITheme, Scale } from "../theme/theme";
 import { useFocusRing } from "../utils/focusRing";
+import { FORCED_COLORS } from "../utils/forcedColors";
 import { Progress } from "./Progress";
 
 export type ButtonVariant =
@@ -307,8 +308,13 @@ export const Button = React.memo(
             backgroundColor: vis.bg,
             color: vis.fg,
             border: vis.border,
+            [FORCED_COLORS]: {
+              border: `1px solid ${nonInteractive ? "GrayText" : "ButtonText"}`,
+              color: nonInteractive ? "GrayText" : "ButtonText",
+              backgroundColor: "ButtonFace",
+            },
           }),
-        [vis]
+        [vis, nonInteractive]
       );
 
       const hoverOverlayCss = useMemo(
@@ -0,0 +1,413 @@
+/** @jsxImportSource @emotion/react */
+import React, { forwardRef, useEffect, useId, useRef, useState } from "react";
+import { css, type Interpolation, type Theme } from "@emotion/react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { useFocusRing } from "../utils/focusRing";
+import { logicalArrowKey } from "../utils/direction";
+import {
+  addDays,
+  addMonths,
+  compareDays,
+  dateFormat,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  toISODate,
+  weekStartFor,
+  type DateRange,
+  type Weekday,
+} from "../utils/dates";
+
+type SizeKey = "sm" | "md" | "lg";
+
+type CalendarBaseProps = {
+  min?: Date;
+  max?: Date;
+  isDateDisabled?: (date: Date) => boolean;
+  weekStartsOn?: Weekday;
+  month?: Date;
+  defaultMonth?: Date;
+  onMonthChange?: (month: Date) => void;
+  numberOfMonths?: number;
+  showOutsideDays?: boolean;
+  size?: SizeKey;
+  autoFocus?: boolean;
+  "aria-label"?: string;
+  className?: string;
+  css?: Interpolation<Theme>;
+};
+
+export type CalendarSingleProps = CalendarBaseProps & {
+  mode?: "single";
+  value?: Date | null;
+  defaultValue?: Date | null;
+  onChange?: (date: Date) => void;
+};
+
+export type CalendarRangeProps = CalendarBaseProps & {
+  mode: "range";
+  value?: DateRange;
+  defaultValue?: DateRange;
+  onChange?: (range: DateRange) => void;
+};
+
+export type CalendarProps = CalendarSingleProps | CalendarRangeProps;
+
+const EMPTY_RANGE: DateRange = { start: null, end: null };
+
+const u = (v: number | string) => (typeof v === "number" ? `${v}px` : v);
+
+// 2021-01-03 was a Sunday; offsetting from it yields each weekday without depending on "today".
+const weekdayDate = (day: number) => new Date(2021, 0, 3 + day);
+
+const weekOffset = (d: Date, weekStart: Weekday) => (d.getDay() - weekStart + 7) % 7;
+
+export const Calendar = forwardRef<HTMLDivElement, CalendarProps>(function Calendar(props, ref) {
+  const {
+    min,
+    max,
+    isDateDisabled,
+    weekStartsOn,
+    month: monthProp,
+    defaultMonth,
+    onMonthChange,
+    numberOfMonths = 1,
+    showOutsideDays = numberOfMonths === 1,
+    size = "md",
+    autoFocus,
+    className,
+    css: cssOverride,
+  } = props;
+
+  const theme = usePlainframeUITheme();
+  const dir = useDirection();
+  const rtl = dir === "rtl";
+  const { locale, messages, formatNumber } = useLocale();
+  const t = messages.calendar;
+  const focusRing = useFocusRing();
+  const ids = useId();
+
+  const isRange = props.mode === "range";
+  const controlled = props.value !== undefined;
+  const [inner, setInner] = useState<Date | DateRange | null>(
+    () => props.defaultValue ?? (isRange ? EMPTY_RANGE : null)
+  );
+  const selection = controlled ? props.value : inner;
+  const single = isRange ? null : ((selection as Date | null | undefined) ?? null);
+  const range = isRange ? ((selection as DateRange | null | undefined) ?? EMPTY_RANGE) : EMPTY_RANGE;
+
+  const today = startOfDay(new Date());
+  const anchor = (isRange ? range.start : single) ?? today;
+
+  const [innerMonth, setInnerMonth] = useState(() => startOfMonth(defaultMonth ?? anchor));
+  const month = startOfMonth(monthProp ?? innerMonth);
+  const lastMonth = addMonths(month, numberOfMonths - 1);
+  const afterLast = addMonths(lastMonth, 1);
+
+  const setMonth = (m: Date) => {
+    const next = startOfMonth(m);
+    if (compareDays(next, month) === 0) return;
+    if (monthProp === undefined) setInnerMonth(next);
+    onMonthChange?.(next);
+  };
+
+  const [focused, setFocused] = useState(() => startOfDay(anchor));
+  const [preview, setPreview] = useState<Date | null>(null);
+  const focusPending = useRef(!!autoFocus);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  const isVisible = (d: Date) => compareDays(d, month) >= 0 && compareDays(d, afterLast) < 0;
+  const tabDate = isVisible(focused) ? focused : isVisible(anchor) ? startOfDay(anchor) : month;
+
+  const isDisabled = (d: Date) =>
+    (!!min && compareDays(d, min) < 0) || (!!max && compareDays(d, max) > 0) || !!isDateDisabled?.(d);
+
+  const revealMonth = (d: Date) => {
+    if (compareDays(d, month) < 0) setMonth(d);
+    else if (compareDays(d, afterLast) >= 0) setMonth(addMonths(startOfMonth(d), 1 - numberOfMonths));
+  };
+
+  useEffect(() => {
+    if (!focusPending.current) return;
+    focusPending.current = false;
+    rootRef.current?.querySelector<HTMLElement>(`[data-date="${toISODate(tabDate)}"]`)?.focus();
+  });
+
+  const select = (d: Date) => {
+    if (isDisabled(d)) return;
+    setFocused(d);
+    revealMonth(d);
+    if (props.mode === "range") {
+      const next: DateRange =
+        !range.start || range.end
+          ? { start: d, end: null }
+          : compareDays(d, range.start) < 0
+          ? { start: d, end: range.start }
+          : { start: range.start, end: d };
+      setPreview(null);
+      if (!controlled) setInner(next);
+      props.onChange?.(next);
+    } else {
+      if (!controlled) setInner(d);
+      props.onChange?.(d);
+    }
+  };
+
+  const weekStart = weekStartsOn ?? weekStartFor(locale);
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.target as HTMLElement).hasAttribute("data-date")) return;
+    const from = tabDate;
+    let next: Date;
+    switch (logicalArrowKey(e.key, dir)) {
+      case "ArrowLeft": next = addDays(from, -1); break;
+      case "ArrowRight": next = addDays(from, 1); break;
+      case "ArrowUp": next = addDays(from, -7); break;
+      case "ArrowDown": next = addDays(from, 7); break;
+      case "Home": next = addDays(from, -weekOffset(from, weekStart)); break;
+      case "End": next = addDays(from, 6 - weekOffset(from, weekStart)); break;
+      case "PageUp": next = addMonths(from, e.shiftKey ? -12 : -1); break;
+      case "PageDown": next = addMonths(from, e.shiftKey ? 12 : 1); break;
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        select(from);
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    if (min && compareDays(next, min) < 0) next = startOfDay(min);
+    if (max && compareDays(next, max) > 0) next = startOfDay(max);
+    setFocused(next);
+    revealMonth(next);
+    if (isRange && range.start && !range.end) setPreview(next);
+    focusPending.current = true;
+  };
+
+  const prevDisabled = !!min && compareDays(month, startOfMonth(min)) <= 0;
+  const nextDisabled = !!max && compareDays(lastMonth, startOfMonth(max)) >= 0;
+
+  // Range band: the committed range, or start → hovered/focused day while the end is still open.
+  const bandEnd = range.end ?? (range.start ? preview : null);
+  const [lo, hi] =
+    range.start && bandEnd
+      ? compareDays(range.start, bandEnd) <= 0
+        ? [range.start, bandEnd]
+        : [bandEnd, range.start]
+      : [range.start, range.start];
+
+  const cell = u(theme.componentHeights[size]);
+  const accent = theme.palette.primary[600];
+  const band = `color-mix(in srgb, ${accent} 14%, transparent)`;
+  const fontSize = size === "lg" ? theme.typography.sizes.md : theme.typography.sizes.sm;
+
+  const rootCss = css({
+    display: "inline-flex",
+    flexWrap: "wrap",
+    gap: theme.spacing.lg,
+    color: theme.text.primary,
+    userSelect: "none",
+  });
+
+  const headerCss = css({
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  });
+
+  const navCss = css([
+    {
+      width: 28,
+      height: 28,
+      display: "inline-flex",
+      alignItems: "center",
+      justifyContent: "center",
+      padding: 0,
+      border: "none",
+      borderRadius: theme.radius.sm,
+      background: "transparent",
+      color: theme.text.primary,
+      cursor: "pointer",
+      ":hover:not(:disabled)": { background: theme.surface.subtleHover },
+      ":disabled": { opacity: 0.4, cursor: "not-allowed" },
+    },
+    focusRing(),
+  ]);
+
+  const tableCss = css({
+    borderCollapse: "separate",
+    borderSpacing: "0 2px",
+    "th, td": { padding: 0, textAlign: "center" },
+    th: {
+      height: cell,
+      fontSize: theme.typography.sizes.xs,
+      fontWeight: 500,
+      color: theme.text.secondary,
+    },
+    "td[data-in-range]": { background: band },
+    "td[data-range-start]": { borderStartStartRadius: theme.radius.md, borderEndStartRadius: theme.radius.md },
+    "td[data-range-end]": { borderStartEndRadius: theme.radius.md, borderEndEndRadius: theme.radius.md },
+  });
+
+  const dayCss = css([
+    {
+      width: cell,
+      height: cell,
+      padding: 0,
+      border: "none",
+      borderRadius: theme.radius.md,
+      background: "transparent",
+      color: "inherit",
+      fontSize,
+      fontVariantNumeric: "tabular-nums",
+      cursor: "pointer",
+      ":hover:not([aria-disabled='true']):not([data-selected])": { background: theme.surface.subtleHover },
+      "&[data-outside]": { color: theme.text.muted },
+      "&[aria-current='date']": { fontWeight: 700, boxShadow: `inset 0 0 0 1px ${theme.surface.border}` },
+      "&[data-selected]": { background: accent, color: theme.text.onColors.primary, boxShadow: "none" },
+      "&[aria-disabled='true']": { opacity: 0.4, cursor: "not-allowed", textDecoration: "line-through" },
+    },
+    focusRing(),
+  ]);
+
+  const PrevIcon = rtl ? ChevronRight : ChevronLeft;
+  const NextIcon = rtl ? ChevronLeft : ChevronRight;
+  const titleFormat = dateFormat(locale, { month: "long", year: "numeric" });
+  const dayFormat = dateFormat(locale, { weekday: "long", year: "numeric", month: "long", day: "numeric" });
+  const weekdayShort = dateFormat(locale, { weekday: "short" });
+  const weekdayLong = dateFormat(locale, { weekday: "long" });
+  const weekdays = Array.from({ length: 7 }, (_, i) => weekdayDate((weekStart + i) % 7));
+
+  const renderDay = (day: Date, shown: Date) => {
+    const key = toISODate(day);
+    const outside = !isSameMonth(day, shown);
+    if (outside && !showOutsideDays) return <td key={key} role="gridcell" />;
+
+    const disabled = isDisabled(day);
+    const inBand = isRange && !!lo && !!hi && compareDays(day, lo) >= 0 && compareDays(day, hi) <= 0;
+    const committed = isRange ? inBand && !!range.end : isSameDay(day, single);
+    const selected = isRange ? isSameDay(day, range.start) || isSameDay(day, range.end) : committed;
+
+    return (
+      <td
+        key={key}
+        role="gridcell"
+        aria-selected={committed || selected}
+        data-in-range={inBand && !outside ? "" : undefined}
+        data-range-start={inBand && !outside && isSameDay(day, lo) ? "" : undefined}
+        data-range-end={inBand && !outside && isSameDay(day, hi) ? "" : undefined}
+      >
+        <button
+          type="button"
+          className="plainframe-ui-calendar-day"
+          css={dayCss}
+          data-date={key}
+          data-outside={outside ? "" : undefined}
+          data-selected={selected && !outside ? "" : undefined}
+          tabIndex={!outside && isSameDay(day, tabDate) ? 0 : -1}
+          aria-label={dayFormat.format(day)}
+          aria-current={isSameDay(day, today) ? "date" : undefined}
+          aria-disabled={disabled || undefined}
+          onClick={() => select(day)}
+          onMouseEnter={isRange && range.start && !range.end ? () => setPreview(day) : undefined}
+          onFocus={() => {
+            if (!isSameDay(day, focused) && !outside) setFocused(day);
+          }}
+        >
+          {formatNumber(day.getDate())}
+        </button>
+      </td>
+    );
+  };
+
+  const renderMonth = (shown: Date, index: number) => {
+    const first = addDays(shown, -weekOffset(shown, weekStart));
+    const titleId = `${ids}-title-${index}`;
+    return (
+      <div key={index} className="plainframe-ui-calendar-month">
+        <div className="plainframe-ui-calendar-header" css={headerCss}>
+          {index === 0 ? (
+            <button
+              type="button"
+              css={navCss}
+              aria-label={t.previousMonth}
+              disabled={prevDisabled}
+              onClick={() => setMonth(addMonths(month, -1))}
+            >
+              <PrevIcon size={16} />
+            </button>
+          ) : (
+            <span css={{ width: 28 }} />
+          )}
+          <div
+            id={titleId}
+            aria-live="polite"
+            className="plainframe-ui-calendar-title"
+            css={{ fontSize: theme.typography.sizes.sm, fontWeight: 600 }}
+          >
+            {titleFormat.format(shown)}
+          </div>
+          {index === numberOfMonths - 1 ? (
+            <button
+              type="button"
+              css={navCss}
+              aria-label={t.nextMonth}
+              disabled={nextDisabled}
+              onClick={() => setMonth(addMonths(month, 1))}
+            >
+              <NextIcon size={16} />
+            </button>
+          ) : (
+            <span css={{ width: 28 }} />
+          )}
+        </div>
+        <table
+          role="grid"
+          aria-labelledby={titleId}
+          css={tableCss}
+          onMouseLeave={isRange ? () => setPreview(null) : undefined}
+        >
+          <thead>
+            <tr>
+              {weekdays.map((d) => (
+                <th key={d.getDay()} scope="col" abbr={weekdayLong.format(d)}>
+                  {weekdayShort.format(d)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: 6 }, (_, w) => (
+              <tr key={w}>{Array.from({ length: 7 }, (_, d) => renderDay(addDays(first, w * 7 + d), shown))}</tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={(node) => {
+        rootRef.current = node;
+        if (typeof ref === "function") ref(node);
+        else if (ref) ref.current = node;
+      }}
+      role="group"
+      aria-label={props["aria-label"]}
+      className={["plainframe-ui-calendar", className].filter(Boolean).join(" ")}
+      css={[rootCss, cssOverride]}
+      onKeyDown={onKeyDown}
+    >
+      {Array.from({ length: numberOfMonths }, (_, i) => renderMonth(addMonths(month, i), i))}
+    </div>
+  );
+});
+
+Calendar.displayName = "Calendar";
@@ -1,17 +1,22 @@
 /** @jsxImportSource @emotion/react */
-import React, { useCallback, useMemo, useState, forwardRef } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState, forwardRef } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { mergeRefs } from "./Popover";
 import { useFocusRing } from "../utils/focusRing";
+import { FORCED_COLORS } from "../utils/forcedColors";
+import { useFormReset, type NativeFormProps } from "../utils/formInput";
 
 type WithCssProp = { css?: Interpolation<Theme> };
 type CheckboxSize = "sm" | "md" | "lg";
 
-type CheckboxProps = WithCssProp & {
+type CheckboxProps = WithCssProp & NativeFormProps & {
   checked?: boolean;
   defaultChecked?: boolean;
+  indeterminate?: boolean;
   onChange?: (checked: boolean) => void;
   disabled?: boolean;
+  value?: string;
   size?: CheckboxSize;
   label?: React.ReactNode;
   description?: React.ReactNode;
@@ -31,6 +36,8 @@ type CheckboxProps = WithCssProp & {
   labelCss?: Interpolation<Theme>;
   descriptionCss?: Interpolation<Theme>;
   className?: string;
+  tabIndex?: number;
+  "aria-label"?: string;
 };
 
 const getSize = (theme: ReturnType<typeof usePlainframeUITheme>, size: CheckboxSize) => {
@@ -72,8 +79,13 @@ export const Checkbox = React.memo(forwardRef<HTMLLabelElement, CheckboxProps>(
     {
       checked,
       defaultChecked = false,
+      indeterminate = false,
       onChange,
       disabled = false,
+      name,
+      value,
+      required,
+      form,
       size = "md",
       label,
       description,
@@ -86,6 +98,8 @@ export const Checkbox = React.memo(forwardRef<HTMLLabelElement, CheckboxProps>(
       labelCss: userLabelCss,
       descriptionCss: userDescriptionCss,
       className,
+      tabIndex,
+      "aria-label": ariaLabel,
       ...props
     },
     ref
@@ -96,6 +110,16 @@ export const Checkbox = React.memo(forwardRef<HTMLLabelElement, CheckboxProps>(
     const isControlled = typeof checked === "boolean";
     const [internalChecked, setInternalChecked] = useState<boolean>(defaultChecked);
     const isOn = isControlled ? (checked as boolean) : internalChecked;
+    const mixed = indeterminate && !isOn;
+
+    const rootRef = useRef<HTMLLabelElement | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    useEffect(() => {
+      if (inputRef.current) inputRef.current.indeterminate = mixed;
+    }, [mixed]);
+    useFormReset(inputRef, () => {
+      if (!isControlled) setInternalChecked(defaultChecked);
+    });
 
     const sizeKey: CheckboxSize = size === "sm" || size === "lg" ? size : "md";
     const S = useMemo(() => getSize(theme, sizeKey), [theme, sizeKey]);
@@ -162,13 +186,13 @@ export const Checkbox = React.memo(forwardRef<HTMLLabelElement, CheckboxProps>(
             backgroundColor: hoverBg as string,
           },
 
-          "input:checked + .plainframe-ui-checkbox-box": {
+          "input:checked + .plainframe-ui-checkbox-box, &[data-state='indeterminate'] .plainframe-ui-checkbox-box": {
             backgroundColor: checkedBg,
             outlineColor: checkedBg,
             "--pfui-bleed": checkedBg as string,
           },
 
-          '&:not([data-disabled="true"]):hover input:checked + .plainframe-ui-checkbox-box': {
+          '&:not([data-disabled="true"]):hover input:checked + .plainframe-ui-checkbox-box, &:not([data-disabled="true"])[data-state="indeterminate"]:hover .plainframe-ui-checkbox-box': {
             outlineColor: checkedBg,
             backgroundColor: checkedBg,
             "--pfui-bleed": checkedBg as string,
@@ -178,10 +202,23 @@ export const Checkbox = React.memo(forwardRef<HTMLLabelElement, CheckboxProps>(
             opacity: 0,
             transform: "scale(0.2)",
           },
-          "input:checked + .plainframe-ui-checkbox-box .plainframe-ui-checkbox-check": {
+          "input:checked + .plainframe-ui-checkbox-box .plainframe-ui-checkbox-check, &[data-state='indeterminate'] .plainframe-ui-checkbox-check": {
             opacity: 1,
             transform: "scale(1)",
           },
+
+          [FORCED_COLORS]: {
+            ".plainframe-ui-checkbox-box": {
+              forcedColorAdjust: "none",
+              backgroundColor: "Canvas !important",
+              outlineColor: `${disabled ? "GrayText" : "CanvasText"} !important`,
+            },
+            "input:checked + .plainframe-ui-checkbox-box, &[data-state='indeterminate'] .plainframe-ui-checkbox-box": {
+              backgroundColor: `${disabled ? "GrayText" : "Highlight"} !important`,
+              outlineColor: `${disabled ? "GrayText" : "Highlight"} !important`,
+            },
+            ".plainframe-ui-checkbox-check svg": { stroke: "HighlightText" },
+          },
         }),
       [borderCol, checkedBg, description, disabled, gapPx, hoverBg, label, theme.radius.sm, theme.spacing.xs]
     );
@@ -317,21 +354,28 @@ export const Checkbox = React.memo(forwardRef<HTMLLabelElement, CheckboxProps>(
 
     return (
       <label
-        ref={ref}
+        ref={mergeRefs(ref, rootRef)}
         role="checkbox"
-        aria-checked={isOn}
+        aria-checked={mixed ? "mixed" : isOn}
         aria-disabled={disabled || undefined}
-        data-state={isOn ? "checked" : "unchecked"}
+        aria-label={ariaLabel}
+        data-state={mixed ? "indeterminate" : isOn ? "checked" : "unchecked"}
         className={["plainframe-ui-checkbox", className || ""].join(" ").trim()}
         css={[rootCss, focusRing({ color: isOn ? "primary" : "neutral" }), userCss, disabled ? css({ opacity: 0.6 }) : null]}
         data-disabled={disabled ? "true" : "false"}
-        tabIndex={!disabled ? 0 : -1}
+        tabIndex={!disabled ? tabIndex ?? 0 : -1}
         onKeyDown={onKeyDown}
       >
         <input
+          ref={inputRef}
           type="checkbox"
+          name={name}
+          value={value ?? "on"}
+          required={required}
+          form={form}
           checked={isOn}
           onChange={toggle}
+          onFocus={() => rootRef.current?.focus()}
           disabled={disabled}
           css={inputCss}
           {...props}
@@ -340,6 +384,20 @@ export const Checkbox = React.memo(forwardRef<HTMLLabelElement, CheckboxProps>(
 
         <span className="plainframe-ui-checkbox-box" css={[boxBase, userBoxCss]} aria-hidden="true">
           <span className="plainframe-ui-checkbox-check" css={[checkBaseCss, userCheckCss]}>
+            {mixed && (
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke={checkColor}
+                strokeWidth={3}
+                strokeLinecap="round"
+                css={css({ width: "100%", height: "100%", display: "block" })}
+                aria-hidden="true"
+                focusable="false"
+              >
+                <line x1="5" y1="12" x2="19" y2="12" />
+              </svg>
+            )}
             {isOn &&
               (checkedIcon || (
                 <svg
@@ -2,6 +2,7 @@
 import React, { useMemo, useCallback, forwardRef } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
 import { useFocusRing } from "../utils/focusRing";
 import { X } from "lucide-react";
 
@@ -116,6 +117,7 @@ export const Chip: React.ForwardRefExoticComponent<
   ref
 ): React.ReactElement {
   const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
   const focusRing = useFocusRing();
 
   const sizeKey: ChipSize = (["sm", "md", "lg"].includes(size) ? size : "md") as ChipSize;
@@ -365,7 +367,7 @@ export const Chip: React.ForwardRefExoticComponent<
       {onDelete && (
         <button
           type="button"
-          aria-label="Delete"
+          aria-label={messages.chip.delete}
           disabled={disabled}
           tabIndex={0}
           onClick={(e) => {
@@ -4,12 +4,13 @@ import { css, type Interpolation, type Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
 import { useFocusRing } from "../utils/focusRing";
 import type { PlainframeUITheme } from "../theme/theme";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
 
 type SizeKey = "sm" | "md" | "lg";
 type Variant = "outlined" | "subtle" | "ghost";
 type WithCss = { css?: Interpolation<Theme> };
 
-export type CodeFieldProps = WithCss & {
+export type CodeFieldProps = WithCss & NativeFormProps & {
   label?: React.ReactNode;
   value?: string;
   defaultValue?: string;
@@ -302,9 +303,14 @@ export const CodeField: React.FC<CodeFieldProps> = ({
   helperRowCss: userHelperRowCss,
   helperTextCss: userHelperTextCss,
   css: userLayoutCss,
+  name,
+  required,
+  form,
 }) => {
   const theme = usePlainframeUITheme();
   const labelId = useId();
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   const sizeMap = useMemo(
     () =>
@@ -353,6 +359,10 @@ export const CodeField: React.FC<CodeFieldProps> = ({
     onChange?.(next);
   };
 
+  useFormReset(inputRef, () => {
+    if (!isControlled) setInternal(defaultValue);
+  });
+
   const len = Math.max(2, Math.min(length, 10));
   const defaultGap = theme.spacing.sm;
   const gapPx = u(gap ?? defaultGap) ?? "0px";
@@ -455,6 +465,7 @@ export const CodeField: React.FC<CodeFieldProps> = ({
 
   return (
     <div
+      ref={rootRef}
       className={["plainframe-ui-codefield", className || ""].join(" ").trim()}
       css={rootCss}
     >
@@ -489,6 +500,20 @@ export const CodeField: React.FC<CodeFieldProps> = ({
         />
       </div>
 
+      <HiddenInput
+        inputRef={inputRef}
+        name={name}
+        value={curr || ""}
+        required={required}
+        form={form}
+        disabled={disabled}
+        pattern={`.{${len}}`}
+        onFocus={() => {
+          const boxes = rootRef.current?.querySelectorAll<HTMLInputElement>(".plainframe-ui-code-box");
+          boxes?.[Math.min((curr || "").length, len - 1)]?.focus();
+        }}
+      />
+
       {helperText != null && (
         <div className="plainframe-ui-codefield-helper" css={helperRowCss}>
           <span className="plainframe-ui-codefield-helper-text" css={helperTextCss}>
@@ -0,0 +1,379 @@
+/** @jsxImportSource @emotion/react */
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { css, type Interpolation, type Theme } from "@emotion/react";
+import { ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { useHotkey } from "../hotkeys/HotkeysProvider";
+import { Modal, ModalContent } from "./Modal";
+import { Autocomplete, type AutocompleteItem } from "./Autocomplete";
+import { Kbd } from "./Kbd";
+
+export type Command = {
+  id: string;
+  title: string;
+  description?: string;
+  group?: string;
+  icon?: React.ReactNode;
+  shortcut?: string;
+  keywords?: string[];
+  disabled?: boolean;
+  closeOnSelect?: boolean;
+  onSelect?: () => void;
+  commands?: Command[];
+  placeholder?: string;
+};
+
+export type CommandPaletteProps = {
+  commands?: Command[];
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  hotkey?: string | false;
+  placeholder?: string;
+  noResultsText?: string;
+  recent?: number;
+  storageKey?: string;
+  width?: number | string;
+  maxHeight?: number | string;
+  onSelect?: (command: Command) => void;
+  className?: string;
+  containerCss?: Interpolation<Theme>;
+  listCss?: Interpolation<Theme>;
+};
+
+let seq = 0;
+const registry = {
+  sets: new Map<number, Command[]>(),
+  listeners: new Set<() => void>(),
+  snapshot: [] as Command[],
+  subscribe(fn: () => void) {
+    registry.listeners.add(fn);
+    return () => {
+      registry.listeners.delete(fn);
+    };
+  },
+  get: (): Command[] => registry.snapshot,
+  notify() {
+    registry.snapshot = Array.from(registry.sets.values()).flat();
+    registry.listeners.forEach((fn) => fn());
+  },
+};
+
+export function registerCommands(commands: Command[]): () => void {
+  const id = ++seq;
+  registry.sets.set(id, commands);
+  registry.notify();
+  return () => {
+    registry.sets.delete(id);
+    registry.notify();
+  };
+}
+
+export function useCommands(commands: Command[]): void {
+  const idRef = useRef(0);
+
+  useEffect(() => {
+    const id = ++seq;
+    idRef.current = id;
+    return () => {
+      registry.sets.delete(id);
+      registry.notify();
+    };
+  }, []);
+
+  useEffect(() => {
+    registry.sets.set(idRef.current, commands);
+    registry.notify();
+  }, [commands]);
+}
+
+const recentMemory = new Map<string, string[]>();
+
+function readRecent(storageKey?: string): string[] {
+  const key = storageKey ?? "";
+  if (!recentMemory.has(key)) {
+    let ids: string[] = [];
+    if (storageKey && typeof localStorage !== "undefined") {
+      try {
+        const parsed = JSON.parse(localStorage.getItem(storageKey) || "[]");
+        if (Array.isArray(parsed)) ids = parsed.filter((v) => typeof v === "string");
+      } catch {}
+    }
+    recentMemory.set(key, ids);
+  }
+  return recentMemory.get(key)!;
+}
+
+function pushRecent(id: string, limit: number, storageKey?: string): void {
+  const next = [id, ...readRecent(storageKey).filter((v) => v !== id)].slice(0, Math.max(limit, 0));
+  recentMemory.set(storageKey ?? "", next);
+  if (storageKey && typeof localStorage !== "undefined") {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(next));
+    } catch {}
+  }
+}
+
+const normalize = (s: string) =>
+  s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/\s+/g, " ").trim().toLowerCase();
+
+const WORD_START = " -_/.:";
+
+function fuzzyScore(query: string, text: string): number | null {
+  const t = normalize(text);
+  let score = 0;
+  let from = 0;
+  let prev = -2;
+  for (const ch of query) {
+    if (ch === " ") continue;
+    const idx = t.indexOf(ch, from);
+    if (idx < 0) return null;
+    score += 1;
+    if (idx === prev + 1) score += 2;
+    if (idx === 0 || WORD_START.includes(t[idx - 1])) score += 3;
+    prev = idx;
+    from = idx + 1;
+  }
+  return score - t.length * 0.01;
+}
+
+type Row = { command: Command; parents: Command[] };
+
+function flatten(commands: Command[], parents: Command[] = [], out: Row[] = []): Row[] {
+  for (const command of commands) {
+    out.push({ command, parents });
+    if (command.commands) flatten(command.commands, [...parents, command], out);
+  }
+  return out;
+}
+
+const cls = (s: string) => `plainframe-ui-command-palette${s ? `-${s}` : ""}`;
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  commands: commandsProp,
+  open: openProp,
+  defaultOpen = false,
+  onOpenChange,
+  hotkey = "mod+k",
+  placeholder,
+  noResultsText,
+  recent = 5,
+  storageKey,
+  width = 560,
+  maxHeight = 360,
+  onSelect,
+  className,
+  containerCss,
+  listCss,
+}) => {
+  const theme = usePlainframeUITheme();
+  const dir = useDirection();
+  const { messages } = useLocale();
+
+  const isControlled = typeof openProp === "boolean";
+  const [ucOpen, setUcOpen] = useState(defaultOpen);
+  const open = isControlled ? (openProp as boolean) : ucOpen;
+
+  const setOpen = useCallback(
+    (next: boolean) => {
+      if (!isControlled) setUcOpen(next);
+      onOpenChange?.(next);
+    },
+    [isControlled, onOpenChange]
+  );
+
+  useHotkey(hotkey, () => setOpen(!open), { scope: "global", enableInInputs: true });
+
+  const registered = useSyncExternalStore(registry.subscribe, registry.get, registry.get);
+  const rootCommands = useMemo(
+    () => (commandsProp ? [...commandsProp, ...registered] : registered),
+    [commandsProp, registered]
+  );
+
+  const [query, setQuery] = useState("");
+  const [pages, setPages] = useState<Command[]>([]);
+  const [recentIds, setRecentIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setPages([]);
+    setRecentIds(recent > 0 ? readRecent(storageKey) : []);
+  }, [open, recent, storageKey]);
+
+  const page = pages[pages.length - 1];
+  const scope = page?.commands ?? rootCommands;
+  const Separator = dir === "rtl" ? ChevronLeft : ChevronRight;
+
+  // Every command reachable from the current page, nested ones included so search can find them.
+  const rows = useMemo(() => flatten(scope), [scope]);
+  const rowsById = useMemo(() => new Map(rows.map((r) => [r.command.id, r])), [rows]);
+
+  const items = useMemo<AutocompleteItem[]>(
+    () =>
+      rows.map(({ command, parents }) => ({
+        value: command.id,
+        title: parents.length ? `${parents.map((p) => p.title).join(" › ")} › ${command.title}` : command.title,
+        description: command.description,
+        group: command.group,
+        disabled: command.disabled,
+        startIcon: command.icon,
+        endIcon: command.commands ? (
+          <Separator size={16} />
+        ) : command.shortcut ? (
+          <Kbd shortcut={command.shortcut} />
+        ) : undefined,
+        keywords: command.keywords,
+        depth: parents.length,
+      })),
+    [rows, Separator]
+  );
+
+  const filterItems = useCallback(
+    (list: AutocompleteItem[], input: string): AutocompleteItem[] => {
+      const q = normalize(input);
+      if (!q) {
+        const top = list.filter((it) => it.depth === 0);
+        if (page || !recentIds.length) return top;
+        const byId = new Map(list.map((it) => [it.value, it]));
+        const recents = recentIds
+          .map((id) => byId.get(id))
+          .filter((it): it is AutocompleteItem => !!it && !rowsById.get(it.value)?.command.commands && !it.disabled)
+          .map((it) => ({ ...it, group: messages.commandPalette.recent }));
+        return [...recents, ...top];
+      }
+
+      const scored: Array<{ item: AutocompleteItem; score: number }> = [];
+      for (const item of list) {
+        const row = rowsById.get(item.value);
+        if (!row) continue;
+        const { title, keywords = [] } = row.command;
+        let best = fuzzyScore(q, title);
+        for (const k of keywords) {
+          const s = fuzzyScore(q, k);
+          if (s != null && (best == null || s - 1 > best)) best = s - 1;
+        }
+        if (best == null && row.parents.length) {
+          const s = fuzzyScore(q, `${row.parents.map((p) => p.title).join(" ")} ${title}`);
+          if (s != null) best = s - 2;
+        }
+        if (best != null) scored.push({ item, score: best });
+      }
+      return scored.sort((a, b) => b.score - a.score).map((s) => s.item);
+    },
+    [page, recentIds, rowsById, messages.commandPalette.recent]
+  );
+
+  const fieldRef = useRef<HTMLDivElement>(null);
+
+  const goBack = () => {
+    setPages((p) => p.slice(0, -1));
+    setQuery("");
+    fieldRef.current?.querySelector("input")?.focus();
+  };
+
+  const run = (item: AutocompleteItem | null) => {
+    // Autocomplete reports `null` when the input is cleared.
+    const row = item && rowsById.get(item.value);
+    if (!row || row.command.disabled) return;
+    const { command } = row;
+    if (command.commands) {
+      setPages((p) => [...p, ...row.parents, command]);
+      setQuery("");
+      return;
+    }
+    if (recent > 0) pushRecent(command.id, recent, storageKey);
+    command.onSelect?.();
+    onSelect?.(command);
+    if (command.closeOnSelect !== false) setOpen(false);
+  };
+
+  // Runs before Autocomplete's own handler, which keeps Escape from reaching the modal.
+  const onKeyDownCapture = (e: React.KeyboardEvent) => {
+    if (e.nativeEvent.isComposing) return;
+    const back = pages.length > 0 && (e.key === "Escape" || (e.key === "Backspace" && !query));
+    if (!back && e.key !== "Escape") return;
+    e.preventDefault();
+    e.stopPropagation();
+    // Escape on a nested page goes back instead of closing the palette.
+    if (back) goBack();
+    else setOpen(false);
+  };
+
+  const BackIcon = dir === "rtl" ? ChevronRight : ChevronLeft;
+
+  const headerCss = css({
+    display: "flex",
+    alignItems: "center",
+    gap: theme.spacing.xs,
+    padding: `${theme.spacing.sm} ${theme.spacing.md} 0`,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.text.secondary,
+  });
+
+  const backCss = css({
+    all: "unset",
+    display: "inline-flex",
+    alignItems: "center",
+    cursor: "pointer",
+    borderRadius: theme.radius.sm,
+    color: theme.text.secondary,
+    "&:hover": { color: theme.text.primary },
+    "&:focus-visible": { outline: `2px solid ${theme.palette.primary[600]}`, outlineOffset: 2 },
+  });
+
+  return (
+    <Modal open={open} onOpenChange={setOpen}>
+      <ModalContent
+        width={width}
+        padding={0}
+        aria-label={messages.commandPalette.label}
+        className={[cls(""), className].filter(Boolean).join(" ")}
+        containerCss={[css({ alignSelf: "flex-start", marginTop: "12vh" }), containerCss]}
+      >
+        {pages.length > 0 && (
+          <div className={cls("breadcrumbs")} css={headerCss}>
+            <button type="button" aria-label={messages.commandPalette.back} css={backCss} onClick={goBack}>
+              <BackIcon size={16} />
+            </button>
+            {pages.map((p, i) => (
+              <React.Fragment key={p.id}>
+                {i > 0 && <Separator size={14} aria-hidden />}
+                <span>{p.title}</span>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+        <div ref={fieldRef} className={cls("field")} onKeyDownCapture={onKeyDownCapture}>
+          <Autocomplete
+            items={items}
+            filterItems={filterItems}
+            inputValue={query}
+            onInputChange={setQuery}
+            onSelect={run}
+            open={open}
+            autoHighlight
+            closeOnSelect={false}
+            fullWidth
+            variant="ghost"
+            size="lg"
+            startIcon={<Search size={18} />}
+            showExpandIcon={false}
+            placeholder={page?.placeholder ?? placeholder ?? messages.commandPalette.placeholder}
+            noResultsText={noResultsText ?? messages.commandPalette.noResults}
+            maxHeight={maxHeight}
+            menuContentCss={[css({ marginTop: theme.spacing.xs }), listCss]}
+          />
+        </div>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,549 @@
+/** @jsxImportSource @emotion/react */
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { css, type Interpolation, type Theme } from "@emotion/react";
+import { ArrowDown, ArrowUp, ChevronsUpDown } from "lucide-react";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatMessage } from "../locale/messages";
+import { useFocusRing } from "../utils/focusRing";
+import { logicalArrowKey } from "../utils/direction";
+import { useControllable } from "../utils/controllable";
+import { dateFormat } from "../utils/dates";
+import { Checkbox } from "./Checkbox";
+import { Pagination } from "./Pagination";
+import { Skeleton } from "./Skeleton";
+
+export type SortDirection = "asc" | "desc";
+export type DataTableSort = { columnId: string; direction: SortDirection } | null;
+
+export type DataTableColumn<T> = {
+  id: string;
+  header?: React.ReactNode;
+  accessor?: keyof T | ((row: T) => unknown);
+  cell?: (row: T, rowIndex: number) => React.ReactNode;
+  sortable?: boolean;
+  sortFn?: (a: T, b: T) => number;
+  width?: number;
+  minWidth?: number;
+  maxWidth?: number;
+  resizable?: boolean;
+  align?: "start" | "center" | "end";
+  headerCss?: Interpolation<Theme>;
+  cellCss?: Interpolation<Theme>;
+};
+
+export type DataTableProps<T> = {
+  data: T[];
+  columns: DataTableColumn<T>[];
+  getRowId?: (row: T, index: number) => string;
+
+  sort?: DataTableSort;
+  defaultSort?: DataTableSort;
+  onSortChange?: (sort: DataTableSort) => void;
+  manualSorting?: boolean;
+
+  selectable?: boolean;
+  selectedIds?: string[];
+  defaultSelectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  isRowSelectable?: (row: T) => boolean;
+
+  pageSize?: number;
+  page?: number;
+  defaultPage?: number;
+  onPageChange?: (page: number) => void;
+  rowCount?: number;
+
+  resizableColumns?: boolean;
+  onColumnResize?: (widths: Record<string, number>) => void;
+
+  stickyHeader?: boolean;
+  maxHeight?: number | string;
+  size?: "sm" | "md";
+  loading?: boolean;
+  loadingRows?: number;
+  emptyState?: React.ReactNode;
+  onRowClick?: (row: T, e: React.MouseEvent<HTMLTableRowElement>) => void;
+
+  "aria-label"?: string;
+  className?: string;
+  css?: Interpolation<Theme>;
+  tableCss?: Interpolation<Theme>;
+};
+
+const DEFAULT_MIN_WIDTH = 60;
+const RESIZE_STEP = 10;
+
+const cls = (s: string) => `plainframe-ui-data-table${s ? `-${s}` : ""}`;
+
+const defaultRowId = (row: unknown, index: number): string => {
+  const id = (row as { id?: unknown } | null)?.id;
+  return id != null ? String(id) : String(index);
+};
+
+function cellValue<T>(row: T, column: DataTableColumn<T>): unknown {
+  const { accessor } = column;
+  if (typeof accessor === "function") return accessor(row);
+  if (accessor != null) return row[accessor];
+  return (row as Record<string, unknown>)[column.id];
+}
+
+function compareValues(a: unknown, b: unknown, locale: string): number {
+  if (a == null || a === "") return b == null || b === "" ? 0 : 1;
+  if (b == null || b === "") return -1;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), locale, { numeric: true, sensitivity: "base" });
+}
+
+// Columns without `cell` render their raw value, so anything React can't render is turned into text.
+function formatValue(value: unknown, locale: string): React.ReactNode {
+  if (value == null || typeof value === "boolean") return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? "" : dateFormat(locale, { dateStyle: "medium" }).format(value);
+  if (typeof value === "object" && !React.isValidElement(value)) return Array.isArray(value) ? value.join(", ") : String(value);
+  return value as React.ReactNode;
+}
+
+export function DataTable<T>({
+  data,
+  columns,
+  getRowId = defaultRowId,
+
+  sort: sortProp,
+  defaultSort = null,
+  onSortChange,
+  manualSorting = false,
+
+  selectable = false,
+  selectedIds: selectedProp,
+  defaultSelectedIds = [],
+  onSelectionChange,
+  isRowSelectable,
+
+  pageSize,
+  page: pageProp,
+  defaultPage = 1,
+  onPageChange,
+  rowCount,
+
+  resizableColumns = false,
+  onColumnResize,
+
+  stickyHeader = false,
+  maxHeight,
+  size = "md",
+  loading = false,
+  loadingRows,
+  emptyState,
+  onRowClick,
+
+  "aria-label": ariaLabel,
+  className,
+  css: userCss,
+  tableCss,
+}: DataTableProps<T>): React.ReactElement {
+  const theme = usePlainframeUITheme();
+  const dir = useDirection();
+  const focusRing = useFocusRing();
+  const { locale, messages } = useLocale();
+  const t = messages.dataTable;
+
+  const [sort, setSort] = useControllable<DataTableSort>(sortProp, defaultSort, onSortChange);
+  const [selectedIds, setSelectedIds] = useControllable<string[]>(selectedProp, defaultSelectedIds, onSelectionChange);
+  const [page, setPage] = useControllable<number>(pageProp, defaultPage, onPageChange);
+
+  const rows = useMemo(() => data.map((row, i) => ({ row, id: getRowId(row, i) })), [data, getRowId]);
+
+  const sorted = useMemo(() => {
+    if (!sort || manualSorting) return rows;
+    const column = columns.find((c) => c.id === sort.columnId);
+    if (!column) return rows;
+    const sign = sort.direction === "asc" ? 1 : -1;
+    const cmp = column.sortFn ?? ((a: T, b: T) => compareValues(cellValue(a, column), cellValue(b, column), locale));
+    return [...rows].sort((a, b) => sign * cmp(a.row, b.row));
+  }, [rows, sort, manualSorting, columns, locale]);
+
+  const paginated = pageSize != null && pageSize > 0;
+  const total = rowCount ?? rows.length;
+  const pageCount = paginated ? Math.max(1, Math.ceil(total / pageSize!)) : 1;
+  const currentPage = Math.min(Math.max(1, page), pageCount);
+
+  const visible = useMemo(() => {
+    if (!paginated || rowCount != null) return sorted;
+    const start = (currentPage - 1) * pageSize!;
+    return sorted.slice(start, start + pageSize!);
+  }, [sorted, paginated, rowCount, currentPage, pageSize]);
+
+  const toggleSort = (column: DataTableColumn<T>) => {
+    if (!sort || sort.columnId !== column.id) setSort({ columnId: column.id, direction: "asc" });
+    else if (sort.direction === "asc") setSort({ columnId: column.id, direction: "desc" });
+    else setSort(null);
+  };
+
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const canSelect = useCallback((row: T) => (isRowSelectable ? isRowSelectable(row) : true), [isRowSelectable]);
+  const selectableVisible = visible.filter((r) => canSelect(r.row));
+  const selectedVisible = selectableVisible.filter((r) => selectedSet.has(r.id)).length;
+  const allSelected = selectableVisible.length > 0 && selectedVisible === selectableVisible.length;
+
+  const shiftRef = useRef(false);
+  const anchorRef = useRef<string | null>(null);
+
+  const toggleAll = () => {
+    const ids = new Set(selectableVisible.map((r) => r.id));
+    setSelectedIds(
+      allSelected ? selectedIds.filter((id) => !ids.has(id)) : [...selectedIds, ...[...ids].filter((id) => !selectedSet.has(id))]
+    );
+  };
+
+  const toggleRow = (index: number, checked: boolean) => {
+    const target = visible[index];
+    const anchor = anchorRef.current != null ? visible.findIndex((r) => r.id === anchorRef.current) : -1;
+    const range =
+      shiftRef.current && anchor >= 0
+        ? visible.slice(Math.min(anchor, index), Math.max(anchor, index) + 1).filter((r) => canSelect(r.row))
+        : [target];
+    const ids = new Set(range.map((r) => r.id));
+    setSelectedIds(
+      checked
+        ? [...selectedIds, ...[...ids].filter((id) => !selectedSet.has(id))]
+        : selectedIds.filter((id) => !ids.has(id))
+    );
+    anchorRef.current = target.id;
+    shiftRef.current = false;
+  };
+
+  // Checkbox only reports the new value, so the cell notes whether Shift was held when the toggle started.
+  const recordShift = (e: React.MouseEvent | React.KeyboardEvent) => {
+    shiftRef.current = e.shiftKey;
+  };
+
+  const [widths, setWidths] = useState<Record<string, number>>(() => {
+    const init: Record<string, number> = {};
+    columns.forEach((c) => {
+      if (c.width != null) init[c.id] = c.width;
+    });
+    return init;
+  });
+  const headerRefs = useRef<Record<string, HTMLTableCellElement | null>>({});
+  const allWidthsKnown = columns.every((c) => widths[c.id] != null);
+
+  const clampWidth = (column: DataTableColumn<T>, w: number) =>
+    Math.round(Math.min(column.maxWidth ?? Infinity, Math.max(column.minWidth ?? DEFAULT_MIN_WIDTH, w)));
+
+  // Once a column is resized every column gets a fixed width, so the others keep their size.
+  const measureWidths = (): Record<string, number> => {
+    const next = { ...widths };
+    columns.forEach((c) => {
+      if (next[c.id] == null) next[c.id] = Math.round(headerRefs.current[c.id]?.getBoundingClientRect().width ?? c.minWidth ?? DEFAULT_MIN_WIDTH);
+    });
+    return next;
+  };
+
+  const resizeTo = (column: DataTableColumn<T>, base: Record<string, number>, w: number) => {
+    const next = { ...base, [column.id]: clampWidth(column, w) };
+    setWidths(next);
+    return next;
+  };
+
+  const onResizePointerDown = (column: DataTableColumn<T>) => (e: React.PointerEvent<HTMLSpanElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const handle = e.currentTarget;
+    handle.setPointerCapture?.(e.pointerId);
+    const base = measureWidths();
+    const startX = e.clientX;
+    const startW = base[column.id];
+    const sign = dir === "rtl" ? -1 : 1;
+    let latest = resizeTo(column, base, startW);
+
+    const move = (ev: PointerEvent) => {
+      latest = resizeTo(column, base, startW + sign * (ev.clientX - startX));
+    };
+    const up = () => {
+      handle.removeEventListener("pointermove", move);
+      handle.removeEventListener("pointerup", up);
+      handle.removeEventListener("pointercancel", up);
+      onColumnResize?.(latest);
+    };
+    handle.addEventListener("pointermove", move);
+    handle.addEventListener("pointerup", up);
+    handle.addEventListener("pointercancel", up);
+  };
+
+  const onResizeKeyDown = (column: DataTableColumn<T>) => (e: React.KeyboardEvent<HTMLSpanElement>) => {
+    const key = logicalArrowKey(e.key, dir);
+    if (key !== "ArrowLeft" && key !== "ArrowRight") return;
+    e.preventDefault();
+    const base = measureWidths();
+    const next = resizeTo(column, base, base[column.id] + (key === "ArrowRight" ? RESIZE_STEP : -RESIZE_STEP));
+    onColumnResize?.(next);
+  };
+
+  const dense = size === "sm";
+  const padY = dense ? theme.spacing.xs : theme.spacing.sm;
+  const padX = theme.spacing.md;
+  const colSpan = columns.length + (selectable ? 1 : 0);
+
+  const wrapCss = css({
+    display: "flex",
+    flexDirection: "column",
+    gap: theme.spacing.sm,
+    width: "100%",
+  });
+
+  const scrollCss = css({
+    width: "100%",
+    overflow: "auto",
+    maxHeight,
+    border: `${theme.componentHeights.border} solid ${theme.surface.border}`,
+    borderRadius: theme.radius.lg,
+    background: theme.surface.panelBg,
+  });
+
+  const tableBaseCss = css({
+    width: allWidthsKnown ? columns.reduce((sum, c) => sum + widths[c.id], selectable ? 48 : 0) : "100%",
+    minWidth: "100%",
+    tableLayout: allWidthsKnown ? "fixed" : "auto",
+    borderCollapse: "separate",
+    borderSpacing: 0,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.text.primary,
+  });
+
+  const thCss = css({
+    position: stickyHeader ? "sticky" : "relative",
+    top: stickyHeader ? 0 : undefined,
+    zIndex: stickyHeader ? 1 : undefined,
+    background: theme.surface.panelBg,
+    padding: `${padY} ${padX}`,
+    textAlign: "start",
+    fontWeight: 600,
+    color: theme.text.secondary,
+    whiteSpace: "nowrap",
+    borderBottom: `${theme.componentHeights.border} solid ${theme.surface.border}`,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  });
+
+  const tdCss = css({
+    padding: `${padY} ${padX}`,
+    borderBottom: `${theme.componentHeights.border} solid ${theme.surface.border}`,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    verticalAlign: "middle",
+  });
+
+  const rowCss = css({
+    cursor: onRowClick ? "pointer" : undefined,
+    transition: "background-color .16s ease",
+    "&:hover": { background: theme.surface.panelHover },
+    "&[data-selected]": { background: theme.surface.subtleBg },
+    "&:last-of-type > td": { borderBottom: "none" },
+  });
+
+  const selectCellCss = css({ width: 48, paddingInlineEnd: 0 });
+
+  const sortButtonCss = css({
+    all: "unset",
+    display: "inline-flex",
+    alignItems: "center",
+    gap: theme.spacing.xs,
+    cursor: "pointer",
+    borderRadius: theme.radius.xs,
+    maxWidth: "100%",
+    "&:hover": { color: theme.text.primary },
+    "& > svg": { flexShrink: 0 },
+  });
+
+  const resizeHandleCss = css({
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    insetInlineEnd: 0,
+    width: 8,
+    cursor: "col-resize",
+    touchAction: "none",
+    outline: "none",
+    "&::after": {
+      content: '""',
+      position: "absolute",
+      top: "25%",
+      bottom: "25%",
+      insetInlineEnd: 3,
+      width: 2,
+      borderRadius: 1,
+      background: "transparent",
+      transition: "background-color .16s ease",
+    },
+    "&:hover::after, &:focus-visible::after": { background: theme.palette.primary[600] },
+  });
+
+  const emptyCss = css({
+    padding: `${theme.spacing.xl} ${padX}`,
+    textAlign: "center",
+    color: theme.text.secondary,
+  });
+
+  const footerCss = css({
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: theme.spacing.md,
+    flexWrap: "wrap",
+    fontSize: theme.typography.sizes.sm,
+    color: theme.text.secondary,
+  });
+
+  const alignCss = (align?: DataTableColumn<T>["align"]) =>
+    align ? css({ textAlign: align === "center" ? "center" : align, justifyContent: align === "center" ? "center" : align === "end" ? "flex-end" : undefined }) : undefined;
+
+  const sortIcon = (columnId: string) =>
+    sort?.columnId === columnId ? (
+      sort.direction === "asc" ? <ArrowUp size={14} aria-hidden /> : <ArrowDown size={14} aria-hidden />
+    ) : (
+      <ChevronsUpDown size={14} aria-hidden css={{ opacity: 0.5 }} />
+    );
+
+  const skeletonCount = loadingRows ?? (paginated ? pageSize! : 5);
+  const from = total === 0 ? 0 : paginated ? (currentPage - 1) * pageSize! + 1 : 1;
+  const to = paginated ? Math.min(total, currentPage * pageSize!) : total;
+
+  return (
+    <div className={[cls(""), className].filter(Boolean).join(" ")} css={[wrapCss, userCss]}>
+      <div className={cls("scroll")} css={scrollCss}>
+        <table aria-label={ariaLabel} aria-busy={loading || undefined} css={[tableBaseCss, tableCss]}>
+          {allWidthsKnown && (
+            <colgroup>
+              {selectable && <col style={{ width: 48 }} />}
+              {columns.map((c) => (
+                <col key={c.id} style={{ width: widths[c.id] }} />
+              ))}
+            </colgroup>
+          )}
+          <thead>
+            <tr>
+              {selectable && (
+                <th className={cls("select-cell")} css={[thCss, selectCellCss]}>
+                  <Checkbox
+                    size="sm"
+                    aria-label={t.selectAll}
+                    checked={allSelected}
+                    indeterminate={selectedVisible > 0 && !allSelected}
+                    disabled={loading || selectableVisible.length === 0}
+                    onChange={toggleAll}
+                  />
+                </th>
+              )}
+              {columns.map((column) => {
+                const direction = sort?.columnId === column.id ? sort.direction : undefined;
+                const resizable = column.resizable ?? resizableColumns;
+                return (
+                  <th
+                    key={column.id}
+                    ref={(el) => {
+                      headerRefs.current[column.id] = el;
+                    }}
+                    scope="col"
+                    aria-sort={column.sortable ? (direction === "asc" ? "ascending" : direction === "desc" ? "descending" : "none") : undefined}
+                    className={cls("header")}
+                    css={[thCss, alignCss(column.align), column.headerCss]}
+                  >
+                    {column.sortable ? (
+                      <button type="button" css={[sortButtonCss, focusRing()]} onClick={() => toggleSort(column)}>
+                        <span css={{ overflow: "hidden", textOverflow: "ellipsis" }}>{column.header ?? column.id}</span>
+                        {sortIcon(column.id)}
+                      </button>
+                    ) : (
+                      column.header ?? column.id
+                    )}
+                    {resizable && (
+                      <span
+                        role="separator"
+                        aria-orientation="vertical"
+                        aria-label={t.resize}
+                        aria-valuenow={widths[column.id]}
+                        aria-valuemin={column.minWidth ?? DEFAULT_MIN_WIDTH}
+                        aria-valuemax={column.maxWidth}
+                        tabIndex={0}
+                        className={cls("resize-handle")}
+                        css={resizeHandleCss}
+                        onPointerDown={onResizePointerDown(column)}
+                        onKeyDown={onResizeKeyDown(column)}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              Array.from({ length: skeletonCount }, (_, i) => (
+                <tr key={`skeleton-${i}`} className={cls("skeleton-row")} css={rowCss} aria-hidden>
+                  {selectable && <td css={[tdCss, selectCellCss]} />}
+                  {columns.map((column) => (
+                    <td key={column.id} css={[tdCss, alignCss(column.align)]}>
+                      <Skeleton width="70%" height={12} radius={4} />
+                    </td>
+                  ))}
+                </tr>
+              ))
+            ) : visible.length === 0 ? (
+              <tr>
+                <td colSpan={colSpan} className={cls("empty")} css={emptyCss}>
+                  {emptyState ?? t.empty}
+                </td>
+              </tr>
+            ) : (
+              visible.map(({ row, id }, index) => {
+                const isSelected = selectedSet.has(id);
+                return (
+                  <tr
+                    key={id}
+                    data-selected={isSelected ? "" : undefined}
+                    className={cls("row")}
+                    css={rowCss}
+                    onClick={onRowClick ? (e) => onRowClick(row, e) : undefined}
+                  >
+                    {selectable && (
+                      <td
+                        className={cls("select-cell")}
+                        css={[tdCss, selectCellCss]}
+                        onMouseDownCapture={recordShift}
+                        onKeyDownCapture={recordShift}
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <Checkbox
+                          size="sm"
+                          aria-label={t.selectRow}
+                          checked={isSelected}
+                          disabled={!canSelect(row)}
+                          onChange={(checked) => toggleRow(index, checked)}
+                        />
+                      </td>
+                    )}
+                    {columns.map((column) => (
+                      <td key={column.id} css={[tdCss, alignCss(column.align), column.cellCss]}>
+                        {column.cell ? column.cell(row, index) : formatValue(cellValue(row, column), locale)}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+      {paginated && (
+        <div className={cls("footer")} css={footerCss}>
+          <span>{formatMessage(t.range, { from, to, total })}</span>
+          {pageCount > 1 && <Pagination count={pageCount} page={currentPage} onChange={setPage} disabled={loading} />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+/** @jsxImportSource @emotion/react */
+import React, { forwardRef, useRef, useState } from "react";
+import type { Interpolation, Theme } from "@emotion/react";
+import { CalendarDays } from "lucide-react";
+import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
+import { compareDays, datePattern, formatDate, parseDate, toISODate, type DateRange, type Weekday } from "../utils/dates";
+import { Popover, PopoverAnchor, PopoverContent } from "./Popover";
+import { TextField } from "./TextField";
+import { Calendar } from "./Calendar";
+
+type SizeKey = "sm" | "md" | "lg";
+type Variant = "outlined" | "subtle" | "ghost";
+
+type PickerBaseProps = NativeFormProps & {
+  label?: React.ReactNode;
+  placeholder?: string;
+  helperText?: React.ReactNode;
+  error?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  size?: SizeKey;
+  variant?: Variant;
+  width?: number | string;
+  fullWidth?: boolean;
+  startIcon?: React.ReactNode;
+  min?: Date;
+  max?: Date;
+  isDateDisabled?: (date: Date) => boolean;
+  weekStartsOn?: Weekday;
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  autoFocus?: boolean;
+  className?: string;
+  css?: Interpolation<Theme>;
+};
+
+export type DatePickerProps = PickerBaseProps & {
+  value?: Date | null;
+  defaultValue?: Date | null;
+  onChange?: (date: Date | null) => void;
+};
+
+export type DateRangePickerProps = PickerBaseProps & {
+  value?: DateRange;
+  defaultValue?: DateRange;
+  onChange?: (range: DateRange) => void;
+  numberOfMonths?: number;
+};
+
+const EMPTY_RANGE: DateRange = { start: null, end: null };
+const RANGE_SEPARATOR = " – ";
+// En/em dashes split anywhere; a hyphen only with spaces around it, since some locales use it inside dates.
+const RANGE_SPLIT = /\s*[–—]\s*|\s+-\s+/;
+
+type FieldProps = Omit<PickerBaseProps, "name" | "required" | "form"> & {
+  text: string;
+  pattern: string;
+  // Parses the typed text and applies it; returns false when the text is not an acceptable value.
+  commitText: (text: string) => boolean;
+  formValue: string | string[];
+  nativeForm: NativeFormProps;
+  onReset: () => void;
+  renderCalendar: (done: () => void, ref: React.Ref<HTMLDivElement>) => React.ReactNode;
+};
+
+const PickerField = forwardRef<HTMLInputElement, FieldProps>(function PickerField(
+  {
+    text,
+    pattern,
+    commitText,
+    formValue,
+    nativeForm,
+    onReset,
+    renderCalendar,
+    label,
+    placeholder,
+    helperText,
+    error,
+    disabled,
+    readOnly,
+    size = "md",
+    variant = "outlined",
+    width,
+    fullWidth,
+    startIcon,
+    open: openProp,
+    defaultOpen = false,
+    onOpenChange,
+    autoFocus,
+    className,
+    css: cssOverride,
+  },
+  ref
+) {
+  const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
+  const t = messages.datePicker;
+
+  const [openInner, setOpenInner] = useState(defaultOpen);
+  // A fresh calendar per opening, so it starts at the current value and takes focus.
+  const [session, setSession] = useState(0);
+  const open = !disabled && !readOnly && (openProp ?? openInner);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const calendarRef = useRef<HTMLDivElement | null>(null);
+  const formInputRef = useRef<HTMLInputElement>(null);
+
+  useFormReset(formInputRef, () => {
+    setDraft(null);
+    setInvalid(false);
+    onReset();
+  });
+
+  const setOpen = (next: boolean) => {
+    if (next === open) return;
+    // Closing from inside the calendar (Escape, a pick) would otherwise drop focus on the body.
+    if (!next && calendarRef.current?.contains(document.activeElement)) inputRef.current?.focus();
+    if (next) setSession((n) => n + 1);
+    if (openProp === undefined) setOpenInner(next);
+    onOpenChange?.(next);
+  };
+
+  const commit = () => {
+    if (draft === null) return;
+    const ok = commitText(draft);
+    setInvalid(!ok);
+    if (ok) setDraft(null);
+  };
+
+  const done = () => {
+    setDraft(null);
+    setInvalid(false);
+    setOpen(false);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && !open && !disabled && !readOnly) {
+      e.preventDefault();
+      commit();
+      setOpen(true);
+    } else if (e.key === "Enter") {
+      commit();
+    }
+  };
+
+  const toggle = (
+    <span
+      role="button"
+      tabIndex={-1}
+      aria-label={t.openCalendar}
+      aria-expanded={open}
+      aria-haspopup="dialog"
+      aria-disabled={disabled || readOnly || undefined}
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={() => {
+        if (disabled || readOnly) return;
+        commit();
+        setOpen(!open);
+      }}
+      css={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        color: theme.text.secondary,
+        cursor: disabled || readOnly ? "not-allowed" : "pointer",
+        opacity: disabled ? 0.5 : 1,
+        ":hover": { color: disabled || readOnly ? undefined : theme.text.primary },
+      }}
+    >
+      <CalendarDays strokeWidth={2} />
+    </span>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverAnchor>
+        <div
+          className={["plainframe-ui-date-picker", className].filter(Boolean).join(" ")}
+          css={[{ position: "relative", display: fullWidth ? "block" : "inline-block" }, cssOverride]}
+        >
+          <TextField
+            ref={(node: HTMLInputElement | null) => {
+              inputRef.current = node;
+              if (typeof ref === "function") ref(node);
+              else if (ref) ref.current = node;
+            }}
+            label={label}
+            value={draft ?? text}
+            onChange={(v) => {
+              setDraft(v);
+              if (invalid) setInvalid(false);
+            }}
+            onBlur={commit}
+            onKeyDown={onKeyDown}
+            placeholder={placeholder ?? pattern}
+            helperText={invalid ? t.invalid : helperText}
+            error={error || invalid}
+            disabled={disabled}
+            readOnly={readOnly}
+            required={nativeForm.required}
+            size={size}
+            variant={variant}
+            width={width}
+            fullWidth={fullWidth}
+            startIcon={startIcon}
+            endIcon={toggle}
+            autoFocus={autoFocus}
+          />
+          <HiddenInput
+            inputRef={formInputRef}
+            name={nativeForm.name}
+            value={formValue}
+            required={nativeForm.required}
+            form={nativeForm.form}
+            disabled={disabled}
+            onFocus={() => inputRef.current?.focus()}
+          />
+        </div>
+      </PopoverAnchor>
+      <PopoverContent anchorOrigin={{ vertical: "bottom", horizontal: "left" }} padding={theme.spacing.md}>
+        <React.Fragment key={session}>{renderCalendar(done, calendarRef)}</React.Fragment>
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+export const DatePicker = forwardRef<HTMLInputElement, DatePickerProps>(function DatePicker(
+  { value, defaultValue = null, onChange, name, required, form, min, max, isDateDisabled, weekStartsOn, size, ...rest },
+  ref
+) {
+  const { locale } = useLocale();
+  const controlled = value !== undefined;
+  const [inner, setInner] = useState<Date | null>(defaultValue);
+  const current = controlled ? value : inner;
+
+  const setValue = (next: Date | null) => {
+    if (!controlled) setInner(next);
+    onChange?.(next);
+  };
+
+  const acceptable = (d: Date) =>
+    !(min && compareDays(d, min) < 0) && !(max && compareDays(d, max) > 0) && !isDateDisabled?.(d);
+
+  const commitText = (text: string) => {
+    if (!text.trim()) {
+      if (current) setValue(null);
+      return true;
+    }
+    const parsed = parseDate(text, locale);
+    if (!parsed || !acceptable(parsed)) return false;
+    if (!current || compareDays(parsed, current) !== 0) setValue(parsed);
+    return true;
+  };
+
+  return (
+    <PickerField
+      {...rest}
+      ref={ref}
+      size={size}
+      text={current ? formatDate(current, locale) : ""}
+      pattern={datePattern(locale)}
+      commitText={commitText}
+      formValue={current ? toISODate(current) : ""}
+      nativeForm={{ name, required, form }}
+      onReset={() => {
+        if (!controlled) setInner(defaultValue);
+      }}
+      renderCalendar={(done, calendarRef) => (
+        <Calendar
+          ref={calendarRef}
+          value={current}
+          onChange={(d) => {
+            setValue(d);
+            done();
+          }}
+          min={min}
+          max={max}
+          isDateDisabled={isDateDisabled}
+          weekStartsOn={weekStartsOn}
+          size={size}
+          autoFocus
+        />
+      )}
+    />
+  );
+});
+
+DatePicker.displayName = "DatePicker";
+
+export const DateRangePicker = forwardRef<HTMLInputElement, DateRangePickerProps>(function DateRangePicker(
+  {
+    value,
+    defaultValue = EMPTY_RANGE,
+    onChange,
+    numberOfMonths = 2,
+    name,
+    required,
+    form,
+    min,
+    max,
+    isDateDisabled,
+    weekStartsOn,
+    size,
+    ...rest
+  },
+  ref
+) {
+  const { locale } = useLocale();
+  const controlled = value !== undefined;
+  const [inner, setInner] = useState<DateRange>(defaultValue);
+  const current = controlled ? value : inner;
+
+  const setValue = (next: DateRange) => {
+    if (!controlled) setInner(next);
+    onChange?.(next);
+  };
+
+  const acceptable = (d: Date) =>
+    !(min && compareDays(d, min) < 0) && !(max && compareDays(d, max) > 0) && !isDateDisabled?.(d);
+
+  const commitText = (text: string) => {
+    const parts = text.trim().split(RANGE_SPLIT).filter(Boolean);
+    if (parts.length > 2) return false;
+    const [start = null, end = null] = parts.map((p) => parseDate(p, locale));
+    if (parts.some((p, i) => !(i ? end : start) || !acceptable((i ? end : start) as Date))) return false;
+    const next: DateRange =
+      start && end && compareDays(end, start) < 0 ? { start: end, end: start } : { start, end };
+    const same = (a: Date | null, b: Date | null) => (a && b ? compareDays(a, b) === 0 : a === b);
+    if (!same(next.start, current.start) || !same(next.end, current.end)) setValue(next);
+    return true;
+  };
+
+  const pattern = datePattern(locale);
+  const text = current.start
+    ? `${formatDate(current.start, locale)}${RANGE_SEPARATOR}${current.end ? formatDate(current.end, locale) : ""}`.trim()
+    : "";
+
+  return (
+    <PickerField
+      {...rest}
+      ref={ref}
+      size={size}
+      text={text}
+      pattern={`${pattern}${RANGE_SEPARATOR}${pattern}`}
+      commitText={commitText}
+      formValue={current.start && current.end ? [toISODate(current.start), toISODate(current.end)] : []}
+      nativeForm={{ name, required, form }}
+      onReset={() => {
+        if (!controlled) setInner(defaultValue);
+      }}
+      renderCalendar={(done, calendarRef) => (
+        <Calendar
+          ref={calendarRef}
+          mode="range"
+          value={current}
+          onChange={(r) => {
+            setValue(r);
+            if (r.end) done();
+          }}
+          numberOfMonths={numberOfMonths}
+          min={min}
+          max={max}
+          isDateDisabled={isDateDisabled}
+          weekStartsOn={weekStartsOn}
+          size={size}
+          autoFocus
+        />
+      )}
+    />
+  );
+});
+
+DateRangePicker.displayName = "DateRangePicker";
@@ -0,0 +1,257 @@
+/** @jsxImportSource @emotion/react */
+import React, { forwardRef, useMemo, useRef, useState } from "react";
+import type { Interpolation, Theme } from "@emotion/react";
+import { CalendarDays } from "lucide-react";
+import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
+import {
+  dateParts,
+  dayPeriodLabels,
+  prefersHour12,
+  startOfDay,
+  toISODate,
+  toTimeString,
+  type Weekday,
+} from "../utils/dates";
+import { SegmentField, useSegmentedValue, type SegmentValues } from "../utils/segmentField";
+import { Popover, PopoverAnchor, PopoverContent } from "./Popover";
+import { Calendar } from "./Calendar";
+
+type SizeKey = "sm" | "md" | "lg";
+type Variant = "outlined" | "subtle" | "ghost";
+
+export type DateTimeFieldProps = NativeFormProps & {
+  label?: React.ReactNode;
+  value?: Date | null;
+  defaultValue?: Date | null;
+  onChange?: (value: Date | null) => void;
+  min?: Date;
+  max?: Date;
+  isDateDisabled?: (date: Date) => boolean;
+  weekStartsOn?: Weekday;
+  minuteStep?: number;
+  hourCycle?: 12 | 24;
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  helperText?: React.ReactNode;
+  error?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  size?: SizeKey;
+  variant?: Variant;
+  width?: number | string;
+  fullWidth?: boolean;
+  autoFocus?: boolean;
+  onBlur?: () => void;
+  className?: string;
+  css?: Interpolation<Theme>;
+};
+
+export const DateTimeField = forwardRef<HTMLDivElement, DateTimeFieldProps>(function DateTimeField(
+  {
+    label,
+    value,
+    defaultValue = null,
+    onChange,
+    min,
+    max,
+    isDateDisabled,
+    weekStartsOn,
+    minuteStep = 1,
+    hourCycle,
+    open: openProp,
+    defaultOpen = false,
+    onOpenChange,
+    helperText,
+    error,
+    disabled,
+    readOnly,
+    size,
+    variant,
+    width,
+    fullWidth,
+    autoFocus,
+    onBlur,
+    className,
+    css: cssOverride,
+    name,
+    required,
+    form,
+  },
+  ref
+) {
+  const theme = usePlainframeUITheme();
+  const { locale, messages } = useLocale();
+
+  const hour12 = hourCycle ? hourCycle === 12 : prefersHour12(locale);
+  const hc = hour12 ? "h12" : "h23";
+  const parts = useMemo(
+    () => dateParts(locale, { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", hourCycle: hc }),
+    [locale, hc]
+  );
+  const dayPeriods = useMemo(() => dayPeriodLabels(locale), [locale]);
+
+  const toSegments = (d: Date | null): SegmentValues => {
+    if (!d) return { year: null, month: null, day: null, hour: null, minute: null, dayPeriod: null };
+    const h = d.getHours();
+    return {
+      year: d.getFullYear(),
+      month: d.getMonth() + 1,
+      day: d.getDate(),
+      hour: hour12 ? h % 12 || 12 : h,
+      minute: d.getMinutes(),
+      dayPeriod: hour12 ? (h >= 12 ? 1 : 0) : null,
+    };
+  };
+
+  const fromSegments = ({ year, month, day, hour, minute, dayPeriod }: SegmentValues): Date | null => {
+    if (year == null || month == null || day == null || hour == null || minute == null) return null;
+    if (hour12 && dayPeriod == null) return null;
+    const h = hour12 ? (hour % 12) + (dayPeriod ? 12 : 0) : hour;
+    const d = new Date(year, month - 1, day, h, minute);
+    if (d.getMonth() !== month - 1 || d.getDate() !== day) return null;
+    if ((min && d < min) || (max && d > max) || isDateDisabled?.(startOfDay(d))) return null;
+    return d;
+  };
+
+  const field = useSegmentedValue<Date>({
+    value,
+    defaultValue,
+    onChange,
+    toSegments,
+    fromSegments,
+    same: (a, b) => (a && b ? a.getTime() === b.getTime() : a === b),
+  });
+
+  const groupRef = useRef<HTMLDivElement | null>(null);
+  const calendarRef = useRef<HTMLDivElement | null>(null);
+  const formInputRef = useRef<HTMLInputElement>(null);
+  useFormReset(formInputRef, field.reset);
+
+  const [openInner, setOpenInner] = useState(defaultOpen);
+  const open = !disabled && !readOnly && (openProp ?? openInner);
+  const [session, setSession] = useState(0);
+
+  // Focuses the first segment still empty in `segments`, e.g. the hour after a day was picked.
+  const focusSegment = (segments: SegmentValues = field.segments) => {
+    const empty = parts.find((p) => p.type !== "literal" && segments[p.type] == null);
+    const selector = empty ? `[data-segment="${empty.type}"]` : "[data-segment]";
+    groupRef.current?.querySelector<HTMLElement>(selector)?.focus();
+  };
+
+  const setOpen = (next: boolean) => {
+    if (next === open) return;
+    if (!next && calendarRef.current?.contains(document.activeElement)) focusSegment();
+    if (next) setSession((n) => n + 1);
+    if (openProp === undefined) setOpenInner(next);
+    onOpenChange?.(next);
+  };
+
+  const { year, month, day } = field.segments;
+  const pickedDay = year != null && month != null && day != null ? new Date(year, month - 1, day) : null;
+
+  const toggle = (
+    <span
+      role="button"
+      tabIndex={-1}
+      aria-label={messages.datePicker.openCalendar}
+      aria-expanded={open}
+      aria-haspopup="dialog"
+      aria-disabled={disabled || readOnly || undefined}
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={() => {
+        if (!disabled && !readOnly) setOpen(!open);
+      }}
+      css={{
+        display: "flex",
+        cursor: disabled || readOnly ? "not-allowed" : "pointer",
+        ":hover": { color: disabled || readOnly ? undefined : theme.text.primary },
+      }}
+    >
+      <CalendarDays size={16} strokeWidth={2} />
+    </span>
+  );
+
+  const current = field.current;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverAnchor>
+        <div
+          className={["plainframe-ui-date-time-field", className].filter(Boolean).join(" ")}
+          css={[{ position: "relative", display: fullWidth ? "block" : "inline-block" }, cssOverride]}
+          onKeyDown={(e) => {
+            if (e.altKey && e.key === "ArrowDown") {
+              e.preventDefault();
+              setOpen(true);
+            }
+          }}
+        >
+          <SegmentField
+            ref={(node) => {
+              groupRef.current = node;
+              if (typeof ref === "function") ref(node);
+              else if (ref) ref.current = node;
+            }}
+            parts={parts}
+            values={field.segments}
+            onValuesChange={field.update}
+            hour12={hour12}
+            dayPeriods={dayPeriods}
+            minuteStep={minuteStep}
+            label={label}
+            helperText={field.invalid ? messages.dateTimeField.invalid : helperText}
+            error={error || field.invalid}
+            disabled={disabled}
+            readOnly={readOnly}
+            required={required}
+            size={size}
+            variant={variant}
+            width={width}
+            fullWidth={fullWidth}
+            endAdornment={toggle}
+            autoFocus={autoFocus}
+            onBlur={() => {
+              // Moving into the open popover isn't leaving the field.
+              if (open) return;
+              field.validate();
+              onBlur?.();
+            }}
+          />
+          <HiddenInput
+            inputRef={formInputRef}
+            name={name}
+            value={current ? `${toISODate(current)}T${toTimeString(current.getHours() * 60 + current.getMinutes())}` : ""}
+            required={required}
+            form={form}
+            disabled={disabled}
+            onFocus={() => focusSegment()}
+          />
+        </div>
+      </PopoverAnchor>
+      <PopoverContent anchorOrigin={{ vertical: "bottom", horizontal: "left" }} padding={theme.spacing.md}>
+        <Calendar
+          key={session}
+          ref={calendarRef}
+          value={pickedDay}
+          onChange={(d) => {
+            const next = { ...field.segments, year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate() };
+            field.update(next);
+            focusSegment(next);
+            setOpen(false);
+          }}
+          min={min}
+          max={max}
+          isDateDisabled={isDateDisabled}
+          weekStartsOn={weekStartsOn}
+          size={size}
+          autoFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+DateTimeField.displayName = "DateTimeField";
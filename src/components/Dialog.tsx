@@ -0,0 +1,322 @@
+/** @jsxImportSource @emotion/react */
+import React, { useEffect, useId, useRef, useState, useSyncExternalStore } from "react";
+import { css, type CSSObject } from "@emotion/react";
+import { createRoot, type Root } from "react-dom/client";
+import { ThemeProvider, usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { Modal, ModalContent } from "./Modal";
+import { Button } from "./Button";
+import { TextField } from "./TextField";
+import type { FieldValidator, FieldValidatorContext } from "./Form";
+
+export type DialogIntent = "primary" | "danger";
+
+type BaseOptions = {
+  title?: React.ReactNode;
+  description?: React.ReactNode;
+  confirmLabel?: React.ReactNode;
+  cancelLabel?: React.ReactNode;
+  intent?: DialogIntent;
+  width?: number | string;
+  dismissible?: boolean;
+};
+
+export type ConfirmOptions = BaseOptions;
+
+export type PromptOptions = BaseOptions & {
+  label?: React.ReactNode;
+  placeholder?: string;
+  defaultValue?: string;
+  type?: "text" | "password" | "email" | "number" | "url" | (string & {});
+  validate?: FieldValidator<string> | FieldValidator<string>[];
+};
+
+type DialogStyles = {
+  content?: CSSObject;
+  title?: CSSObject;
+  description?: CSSObject;
+  actions?: CSSObject;
+};
+
+type Config = {
+  width: number | string;
+  transitionDuration: number;
+  styles: DialogStyles;
+};
+
+type DialogItem =
+  | { id: number; kind: "confirm"; options: ConfirmOptions; resolve: (value: boolean) => void }
+  | { id: number; kind: "prompt"; options: PromptOptions; resolve: (value: string | null) => void };
+
+const ROOT_KEY = "__dialog_root__";
+
+let hostEl: HTMLElement | null = null;
+let root: Root | null = null;
+
+const cfg: Config = {
+  width: 420,
+  transitionDuration: 300,
+  styles: {},
+};
+
+// Without a mounted <DialogHost>, dialogs render in a root of their own with the built-in theme.
+function ensureFallbackHost() {
+  if (typeof document === "undefined") return;
+  if (!hostEl) {
+    hostEl = document.getElementById("dialog-host");
+    if (!hostEl) {
+      hostEl = document.createElement("div");
+      hostEl.id = "dialog-host";
+      document.body.appendChild(hostEl);
+    }
+  }
+  if (!root) {
+    root = ((hostEl as any)[ROOT_KEY] as Root | undefined) ?? null;
+    if (!root) {
+      root = createRoot(hostEl!);
+      (hostEl as any)[ROOT_KEY] = root;
+      root.render(
+        <ThemeProvider>
+          <FallbackHost />
+        </ThemeProvider>
+      );
+    }
+  }
+}
+
+type Snapshot = { current: DialogItem | null; open: boolean; host: object | null };
+
+let nextId = 0;
+const store = {
+  current: null as DialogItem | null,
+  open: false,
+  queue: [] as DialogItem[],
+  // Mounted <DialogHost>s in mount order; only the first renders.
+  hosts: [] as object[],
+  listeners: new Set<() => void>(),
+  snapshot: { current: null, open: false, host: null } as Snapshot,
+  subscribe(fn: () => void) {
+    store.listeners.add(fn);
+    return () => {
+      store.listeners.delete(fn);
+    };
+  },
+  get: (): Snapshot => store.snapshot,
+  notify() {
+    store.snapshot = { current: store.current, open: store.open, host: store.hosts[0] ?? null };
+    store.listeners.forEach((fn) => fn());
+  },
+};
+
+function showNext() {
+  store.current = store.queue.shift() ?? null;
+  store.open = !!store.current;
+  store.notify();
+}
+
+function enqueue(item: DialogItem) {
+  if (!store.hosts.length && typeof window !== "undefined") {
+    // A <DialogHost> mounting in the same commit registers in an effect; only fall back if none did.
+    window.setTimeout(() => {
+      if (!store.hosts.length) ensureFallbackHost();
+    }, 0);
+  }
+  store.queue.push(item);
+  if (!store.current) showNext();
+}
+
+const cancelValue = (item: DialogItem) => (item.kind === "confirm" ? false : null);
+
+function settle(item: DialogItem, value: boolean | string | null) {
+  if (store.current !== item || !store.open) return;
+  store.open = false;
+  (item.resolve as (v: typeof value) => void)(value);
+  store.notify();
+  window.setTimeout(() => {
+    if (store.current === item) showNext();
+  }, cfg.transitionDuration);
+}
+
+export function confirm(options: ConfirmOptions = {}): Promise<boolean> {
+  return new Promise((resolve) => enqueue({ id: ++nextId, kind: "confirm", options, resolve }));
+}
+
+export function prompt(options: PromptOptions = {}): Promise<string | null> {
+  return new Promise((resolve) => enqueue({ id: ++nextId, kind: "prompt", options, resolve }));
+}
+
+export const dialogs = {
+  config: (opts: Partial<Config>) => {
+    if (opts.width != null) cfg.width = opts.width;
+    if (opts.transitionDuration != null) cfg.transitionDuration = opts.transitionDuration;
+    if (opts.styles) cfg.styles = { ...cfg.styles, ...opts.styles };
+  },
+
+  dismissAll: () => {
+    const queued = store.queue.splice(0);
+    queued.forEach((item) => (item.resolve as (v: unknown) => void)(cancelValue(item)));
+    if (store.current) settle(store.current, cancelValue(store.current));
+  },
+};
+
+async function runValidate(
+  validate: PromptOptions["validate"],
+  value: string,
+  context: FieldValidatorContext
+): Promise<string | undefined> {
+  const list = validate ? (Array.isArray(validate) ? validate : [validate]) : [];
+  try {
+    for (const v of list) {
+      const res = await v(value, {}, context);
+      if (res) return res;
+    }
+  } catch (err) {
+    // A validator that throws or rejects keeps the prompt open with its message as the error.
+    return err instanceof Error && err.message ? err.message : String(err);
+  }
+  return undefined;
+}
+
+const DialogBody: React.FC<{ item: DialogItem }> = ({ item }) => {
+  const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
+  const ids = useId();
+  const { options } = item;
+  const isPrompt = item.kind === "prompt";
+  const promptOptions = options as PromptOptions;
+
+  const [value, setValue] = useState(promptOptions.defaultValue ?? "");
+  const [error, setError] = useState<string | undefined>();
+  const [validating, setValidating] = useState(false);
+  // Bumped on every check so a slow result for an older value can't overwrite a newer one.
+  const checkRef = useRef(0);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isPrompt) return settle(item, true);
+    const check = ++checkRef.current;
+    setValidating(true);
+    const msg = await runValidate(promptOptions.validate, value, { messages: messages.validation });
+    if (check !== checkRef.current) return;
+    setValidating(false);
+    setError(msg);
+    if (!msg) settle(item, value);
+  };
+
+  const onChange = async (next: string) => {
+    setValue(next);
+    // Typing also supersedes a submit that is still validating the previous value.
+    const check = ++checkRef.current;
+    setValidating(false);
+    if (error === undefined) return;
+    const msg = await runValidate(promptOptions.validate, next, { messages: messages.validation });
+    if (check === checkRef.current) setError(msg);
+  };
+
+  const titleId = options.title != null ? `${ids}-title` : undefined;
+  const descId = options.description != null ? `${ids}-desc` : undefined;
+
+  return (
+    <ModalContent
+      width={options.width ?? cfg.width}
+      transitionDuration={cfg.transitionDuration}
+      closeOnClickAway={options.dismissible !== false}
+      role={isPrompt ? "dialog" : "alertdialog"}
+      aria-labelledby={titleId}
+      aria-describedby={descId}
+      className="plainframe-ui-dialog"
+      containerCss={cfg.styles.content}
+    >
+      <form noValidate onSubmit={submit} css={css({ display: "flex", flexDirection: "column", gap: theme.spacing.md })}>
+        {options.title != null && (
+          <h2
+            id={titleId}
+            className="plainframe-ui-dialog-title"
+            css={[
+              css({ margin: 0, fontSize: theme.typography.sizes.lg, fontWeight: 600, color: theme.text.primary }),
+              cfg.styles.title,
+            ]}
+          >
+            {options.title}
+          </h2>
+        )}
+        {options.description != null && (
+          <div
+            id={descId}
+            className="plainframe-ui-dialog-description"
+            css={[css({ fontSize: theme.typography.sizes.sm, color: theme.text.secondary }), cfg.styles.description]}
+          >
+            {options.description}
+          </div>
+        )}
+        {isPrompt && (
+          <TextField
+            autoFocus
+            fullWidth
+            label={promptOptions.label}
+            placeholder={promptOptions.placeholder}
+            type={promptOptions.type}
+            value={value}
+            onChange={onChange}
+            error={!!error}
+            helperText={error}
+          />
+        )}
+        <div
+          className="plainframe-ui-dialog-actions"
+          css={[css({ display: "flex", justifyContent: "flex-end", gap: theme.spacing.sm }), cfg.styles.actions]}
+        >
+          <Button type="button" variant="subtle" onClick={() => settle(item, cancelValue(item))}>
+            {options.cancelLabel ?? messages.dialog.cancel}
+          </Button>
+          <Button type="submit" variant={options.intent === "danger" ? "destructive" : "primary"} loading={validating}>
+            {options.confirmLabel ?? messages.dialog.confirm}
+          </Button>
+        </div>
+      </form>
+    </ModalContent>
+  );
+};
+
+const DialogRenderer: React.FC<{ current: DialogItem | null; open: boolean }> = ({ current, open }) => {
+  if (!current) return null;
+
+  return (
+    <Modal
+      open={open}
+      closeOnEscape={current.options.dismissible !== false}
+      onOpenChange={(next) => {
+        if (!next) settle(current, cancelValue(current));
+      }}
+    >
+      <DialogBody key={current.id} item={current} />
+    </Modal>
+  );
+};
+
+/**
+ * Renders the dialogs opened with `confirm()` and `prompt()`. Mount it once inside your
+ * ThemeProvider and other providers so dialog content shares their theme and context.
+ */
+export const DialogHost: React.FC = () => {
+  const snap = useSyncExternalStore(store.subscribe, store.get, store.get);
+  const [self] = useState(() => ({}));
+
+  useEffect(() => {
+    store.hosts.push(self);
+    store.notify();
+    return () => {
+      store.hosts = store.hosts.filter((h) => h !== self);
+      store.notify();
+    };
+  }, [self]);
+
+  return snap.host === self ? <DialogRenderer current={snap.current} open={snap.open} /> : null;
+};
+
+DialogHost.displayName = "DialogHost";
+
+const FallbackHost: React.FC = () => {
+  const snap = useSyncExternalStore(store.subscribe, store.get, store.get);
+  return snap.host ? null : <DialogRenderer current={snap.current} open={snap.open} />;
+};
@@ -10,10 +10,11 @@ import React, {
 } from "react";
 import { css, type Interpolation } from "@emotion/react";
 import { motion, AnimatePresence, type PanInfo } from "framer-motion";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
 import type { Theme } from "@emotion/react";
+import { acquireScrollLock, OverlayScopeContext, useOverlayLayer } from "../utils/overlayStack";
 
-type DrawerSide = "left" | "right" | "top" | "bottom";
+type DrawerSide = "left" | "right" | "top" | "bottom" | "start" | "end";
 type DrawerVariant = "inset" | "full";
 
 type DrawerCtxT = {
@@ -178,38 +179,6 @@ export type DrawerContentProps = Omit<
   className?: string;
 };
 
-let __locks = 0;
-let __prevOverflow = "";
-let __prevPadRight = "";
-
-const getScrollbarW = (): number =>
-  typeof window === "undefined"
-    ? 0
-    : window.innerWidth - document.documentElement.clientWidth;
-
-function lockBody(): void {
-  if (typeof document === "undefined") return;
-  if (__locks === 0) {
-    const b = document.body;
-    __prevOverflow = b.style.overflow || "";
-    __prevPadRight = b.style.paddingRight || "";
-    const sw = getScrollbarW();
-    b.style.overflow = "hidden";
-    if (sw > 0) b.style.paddingRight = `${sw}px`;
-  }
-  __locks += 1;
-}
-
-function unlockBody(): void {
-  if (typeof document === "undefined") return;
-  if (__locks > 0) __locks -= 1;
-  if (__locks === 0) {
-    const b = document.body;
-    b.style.overflow = __prevOverflow;
-    b.style.paddingRight = __prevPadRight;
-  }
-}
-
 const toNum = (v: number | string | undefined, fb = 0): number =>
   v == null ? fb : typeof v === "number" ? v : parseFloat(String(v)) || fb;
 
@@ -220,7 +189,7 @@ export const DrawerContent: React.ForwardRefExoticComponent<
     children,
     width,
     height,
-    position = "left",
+    position: positionProp = "start",
     variant = "inset",
     margin = 10,
     radius,
@@ -238,41 +207,42 @@ export const DrawerContent: React.ForwardRefExoticComponent<
   ref
 ): React.ReactElement | null {
   const theme = usePlainframeUITheme();
+  const textDir = useDirection();
   const { open, setOpen, lockScroll, closeOnEscape } = useDrawerCtx();
 
-  const bodyLockedRef = useRef(false);
+  const position = useMemo(() => {
+    if (positionProp === "start") return textDir === "rtl" ? "right" : "left";
+    if (positionProp === "end") return textDir === "rtl" ? "left" : "right";
+    return positionProp;
+  }, [positionProp, textDir]);
+
+  const layer = useOverlayLayer(open, { onEscape: closeOnEscape ? () => setOpen(false) : undefined });
+  const { isTopmost } = layer;
+
+  const releaseLockRef = useRef<(() => void) | null>(null);
   const pendingUnlockRef = useRef(false);
 
+  const unlock = useCallback(() => {
+    pendingUnlockRef.current = false;
+    releaseLockRef.current?.();
+    releaseLockRef.current = null;
+  }, []);
+
   useEffect(() => {
     if (!lockScroll) {
-      if (bodyLockedRef.current) {
-        bodyLockedRef.current = false;
-        pendingUnlockRef.current = false;
-        unlockBody();
-      }
+      unlock();
       return;
     }
 
     if (open) {
       pendingUnlockRef.current = false;
-      if (!bodyLockedRef.current) {
-        lockBody();
-        bodyLockedRef.current = true;
-      }
+      if (!releaseLockRef.current) releaseLockRef.current = acquireScrollLock();
     } else {
-      if (bodyLockedRef.current) pendingUnlockRef.current = true;
+      if (releaseLockRef.current) pendingUnlockRef.current = true;
     }
-  }, [open, lockScroll]);
+  }, [open, lockScroll, unlock]);
 
-  useEffect(() => {
-    return () => {
-      if (bodyLockedRef.current) {
-        bodyLockedRef.current = false;
-        pendingUnlockRef.current = false;
-        unlockBody();
-      }
-    };
-  }, []);
+  useEffect(() => unlock, [unlock]);
 
   const marginPx = useMemo(() => toNum(margin, 0), [margin]);
 
@@ -384,7 +354,7 @@ export const DrawerContent: React.ForwardRefExoticComponent<
     () =>
       css({
         position: "fixed",
-        zIndex: 1100,
+        zIndex: layer.zIndex,
         ...posCss,
         width: computedWidth,
         height: computedHeight,
@@ -399,7 +369,7 @@ export const DrawerContent: React.ForwardRefExoticComponent<
         touchAction: axis === "x" ? "pan-y" : "pan-x",
         "@media (prefers-reduced-motion: reduce)": { transition: "none" },
       }),
-    [posCss, computedWidth, computedHeight, theme.surface, computedRadius, open, axis]
+    [posCss, computedWidth, computedHeight, theme.surface, computedRadius, open, axis, layer.zIndex]
   );
 
   const overlayCss: Interpolation<Theme> = useMemo(
@@ -407,7 +377,7 @@ export const DrawerContent: React.ForwardRefExoticComponent<
       css({
         position: "fixed",
         inset: 0,
-        zIndex: 1099,
+        zIndex: layer.zIndex - 1,
         background: theme.surface.overlayBg,
         willChange: "opacity",
         transform: "translateZ(0)",
@@ -419,14 +389,14 @@ export const DrawerContent: React.ForwardRefExoticComponent<
             }
           : null),
       }),
-    [backdropBlur, backdropBlurDepth, theme.surface]
+    [backdropBlur, backdropBlurDepth, theme.surface, layer.zIndex]
   );
 
   const onOverlayClick = useCallback<React.MouseEventHandler<HTMLDivElement>>(
     () => {
-      if (closeOnClickAway) setOpen(false);
+      if (closeOnClickAway && isTopmost()) setOpen(false);
     },
-    [closeOnClickAway, setOpen]
+    [closeOnClickAway, isTopmost, setOpen]
   );
 
   const dragElastic = useMemo((): Record<string, number> => {
@@ -484,7 +454,7 @@ export const DrawerContent: React.ForwardRefExoticComponent<
 
     const handleFocus = (e: FocusEvent) => {
       const panel = panelRef.current;
-      if (!panel || !e.target) return;
+      if (!panel || !e.target || !isTopmost()) return;
 
       const target = e.target as Node;
       if (!panel.contains(target)) {
@@ -500,37 +470,24 @@ export const DrawerContent: React.ForwardRefExoticComponent<
       }
     };
 
-    const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape" && closeOnEscape) {
-        e.stopPropagation();
-        setOpen(false);
-      }
-    };
-
     document.addEventListener("focusin", handleFocus, true);
-    window.addEventListener("keydown", onKey);
 
     return () => {
       clearTimeout(timer);
       document.removeEventListener("focusin", handleFocus, true);
-      window.removeEventListener("keydown", onKey);
 
       if (prevFocusRef.current && typeof prevFocusRef.current.focus === "function") {
         prevFocusRef.current.focus();
       }
     };
-  }, [open, setOpen, closeOnEscape]);
+  }, [open, isTopmost]);
 
   const { ...safeRest } = rest;
 
   return (
     <AnimatePresence
       onExitComplete={() => {
-        if (lockScroll && pendingUnlockRef.current && bodyLockedRef.current) {
-          pendingUnlockRef.current = false;
-          bodyLockedRef.current = false;
-          unlockBody();
-        }
+        if (pendingUnlockRef.current) unlock();
       }}
     >
       {open ? (
@@ -572,7 +529,7 @@ export const DrawerContent: React.ForwardRefExoticComponent<
             transition={transitionMs ? timedTransition : springTransition}
             {...safeRest}
           >
-            {children}
+            <OverlayScopeContext.Provider value={layer}>{children}</OverlayScopeContext.Provider>
           </motion.div>
         </>
       ) : null}
@@ -12,7 +12,9 @@ import React, {
   useLayoutEffect,
 } from "react";
 import { css as emCss, type Interpolation, type Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, usePrimitives, useDirection } from "../theme/ThemeProvider";
+import { MODES } from "../theme/theme";
+import { logicalArrowKey } from "../utils/direction";
 import {
   useFloating,
   flip,
@@ -30,9 +32,13 @@ import { AnimatePresence, motion, type Transition } from "framer-motion";
 import { DenseCtx } from "./Menu";
 import { mergeRefs as mergeRefsFromPopover } from "./Popover";
 import { cancelSubMenuClose } from "./MenuItems";
+import { OverlayScopeContext, useOverlayLayer, type OverlayLayer } from "../utils/overlayStack";
+import { VirtualList, type VirtualListHandle, type VirtualizeOptions } from "../utils/virtualList";
 
 type PFUIActiveScope = { id: string; depth: number; ts: number };
 
+const MODE_CLASSES = MODES.map((m) => `pf-${m}`);
+
 const markPFUIActiveScopeFrom = (node: HTMLElement | null): void => {
   if (!node || typeof window === "undefined") return;
 
@@ -52,39 +58,6 @@ const markPFUIActiveScopeFrom = (node: HTMLElement | null): void => {
 
 export const mergeRefs = mergeRefsFromPopover;
 
-let __scrollLocks = 0;
-let __prevOverflow: string | null = null;
-let __prevPaddingRight: string | null = null;
-
-const getScrollbarWidth = (): number =>
-  typeof window === "undefined" || typeof document === "undefined"
-    ? 0
-    : window.innerWidth - document.documentElement.clientWidth;
-
-function lockBodyScroll(): void {
-  if (typeof document === "undefined") return;
-  if (__scrollLocks === 0) {
-    const body = document.body;
-    __prevOverflow = body.style.overflow || "";
-    __prevPaddingRight = body.style.paddingRight || "";
-    const sw = getScrollbarWidth();
-    body.style.overflow = "hidden";
-    if (sw > 0) body.style.paddingRight = `${sw}px`;
-  }
-  __scrollLocks += 1;
-}
-function unlockBodyScroll(): void {
-  if (typeof document === "undefined") return;
-  if (__scrollLocks > 0) __scrollLocks -= 1;
-  if (__scrollLocks === 0) {
-    const body = document.body;
-    if (__prevOverflow !== null) body.style.overflow = __prevOverflow;
-    if (__prevPaddingRight !== null) body.style.paddingRight = __prevPaddingRight;
-    __prevOverflow = null;
-    __prevPaddingRight = null;
-  }
-}
-
 type Side = "top" | "bottom" | "left" | "right";
 type Align = "start" | "center" | "end";
 export type TriggerMode = "click" | "hover";
@@ -143,6 +116,8 @@ export type DropdownMenuContentProps = Omit<
   disableOutsidePressDismiss?: boolean;
   
   returnFocus?: boolean;
+  // Only mounts the rows in view. Children should be a flat list of items and labels.
+  virtualize?: boolean | VirtualizeOptions;
 };
 
 type Ctx = {
@@ -158,6 +133,8 @@ type Ctx = {
   pendingOpenRef?: React.MutableRefObject<boolean>;
   floatingRef?: React.MutableRefObject<HTMLElement | null>;
   menuId?: string;
+  layer?: OverlayLayer;
+  virtualRef?: React.MutableRefObject<VirtualListHandle | null>;
 };
 export const MenuCtx: React.Context<Ctx | null> = createContext<Ctx | null>(null);
 const useMenu = (): Ctx => {
@@ -276,6 +253,7 @@ export const DropdownMenu: React.FC<DropdownMenuRootProps> = ({
   const referenceRef = useRef<HTMLElement | null>(null);
   const listRef = useRef<Array<HTMLElement | null>>([]);
   const floatingRef = useRef<HTMLElement | null>(null);
+  const virtualRef = useRef<VirtualListHandle | null>(null);
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [isKeyboardNav, setIsKeyboardNav] = useState(false);
 
@@ -306,11 +284,7 @@ export const DropdownMenu: React.FC<DropdownMenuRootProps> = ({
   }, []);
   useEffect(() => () => clearSubmenuHover(), [clearSubmenuHover]);
 
-  useEffect(() => {
-    if (!lockScroll || !open) return;
-    lockBodyScroll();
-    return () => unlockBodyScroll();
-  }, [open, lockScroll]);
+  const layer = useOverlayLayer(open, { lockScroll, onEscape: () => setOpen(false) });
 
   const parentBus = useRootBus();
   const [bus] = useState<RootBus>(() => parentBus ?? createRootBus());
@@ -340,8 +314,10 @@ export const DropdownMenu: React.FC<DropdownMenuRootProps> = ({
       scheduleSubmenuHover,
       clearSubmenuHover,
       menuId: menuIdRef.current,
+      layer,
+      virtualRef,
     }),
-    [open, setOpen, trigger, setActiveIndex, scheduleSubmenuHover, clearSubmenuHover]
+    [open, setOpen, trigger, setActiveIndex, scheduleSubmenuHover, clearSubmenuHover, layer]
   );
 
   
@@ -389,9 +365,11 @@ export const DropdownMenuTrigger: React.ForwardRefExoticComponent<
       clearSubmenuHover,
       floatingRef,
       menuId,
+      virtualRef,
     } = useMenu();
     const keyboardNav = useKeyboardNav();
     const subMenuCloser = useSubMenuCloser();
+    const dir = useDirection();
 
     const canAsChild = !!asChild && isValidElement(children);
     const childEl = canAsChild ? (children as React.ReactElement) : null;
@@ -453,7 +431,7 @@ export const DropdownMenuTrigger: React.ForwardRefExoticComponent<
           return;
         }
 
-        if (e.key === "ArrowRight" && open) {
+        if (logicalArrowKey(e.key, dir) === "ArrowRight" && open) {
           const hoveredSubTrigger = document.querySelector('[data-subtrigger][data-hovered]') as HTMLElement | null;
           if (hoveredSubTrigger) {
             e.preventDefault();
@@ -466,7 +444,7 @@ export const DropdownMenuTrigger: React.ForwardRefExoticComponent<
             
             requestAnimationFrame(() => {
               const keyEvent = new KeyboardEvent('keydown', {
-                key: 'ArrowRight',
+                key: e.key,
                 bubbles: true,
                 cancelable: true
               });
@@ -488,7 +466,7 @@ export const DropdownMenuTrigger: React.ForwardRefExoticComponent<
               if (menuElement) {
                 
                 menuElement.setAttribute('data-keyboard-nav', '');
-                
+                if (virtualRef?.current?.navigate(e.key === "ArrowDown" ? "Home" : "End")) return;
                 
                 const items = Array.from(
                   menuElement.querySelectorAll<HTMLElement>(
@@ -518,7 +496,13 @@ export const DropdownMenuTrigger: React.ForwardRefExoticComponent<
           
           if (open) {
             e.preventDefault();
-            
+
+            if (virtualRef?.current?.navigate(e.key)) {
+              floatingRef?.current?.setAttribute('data-keyboard-nav', '');
+              childOnKeyDown?.(e);
+              propOnKeyDown?.(e);
+              return;
+            }
             
             const allHovered = document.querySelectorAll('[data-hovered]');
             for (const hovered of Array.from(allHovered)) {
@@ -653,7 +637,7 @@ export const DropdownMenuTrigger: React.ForwardRefExoticComponent<
         childOnKeyDown?.(e);
         propOnKeyDown?.(e);
       },
-      [open, setOpen, setActiveIndex, childOnKeyDown, propOnKeyDown, nodes, focusIdx, listRef, keyboardNav, menuId, floatingRef, subMenuCloser]
+      [open, setOpen, setActiveIndex, childOnKeyDown, propOnKeyDown, nodes, focusIdx, listRef, keyboardNav, menuId, floatingRef, subMenuCloser, dir, virtualRef]
     );
 
     const handleClick = useCallback(
@@ -778,6 +762,7 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
       ignoreOutsidePressRefs,
       disableOutsidePressDismiss = false,
       returnFocus = false,
+      virtualize = false,
       ...rest
     },
     ref
@@ -790,9 +775,15 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
       setActiveIndex,
       floatingRef,
       menuId,
+      layer,
+      virtualRef,
     } = useMenu();
+    const dense = useContext(DenseCtx);
     const theme = usePlainframeUITheme();
+    // The virtual list does arithmetic on heights, so it reads raw values rather than the CSS vars in `theme`.
+    const prims = usePrimitives();
     const rootBus = useRootBus();
+    const isSubmenu = useIsInsideSubmenu();
     const keyboardNav = useKeyboardNav();
 
     useEffect(() => {
@@ -925,9 +916,10 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
 
     const dismiss = useDismiss(context, {
       outsidePressEvent: "pointerdown",
-      escapeKey: true,
+      escapeKey: false,
       outsidePress: disableOutsidePressDismiss ? false : (event) => {
-        
+        if (layer && !layer.isTopmost()) return false;
+
         if (ignoreOutsidePressRefs?.length) {
           const target = event.target as Node;
           for (const ref of ignoreOutsidePressRefs) {
@@ -1006,16 +998,11 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
         }
       }
 
-      portalEl.classList.remove("pf-light", "pf-dark");
-      el.classList.remove("pf-light", "pf-dark");
-      if (parentPortal.classList.contains("pf-light")) {
-        portalEl.classList.add("pf-light");
-        el.classList.add("pf-light");
-      }
-      if (parentPortal.classList.contains("pf-dark")) {
-        portalEl.classList.add("pf-dark");
-        el.classList.add("pf-dark");
-      }
+      MODE_CLASSES.forEach((cls) => {
+        const on = parentPortal.classList.contains(cls);
+        portalEl.classList.toggle(cls, on);
+        el.classList.toggle(cls, on);
+      });
 
       return true;
     }
@@ -1042,16 +1029,11 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
         el.setAttribute("data-pfui-primary", primary);
       }
 
-      portalEl.classList.remove("pf-light", "pf-dark");
-      el.classList.remove("pf-light", "pf-dark");
-      if (scopeWrapper.classList.contains("pf-light")) {
-        portalEl.classList.add("pf-light");
-        el.classList.add("pf-light");
-      }
-      if (scopeWrapper.classList.contains("pf-dark")) {
-        portalEl.classList.add("pf-dark");
-        el.classList.add("pf-dark");
-      }
+      MODE_CLASSES.forEach((cls) => {
+        const on = scopeWrapper.classList.contains(cls);
+        portalEl.classList.toggle(cls, on);
+        el.classList.toggle(cls, on);
+      });
 
       const existingPortal = document.querySelector(
         `[data-pfui-portal-owner="${scopeId}"]`
@@ -1094,6 +1076,7 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
         : typeof gap === "number"
           ? gap
           : theme.spacing[gap] ?? gap;
+    const virtualGap = gap === undefined ? 0 : parseFloat(String(typeof gap === "number" ? gap : prims.spacing[gap] ?? gap)) || 0;
 
     const baseCss = unstyled
       ? undefined
@@ -1175,7 +1158,7 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
       });
     };
 
-    const enhancedChildren = React.Children.map(children, annotate);
+    const enhancedChildren = virtualize ? null : React.Children.map(children, annotate);
 
     
     const delta = 8;
@@ -1229,7 +1212,7 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
       position: strategy as React.CSSProperties["position"],
       top: (y ?? 0) as number,
       left: (x ?? 0) as number,
-      zIndex: 1000,
+      zIndex: (layer?.zIndex ?? 1000) + (isSubmenu ? 1 : 0),
       transformOrigin,
       
     });
@@ -1242,6 +1225,20 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
         return;
       }
 
+      // The overlay stack would close the whole tree; in a submenu Escape only closes that level.
+      if (e.key === "Escape" && isSubmenu) {
+        e.preventDefault();
+        e.stopPropagation();
+        setOpen(false);
+        const triggerEl = referenceRef.current;
+        if (triggerEl) {
+          triggerEl.closest('[data-menu-id]')?.setAttribute('data-keyboard-nav', '');
+          triggerEl.setAttribute('data-highlighted', '');
+          triggerEl.focus();
+        }
+        return;
+      }
+
       
       if (e.key === "ArrowDown" || e.key === "ArrowUp") {
         e.preventDefault();
@@ -1292,7 +1289,16 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
           items[nextIndex]?.focus();
         }
       }
-    }, [keyboardNav, setActiveIndex]);
+    }, [keyboardNav, setActiveIndex, isSubmenu, setOpen, referenceRef]);
+
+    // Items only see their mounted neighbours, so a windowed list moves focus by index instead.
+    const handleVirtualKeyDown = useCallback((e: React.KeyboardEvent) => {
+      if (!virtualRef?.current?.navigate(e.key)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      keyboardNav?.setIsKeyboardNav(true);
+      (e.currentTarget as HTMLElement).setAttribute('data-keyboard-nav', '');
+    }, [virtualRef, keyboardNav]);
 
     
     const handleMouseMove = useCallback((e: React.MouseEvent) => {
@@ -1346,8 +1352,9 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
                             }
                           }
                           
-                          if (parentPortal.classList.contains("pf-light")) el.classList.add("pf-light");
-                          if (parentPortal.classList.contains("pf-dark")) el.classList.add("pf-dark");
+                          MODE_CLASSES.forEach((cls) => {
+                            if (parentPortal.classList.contains(cls)) el.classList.add(cls);
+                          });
                         }
                       }
                     }
@@ -1363,6 +1370,7 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
                 transition={transition}
                 onPointerMove={(e) => exitKeyboardMode(e.currentTarget as HTMLElement)}
   onPointerDown={(e) => exitKeyboardMode(e.currentTarget as HTMLElement)}
+                onKeyDownCapture={virtualize ? handleVirtualKeyDown : undefined}
                 onKeyDown={handleMenuKeyDown}
                 onMouseMove={handleMouseMove}
                 onMouseEnter={() => {
@@ -1376,7 +1384,23 @@ export const DropdownMenuContent: React.ForwardRefExoticComponent<
                   document.querySelectorAll('[data-hovered]').forEach(el => el.removeAttribute('data-hovered'));
                 }}
               >
-                {enhancedChildren}
+                <OverlayScopeContext.Provider value={layer ?? null}>
+                  {virtualize ? (
+                    <VirtualList
+                      ref={virtualRef}
+                      scrollRef={floatingRef as React.RefObject<HTMLElement | null>}
+                      options={virtualize === true ? undefined : virtualize}
+                      defaultItemHeight={parseFloat(String(dense ? prims.componentHeights.sm : prims.componentHeights.md))}
+                      gap={virtualGap}
+                      stickyCss={{ background: theme.surface.panelBg }}
+                      onActiveIndexChange={setActiveIndex}
+                    >
+                      {children}
+                    </VirtualList>
+                  ) : (
+                    enhancedChildren
+                  )}
+                </OverlayScopeContext.Provider>
               </motion.div>
             </FocusCtx.Provider>
           ) : null}
@@ -1464,6 +1488,7 @@ export const DropdownMenuSub: React.FC<{
 
   const inheritedDense = useContext(DenseCtx);
   const finalDense = dense ?? inheritedDense;
+  const parentLayer = useContext(MenuCtx)?.layer;
 
   const value = useMemo<Ctx>(
     () => ({
@@ -1478,8 +1503,9 @@ export const DropdownMenuSub: React.FC<{
       clearSubmenuHover,
       pendingOpenRef,
       menuId: menuIdRef.current,
+      layer: parentLayer,
     }),
-    [open, setOpen, trigger, setActiveIndex, scheduleSubmenuHover, clearSubmenuHover]
+    [open, setOpen, trigger, setActiveIndex, scheduleSubmenuHover, clearSubmenuHover, parentLayer]
   );
 
   
@@ -1547,6 +1573,7 @@ export const DropdownMenuSubTrigger: React.ForwardRefExoticComponent<
     const { open, setOpen, trigger, referenceRef, scheduleSubmenuHover, clearSubmenuHover, pendingOpenRef, menuId } =
       useMenu();
     const keyboardNav = useKeyboardNav();
+    const dir = useDirection();
     
     
     const storeCloseCallback = useCallback((el: HTMLElement | null) => {
@@ -1592,6 +1619,7 @@ export const DropdownMenuSubTrigger: React.ForwardRefExoticComponent<
         }
 
         const currentEl = e.currentTarget as HTMLElement;
+        const key = logicalArrowKey(e.key, dir);
 
         
         const navigateMenu = (direction: 'next' | 'prev') => {
@@ -1654,7 +1682,7 @@ export const DropdownMenuSubTrigger: React.ForwardRefExoticComponent<
         }
 
         
-        if (e.key === "ArrowRight" || e.key === "Enter" || e.key === " ") {
+        if (key === "ArrowRight" || key === "Enter" || key === " ") {
           e.preventDefault();
           e.stopPropagation();
           keyboardNav?.setIsKeyboardNav(true);
@@ -1689,7 +1717,7 @@ export const DropdownMenuSubTrigger: React.ForwardRefExoticComponent<
         }
 
         
-        if (e.key === "ArrowLeft") {
+        if (key === "ArrowLeft") {
           e.preventDefault();
           e.stopPropagation();
           
@@ -1717,10 +1745,14 @@ export const DropdownMenuSubTrigger: React.ForwardRefExoticComponent<
         }
 
         
+        // With its submenu open Escape closes just that; otherwise it reaches the overlay stack and closes the menu.
         if (e.key === "Escape") {
-          e.preventDefault();
-          e.stopPropagation();
-          
+          if (open) {
+            e.preventDefault();
+            e.stopPropagation();
+            setOpen(false);
+            return;
+          }
           childOnKeyDown?.(e);
           return;
         }
@@ -1729,7 +1761,7 @@ export const DropdownMenuSubTrigger: React.ForwardRefExoticComponent<
         childOnKeyDown?.(e);
         propOnKeyDown?.(e);
       },
-      [open, setOpen, childOnKeyDown, propOnKeyDown, referenceRef, keyboardNav, menuId]
+      [open, setOpen, childOnKeyDown, propOnKeyDown, referenceRef, keyboardNav, menuId, dir]
     );
 
 
@@ -1890,6 +1922,7 @@ export const DropdownMenuSubContent: React.ForwardRefExoticComponent<
   (props, ref) => {
     const rootBus = useRootBus();
     const { referenceRef, clearSubmenuHover, scheduleSubmenuHover } = useMenu();
+    const dir = useDirection();
 
     
     const mergedClassName = [props.className, "plainframe-ui-submenu-content"].filter(Boolean).join(" ");
@@ -1897,7 +1930,7 @@ export const DropdownMenuSubContent: React.ForwardRefExoticComponent<
     return (
       <DropdownMenuContent
         ref={ref}
-        side="right"
+        side={dir === "rtl" ? "left" : "right"}
         align="start"
         exitPlacement="bottom"
         animateOnBusClose={true}
@@ -0,0 +1,580 @@
+/** @jsxImportSource @emotion/react */
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from "react";
+import { css, type Interpolation, type Theme } from "@emotion/react";
+import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { Autocomplete } from "./Autocomplete";
+import { Checkbox } from "./Checkbox";
+import { CodeField } from "./CodeField";
+import { DatePicker, DateRangePicker } from "./DatePicker";
+import { DateTimeField } from "./DateTimeField";
+import { RadioGroup } from "./RadioGroup";
+import { Select } from "./Select";
+import { Slider } from "./Slider";
+import { Switch } from "./Switch";
+import { TextArea } from "./TextArea";
+import { TextField } from "./TextField";
+import { TimePicker } from "./TimePicker";
+import { schemaValidator, type SchemaAdapter } from "../utils/validation";
+import { useLocale } from "../locale/LocaleProvider";
+import type { Messages } from "../locale/messages";
+
+export type FormValues = Record<string, unknown>;
+export type FormErrors = Record<string, string | undefined>;
+
+type MaybePromise<T> = T | Promise<T>;
+type ValidationResult = string | null | undefined | false;
+
+// Carries what a validator needs from where its field renders, such as the nearest LocaleProvider's messages.
+export type FieldValidatorContext = { messages: Messages["validation"] };
+export type FieldValidator<V = any, T extends FormValues = FormValues> = (
+  value: V,
+  values: T,
+  context?: FieldValidatorContext
+) => MaybePromise<ValidationResult>;
+export type FormValidator<T extends FormValues = FormValues> = (values: T) => MaybePromise<FormErrors>;
+export type ValidateOn = "blur" | "change" | "submit";
+
+export type UseFormOptions<T extends FormValues = FormValues> = {
+  defaultValues?: Partial<T>;
+  validate?: FormValidator<T>;
+  schema?: unknown;
+  schemaAdapter?: SchemaAdapter<any>;
+  validateOn?: ValidateOn;
+  onSubmit?: (values: T, form: FormApi<T>) => void | Promise<void>;
+  onInvalid?: (errors: FormErrors, form: FormApi<T>) => void;
+};
+
+export type FieldState<V = unknown> = {
+  value: V;
+  error?: string;
+  touched: boolean;
+  dirty: boolean;
+  validating: boolean;
+};
+
+type FieldEntry = {
+  validators: () => FieldValidator[];
+  context: () => FieldValidatorContext;
+  element: () => HTMLElement | null;
+};
+
+export type FormApi<T extends FormValues = FormValues> = {
+  values: T;
+  errors: FormErrors;
+  touched: Record<string, boolean>;
+  isDirty: boolean;
+  isValid: boolean;
+  isValidating: boolean;
+  isSubmitting: boolean;
+  submitCount: number;
+  // What the last submit threw (from `onSubmit` or a validator); cleared when the next submit starts.
+  submitError: unknown;
+  getValue: <K extends keyof T & string>(name: K) => T[K];
+  setValue: <K extends keyof T & string>(name: K, value: T[K]) => void;
+  setTouched: (name: string, touched?: boolean) => void;
+  setError: (name: string, error: string | undefined) => void;
+  getFieldState: (name: string) => FieldState;
+  registerField: (name: string, entry: FieldEntry) => () => void;
+  validateField: (name: string) => Promise<boolean>;
+  validate: () => Promise<boolean>;
+  handleSubmit: (e?: React.FormEvent) => Promise<void>;
+  reset: (values?: Partial<T>) => void;
+};
+
+type FormState<T> = {
+  values: T;
+  errors: FormErrors;
+  touched: Record<string, boolean>;
+  validating: Record<string, boolean>;
+  submitCount: number;
+  isSubmitting: boolean;
+  submitError: unknown;
+};
+
+const isPromise = <T,>(v: MaybePromise<T>): v is Promise<T> => !!v && typeof (v as Promise<T>).then === "function";
+
+const chain = <A, B>(v: MaybePromise<A>, f: (a: A) => MaybePromise<B>): MaybePromise<B> => (isPromise(v) ? v.then(f) : f(v));
+
+const toError = (r: ValidationResult): string | undefined => (r ? r : undefined);
+
+const failureMessage = (err: unknown): string => (err instanceof Error && err.message ? err.message : String(err));
+
+function runValidators(
+  validators: FieldValidator[],
+  value: unknown,
+  values: FormValues,
+  context: FieldValidatorContext | undefined,
+  i = 0
+): MaybePromise<string | undefined> {
+  for (; i < validators.length; i++) {
+    const r = validators[i](value, values, context);
+    if (isPromise(r)) {
+      const next = i + 1;
+      return r.then((res) => toError(res) ?? runValidators(validators, value, values, context, next));
+    }
+    if (r) return r;
+  }
+  return undefined;
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((x, i) => Object.is(x, b[i]));
+  return false;
+};
+
+const setKey = <V,>(o: Record<string, V>, k: string, v: V | undefined): Record<string, V> => {
+  if (v === undefined) {
+    if (!(k in o)) return o;
+    const { [k]: _omit, ...rest } = o;
+    return rest;
+  }
+  return o[k] === v ? o : { ...o, [k]: v };
+};
+
+function getIn(obj: unknown, path: string): unknown {
+  if (obj == null || typeof obj !== "object") return undefined;
+  if (path in obj) return (obj as Record<string, unknown>)[path];
+  return path.split(".").reduce<unknown>((o, k) => (o == null ? undefined : (o as Record<string, unknown>)[k]), obj);
+}
+
+function setIn<T>(obj: T, path: string, value: unknown): T {
+  const keys = path.split(".");
+  const write = (o: unknown, i: number): unknown => {
+    const k = keys[i];
+    const src = (o ?? (/^\d+$/.test(k) ? [] : {})) as Record<string, unknown>;
+    const copy = (Array.isArray(src) ? [...src] : { ...src }) as Record<string, unknown>;
+    copy[k] = i === keys.length - 1 ? value : write(src[k], i + 1);
+    return copy;
+  };
+  return write(obj, 0) as T;
+}
+
+function formValidatorOf<T extends FormValues>(o: UseFormOptions<T>, fromSchema: FormValidator<T> | undefined): FormValidator<T> | undefined {
+  if (!fromSchema || !o.validate) return fromSchema ?? o.validate;
+  const own = o.validate;
+  return (values) => chain(fromSchema(values), (a) => chain(own(values), (b) => ({ ...a, ...b })));
+}
+
+const FOCUSABLE = 'input:not([type="hidden"]), textarea, select, button, [tabindex]:not([tabindex="-1"])';
+
+export function useForm<T extends FormValues = FormValues>(options: UseFormOptions<T> = {}): FormApi<T> {
+  const optsRef = useRef(options);
+  optsRef.current = options;
+
+  const fromSchema = useMemo(
+    () => (options.schema ? schemaValidator<T>(options.schema, options.schemaAdapter) : undefined),
+    [options.schema, options.schemaAdapter]
+  );
+  const schemaRef = useRef(fromSchema);
+  schemaRef.current = fromSchema;
+
+  const initialRef = useRef<T>({ ...(options.defaultValues ?? {}) } as T);
+  const fields = useRef(new Map<string, FieldEntry>());
+  const tokens = useRef(new Map<string, number>());
+
+  const [state, setState] = useState<FormState<T>>(() => ({
+    values: initialRef.current,
+    errors: {},
+    touched: {},
+    validating: {},
+    submitCount: 0,
+    isSubmitting: false,
+    submitError: undefined,
+  }));
+  const stateRef = useRef(state);
+
+  const update = useCallback((fn: (s: FormState<T>) => FormState<T>) => {
+    stateRef.current = fn(stateRef.current);
+    setState(stateRef.current);
+  }, []);
+
+  const fieldValidators = useCallback((name: string) => fields.current.get(name)?.validators() ?? [], []);
+  const fieldContext = useCallback((name: string) => fields.current.get(name)?.context(), []);
+
+  const validateField = useCallback(
+    (name: string): Promise<boolean> => {
+      const token = (tokens.current.get(name) ?? 0) + 1;
+      tokens.current.set(name, token);
+
+      const values = stateRef.current.values;
+      let result: MaybePromise<string | undefined>;
+      try {
+        const formValidate = formValidatorOf(optsRef.current, schemaRef.current);
+        result = chain(runValidators(fieldValidators(name), getIn(values, name), values, fieldContext(name)), (err) =>
+          err || !formValidate ? err : chain(formValidate(values), (errors) => errors[name])
+        );
+      } catch (err) {
+        result = failureMessage(err);
+      }
+
+      const apply = (err: string | undefined) => {
+        if (tokens.current.get(name) !== token) return !err;
+        update((s) => ({ ...s, errors: setKey(s.errors, name, err), validating: setKey(s.validating, name, undefined) }));
+        return !err;
+      };
+
+      if (!isPromise(result)) return Promise.resolve(apply(result));
+      update((s) => ({ ...s, validating: setKey(s.validating, name, true) }));
+      // A validator that throws or rejects leaves its message as the field error.
+      return result.then(apply, (err) => apply(failureMessage(err)));
+    },
+    [fieldValidators, fieldContext, update]
+  );
+
+  const validate = useCallback(async (): Promise<boolean> => {
+    const values = stateRef.current.values;
+    const names = [...fields.current.keys()];
+    names.forEach((n) => tokens.current.set(n, (tokens.current.get(n) ?? 0) + 1));
+
+    const [fieldErrors, formErrors] = await Promise.all([
+      Promise.all(names.map((n) => runValidators(fieldValidators(n), getIn(values, n), values, fieldContext(n)))),
+      formValidatorOf(optsRef.current, schemaRef.current)?.(values) ?? {},
+    ]);
+
+    const errors: FormErrors = {};
+    Object.entries(formErrors).forEach(([k, v]) => {
+      if (v) errors[k] = v;
+    });
+    names.forEach((n, i) => {
+      if (fieldErrors[i]) errors[n] = fieldErrors[i];
+    });
+
+    update((s) => ({ ...s, errors, validating: {} }));
+    return Object.keys(errors).length === 0;
+  }, [fieldValidators, fieldContext, update]);
+
+  const shouldValidate = (name: string) => {
+    const s = stateRef.current;
+    const mode = optsRef.current.validateOn ?? "blur";
+    if (s.submitCount > 0) return true;
+    if (mode === "submit") return false;
+    return mode === "change" || !!s.touched[name];
+  };
+
+  const setValue = useCallback(
+    (name: string, value: unknown) => {
+      update((s) => ({ ...s, values: setIn(s.values, name, value) }));
+      if (shouldValidate(name)) void validateField(name);
+    },
+    [update, validateField]
+  );
+
+  const setTouched = useCallback(
+    (name: string, touched = true) => {
+      const was = !!stateRef.current.touched[name];
+      update((s) => ({ ...s, touched: setKey(s.touched, name, touched || undefined) }));
+      if (touched && !was && (optsRef.current.validateOn ?? "blur") !== "submit") void validateField(name);
+    },
+    [update, validateField]
+  );
+
+  const setError = useCallback(
+    (name: string, error: string | undefined) => update((s) => ({ ...s, errors: setKey(s.errors, name, error) })),
+    [update]
+  );
+
+  const registerField = useCallback((name: string, entry: FieldEntry) => {
+    fields.current.set(name, entry);
+    return () => {
+      if (fields.current.get(name) === entry) fields.current.delete(name);
+    };
+  }, []);
+
+  const focusFirstInvalid = useCallback((errors: FormErrors) => {
+    const els = Object.keys(errors)
+      .map((n) => fields.current.get(n)?.element())
+      .filter((el): el is HTMLElement => !!el)
+      .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+    const first = els[0];
+    const target = first?.matches(FOCUSABLE) ? first : first?.querySelector<HTMLElement>(FOCUSABLE);
+    target?.focus();
+  }, []);
+
+  const apiRef = useRef<FormApi<T>>(null as unknown as FormApi<T>);
+
+  const handleSubmit = useCallback(
+    async (e?: React.FormEvent) => {
+      e?.preventDefault();
+      if (stateRef.current.isSubmitting) return;
+      const touched = { ...stateRef.current.touched };
+      fields.current.forEach((_, n) => (touched[n] = true));
+      update((s) => ({ ...s, touched, submitCount: s.submitCount + 1, isSubmitting: true, submitError: undefined }));
+
+      try {
+        const ok = await validate();
+        if (!ok) {
+          focusFirstInvalid(stateRef.current.errors);
+          optsRef.current.onInvalid?.(stateRef.current.errors, apiRef.current);
+          return;
+        }
+        await optsRef.current.onSubmit?.(stateRef.current.values, apiRef.current);
+      } catch (err) {
+        update((s) => ({ ...s, submitError: err, validating: {} }));
+      } finally {
+        update((s) => ({ ...s, isSubmitting: false }));
+      }
+    },
+    [update, validate, focusFirstInvalid]
+  );
+
+  const reset = useCallback(
+    (values?: Partial<T>) => {
+      if (values) initialRef.current = { ...values } as T;
+      tokens.current.clear();
+      update(() => ({
+        values: initialRef.current,
+        errors: {},
+        touched: {},
+        validating: {},
+        submitCount: 0,
+        isSubmitting: false,
+        submitError: undefined,
+      }));
+    },
+    [update]
+  );
+
+  const getFieldState = useCallback(
+    (name: string): FieldState => ({
+      value: getIn(state.values, name),
+      error: state.errors[name],
+      touched: !!state.touched[name],
+      dirty: !isEqual(getIn(state.values, name), getIn(initialRef.current, name)),
+      validating: !!state.validating[name],
+    }),
+    [state]
+  );
+
+  const api = useMemo<FormApi<T>>(() => {
+    const keys = new Set([...Object.keys(state.values), ...Object.keys(initialRef.current), ...fields.current.keys()]);
+    return {
+      values: state.values,
+      errors: state.errors,
+      touched: state.touched,
+      isDirty: [...keys].some((k) => !isEqual(getIn(state.values, k), getIn(initialRef.current, k))),
+      isValid: Object.keys(state.errors).length === 0,
+      isValidating: Object.keys(state.validating).length > 0,
+      isSubmitting: state.isSubmitting,
+      submitCount: state.submitCount,
+      submitError: state.submitError,
+      getValue: (name) => getIn(stateRef.current.values, name) as T[typeof name],
+      setValue: setValue as FormApi<T>["setValue"],
+      setTouched,
+      setError,
+      getFieldState,
+      registerField,
+      validateField,
+      validate,
+      handleSubmit,
+      reset,
+    };
+  }, [state, setValue, setTouched, setError, getFieldState, registerField, validateField, validate, handleSubmit, reset]);
+
+  apiRef.current = api;
+  return api;
+}
+
+const FormContext = createContext<FormApi<any> | null>(null);
+
+export function useFormContext<T extends FormValues = FormValues>(): FormApi<T> {
+  const ctx = useContext(FormContext);
+  if (!ctx) throw new Error("useFormContext must be used within Form");
+  return ctx as FormApi<T>;
+}
+
+export type FormProps<T extends FormValues = FormValues> = UseFormOptions<T> &
+  Omit<React.FormHTMLAttributes<HTMLFormElement>, "onSubmit" | "onInvalid" | "children"> & {
+    form?: FormApi<T>;
+    children?: React.ReactNode;
+    css?: Interpolation<Theme>;
+  };
+
+export const Form = <T extends FormValues = FormValues>({
+  form,
+  defaultValues,
+  validate,
+  schema,
+  schemaAdapter,
+  validateOn,
+  onSubmit,
+  onInvalid,
+  children,
+  className,
+  css: userCss,
+  onReset,
+  ...rest
+}: FormProps<T>): JSX.Element => {
+  const own = useForm<T>({ defaultValues, validate, schema, schemaAdapter, validateOn, onSubmit, onInvalid });
+  const api = form ?? own;
+
+  return (
+    <FormContext.Provider value={api}>
+      <form
+        {...rest}
+        noValidate
+        className={["plainframe-ui-form", className || ""].join(" ").trim()}
+        css={userCss}
+        onSubmit={(e) => void api.handleSubmit(e)}
+        onReset={(e) => {
+          e.preventDefault();
+          api.reset();
+          onReset?.(e);
+        }}
+      >
+        {children}
+      </form>
+    </FormContext.Provider>
+  );
+};
+
+export type FormFieldRenderProps<V = any> = FieldState<V> & {
+  name: string;
+  onChange: (value: V) => void;
+  onBlur: () => void;
+  invalid: boolean;
+};
+
+export type FormFieldProps<V = any> = {
+  name: string;
+  validate?: FieldValidator<V> | FieldValidator<V>[];
+  children: React.ReactElement | ((field: FormFieldRenderProps<V>) => React.ReactNode);
+  className?: string;
+  css?: Interpolation<Theme>;
+};
+
+type Binding = {
+  valueProp?: string;
+  changeProp: string;
+  read: (...args: any[]) => unknown;
+  helper: boolean;
+  // What an unset field value is passed as; defaults to "".
+  empty?: unknown;
+};
+
+const first = (v: unknown) => v;
+
+function bindingFor(el: React.ReactElement): Binding {
+  const type = el.type;
+  const props = el.props as Record<string, unknown>;
+  if (type === Checkbox || type === Switch) return { valueProp: "checked", changeProp: "onChange", read: first, helper: false };
+  if (type === Autocomplete) {
+    return props.multiple
+      ? {
+          valueProp: "selectedValues",
+          changeProp: "onChangeSelected",
+          read: (items: { value: string }[]) => items.map((i) => i.value),
+          helper: true,
+          empty: [],
+        }
+      : { valueProp: "selectedValue", changeProp: "onSelect", read: (item: { value: string } | null) => item?.value ?? null, helper: true, empty: null };
+  }
+  if (type === TextField || type === TextArea || type === CodeField) return { valueProp: "value", changeProp: "onChange", read: first, helper: true };
+  // These have no error/helperText props, so FormField renders the message below them.
+  if (type === Select) return { valueProp: "value", changeProp: "onChange", read: first, helper: false, empty: props.multiple ? [] : null };
+  if (type === RadioGroup) return { valueProp: "value", changeProp: "onChange", read: first, helper: false, empty: null };
+  if (type === Slider) {
+    return { valueProp: "value", changeProp: "onChange", read: first, helper: false, empty: props.defaultValue ?? props.min ?? 0 };
+  }
+  if (type === DatePicker || type === TimePicker || type === DateTimeField) {
+    return { valueProp: "value", changeProp: "onChange", read: first, helper: true, empty: null };
+  }
+  if (type === DateRangePicker) {
+    return { valueProp: "value", changeProp: "onChange", read: first, helper: true, empty: { start: null, end: null } };
+  }
+  if (typeof type === "string") {
+    return { valueProp: "value", changeProp: "onChange", read: (e: React.ChangeEvent<HTMLInputElement>) => e.target.value, helper: false };
+  }
+  return { valueProp: "value", changeProp: "onChange", read: first, helper: false };
+}
+
+export const FormField = <V,>({ name, validate, children, className, css: userCss }: FormFieldProps<V>): JSX.Element => {
+  const form = useFormContext();
+  const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
+  const wrapRef = useRef<HTMLDivElement | null>(null);
+
+  const validateRef = useRef(validate);
+  validateRef.current = validate;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const { registerField, setValue, setTouched } = form;
+  React.useEffect(
+    () =>
+      registerField(name, {
+        validators: () => {
+          const v = validateRef.current;
+          return (v ? (Array.isArray(v) ? v : [v]) : []) as FieldValidator[];
+        },
+        context: () => ({ messages: messagesRef.current.validation }),
+        element: () => wrapRef.current,
+      }),
+    [registerField, name]
+  );
+
+  const field = form.getFieldState(name) as FieldState<V>;
+  const showError = !!field.error && (field.touched || form.submitCount > 0);
+
+  const onChange = useCallback((value: V) => setValue(name, value), [setValue, name]);
+  const onBlur = useCallback(() => setTouched(name), [setTouched, name]);
+
+  const renderProps: FormFieldRenderProps<V> = { ...field, name, onChange, onBlur, invalid: showError };
+
+  let content: React.ReactNode;
+  let helper = true;
+  if (typeof children === "function") {
+    content = children(renderProps);
+  } else {
+    const binding = bindingFor(children);
+    helper = binding.helper;
+    const own = children.props as Record<string, any>;
+    const injected: Record<string, unknown> = {
+      name: own.name ?? name,
+      [binding.changeProp]: (...args: unknown[]) => {
+        onChange(binding.read(...args) as V);
+        own[binding.changeProp]?.(...args);
+      },
+    };
+    if (binding.valueProp) {
+      injected[binding.valueProp] = field.value ?? ("empty" in binding ? binding.empty : binding.valueProp === "checked" ? false : "");
+    }
+    if (binding.helper) {
+      injected.error = own.error || showError;
+      if (showError) injected.helperText = field.error;
+    }
+    content = React.cloneElement(children, injected);
+  }
+
+  const errorCss = useMemo(
+    () =>
+      css({
+        fontSize: theme.typography.sizes.xs,
+        color: theme.palette.danger?.[700] ?? theme.text.secondary,
+        paddingTop: 3,
+      }),
+    [theme]
+  );
+
+  return (
+    <div
+      ref={wrapRef}
+      className={["plainframe-ui-form-field", className || ""].join(" ").trim()}
+      css={[{ display: "flex", flexDirection: "column", alignItems: "flex-start" }, userCss]}
+      data-invalid={showError || undefined}
+      data-dirty={field.dirty || undefined}
+      onBlur={(e) => {
+        const next = e.relatedTarget as Node | null;
+        if (next && e.currentTarget.contains(next)) return;
+        onBlur();
+      }}
+    >
+      {content}
+      {showError && !helper && (
+        <span className="plainframe-ui-form-field-error" role="alert" css={errorCss}>
+          {field.error}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import React, { forwardRef } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
 import { useFocusRing } from "../utils/focusRing";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatHotkey, parseShortcut } from "../utils/hotkeys";
 
 const toLen = (v?: number | string) => (typeof v === "number" ? `${v}px` : v);
 
@@ -13,6 +15,7 @@ export type KbdProps = Omit<React.HTMLAttributes<HTMLElement>, "style"> & {
   mono?: boolean;
   uppercase?: boolean;
   symbolBoost?: number;
+  shortcut?: string;
   css?: Interpolation<Theme>;
   className?: string;
 };
@@ -62,6 +65,7 @@ export const Kbd: React.ForwardRefExoticComponent<
     mono = true,
     uppercase = false,
     symbolBoost = 2,
+    shortcut,
     css: userCss,
     className = "plainframe-ui-kbd",
     ...rest
@@ -70,6 +74,44 @@ export const Kbd: React.ForwardRefExoticComponent<
 ) {
   const theme = usePlainframeUITheme();
   const focusRing = useFocusRing();
+  const { messages } = useLocale();
+
+  if (shortcut) {
+    const steps = parseShortcut(shortcut);
+    const label = steps.map((hk) => formatHotkey(hk, true).join("+")).join(` ${messages.kbd.then} `);
+    const capProps = { variant, size, radius, mono, uppercase, symbolBoost, className, "aria-hidden": true } as const;
+
+    return (
+      <kbd
+        ref={ref}
+        aria-label={label}
+        className="plainframe-ui-kbd-shortcut"
+        css={[
+          css({ display: "inline-flex", alignItems: "center", gap: 2, font: "inherit", verticalAlign: "baseline" }),
+          userCss,
+        ]}
+        {...rest}
+      >
+        {steps.map((hk, i) => (
+          <React.Fragment key={i}>
+            {i > 0 && (
+              <span
+                aria-hidden
+                css={css({ marginInline: 2, fontSize: sizeTokens[size].font, color: theme.text.secondary })}
+              >
+                {messages.kbd.then}
+              </span>
+            )}
+            {formatHotkey(hk).map((k, j) => (
+              <KbdCap key={j} {...capProps}>
+                {k}
+              </KbdCap>
+            ))}
+          </React.Fragment>
+        ))}
+      </kbd>
+    );
+  }
   const t = sizeTokens[size] ?? sizeTokens.sm;
   const r = resolveRadius(radius, theme);
 
@@ -159,3 +201,6 @@ export const Kbd: React.ForwardRefExoticComponent<
     </kbd>
   );
 });
+
+// The render function above is also named `Kbd`, so shortcut caps go through this alias.
+const KbdCap = (props: KbdProps) => <Kbd {...props} />;
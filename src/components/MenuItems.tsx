@@ -1,10 +1,15 @@
 /** @jsxImportSource @emotion/react */
 import React, { useContext, useMemo, useState, forwardRef, useRef, useCallback } from "react";
 import { css as emCss, type Interpolation, type Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { logicalArrowKey } from "../utils/direction";
 import { Switch } from "./Switch";
 import { Checkbox } from "./Checkbox";
-import { Check, ChevronRight } from "lucide-react";
+import { Check, ChevronLeft, ChevronRight } from "lucide-react";
+import { Kbd } from "./Kbd";
+import { useHotkey } from "../hotkeys/HotkeysProvider";
+import { ariaKeyShortcuts } from "../utils/hotkeys";
+import { VirtualRowContext, markVirtualRow } from "../utils/virtualList";
 import { MenuVariantCtx, DenseCtx as MenuDenseCtx } from "./Menu";
 import {
   MenuCtx as DropdownMenuCtx,
@@ -49,6 +54,7 @@ export type MenuItemProps = Omit<React.HTMLAttributes<HTMLDivElement>, "style">
   
   active?: boolean;
   meta?: React.ReactNode;
+  shortcut?: string;
 };
 
 export type MenuCheckboxItemProps = Omit<MenuItemProps, "onSelect" | "selected"> & {
@@ -102,7 +108,8 @@ export const MenuItem: React.ForwardRefExoticComponent<
       endIcon,
       selected = false,
       active,
-      meta,
+      meta: metaProp,
+      shortcut,
       __index,
       __skipListReg,
       ...rest
@@ -114,15 +121,20 @@ export const MenuItem: React.ForwardRefExoticComponent<
     const subMenuCloser = useSubMenuCloser();
     const keyboardNav = useKeyboardNav();
     const focusOpts = useFocusOpts();
+    const virtualRow = useContext(VirtualRowContext);
+    // Virtualized rows carry their position in the full list, so unmounted rows keep their slots.
+    const listIndex = __index ?? virtualRow?.index;
     const theme = usePlainframeUITheme();
+    const dir = useDirection();
 
     const denseFromMenu = useContext(MenuDenseCtx);
     const dense = !!denseFromMenu;
 
     const isSubTrigger = (rest as any)["data-subtrigger"] !== undefined;
 
+    const SubIcon = dir === "rtl" ? ChevronLeft : ChevronRight;
     const effectiveEndIcon = isSubTrigger && endIcon === undefined
-      ? <ChevronRight size={18} strokeWidth={2.5} />
+      ? <SubIcon size={18} strokeWidth={2.5} />
       : endIcon;
 
     const nesting = 0;
@@ -243,6 +255,9 @@ const itemCss = useMemo(
       if (closeOnSelect && !isSubTrigger) rootBus?.closeAll();
     };
 
+    useHotkey(shortcut, activate, { enabled: !disabled && (dd ? dd.open : true) });
+    const meta = metaProp ?? (shortcut ? <Kbd shortcut={shortcut} variant="subtle" /> : undefined);
+
     const moveFocus = (currentEl: HTMLElement, idxGetter: (len: number, cur: number) => number) => {
 
       const container = currentEl.closest('[role="menu"]') as HTMLElement | null;
@@ -293,14 +308,19 @@ const itemCss = useMemo(
         aria-disabled={disabled || undefined}
         data-disabled={disabled ? "" : undefined}
         data-active={active ? "" : undefined}
+        aria-keyshortcuts={shortcut ? ariaKeyShortcuts(shortcut) : undefined}
+        aria-posinset={virtualRow ? virtualRow.index + 1 : undefined}
+        aria-setsize={virtualRow?.setSize}
         tabIndex={itemTabIndex}
         ref={(node) => {
 
           if (dd && !__skipListReg) {
             const arr = dd.listRef.current;
             if (node) {
-              if (__index != null) arr[__index] = node as any;
+              if (listIndex != null) arr[listIndex] = node as any;
               else if (!arr.includes(node as any)) arr.push(node as any);
+            } else if (listIndex != null) {
+              arr[listIndex] = null;
             }
           }
           if (typeof ref === "function") ref(node);
@@ -338,8 +358,8 @@ const itemCss = useMemo(
             container.removeAttribute('data-keyboard-nav');
           }
           
-          if (!disabled && dd && __index != null) {
-            dd.setActiveIndex(__index);
+          if (!disabled && dd && listIndex != null) {
+            dd.setActiveIndex(listIndex);
           }
           
           if (!disabled && !focusOpts?.allItemsTabbable) {
@@ -380,7 +400,7 @@ const itemCss = useMemo(
 
           const container = e.currentTarget.closest('[data-menu-id]') || e.currentTarget.closest('[role="menu"]');
 
-          if (!disabled && dd && __index != null) {
+          if (!disabled && dd && listIndex != null) {
             if (container?.hasAttribute('data-keyboard-nav')) {
               container.removeAttribute('data-keyboard-nav');
 
@@ -389,7 +409,7 @@ const itemCss = useMemo(
               }
             }
 
-            dd.setActiveIndex(__index);
+            dd.setActiveIndex(listIndex);
           }
           
           if (!disabled && !focusOpts?.allItemsTabbable) {
@@ -407,6 +427,7 @@ const itemCss = useMemo(
         onKeyDown={(e) => {
           if (disabled) return;
           const el = e.currentTarget as HTMLElement;
+          const key = logicalArrowKey(e.key, dir);
           
           
           if (e.key === "Tab" && dd && !focusOpts?.allItemsTabbable) {
@@ -436,9 +457,9 @@ const itemCss = useMemo(
             return;
           }
           
-          if (e.key === "Enter" || e.key === " " || e.key === "ArrowRight") {
+          if (key === "Enter" || key === " " || key === "ArrowRight") {
             if (!isSubTrigger) {
-              if (e.key !== "ArrowRight") {
+              if (key !== "ArrowRight") {
                 e.preventDefault();
                 e.stopPropagation();
                 activate();
@@ -449,7 +470,8 @@ const itemCss = useMemo(
             return;
           }
           
-          if (e.key === "ArrowLeft") {
+          // In a submenu both ArrowLeft and Escape close just that level and go back to its trigger.
+          if (key === "ArrowLeft" || e.key === "Escape") {
             
             const currentMenu = el.closest('[role="menu"]');
             const submenuContent = currentMenu?.closest('[data-submenu-content]');
@@ -643,6 +665,8 @@ export const MenuCheckboxGroup: React.FC<{
   const ctx = useMemo<CheckboxCtxT>(() => ({ values: vals, toggle }), [vals, toggle]);
   return <CheckboxCtx.Provider value={ctx}>{children}</CheckboxCtx.Provider>;
 };
+MenuCheckboxGroup.displayName = "MenuCheckboxGroup";
+markVirtualRow(MenuCheckboxGroup, "wrapper");
 
 export const MenuCheckboxItem: React.ForwardRefExoticComponent<
   React.PropsWithoutRef<MenuCheckboxItemProps & ItemPrivate> & React.RefAttributes<HTMLDivElement>
@@ -881,6 +905,7 @@ export const MenuRadioGroup: React.FC<MenuRadioGroupProps> = ({
   return <RadioCtx.Provider value={ctx}>{children}</RadioCtx.Provider>;
 };
 MenuRadioGroup.displayName = "MenuRadioGroup";
+markVirtualRow(MenuRadioGroup, "wrapper");
 
 export const MenuRadioItem: React.ForwardRefExoticComponent<
   React.PropsWithoutRef<MenuRadioItemProps & ItemPrivate> & React.RefAttributes<HTMLDivElement>
@@ -1010,6 +1035,7 @@ export const MenuLabel: React.ForwardRefExoticComponent<
   );
 });
 MenuLabel.displayName = "MenuLabel";
+markVirtualRow(MenuLabel, "label");
 
 export const MenuSeparator: React.FC<MenuSeparatorProps> = ({
   className,
@@ -1059,4 +1085,6 @@ export const MenuSeparator: React.FC<MenuSeparatorProps> = ({
       {...rest}
     />
   );
-};
\ No newline at end of file
+};
+MenuSeparator.displayName = "MenuSeparator";
+markVirtualRow(MenuSeparator, "separator");
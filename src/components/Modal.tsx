@@ -1,7 +1,6 @@
 /** @jsxImportSource @emotion/react */
 import React, {
   useState,
-  useEffect,
   useMemo,
   useContext,
   forwardRef,
@@ -14,6 +13,7 @@ import { Fade } from "./Fade";
 import { Grow } from "./Grow";
 import { Container } from "./Container";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { OverlayLayerContext, OverlayScopeContext, useOverlayLayer } from "../utils/overlayStack";
 
 const toLen = (v?: number | string): string | undefined =>
   v == null ? undefined : typeof v === "number" ? `${v}px` : v;
@@ -59,18 +59,6 @@ export const Modal: React.FC<ModalProps> = ({
     [controlled, onOpenChange]
   );
 
-  useEffect(() => {
-    if (!open || !closeOnEscape) return;
-    const handler = (e: KeyboardEvent) => {
-      if (e.key === "Escape") {
-        e.stopPropagation();
-        setOpen(false);
-      }
-    };
-    window.addEventListener("keydown", handler, true);
-    return () => window.removeEventListener("keydown", handler, true);
-  }, [open, closeOnEscape, setOpen]);
-
   const value = useMemo<ModalCtxT>(
     () => ({ open, setOpen, lockScroll, closeOnEscape }),
     [open, setOpen, lockScroll, closeOnEscape]
@@ -202,9 +190,14 @@ export const ModalContent: React.ForwardRefExoticComponent<
     ref
   ) => {
     const theme = usePlainframeUITheme();
-    const { open, setOpen, lockScroll } = useModalCtx();
+    const { open, setOpen, lockScroll, closeOnEscape } = useModalCtx();
     const contentRef = React.useRef<HTMLDivElement | null>(null);
     const prevFocusRef = React.useRef<HTMLElement | null>(null);
+    const layer = useOverlayLayer(open, {
+      lockScroll: lockScroll && backdrop,
+      onEscape: closeOnEscape ? () => setOpen(false) : undefined,
+    });
+    const { isTopmost } = layer;
 
     React.useEffect(() => {
       if (!open) return;
@@ -227,7 +220,7 @@ export const ModalContent: React.ForwardRefExoticComponent<
 
       const handleFocus = (e: FocusEvent) => {
         const content = contentRef.current;
-        if (!content || !e.target) return;
+        if (!content || !e.target || !isTopmost()) return;
 
         const target = e.target as Node;
         if (!content.contains(target)) {
@@ -253,7 +246,7 @@ export const ModalContent: React.ForwardRefExoticComponent<
           prevFocusRef.current.focus();
         }
       };
-    }, [open]);
+    }, [open, isTopmost]);
 
     const marginValue =
       typeof theme.spacing.sm === "number" ? `${theme.spacing.sm}px` : String(theme.spacing.sm);
@@ -288,7 +281,7 @@ export const ModalContent: React.ForwardRefExoticComponent<
         }}
         {...rest}
       >
-        {children}
+        <OverlayScopeContext.Provider value={layer}>{children}</OverlayScopeContext.Provider>
       </Container>
     );
 
@@ -335,17 +328,18 @@ export const ModalContent: React.ForwardRefExoticComponent<
     });
 
     return (
-      <Backdrop
-        on={open}
-        blur={backdropBlur}
-        blurDepth={backdropBlurDepth}
-        onClickAway={closeOnClickAway ? () => setOpen(false) : undefined}
-        css={[backdropLayoutCss, backdropCss].filter(Boolean)}
-        contentCss={contentLayoutCss}
-        lockScroll={lockScroll}
-      >
-        {animated}
-      </Backdrop>
+      <OverlayLayerContext.Provider value={layer}>
+        <Backdrop
+          on={open}
+          blur={backdropBlur}
+          blurDepth={backdropBlurDepth}
+          onClickAway={closeOnClickAway ? () => setOpen(false) : undefined}
+          css={[backdropLayoutCss, backdropCss].filter(Boolean)}
+          contentCss={contentLayoutCss}
+        >
+          {animated}
+        </Backdrop>
+      </OverlayLayerContext.Provider>
     );
   }
 );
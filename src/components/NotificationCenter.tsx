@@ -0,0 +1,349 @@
+/** @jsxImportSource @emotion/react */
+import React, { useMemo, useSyncExternalStore } from "react";
+import { css, type Interpolation, type Theme } from "@emotion/react";
+import { X } from "lucide-react";
+import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { addDays, dateFormat, isSameDay, startOfDay } from "../utils/dates";
+import { Popover, PopoverContent, PopoverTrigger } from "./Popover";
+import { Drawer, DrawerContent, DrawerTrigger } from "./Drawer";
+import { Button } from "./Button";
+
+export type NotificationStatus = "default" | "success" | "error" | "warning" | "info";
+
+export type NotificationEntry = {
+  id: string;
+  status: NotificationStatus;
+  title?: React.ReactNode;
+  description?: React.ReactNode;
+  // Shown when there is no title, e.g. for `toast("Saved")`.
+  content?: React.ReactNode;
+  action?: React.ReactNode;
+  createdAt: number;
+  read: boolean;
+};
+
+export type NotificationInput = Partial<Omit<NotificationEntry, "status">> & {
+  status?: NotificationStatus | "danger";
+};
+
+let entries: NotificationEntry[] = [];
+const listeners = new Set<() => void>();
+
+const commit = (next: NotificationEntry[]) => {
+  entries = next;
+  listeners.forEach((fn) => fn());
+};
+
+const subscribe = (fn: () => void) => {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+};
+
+const uid = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+
+export const notifications = {
+  // Adds an entry, or updates the one with the same id (a toast moving from loading to success keeps its entry).
+  add: (input: NotificationInput): string => {
+    const id = input.id ?? uid();
+    const status: NotificationStatus = input.status === "danger" ? "error" : input.status ?? "default";
+    const prev = entries.find((e) => e.id === id);
+    if (prev) {
+      commit(entries.map((e) => (e.id === id ? { ...e, ...input, id, status: input.status ? status : e.status } : e)));
+      return id;
+    }
+    commit([{ ...input, id, status, createdAt: input.createdAt ?? Date.now(), read: input.read ?? false }, ...entries]);
+    return id;
+  },
+  markRead: (id: string, read = true) => {
+    if (!entries.some((e) => e.id === id && e.read !== read)) return;
+    commit(entries.map((e) => (e.id === id ? { ...e, read } : e)));
+  },
+  markAllRead: () => {
+    if (!entries.some((e) => !e.read)) return;
+    commit(entries.map((e) => (e.read ? e : { ...e, read: true })));
+  },
+  remove: (id: string) => commit(entries.filter((e) => e.id !== id)),
+  clear: () => commit([]),
+  getAll: (): NotificationEntry[] => entries,
+};
+
+export function useNotifications(): NotificationEntry[] {
+  return useSyncExternalStore(subscribe, () => entries, () => entries);
+}
+
+// For a Badge on the trigger: `<Badge content={useUnreadCount()}>`.
+export function useUnreadCount(): number {
+  return useSyncExternalStore(
+    subscribe,
+    () => entries.filter((e) => !e.read).length,
+    () => 0
+  );
+}
+
+export type NotificationCenterProps = {
+  // The element that opens the panel, usually a bell IconButton wrapped in a Badge.
+  trigger: React.ReactElement;
+  variant?: "popover" | "drawer";
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  title?: React.ReactNode;
+  emptyText?: React.ReactNode;
+  width?: number | string;
+  onItemClick?: (entry: NotificationEntry) => void;
+  className?: string;
+  css?: Interpolation<Theme>;
+};
+
+const visuallyHidden = css({
+  position: "absolute",
+  width: 1,
+  height: 1,
+  margin: -1,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+});
+
+const capitalize = (s: string, locale: string) => s.charAt(0).toLocaleUpperCase(locale) + s.slice(1);
+
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({
+  trigger,
+  variant = "popover",
+  open,
+  defaultOpen,
+  onOpenChange,
+  title,
+  emptyText,
+  width = 380,
+  onItemClick,
+  className,
+  css: cssOverride,
+}) => {
+  const theme = usePlainframeUITheme();
+  const { locale, messages } = useLocale();
+  const t = messages.notificationCenter;
+  const list = useNotifications();
+  const unread = list.filter((e) => !e.read).length;
+
+  const days = useMemo(() => {
+    const groups: { day: Date; items: NotificationEntry[] }[] = [];
+    for (const e of [...list].sort((a, b) => b.createdAt - a.createdAt)) {
+      const day = startOfDay(new Date(e.createdAt));
+      const last = groups[groups.length - 1];
+      if (last && isSameDay(last.day, day)) last.items.push(e);
+      else groups.push({ day, items: [e] });
+    }
+    return groups;
+  }, [list]);
+
+  const relative = useMemo(() => new Intl.RelativeTimeFormat(locale, { numeric: "auto" }), [locale]);
+  const dayLabel = (day: Date) => {
+    const today = startOfDay(new Date());
+    if (isSameDay(day, today)) return capitalize(relative.format(0, "day"), locale);
+    if (isSameDay(day, addDays(today, -1))) return capitalize(relative.format(-1, "day"), locale);
+    return dateFormat(locale, {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+      year: day.getFullYear() === today.getFullYear() ? undefined : "numeric",
+    }).format(day);
+  };
+  const timeFormat = dateFormat(locale, { hour: "numeric", minute: "2-digit" });
+
+  const statusColor = (s: NotificationStatus) => {
+    const palette = theme.palette as Record<string, Record<number, string> | undefined>;
+    const key = s === "error" ? "danger" : s;
+    return (key !== "default" && palette[key]?.[600]) || theme.neutral[400];
+  };
+
+  const headingId = React.useId();
+
+  const panel = (
+    <div
+      className={["plainframe-ui-notification-center", className].filter(Boolean).join(" ")}
+      css={[
+        {
+          display: "flex",
+          flexDirection: "column",
+          maxHeight: variant === "popover" ? 480 : "100%",
+          color: theme.text.primary,
+        },
+        cssOverride,
+      ]}
+    >
+      <div
+        css={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: theme.spacing.sm,
+          padding: `${theme.spacing.sm} ${theme.spacing.md}`,
+          borderBottom: `1px solid ${theme.surface.border}`,
+        }}
+      >
+        <div id={headingId} role="heading" aria-level={2} css={{ fontSize: theme.typography.sizes.md, fontWeight: 600 }}>
+          {title ?? t.title}
+        </div>
+        <Button variant="ghost" size="sm" disabled={!unread} onClick={notifications.markAllRead}>
+          {t.markAllRead}
+        </Button>
+      </div>
+
+      {list.length === 0 ? (
+        <div
+          css={{
+            padding: theme.spacing.xl,
+            textAlign: "center",
+            color: theme.text.secondary,
+            fontSize: theme.typography.sizes.sm,
+          }}
+        >
+          {emptyText ?? t.empty}
+        </div>
+      ) : (
+        <div aria-labelledby={headingId} role="region" css={{ overflowY: "auto", flex: 1 }}>
+          {days.map(({ day, items }) => (
+            <section key={day.getTime()} aria-label={dayLabel(day)}>
+              <div
+                aria-hidden="true"
+                css={{
+                  position: "sticky",
+                  top: 0,
+                  padding: `${theme.spacing.xs} ${theme.spacing.md}`,
+                  background: theme.surface.panelBg,
+                  color: theme.text.secondary,
+                  fontSize: theme.typography.sizes.xs,
+                  fontWeight: 600,
+                }}
+              >
+                {dayLabel(day)}
+              </div>
+              <ul css={{ listStyle: "none", margin: 0, padding: 0 }}>
+                {items.map((e) => (
+                  <li
+                    key={e.id}
+                    className="plainframe-ui-notification"
+                    data-unread={!e.read || undefined}
+                    css={{
+                      position: "relative",
+                      display: "grid",
+                      gridTemplateColumns: "auto 1fr auto",
+                      gap: theme.spacing.sm,
+                      padding: `${theme.spacing.sm} ${theme.spacing.md}`,
+                      background: e.read ? "transparent" : theme.surface.subtleBg,
+                      ":hover": { background: theme.surface.subtleHover },
+                      "& .plainframe-ui-notification-remove": { opacity: 0 },
+                      "&:hover .plainframe-ui-notification-remove, & .plainframe-ui-notification-remove:focus-visible": {
+                        opacity: 1,
+                      },
+                    }}
+                  >
+                    <span
+                      aria-hidden="true"
+                      css={{
+                        width: 8,
+                        height: 8,
+                        marginTop: 6,
+                        borderRadius: "50%",
+                        background: statusColor(e.status),
+                        boxShadow: e.read ? undefined : `0 0 0 3px color-mix(in srgb, ${statusColor(e.status)} 25%, transparent)`,
+                      }}
+                    />
+                    <div css={{ minWidth: 0, fontSize: theme.typography.sizes.sm, lineHeight: 1.4 }}>
+                      <button
+                        type="button"
+                        className="plainframe-ui-notification-open"
+                        onClick={() => {
+                          notifications.markRead(e.id);
+                          onItemClick?.(e);
+                        }}
+                        css={{
+                          all: "unset",
+                          display: "block",
+                          cursor: onItemClick || !e.read ? "pointer" : "default",
+                          // Stretched over the row so a click anywhere opens the entry; the action and remove button sit above it.
+                          "::after": { content: '""', position: "absolute", inset: 0 },
+                          "&:focus-visible::after": { outline: `2px solid ${theme.palette.primary[600]}`, outlineOffset: -2 },
+                        }}
+                      >
+                        {!e.read && <span css={visuallyHidden}>{t.unread}</span>}
+                        <span css={{ display: "block", fontWeight: e.read ? 500 : 600 }}>{e.title ?? e.content}</span>
+                        {e.title != null && e.description != null && (
+                          <span css={{ display: "block", color: theme.text.secondary }}>{e.description}</span>
+                        )}
+                      </button>
+                      {e.action && <div css={{ position: "relative", zIndex: 1, marginTop: theme.spacing.xs }}>{e.action}</div>}
+                    </div>
+                    <div css={{ position: "relative", zIndex: 1, display: "flex", alignItems: "flex-start", gap: 2 }}>
+                      <time
+                        dateTime={new Date(e.createdAt).toISOString()}
+                        css={{ color: theme.text.secondary, fontSize: theme.typography.sizes.xs, lineHeight: "22px" }}
+                      >
+                        {timeFormat.format(e.createdAt)}
+                      </time>
+                      <button
+                        type="button"
+                        className="plainframe-ui-notification-remove"
+                        aria-label={t.remove}
+                        onClick={() => notifications.remove(e.id)}
+                        css={{
+                          display: "grid",
+                          placeItems: "center",
+                          width: 22,
+                          height: 22,
+                          padding: 0,
+                          border: 0,
+                          borderRadius: theme.radius.sm,
+                          background: "transparent",
+                          color: theme.text.secondary,
+                          cursor: "pointer",
+                          ":hover": { color: theme.text.primary },
+                        }}
+                      >
+                        <X size={14} strokeWidth={2.5} />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  if (variant === "drawer") {
+    return (
+      <Drawer open={open} defaultOpen={defaultOpen} onOpenChange={onOpenChange}>
+        <DrawerTrigger>{trigger}</DrawerTrigger>
+        <DrawerContent position="end" width={width} aria-labelledby={headingId}>
+          {panel}
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Popover open={open} defaultOpen={defaultOpen} onOpenChange={onOpenChange}>
+      <PopoverTrigger>{trigger}</PopoverTrigger>
+      <PopoverContent
+        anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+        width={width}
+        padding={0}
+        aria-labelledby={headingId}
+      >
+        {panel}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+NotificationCenter.displayName = "NotificationCenter";
@@ -1,9 +1,13 @@
 /** @jsxImportSource @emotion/react */
-import React, { useMemo, useState, useCallback } from "react";
+import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatMessage } from "../locale/messages";
 import { ChevronFirst, ChevronLast, ChevronLeft, ChevronRight } from "lucide-react";
 import { useFocusRing } from "../utils/focusRing";
+import { logicalArrowKey } from "../utils/direction";
+import { useAnnouncer } from "../utils/announcer";
 
 type Variant = "subtle" | "outlined" | "ghost";
 
@@ -39,6 +43,14 @@ export const Pagination: React.FC<PaginationProps> = ({
   css: cssOverride,
 }) => {
   const theme = usePlainframeUITheme();
+  const dir = useDirection();
+  const { messages } = useLocale();
+  const t = messages.pagination;
+  const rtl = dir === "rtl";
+  const FirstIcon = rtl ? ChevronLast : ChevronFirst;
+  const PrevIcon = rtl ? ChevronRight : ChevronLeft;
+  const NextIcon = rtl ? ChevronLeft : ChevronRight;
+  const LastIcon = rtl ? ChevronFirst : ChevronLast;
   const focusRing = useFocusRing();
 
   const isControlled = page !== undefined;
@@ -55,6 +67,15 @@ export const Pagination: React.FC<PaginationProps> = ({
     [isControlled, normCount, onChange]
   );
 
+  // The clicked button can move or disappear, so say where the user landed.
+  const announce = useAnnouncer();
+  const shownPage = useRef(current);
+  useEffect(() => {
+    if (shownPage.current === current) return;
+    shownPage.current = current;
+    announce(formatMessage(t.pageOf, { page: current, count: normCount }));
+  }, [current, normCount, t, announce]);
+
   const items = useMemo(
     () => buildItems({ count: normCount, page: current, siblingCount, boundaryCount }),
     [normCount, current, siblingCount, boundaryCount]
@@ -151,16 +172,17 @@ export const Pagination: React.FC<PaginationProps> = ({
 
   return (
     <nav
-      aria-label="Pagination"
+      aria-label={t.label}
       className={["plainframe-ui-pagination", className || ""].join(" ").trim()}
       css={containerCss}
       onKeyDown={(e) => {
         if (disabled) return;
-        if (e.key === "ArrowLeft") {
+        const key = logicalArrowKey(e.key, dir);
+        if (key === "ArrowLeft") {
           e.preventDefault();
           goPrev();
         }
-        if (e.key === "ArrowRight") {
+        if (key === "ArrowRight") {
           e.preventDefault();
           goNext();
         }
@@ -178,28 +200,28 @@ export const Pagination: React.FC<PaginationProps> = ({
         <button
         className="plainframe-ui-pagination-first-button"
           type="button"
-          aria-label="First page"
+          aria-label={t.first}
           aria-disabled={prevDisabled}
           disabled={prevDisabled}
           css={[btnCss(false), iconSquareBtn]}
           onClick={goFirst}
           style={{ backgroundColor: variant === "subtle" ? theme.surface?.panelBg : undefined }}
         >
-          <ChevronFirst strokeWidth={3} css={{ width: 14, height: 14 }} />
+          <FirstIcon strokeWidth={3} css={{ width: 14, height: 14 }} />
         </button>
       )}
 
       <button
         className="plainframe-ui-pagination-previous-button"
         type="button"
-        aria-label="Previous page"
+        aria-label={t.previous}
         aria-disabled={prevDisabled}
         disabled={prevDisabled}
         css={[btnCss(false), iconSquareBtn]}
         onClick={goPrev}
         style={{ backgroundColor: variant === "subtle" ? theme.surface?.panelBg : undefined }}
       >
-        <ChevronLeft strokeWidth={3} css={{ width: 14, height: 14 }} />
+        <PrevIcon strokeWidth={3} css={{ width: 14, height: 14 }} />
       </button>
 
       {items.map((it, idx) =>
@@ -208,7 +230,7 @@ export const Pagination: React.FC<PaginationProps> = ({
             className="plainframe-ui-pagination-page-button"
             key={it}
             type="button"
-            aria-label={it === current ? `Page ${it}, current page` : `Go to page ${it}`}
+            aria-label={formatMessage(it === current ? t.currentPage : t.page, { page: it })}
             aria-current={it === current ? "page" : undefined}
             css={btnCss(it === current)}
             onClick={() => setPage(it)}
@@ -234,28 +256,28 @@ export const Pagination: React.FC<PaginationProps> = ({
       <button
         className="plainframe-ui-pagination-next-button"
         type="button"
-        aria-label="Next page"
+        aria-label={t.next}
         aria-disabled={nextDisabled}
         disabled={nextDisabled}
         css={[btnCss(false), iconSquareBtn]}
         onClick={goNext}
         style={{ backgroundColor: variant === "subtle" ? theme.surface?.panelBg : undefined }}
       >
-        <ChevronRight strokeWidth={3} css={{ width: 14, height: 14 }} />
+        <NextIcon strokeWidth={3} css={{ width: 14, height: 14 }} />
       </button>
 
       {showFirstLast && (
         <button
           className="plainframe-ui-pagination-last-button"
           type="button"
-          aria-label="Last page"
+          aria-label={t.last}
           aria-disabled={nextDisabled}
           disabled={nextDisabled}
           css={[btnCss(false), iconSquareBtn]}
           onClick={goLast}
           style={{ backgroundColor: variant === "subtle" ? theme.surface?.panelBg : undefined }}
         >
-          <ChevronLast strokeWidth={3} css={{ width: 14, height: 14 }} />
+          <LastIcon strokeWidth={3} css={{ width: 14, height: 14 }} />
         </button>
       )}
     </nav>
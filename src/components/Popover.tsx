@@ -23,6 +23,7 @@ import {
 } from "@floating-ui/react";
 import { AnimatePresence, motion } from "framer-motion";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { OverlayScopeContext, useOverlayLayer, type OverlayLayer } from "../utils/overlayStack";
 
 type WithCss = { css?: Interpolation<Theme> };
 type Side = "top" | "bottom" | "left" | "right";
@@ -76,6 +77,7 @@ type Ctx = {
   referenceRef: React.MutableRefObject<HTMLElement | null>;
   scheduleClose: (ms?: number) => void;
   cancelClose: () => void;
+  layer: OverlayLayer;
 };
 
 const PopoverCtx = createContext<Ctx | null>(null);
@@ -102,24 +104,6 @@ export const mergeRefs: <T>(
 const toCssSize = (v?: string | number): string | undefined =>
   v == null ? undefined : typeof v === "number" ? `${v}px` : v;
 
-const useBodyScrollLock = (locked: boolean): void => {
-  useEffect(() => {
-    if (!locked) return;
-    if (typeof document === "undefined" || typeof window === "undefined") return;
-    const body = document.body;
-    const prevOverflow = body.style.overflow;
-    const prevPaddingRight = body.style.paddingRight;
-    const scrollbar = window.innerWidth - document.documentElement.clientWidth;
-    const computedPad = parseFloat(getComputedStyle(body).paddingRight || "0");
-    body.style.overflow = "hidden";
-    if (scrollbar > 0) body.style.paddingRight = `${computedPad + scrollbar}px`;
-    return () => {
-      body.style.overflow = prevOverflow;
-      body.style.paddingRight = prevPaddingRight;
-    };
-  }, [locked]);
-};
-
 const resolveToken = (
   token: string | number | undefined,
   scale: Record<string, string | number> | undefined
@@ -162,14 +146,15 @@ export const Popover: React.FC<PopoverRootProps> = ({
     closeTimerRef.current = null;
   };
 
-  useBodyScrollLock(lockScroll && open);
+  const layer = useOverlayLayer(open, { lockScroll, onEscape: () => setOpen(false) });
+  const { isTopmost } = layer;
 
   useEffect(() => {
     if (!trapFocus || !open) return;
     if (typeof document === "undefined") return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key !== 'Tab') return;
+      if (e.key !== 'Tab' || !isTopmost()) return;
 
       const contentEl = document.querySelector('.plainframe-ui-popover') as HTMLElement | null;
       if (!contentEl) return;
@@ -201,11 +186,11 @@ export const Popover: React.FC<PopoverRootProps> = ({
 
     document.addEventListener('keydown', handleKeyDown, true);
     return () => document.removeEventListener('keydown', handleKeyDown, true);
-  }, [trapFocus, open]);
+  }, [trapFocus, open, isTopmost]);
 
   const value = useMemo<Ctx>(
-    () => ({ open, setOpen, triggerOn, referenceRef, scheduleClose, cancelClose }),
-    [open, triggerOn]
+    () => ({ open, setOpen, triggerOn, referenceRef, scheduleClose, cancelClose, layer }),
+    [open, triggerOn, layer]
   );
 
   return <PopoverCtx.Provider value={value}>{children}</PopoverCtx.Provider>;
@@ -343,7 +328,7 @@ export const PopoverContent: React.FC<
     },
     ref
   ) => {
-    const { open, setOpen, triggerOn, referenceRef, scheduleClose, cancelClose } = usePopover();
+    const { open, setOpen, triggerOn, referenceRef, scheduleClose, cancelClose, layer } = usePopover();
     const theme = usePlainframeUITheme();
 
     const placement = anchorToPlacement(anchorOrigin);
@@ -365,7 +350,11 @@ export const PopoverContent: React.FC<
       if (referenceRef.current) refs.setReference(referenceRef.current);
     }, [refs, referenceRef]);
 
-    const dismiss = useDismiss(context, { outsidePressEvent: "pointerdown", escapeKey: true });
+    const dismiss = useDismiss(context, {
+      outsidePressEvent: "pointerdown",
+      escapeKey: false,
+      outsidePress: () => layer.isTopmost(),
+    });
     const role = useRole(context, { role: "dialog" });
     const { getFloatingProps } = useInteractions([dismiss, role]);
 
@@ -421,7 +410,7 @@ export const PopoverContent: React.FC<
       position: strategy as React.CSSProperties["position"],
       top: (y ?? 0) as number,
       left: (x ?? 0) as number,
-      zIndex: 1000,
+      zIndex: layer.zIndex,
       transformOrigin,
       pointerEvents: "auto",
       display: "inline-flex",
@@ -471,7 +460,7 @@ export const PopoverContent: React.FC<
         {...motionProps}
         css={[basePos, visualsCss, userCss]}
       >
-        {children}
+        <OverlayScopeContext.Provider value={layer}>{children}</OverlayScopeContext.Provider>
       </motion.div>
     );
 
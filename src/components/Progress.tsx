@@ -2,6 +2,7 @@
 import React from "react";
 import { css, type Interpolation, keyframes } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
 import type { Theme } from "@emotion/react";
 
 export type ProgressProps = {
@@ -27,6 +28,7 @@ type LinearProps = {
   radius: number | string | undefined;
   isDeterminate: boolean;
   percent?: number;
+  valueText?: string;
   wrapperCss?: Interpolation<Theme>;
   trackCss?: Interpolation<Theme>;
   barCss?: Interpolation<Theme>;
@@ -42,6 +44,7 @@ type CircularProps = {
   active: string;
   isDeterminate: boolean;
   percent?: number;
+  valueText?: string;
   spinDuration: number;
   wrapperCss?: Interpolation<Theme>;
   trackCss?: Interpolation<Theme>;
@@ -119,10 +122,12 @@ export const Progress: React.FC<ProgressProps> = React.memo(({
   "aria-label": ariaLabel,
 }) => {
   const theme = usePlainframeUITheme();
+  const { formatNumber } = useLocale();
   const isDeterminate = typeof value === "number";
   const safeRange = Math.max(max - min, 1);
   const val = isDeterminate ? clamp(value as number, min, max) : undefined;
   const percent = isDeterminate ? ((val! - min) / safeRange) * 100 : undefined;
+  const valueText = percent != null ? formatNumber(percent / 100, { style: "percent", maximumFractionDigits: 0 }) : undefined;
 
   const active = resolvePaletteColor(theme, color);
   const track = theme.surface.subtleBg;
@@ -135,6 +140,7 @@ export const Progress: React.FC<ProgressProps> = React.memo(({
         active={active}
         isDeterminate={isDeterminate}
         percent={percent}
+        valueText={valueText}
         spinDuration={spinDuration}
         wrapperCss={wrapperCss}
         trackCss={trackCss}
@@ -153,6 +159,7 @@ export const Progress: React.FC<ProgressProps> = React.memo(({
       radius={radius}
       isDeterminate={isDeterminate}
       percent={percent}
+      valueText={valueText}
       wrapperCss={wrapperCss}
       trackCss={trackCss}
       barCss={barCss}
@@ -171,6 +178,7 @@ const Linear: React.FC<LinearProps> = ({
   radius,
   isDeterminate,
   percent,
+  valueText,
   wrapperCss,
   trackCss,
   barCss,
@@ -246,7 +254,7 @@ const Linear: React.FC<LinearProps> = ({
   ]);
 
   const ariaProps = isDeterminate
-    ? { role: "progressbar", "aria-valuemin": min, "aria-valuemax": max, "aria-valuenow": value }
+    ? { role: "progressbar", "aria-valuemin": min, "aria-valuemax": max, "aria-valuenow": value, "aria-valuetext": valueText }
     : { role: "progressbar", "aria-busy": true };
 
   if (ariaLabel) (ariaProps as any)["aria-label"] = ariaLabel;
@@ -273,6 +281,7 @@ const Circular: React.FC<CircularProps> = ({
   active,
   isDeterminate,
   percent,
+  valueText,
   spinDuration,
   wrapperCss,
   trackCss,
@@ -330,6 +339,7 @@ const Circular: React.FC<CircularProps> = ({
         "aria-valuemin": 0,
         "aria-valuemax": 100,
         "aria-valuenow": Math.round(percent ?? 0),
+        "aria-valuetext": valueText,
       }
     : { role: "progressbar", "aria-busy": true };
 
@@ -9,14 +9,16 @@ import React, {
   useState,
 } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
 import { useFocusRing } from "../utils/focusRing";
+import { logicalArrowKey } from "../utils/direction";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
 
 type Direction = "horizontal" | "vertical";
 type Variant = "filled" | "outlined" | "soft";
 type HV = "left" | "center" | "right" | "top" | "bottom";
 
-export type RadioGroupProps = {
+export type RadioGroupProps = NativeFormProps & {
   value?: string | number;
   defaultValue?: string | number;
   onChange?: (value: string | number) => void;
@@ -87,12 +89,20 @@ export const RadioGroup: React.FC<RadioGroupProps> = ({
   children,
   anchorOrigin,
   css: userCss,
+  name,
+  required,
+  form,
 }) => {
   const theme = usePlainframeUITheme();
   const isControlled = value !== undefined && onChange !== undefined;
   const [internalValue, setInternalValue] = useState<string | number | undefined>(defaultValue);
   const selected = (isControlled ? value : internalValue) as string | number | undefined;
 
+  const inputRef = useRef<HTMLInputElement>(null);
+  useFormReset(inputRef, () => {
+    if (!isControlled) setInternalValue(defaultValue);
+  });
+
   const registry = useRef<RegistryItem[]>([]);
   const [ver, setVer] = useState(0);
   const bump = () => setVer((v) => v + 1);
@@ -210,10 +220,20 @@ export const RadioGroup: React.FC<RadioGroupProps> = ({
         className="plainframe-ui-radio-row"
         role="radiogroup"
         aria-disabled={disabled || undefined}
+        aria-required={required || undefined}
         css={rowCss}
       >
         <RadioCtx.Provider value={ctx}>{children}</RadioCtx.Provider>
       </div>
+      <HiddenInput
+        inputRef={inputRef}
+        name={name}
+        value={selected == null ? "" : String(selected)}
+        required={required}
+        form={form}
+        disabled={disabled}
+        onFocus={() => registry.current.find((it) => it.value === focusValue)?.ref?.focus()}
+      />
     </div>
   );
 };
@@ -289,6 +309,7 @@ export const RadioItem: React.FC<RadioItemProps> = ({
 
   const hoverCircleBg = variant === "filled" ? neutral300 : variant === "outlined" ? theme.palette.primary[100] : theme.palette.primary[100];
 
+  const dir = useDirection();
   const btnRef = useRef<HTMLButtonElement | null>(null);
   const myIndex = useRef<number>(-1);
 
@@ -398,19 +419,20 @@ export const RadioItem: React.FC<RadioItemProps> = ({
       }}
       onKeyDown={(e) => {
         if (isDisabled) return;
-        if (e.key === "Enter" || e.key === " ") {
+        const key = logicalArrowKey(e.key, dir);
+        if (key === "Enter" || key === " ") {
           e.preventDefault();
           setSelected(value);
-        } else if (e.key === "ArrowRight" || e.key === "ArrowDown") {
+        } else if (key === "ArrowRight" || key === "ArrowDown") {
           e.preventDefault();
           moveFocusBy(myIndex.current, 1);
-        } else if (e.key === "ArrowLeft" || e.key === "ArrowUp") {
+        } else if (key === "ArrowLeft" || key === "ArrowUp") {
           e.preventDefault();
           moveFocusBy(myIndex.current, -1);
-        } else if (e.key === "Home") {
+        } else if (key === "Home") {
           e.preventDefault();
           moveToEdge("first");
-        } else if (e.key === "End") {
+        } else if (key === "End") {
           e.preventDefault();
           moveToEdge("last");
         }
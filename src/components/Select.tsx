@@ -3,9 +3,13 @@ import React, { type JSX } from "react";
 import { css as emCss } from "@emotion/react";
 import type { Interpolation, Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatMessage } from "../locale/messages";
 import { ChevronsUpDown } from "lucide-react";
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent } from "./DropdownMenu";
 import { useFocusRing } from "../utils/focusRing";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
+import type { VirtualizeOptions } from "../utils/virtualList";
 import { MenuItem } from "./MenuItems";
 
 type Align = "left" | "center" | "right";
@@ -48,6 +52,7 @@ export type SelectProps<T = unknown> = {
   menuAlign?: Align;
   menuWidth?: number | string;
   menuMaxHeight?: number | string;
+  virtualize?: boolean | VirtualizeOptions;
 
   wrapperCss?: Interpolation<Theme>;
   labelCss?: Interpolation<Theme>;
@@ -60,11 +65,14 @@ export type SelectProps<T = unknown> = {
   menuSize?: "sm" | "md";
 
   triggerRender?: (selected: React.ReactNode | React.ReactNode[] | undefined) => React.ReactNode;
-};
+} & NativeFormProps;
 
 type AnyCSS = Interpolation<Theme> | null | undefined | false;
 const cx = (...parts: AnyCSS[]): Interpolation<Theme>[] => parts.filter(Boolean).flat() as Interpolation<Theme>[];
 
+const toFormValue = (v: unknown): string =>
+  v == null ? "" : typeof v === "object" ? JSON.stringify(v) : String(v);
+
 const isSelectItemElement = (el: React.ReactElement<any>): boolean => {
   if (el.type === SelectItem) return true;
   const p: any = el.props;
@@ -109,7 +117,7 @@ export const Select = <T,>({
   onChange,
 
   label,
-  placeholder = "Select…",
+  placeholder: placeholderProp,
   startIcon,
   endIcon,
 
@@ -124,6 +132,7 @@ export const Select = <T,>({
   menuAlign = "left",
   menuWidth,
   menuMaxHeight = 280,
+  virtualize = false,
 
   wrapperCss,
   labelCss,
@@ -135,8 +144,13 @@ export const Select = <T,>({
   className,
   menuSize = "md",
   triggerRender,
+  name,
+  required,
+  form,
 }: SelectProps<T>): JSX.Element => {
   const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
+  const placeholder = placeholderProp ?? messages.select.placeholder;
   const focusRing = useFocusRing();
   const ids = React.useId();
   const labelId = `${ids}-label`;
@@ -167,6 +181,16 @@ export const Select = <T,>({
     onChange?.(next);
   };
 
+  const triggerRef = React.useRef<HTMLButtonElement | null>(null);
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  useFormReset(inputRef, () => {
+    if (!controlled) setInner(typeof defaultValue !== "undefined" ? defaultValue : inferredMulti ? ([] as T[]) : undefined);
+  });
+
+  const formValue = inferredMulti
+    ? (Array.isArray(cur) ? (cur as unknown[]) : []).map(toFormValue)
+    : toFormValue(cur);
+
   const optionEls: React.ReactElement<any>[] = [];
   collectSelectItems(children, optionEls);
 
@@ -309,7 +333,7 @@ export const Select = <T,>({
         texts.length > 0
           ? texts.join(", ")
           : selectionForTrigger.length > 0
-            ? `${selectionForTrigger.length} selected`
+            ? formatMessage(messages.select.selected, { count: selectionForTrigger.length })
             : String(placeholder);
 
       return (
@@ -370,6 +394,7 @@ export const Select = <T,>({
       <DropdownMenu size={menuSize} open={open} onOpenChange={setOpenSafe}>
         <DropdownMenuTrigger width="100%" asChild>
           <button
+            ref={triggerRef}
             type="button"
             disabled={disabled}
             aria-haspopup="menu"
@@ -395,6 +420,7 @@ export const Select = <T,>({
           sameWidth={menuWidth == null}
           width={menuWidth ?? width}
           className="plainframe-ui-select-menu"
+          virtualize={virtualize}
           css={cx(
             {
               maxHeight: typeof menuMaxHeight === "number" ? `${menuMaxHeight}px` : menuMaxHeight,
@@ -423,6 +449,16 @@ export const Select = <T,>({
           })}
         </DropdownMenuContent>
       </DropdownMenu>
+
+      <HiddenInput
+        inputRef={inputRef}
+        name={name}
+        value={formValue}
+        required={required}
+        form={form}
+        disabled={disabled}
+        onFocus={() => triggerRef.current?.focus()}
+      />
     </div>
   );
 };
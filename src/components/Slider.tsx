@@ -2,39 +2,70 @@
 import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { css, type CSSObject } from "@emotion/react";
 import type { Interpolation, Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
-import { AnimatePresence, motion } from "framer-motion";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { FORCED_COLORS } from "../utils/forcedColors";
+import { logicalArrowKey } from "../utils/direction";
+import { useLocale } from "../locale/LocaleProvider";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
+import { Tooltip, TooltipTrigger, TooltipContent } from "./Tooltip";
 
 type Direction = "horizontal" | "vertical";
 
-type SliderProps = Omit<React.HTMLAttributes<HTMLDivElement>, "style"> & {
-  value?: number;
-  defaultValue?: number;
-  onChange?: (value: number) => void;
-  showStepper?: boolean;
-  min?: number;
-  max?: number;
-  step?: number;
-  disabled?: boolean;
-  rounded?: boolean;
-  showValue?: boolean;
-  label?: string;
-  fullWidth?: boolean;
-  css?: Interpolation<Theme>;
-  trackCss?: Interpolation<Theme>;
-  thumbCss?: Interpolation<Theme>;
-  direction?: Direction;
-  className?: string;
-};
+export type SliderValue = number | [number, number];
+
+export type SliderMark = { value: number; label?: React.ReactNode };
+
+export type SliderProps<V extends SliderValue = number> = Omit<
+  React.HTMLAttributes<HTMLDivElement>,
+  "style" | "onChange" | "defaultValue"
+> &
+  NativeFormProps & {
+    // A `[start, end]` pair renders two thumbs.
+    value?: V;
+    defaultValue?: V;
+    onChange?: (value: V) => void;
+    // Smallest gap kept between the two thumbs of a range.
+    minDistance?: number;
+    // `true` puts a mark on every step.
+    marks?: boolean | SliderMark[];
+    // Restricts values to the marks instead of the steps.
+    snapToMarks?: boolean;
+    // "log" needs `min > 0`; otherwise the track stays linear.
+    scale?: "linear" | "log";
+    formatValue?: (value: number) => string;
+    showStepper?: boolean;
+    min?: number;
+    max?: number;
+    step?: number;
+    disabled?: boolean;
+    rounded?: boolean;
+    showValue?: boolean;
+    label?: string;
+    fullWidth?: boolean;
+    css?: Interpolation<Theme>;
+    trackCss?: Interpolation<Theme>;
+    thumbCss?: Interpolation<Theme>;
+    direction?: Direction;
+    className?: string;
+  };
 
 const DEFAULT_TRACK_H = 8;
 const DEFAULT_THUMB = 20;
 const DEFAULT_DOT = 4;
+const PAGE_RATIO = 0.1;
+
+const toList = (v: SliderValue | undefined, fallback: number[]) =>
+  v == null ? fallback : Array.isArray(v) ? [v[0], v[1]] : [v];
 
-export const Slider: React.FC<SliderProps> = ({
+export const Slider = <V extends SliderValue = number>({
   value,
   defaultValue,
   onChange,
+  minDistance = 0,
+  marks,
+  snapToMarks = false,
+  scale = "linear",
+  formatValue,
   min = 0,
   max = 100,
   step = 1,
@@ -49,89 +80,177 @@ export const Slider: React.FC<SliderProps> = ({
   thumbCss,
   direction = "horizontal",
   className,
+  name,
+  required,
+  form,
   ...rest
-}) => {
+}: SliderProps<V>) => {
   const theme = usePlainframeUITheme();
   const isVertical = direction === "vertical";
+  const dir = useDirection();
+  const { formatNumber, messages } = useLocale();
+  const isRtl = !isVertical && dir === "rtl";
+  const startSide = isRtl ? "right" : "left";
   const trackRef = useRef<HTMLDivElement | null>(null);
+  const thumbRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const isRange = Array.isArray(value ?? defaultValue);
+  const fallback = isRange ? [min, max] : [min];
+
+  const [activeThumb, setActiveThumb] = useState<number | null>(null);
+  const [hoverThumb, setHoverThumb] = useState<number | null>(null);
+  const dragging = activeThumb !== null;
+
+  const isLog = scale === "log" && min > 0;
+  const toRatio = useCallback(
+    (v: number) =>
+      isLog
+        ? (Math.log(v) - Math.log(min)) / (Math.log(max) - Math.log(min) || 1)
+        : (v - min) / (max - min || 1),
+    [isLog, min, max]
+  );
+  const fromRatio = useCallback(
+    (r: number) => (isLog ? Math.exp(Math.log(min) + r * (Math.log(max) - Math.log(min))) : min + r * (max - min)),
+    [isLog, min, max]
+  );
 
-  const [dragging, setDragging] = useState(false);
-  const [hoverThumb, setHoverThumb] = useState(false);
-  const [hoverTip, setHoverTip] = useState(false);
+  const markList = useMemo<SliderMark[]>(() => {
+    if (!marks) return [];
+    if (marks === true) {
+      if (!(step > 0)) return [];
+      const count = Math.floor((max - min) / step) + 1;
+      return Array.from({ length: count }, (_, i) => ({ value: min + i * step }));
+    }
+    return marks.filter((m) => m.value >= min && m.value <= max).sort((a, b) => a.value - b.value);
+  }, [marks, min, max, step]);
+  const snapping = snapToMarks && markList.length > 0;
 
-  const isControlled = value !== undefined;
   const clamp = useCallback((v: number) => Math.min(max, Math.max(min, v)), [min, max]);
   const quantize = useCallback(
-    (raw: number) => clamp(Math.round((raw - min) / step) * step + min),
-    [min, step, clamp]
+    (raw: number) => {
+      if (snapping) {
+        return markList.reduce((best, m) => (Math.abs(m.value - raw) < Math.abs(best - raw) ? m.value : best), markList[0].value);
+      }
+      return clamp(Math.round((raw - min) / step) * step + min);
+    },
+    [min, step, clamp, snapping, markList]
   );
-
-  const [internal, setInternal] = useState<number>(() =>
-    quantize(defaultValue == null ? min : defaultValue)
+  // Orders a range and pushes its thumbs `minDistance` apart, staying within min/max.
+  const normalize = useCallback(
+    (list: number[]) => {
+      const q = list.map(quantize);
+      if (q.length !== 2) return q;
+      const [a, b] = q[0] > q[1] ? [q[1], q[0]] : q;
+      if (b - a >= minDistance) return [a, b];
+      const hi = Math.min(max, a + minDistance);
+      return [Math.max(min, hi - minDistance), hi];
+    },
+    [quantize, minDistance, min, max]
   );
-  const current = isControlled ? quantize(value as number) : internal;
+
+  const isControlled = value !== undefined;
+  const [internal, setInternal] = useState<number[]>(() => normalize(toList(defaultValue, fallback)));
+  const current = isControlled ? normalize(toList(value, fallback)) : internal;
 
   useEffect(() => {
-    if (!isControlled) setInternal((v) => quantize(v));
-  }, [min, max, step, isControlled, quantize]);
+    if (!isControlled) setInternal((v) => normalize(v));
+  }, [min, max, step, isControlled, normalize]);
+
+  useFormReset(inputRef, () => {
+    if (!isControlled) setInternal(normalize(toList(defaultValue, fallback)));
+  });
 
   const primary600 = theme.palette.primary[600];
-  const panelBg = theme.surface.panelBg;
   const disabledInk = theme.neutral[500];
 
-  const percent = useMemo(() => {
-    const span = max - min || 1;
-    return ((current - min) / span) * 100;
-  }, [current, min, max]);
+  const format = (v: number) => (formatValue ? formatValue(v) : formatNumber(v));
+  const percents = current.map((v) => toRatio(v) * 100);
+  const fillFrom = isRange ? percents[0] : 0;
+  const fillTo = isRange ? percents[1] : percents[0];
 
   const commit = useCallback(
-    (next: number) => {
+    (next: number[]) => {
+      if (next.every((v, i) => v === current[i])) return;
       if (!isControlled) setInternal(next);
-      onChange?.(next);
+      onChange?.((isRange ? [next[0], next[1]] : next[0]) as V);
+    },
+    [current, isControlled, isRange, onChange]
+  );
+
+  // Moves one thumb, keeping a range's thumbs in order and `minDistance` apart.
+  const setThumb = useCallback(
+    (index: number, raw: number) => {
+      let v = quantize(raw);
+      if (isRange) {
+        const lo = index === 0 ? min : current[0] + minDistance;
+        const hi = index === 0 ? current[1] - minDistance : max;
+        v = Math.min(hi, Math.max(lo, v));
+      }
+      const next = [...current];
+      next[index] = v;
+      commit(next);
     },
-    [isControlled, onChange]
+    [quantize, isRange, min, max, minDistance, current, commit]
   );
 
   const valueFromPointer = useCallback(
     (clientX: number, clientY: number) => {
       const el = trackRef.current;
-      if (!el) return current;
+      if (!el) return null;
       const rect = el.getBoundingClientRect();
-      let ratio = isVertical ? (rect.bottom - clientY) / rect.height : (clientX - rect.left) / rect.width;
+      let ratio = isVertical
+        ? (rect.bottom - clientY) / rect.height
+        : isRtl
+          ? (rect.right - clientX) / rect.width
+          : (clientX - rect.left) / rect.width;
       ratio = Math.max(0, Math.min(1, ratio));
-      return quantize(min + ratio * (max - min));
+      return fromRatio(ratio);
     },
-    [current, isVertical, min, max, quantize]
+    [isVertical, isRtl, fromRatio]
   );
 
   const onPointerDownTrack = useCallback(
     (e: React.PointerEvent) => {
       if (disabled) return;
+      const raw = valueFromPointer(e.clientX, e.clientY);
+      if (raw == null) return;
       (e.currentTarget as HTMLElement).setPointerCapture?.(e.pointerId);
-      commit(valueFromPointer(e.clientX, e.clientY));
-      setDragging(true);
+      let index = 0;
+      if (isRange) {
+        const d0 = Math.abs(toRatio(current[0]) - toRatio(raw));
+        const d1 = Math.abs(toRatio(current[1]) - toRatio(raw));
+        // Stacked thumbs: take the one on the side the pointer went to.
+        index = d0 === d1 ? (raw > current[1] ? 1 : 0) : d1 < d0 ? 1 : 0;
+      }
+      e.preventDefault();
+      thumbRefs.current[index]?.focus();
+      setThumb(index, raw);
+      setActiveThumb(index);
     },
-    [disabled, commit, valueFromPointer]
+    [disabled, valueFromPointer, isRange, toRatio, current, setThumb]
   );
 
   const onPointerDownThumb = useCallback(
-    (e: React.PointerEvent) => {
+    (index: number) => (e: React.PointerEvent) => {
       if (disabled) return;
+      e.stopPropagation();
       (e.currentTarget as HTMLElement).setPointerCapture?.(e.pointerId);
-      setDragging(true);
+      setActiveThumb(index);
     },
     [disabled]
   );
 
   const onPointerMove = useCallback(
     (e: PointerEvent) => {
-      if (!dragging || disabled) return;
-      commit(valueFromPointer(e.clientX, e.clientY));
+      if (activeThumb === null || disabled) return;
+      const raw = valueFromPointer(e.clientX, e.clientY);
+      if (raw != null) setThumb(activeThumb, raw);
     },
-    [dragging, disabled, commit, valueFromPointer]
+    [activeThumb, disabled, valueFromPointer, setThumb]
   );
 
-  const stopDrag = useCallback(() => setDragging(false), []);
+  const stopDrag = useCallback(() => setActiveThumb(null), []);
 
   useEffect(() => {
     if (!dragging) return;
@@ -145,24 +264,36 @@ export const Slider: React.FC<SliderProps> = ({
     };
   }, [dragging, onPointerMove, stopDrag]);
 
+  const neighbourMark = useCallback(
+    (v: number, delta: 1 | -1) => {
+      const found = delta > 0 ? markList.find((m) => m.value > v) : [...markList].reverse().find((m) => m.value < v);
+      return found ? found.value : v;
+    },
+    [markList]
+  );
+
   const onKeyDown = useCallback(
-    (e: React.KeyboardEvent) => {
+    (index: number) => (e: React.KeyboardEvent) => {
       if (disabled) return;
-      let next = current;
-      if (e.key === "ArrowRight" || e.key === "ArrowUp") next = current + step;
-      else if (e.key === "ArrowLeft" || e.key === "ArrowDown") next = current - step;
-      else if (e.key === "Home") next = min;
-      else if (e.key === "End") next = max;
+      const v = current[index];
+      let next: number;
+      // Only the horizontal axis flips in RTL; up is always "more" on a vertical slider.
+      const key = isVertical ? e.key : logicalArrowKey(e.key, dir);
+      if (key === "ArrowRight" || key === "ArrowUp") next = snapping ? neighbourMark(v, 1) : v + step;
+      else if (key === "ArrowLeft" || key === "ArrowDown") next = snapping ? neighbourMark(v, -1) : v - step;
+      else if (key === "PageUp") next = snapping ? neighbourMark(v, 1) : fromRatio(Math.min(1, toRatio(v) + PAGE_RATIO));
+      else if (key === "PageDown") next = snapping ? neighbourMark(v, -1) : fromRatio(Math.max(0, toRatio(v) - PAGE_RATIO));
+      else if (key === "Home") next = min;
+      else if (key === "End") next = max;
       else return;
       e.preventDefault();
-      commit(quantize(next));
+      setThumb(index, next);
     },
-    [disabled, current, step, min, max, commit, quantize]
+    [disabled, current, isVertical, dir, snapping, neighbourMark, step, fromRatio, toRatio, min, max, setThumb]
   );
 
-  const showTooltip = dragging || hoverThumb || hoverTip;
-  const showHoverRing = (hoverThumb || dragging) && !disabled;
   const ringColor = `color-mix(in srgb, ${primary600} 25%, transparent)`;
+  const hasMarkLabels = markList.some((m) => m.label != null);
 
   const rootCss = css({
     display: "flex",
@@ -185,112 +316,117 @@ export const Slider: React.FC<SliderProps> = ({
     position: "relative",
     width: isVertical ? DEFAULT_TRACK_H : "100%",
     height: isVertical ? "100%" : DEFAULT_TRACK_H,
+    marginBottom: hasMarkLabels && !isVertical ? 24 : 0,
+    marginRight: hasMarkLabels && isVertical ? 48 : 0,
     backgroundColor: theme.neutral[200],
     borderRadius: theme.radius.xs,
     cursor: disabled ? "not-allowed" : "pointer",
     touchAction: "none",
     outline: "none",
     overflow: "visible",
+    [FORCED_COLORS]: {
+      outline: `1px solid ${disabled ? "GrayText" : "CanvasText"}`,
+    },
   });
 
+  // Step dots go through the scale like the marks, so a log slider bunches them towards its end.
   const stepperCss = css({
     position: "absolute",
-    left: isVertical ? "50%" : 0,
-    top: isVertical ? 2 : "50%",
-    transform: isVertical ? "translateX(-50%)" : "translateY(-50%)",
-    width: isVertical ? DEFAULT_TRACK_H : `calc(100% - ${DEFAULT_DOT * 0.5}px)`,
-    height: isVertical ? `calc(100% - ${DEFAULT_DOT * 0.5}px)` : DEFAULT_TRACK_H,
-    display: "flex",
-    flexDirection: isVertical ? "column" : "row",
-    justifyContent: "space-between",
-    alignItems: "center",
+    inset: 0,
     pointerEvents: "none",
     zIndex: 0,
     padding: 0,
   });
 
   const stepDotCss = css({
+    position: "absolute",
     width: DEFAULT_DOT,
     height: DEFAULT_DOT,
     borderRadius: "50%",
     backgroundColor: theme.text.primary,
     opacity: 0.15,
-    flex: "0 0 auto",
   });
 
-  const fillCss_default = css({
+  // Centers something on a point of the track, given as a percentage from its start.
+  const atPercent = (p: number): CSSObject =>
+    isVertical
+      ? { left: "50%", bottom: `${p}%`, transform: "translate(-50%, 50%)" }
+      : { [startSide]: `${p}%`, top: "50%", transform: `translate(${isRtl ? 50 : -50}%, -50%)` };
+
+  const markDotCss = css({
     position: "absolute",
-    left: 0,
-    top: isVertical ? `calc(${100 - percent}% )` : 0,
-    bottom: 0,
-    width: isVertical ? "100%" : `${percent}%`,
-    height: isVertical ? `${percent}%` : "100%",
-    backgroundColor: disabled ? disabledInk : primary600,
-    borderRadius: theme.radius.sm,
-    zIndex: 1,
-    transition: "none",
+    width: DEFAULT_DOT,
+    height: DEFAULT_DOT,
+    borderRadius: "50%",
+    backgroundColor: theme.text.primary,
+    opacity: 0.25,
     pointerEvents: "none",
+    zIndex: 2,
+    "&[data-active]": { backgroundColor: theme.text.onColors.primary, opacity: 0.7 },
+    [FORCED_COLORS]: { forcedColorAdjust: "none", backgroundColor: "CanvasText" },
   });
 
-  const thumb_default = css({
+  const markLabelCss = css({
     position: "absolute",
-    appearance: "none",
-    WebkitAppearance: "none",
-    background: theme.text.onColors.primary,
-    width: DEFAULT_THUMB,
-    height: DEFAULT_THUMB,
-    left: isVertical ? "50%" : `calc(${percent}% - ${DEFAULT_THUMB / 2}px)`,
-    bottom: isVertical ? `${percent}%` : "auto",
-    top: isVertical ? "auto" : "50%",
-    transform: isVertical ? "translate(-50%, 50%)" : "translateY(-50%)",
-    borderRadius: rounded ? theme.radius.full : `calc(${theme.radius.md} * 0.75)`,
-    border: `2px solid ${disabled ? disabledInk : primary600}`,
-    cursor: disabled ? "not-allowed" : "grab",
-    zIndex: 5,
-    padding: 0,
-    lineHeight: 0,
-    transition: "box-shadow .16s ease",
-    boxShadow: showHoverRing ? `0 0 0 ${dragging ? 4 : 8}px ${ringColor}` : `0 0 0 0px ${ringColor}`,
-    "&:focus-visible": {
-      boxShadow: `0 0 0 4px ${ringColor}`,
-      outline: "none",
-    },
+    color: theme.text.secondary,
+    fontSize: theme.typography.sizes.xs,
+    whiteSpace: "nowrap",
+    userSelect: "none",
   });
 
-  const tipAnchorCss = css({
-    position: "relative",
-    backgroundColor: "transparent",
-    padding: "1rem",
-    top: !isVertical ? -28 : -7.5,
-    left: isVertical ? 9 : -7.5,
+  const fillCss_default = css({
+    position: "absolute",
+    [startSide]: isVertical ? 0 : `${fillFrom}%`,
+    top: isVertical ? `calc(${100 - fillTo}% )` : 0,
+    bottom: isVertical ? `${fillFrom}%` : 0,
+    width: isVertical ? "100%" : `${fillTo - fillFrom}%`,
+    height: isVertical ? `${fillTo - fillFrom}%` : "100%",
+    backgroundColor: disabled ? disabledInk : primary600,
+    borderRadius: theme.radius.sm,
+    zIndex: 1,
+    transition: "none",
     pointerEvents: "none",
+    [FORCED_COLORS]: {
+      forcedColorAdjust: "none",
+      backgroundColor: disabled ? "GrayText" : "Highlight",
+    },
   });
 
-  const tooltipCss = css({
-    position: "absolute",
-    top: isVertical ? `calc(50% - ${DEFAULT_DOT * 2.5}px)` : 0,
-    left: isVertical ? "auto" : `calc(50% - ${DEFAULT_DOT * 3}px)`,
-    transform: isVertical ? "translateY(-50%)" : "translateX(-50%)",
-    backgroundColor: theme.neutral[800],
-    color: theme.neutral[0],
-    padding: `0.6rem 0.25rem`,
-    fontSize: 12,
-    borderRadius: 6,
-    whiteSpace: "nowrap",
-    pointerEvents: "auto",
-    zIndex: 6,
-    "&::after": {
-      content: '""',
+  const thumbSlotCss = (index: number, p: number) =>
+    css({
       position: "absolute",
-      width: 6,
-      height: 6,
-      backgroundColor: theme.neutral[800],
-      borderRadius: 2,
-      bottom: isVertical ? "50%" : -2,
-      left: isVertical ? -2.5 : "50%",
-      transform: isVertical ? "translateY(50%) rotate(45deg)" : "translateX(-50%) rotate(45deg)",
-    },
-  });
+      ...atPercent(p),
+      // The thumb being dragged stays above the other one.
+      zIndex: activeThumb === index ? 6 : 5,
+    });
+
+  const thumb_default = (index: number) => {
+    const showHoverRing = (hoverThumb === index || activeThumb === index) && !disabled;
+    return css({
+      appearance: "none",
+      WebkitAppearance: "none",
+      background: theme.text.onColors.primary,
+      width: DEFAULT_THUMB,
+      height: DEFAULT_THUMB,
+      borderRadius: rounded ? theme.radius.full : `calc(${theme.radius.md} * 0.75)`,
+      border: `2px solid ${disabled ? disabledInk : primary600}`,
+      cursor: disabled ? "not-allowed" : "grab",
+      padding: 0,
+      lineHeight: 0,
+      transition: "box-shadow .16s ease",
+      boxShadow: showHoverRing ? `0 0 0 ${activeThumb === index ? 4 : 8}px ${ringColor}` : `0 0 0 0px ${ringColor}`,
+      "&:focus-visible": {
+        boxShadow: `0 0 0 4px ${ringColor}`,
+        outline: "none",
+      },
+      [FORCED_COLORS]: {
+        forcedColorAdjust: "none",
+        background: "Canvas",
+        borderColor: disabled ? "GrayText" : "Highlight",
+        "&:focus-visible": { outline: "2px solid Highlight", outlineOffset: 2 },
+      },
+    });
+  };
 
   const rootUserCss = userRootCss as CSSObject | undefined;
   const trackUserCss = trackCss as CSSObject | undefined;
@@ -322,59 +458,98 @@ export const Slider: React.FC<SliderProps> = ({
         {showStepper && step > 0 && (
           <div className="plainframe-ui-slider-stepper" css={stepperCss}>
             {Array.from({ length: stepsCount }).map((_, i) => (
-              <span key={i} className="plainframe-ui-slider-step-dot" css={stepDotCss} />
+              <span
+                key={i}
+                className="plainframe-ui-slider-step-dot"
+                css={[stepDotCss, atPercent(toRatio(Math.min(max, min + i * step)) * 100)]}
+              />
             ))}
           </div>
         )}
 
         <div className="plainframe-ui-slider-fill" css={fillCss_default} />
 
-        <button
-          type="button"
-          role="slider"
-          aria-valuemin={min}
-          aria-valuemax={max}
-          aria-valuenow={current}
-          aria-disabled={disabled || undefined}
-          tabIndex={disabled ? -1 : 0}
-          onKeyDown={onKeyDown}
-          onPointerDown={onPointerDownThumb}
-          onPointerUp={stopDrag}
-          onPointerCancel={stopDrag}
-          onMouseEnter={() => setHoverThumb(true)}
-          onMouseLeave={() => setHoverThumb(false)}
-          className="plainframe-ui-slider-thumb"
-          css={[thumb_default, thumbUserCss]}
-        >
-          <AnimatePresence>
-            {showTooltip && (
-              <motion.div
-                className="plainframe-ui-slider-tooltip-anchor"
-                css={tipAnchorCss}
-                initial={{ opacity: 0, scale: 0.9, y: isVertical ? 0 : 4, x: isVertical ? 4 : 0 }}
-                animate={{ opacity: 1, scale: 1, y: 0, x: 0 }}
-                exit={{ opacity: 0, scale: 0.9, y: isVertical ? 0 : 4, x: isVertical ? 4 : 0 }}
-                transition={{ duration: 0.16, ease: "easeOut" }}
-              >
-                <motion.div
-                  className="plainframe-ui-slider-tooltip"
-                  css={tooltipCss}
-                  initial={{ opacity: 0, y: isVertical ? 0 : 4, x: isVertical ? -4 : 0 }}
-                  animate={{ opacity: 1, y: 0, x: 0 }}
-                  exit={{ opacity: 0, y: isVertical ? 0 : 4, x: isVertical ? -4 : 0 }}
-                  transition={{ duration: 0.16, ease: "easeOut" }}
-                  onMouseEnter={() => setHoverTip(true)}
-                  onMouseLeave={() => setHoverTip(false)}
+        {markList.map((m) => {
+          const p = toRatio(m.value) * 100;
+          const active = p >= fillFrom && p <= fillTo;
+          return (
+            <React.Fragment key={m.value}>
+              <span
+                className="plainframe-ui-slider-mark"
+                data-active={active || undefined}
+                css={[markDotCss, atPercent(p)]}
+              />
+              {m.label != null && (
+                <span
+                  className="plainframe-ui-slider-mark-label"
+                  css={[
+                    markLabelCss,
+                    atPercent(p),
+                    isVertical
+                      ? { left: `calc(50% + ${DEFAULT_THUMB}px)`, transform: "translateY(50%)" }
+                      : { top: `calc(50% + ${DEFAULT_THUMB}px)`, transform: `translateX(${isRtl ? 50 : -50}%)` },
+                  ]}
                 >
-                  {current}
-                </motion.div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-          {showValue && !showTooltip ? null : null}
-        </button>
+                  {m.label}
+                </span>
+              )}
+            </React.Fragment>
+          );
+        })}
+
+        {current.map((v, i) => {
+          const lo = isRange && i === 1 ? current[0] + minDistance : min;
+          const hi = isRange && i === 0 ? current[1] - minDistance : max;
+          return (
+            <Tooltip
+              key={i}
+              open={!disabled && (activeThumb === i || hoverThumb === i)}
+              placement={isVertical ? "right" : "top"}
+              disableHoverListener
+              autoWidth
+            >
+              <TooltipTrigger asChild={false} className="plainframe-ui-slider-thumb-slot" css={thumbSlotCss(i, percents[i])}>
+                <button
+                  ref={(node) => {
+                    thumbRefs.current[i] = node;
+                  }}
+                  type="button"
+                  role="slider"
+                  aria-label={isRange ? (i === 0 ? messages.slider.minimum : messages.slider.maximum) : undefined}
+                  aria-orientation={isVertical ? "vertical" : "horizontal"}
+                  aria-valuemin={lo}
+                  aria-valuemax={hi}
+                  aria-valuenow={v}
+                  aria-valuetext={format(v)}
+                  aria-disabled={disabled || undefined}
+                  tabIndex={disabled ? -1 : 0}
+                  onKeyDown={onKeyDown(i)}
+                  onPointerDown={onPointerDownThumb(i)}
+                  onPointerUp={stopDrag}
+                  onPointerCancel={stopDrag}
+                  onMouseEnter={() => setHoverThumb(i)}
+                  onMouseLeave={() => setHoverThumb((h) => (h === i ? null : h))}
+                  className="plainframe-ui-slider-thumb"
+                  data-index={i}
+                  css={[thumb_default(i), thumbUserCss]}
+                />
+              </TooltipTrigger>
+              <TooltipContent className="plainframe-ui-slider-tooltip">{format(v)}</TooltipContent>
+            </Tooltip>
+          );
+        })}
       </div>
 
+      <HiddenInput
+        inputRef={inputRef}
+        name={name}
+        value={isRange ? current.map(String) : String(current[0])}
+        required={required}
+        form={form}
+        disabled={disabled}
+        onFocus={() => thumbRefs.current[0]?.focus()}
+      />
+
       {label && isVertical && (
         <div className="plainframe-ui-slider-label" css={[labelCss, { marginLeft: 8 }]}>
           {label}
@@ -384,4 +559,4 @@ export const Slider: React.FC<SliderProps> = ({
   );
 };
 
-Slider.displayName = "Slider";
\ No newline at end of file
+Slider.displayName = "Slider";
@@ -1,8 +1,12 @@
 /** @jsxImportSource @emotion/react */
 import React from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
 import { useFocusRing } from "../utils/focusRing";
+import { logicalArrowKey } from "../utils/direction";
+import { useAnnouncer } from "../utils/announcer";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatMessage } from "../locale/messages";
 import { Check } from "lucide-react";
 
 export type StepProps = {
@@ -266,6 +270,7 @@ const StepItem = React.memo<StepItemProps>(function StepItem({
     }
   }
 
+  const { messages } = useLocale();
   const label = item.label;
   const baseIcon = item.icon ?? <span css={numCss}>{typeof label === "number" ? label : i + 1}</span>;
   const doneIcon = item.completedIcon ?? <Check strokeWidth={3.25} size={16} />;
@@ -283,7 +288,7 @@ const StepItem = React.memo<StepItemProps>(function StepItem({
           aria-current={isActive ? "step" : undefined}
           aria-disabled={disabled || undefined}
           disabled={disabled}
-          aria-label={typeof label === "string" ? label : `Step ${i + 1}`}
+          aria-label={typeof label === "string" ? label : formatMessage(messages.stepper.step, { step: i + 1 })}
         >
           <span className="plainframe-ui-step-content" css={layerCss(!completed)}>
             {baseIcon}
@@ -361,6 +366,7 @@ export const Stepper: React.FC<StepperProps> = ({
   ...rest
 }) => {
   const theme = usePlainframeUITheme();
+  const dir = useDirection();
   const normalizedVariant: NormalizedVariant = variant === "outlined" ? "outlined" : "subtle";
 
   const steps: StepProps[] = React.useMemo(() => {
@@ -456,6 +462,17 @@ export const Stepper: React.FC<StepperProps> = ({
     [disabled, steps, allowForward, activeIndex]
   );
 
+  const { messages } = useLocale();
+  const announce = useAnnouncer();
+  const shownIndex = React.useRef(activeIndex);
+  React.useEffect(() => {
+    if (shownIndex.current === activeIndex) return;
+    shownIndex.current = activeIndex;
+    const progress = formatMessage(messages.stepper.progress, { step: activeIndex + 1, count: steps.length });
+    const label = steps[activeIndex]?.label;
+    announce(typeof label === "string" ? `${progress}: ${label}` : progress);
+  }, [activeIndex, steps, messages, announce]);
+
   const [animate, setAnimate] = React.useState(false);
   React.useEffect(() => {
     const id = requestAnimationFrame(() => setAnimate(true));
@@ -466,15 +483,16 @@ export const Stepper: React.FC<StepperProps> = ({
     (e: React.KeyboardEvent<HTMLDivElement>) => {
       if (!steps.length || disabled) return;
       let next = activeIndex;
-      if (e.key === "ArrowRight") next = Math.min(steps.length - 1, activeIndex + 1);
-      else if (e.key === "ArrowLeft") next = Math.max(0, activeIndex - 1);
+      const key = logicalArrowKey(e.key, dir);
+      if (key === "ArrowRight") next = Math.min(steps.length - 1, activeIndex + 1);
+      else if (key === "ArrowLeft") next = Math.max(0, activeIndex - 1);
       else if (e.key === "Home") next = 0;
       else if (e.key === "End") next = steps.length - 1;
       else return;
       e.preventDefault();
       if (canGoToIndex(next)) setSelected(steps[next]!.value);
     },
-    [steps, disabled, activeIndex, canGoToIndex, setSelected]
+    [steps, disabled, activeIndex, canGoToIndex, setSelected, dir]
   );
 
   const size = 34;
@@ -1,8 +1,11 @@
 /** @jsxImportSource @emotion/react */
-import React, { useEffect, useState, forwardRef } from "react";
+import React, { useEffect, useRef, useState, forwardRef } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
 import { useFocusRing } from "../utils/focusRing";
+import { FORCED_COLORS } from "../utils/forcedColors";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
+import { mergeRefs } from "./Popover";
 
 type WithCssProp = { css?: Interpolation<Theme> };
 
@@ -17,7 +20,9 @@ type SwitchProps = {
   trackCss?: Interpolation<Theme>;
   thumbCss?: Interpolation<Theme>;
   labelCss?: Interpolation<Theme>;
+  value?: string;
 } & WithCssProp &
+  NativeFormProps &
   Omit<React.HTMLAttributes<HTMLLabelElement>, "onChange" | "className">;
 
 export const Switch: React.ForwardRefExoticComponent<
@@ -35,6 +40,10 @@ export const Switch: React.ForwardRefExoticComponent<
     trackCss: userTrackCss,
     thumbCss: userThumbCss,
     labelCss: userLabelCss,
+    name,
+    value,
+    required,
+    form,
     ...props
   },
   ref
@@ -53,6 +62,12 @@ export const Switch: React.ForwardRefExoticComponent<
   const [internal, setInternal] = useState<boolean>(defaultChecked);
   const isOn = isControlled ? !!checkedProp : internal;
 
+  const rootRef = useRef<HTMLLabelElement | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  useFormReset(inputRef, () => {
+    if (!isControlled) setInternal(defaultChecked);
+  });
+
   const [animating, setAnimating] = useState(false);
   useEffect(() => {
     if (disabled) return;
@@ -94,6 +109,11 @@ export const Switch: React.ForwardRefExoticComponent<
     willChange: "background-color",
     cursor: disabled ? "not-allowed" : "pointer",
     opacity: disabled ? 0.5 : 1,
+    [FORCED_COLORS]: {
+      forcedColorAdjust: "none",
+      backgroundColor: isOn && !disabled ? "Highlight" : "Canvas",
+      outline: `1px solid ${disabled ? "GrayText" : isOn ? "Highlight" : "CanvasText"}`,
+    },
   });
 
   const thumbBaseCss = css({
@@ -107,6 +127,9 @@ export const Switch: React.ForwardRefExoticComponent<
     transition: `left ${slide}, transform ${slide}, background-color 0.25s ease`,
     transform: animating ? "scaleX(1.2)" : "scaleX(1)",
     transformOrigin: isOn ? "right center" : "left center",
+    [FORCED_COLORS]: {
+      backgroundColor: disabled ? "GrayText" : isOn ? "HighlightText" : "CanvasText",
+    },
   });
 
   const labelBaseCss = css({
@@ -132,7 +155,7 @@ export const Switch: React.ForwardRefExoticComponent<
 
   return (
     <label
-      ref={ref}
+      ref={mergeRefs(ref, rootRef)}
       role="switch"
       aria-checked={isOn}
       aria-disabled={disabled || undefined}
@@ -152,6 +175,17 @@ export const Switch: React.ForwardRefExoticComponent<
         <div className="plainframe-ui-switch-thumb" css={[thumbBaseCss, userThumbCss]} />
       </div>
 
+      <HiddenInput
+        inputRef={inputRef}
+        name={name}
+        value={value}
+        required={required}
+        form={form}
+        checked={isOn}
+        disabled={disabled}
+        onFocus={() => rootRef.current?.focus()}
+      />
+
       {label != null && (
         <span className="plainframe-ui-switch-label" css={[labelBaseCss, userLabelCss]}>
           {label}
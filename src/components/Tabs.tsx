@@ -1,8 +1,10 @@
 /** @jsxImportSource @emotion/react */
 import React from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
-import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { logicalArrowKey } from "../utils/direction";
 import { useFocusRing } from "../utils/focusRing";
+import { FORCED_COLORS } from "../utils/forcedColors";
 
 type Variant = "subtle" | "underlined" | "text" | "ghost";
 type Direction = "horizontal" | "vertical";
@@ -77,6 +79,7 @@ export const Tabs: React.FC<TabsProps> = ({
   activeIndicatorCss,
 }) => {
   const theme = usePlainframeUITheme();
+  const textDir = useDirection();
   const focusRing = useFocusRing();
   const isV = direction === "vertical";
   const stretch = fullWidth || width != null;
@@ -178,8 +181,9 @@ export const Tabs: React.FC<TabsProps> = ({
   const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
     if (!tabs.length) return;
     let next = activeIndex;
-    if (e.key === (isV ? "ArrowDown" : "ArrowRight")) next = nextEnabledIndex(activeIndex, 1);
-    else if (e.key === (isV ? "ArrowUp" : "ArrowLeft")) next = nextEnabledIndex(activeIndex, -1);
+    const key = logicalArrowKey(e.key, textDir);
+    if (key === (isV ? "ArrowDown" : "ArrowRight")) next = nextEnabledIndex(activeIndex, 1);
+    else if (key === (isV ? "ArrowUp" : "ArrowLeft")) next = nextEnabledIndex(activeIndex, -1);
     else if (e.key === "Home") next = tabs.findIndex((t) => !t.disabled);
     else if (e.key === "End") {
       const rev = [...tabs].reverse().findIndex((t) => !t.disabled);
@@ -244,14 +248,15 @@ export const Tabs: React.FC<TabsProps> = ({
       ? { top: `${indicator.top}px`, height: `${indicator.height}px`, left: theme.spacing.xs, right: theme.spacing.xs }
       : { left: `${indicator.left}px`, width: `${indicator.width}px`, top: theme.spacing.xs, bottom: theme.spacing.xs }),
     boxShadow: shadow && variant === "subtle" ? "0 1px 3px rgba(0,0,0,0.04), 0 6px 16px rgba(0,0,0,0.04)" : "none",
+    [FORCED_COLORS]: variant === "underlined" ? {} : { border: "1px solid Highlight" },
   });
 
   const underlineCss = css(
     variant !== "underlined"
       ? {}
       : isV
-        ? { background: "transparent", top: `${indicator.top}px`, height: `${indicator.height}px`, left: 0, width: 0, borderLeft: `2px solid ${underlineColor}`, borderBottom: "none", borderRadius: 2 }
-        : { background: "transparent", left: `${indicator.left}px`, width: `${indicator.width}px`, bottom: 0, top: "auto", height: 0, borderBottom: `2px solid ${underlineColor}`, borderLeft: "none", borderRadius: 2 }
+        ? { background: "transparent", top: `${indicator.top}px`, height: `${indicator.height}px`, insetInlineStart: 0, width: 0, borderInlineStart: `2px solid ${underlineColor}`, borderBottom: "none", borderRadius: 2 }
+        : { background: "transparent", left: `${indicator.left}px`, width: `${indicator.width}px`, bottom: 0, top: "auto", height: 0, borderBottom: `2px solid ${underlineColor}`, borderInlineStart: "none", borderRadius: 2 }
   );
 
   const baseTabCss = css({
@@ -288,6 +293,11 @@ export const Tabs: React.FC<TabsProps> = ({
     "&[aria-selected='true']": { color: textPrimary },
     "&:hover": { color: textPrimary },
     "&[aria-disabled='true'], &:disabled": { opacity: 0.55, cursor: "not-allowed", color: disabledText },
+    [FORCED_COLORS]: {
+      color: "ButtonText",
+      "&[aria-selected='true']": { color: "Highlight" },
+      "&[aria-disabled='true'], &:disabled": { color: "GrayText" },
+    },
   });
 
   const contentWrapCss = css({
@@ -11,11 +11,21 @@ import React, {
 } from "react";
 import { css, type Interpolation, type Theme } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
 import { Eye, EyeOff, X } from "lucide-react";
 import { useFocusWithinRing } from "../utils/focusRing";
-
-type SizeKey = "sm" | "md" | "lg";
-type Variant = "outlined" | "subtle" | "ghost";
+import {
+  fieldHelperRowStyle,
+  fieldLabelStyle,
+  fieldSurfaceBg,
+  fieldSurfaceStyle,
+  FIELD_HELPER_TEXT_STYLE,
+  type FieldSize,
+  type FieldVariant,
+} from "../utils/fieldStyles";
+
+type SizeKey = FieldSize;
+type Variant = FieldVariant;
 type WithCss = { css?: Interpolation<Theme> };
 
 const u = (v?: number | string) =>
@@ -133,50 +143,34 @@ export const TextField: React.ForwardRefExoticComponent<
     ref
   ) {
     const theme = usePlainframeUITheme();
+    const { messages } = useLocale();
     const ring = useFocusWithinRing();
     const reactId = useId();
 
+    const sizeKey: SizeKey = (["sm", "md", "lg"] as const).includes(size as any) ? (size as SizeKey) : "md";
     const s = useMemo(() => {
       const map = {
         sm: {
           fontSize: theme.typography.sizes.sm,
-          minHeight: theme.componentHeights.sm,
-          labelFont: theme.typography.sizes.xs,
-          helperFont: theme.typography.sizes.xs,
           width: "12.5rem",
-          paddingY: 0,
-          paddingX: theme.spacing.md,
           iconSize: theme.typography.sizes.xs,
           codeFontSize: 21,
         },
         md: {
           fontSize: theme.typography.sizes.sm,
-          minHeight: theme.componentHeights.md,
-          labelFont: theme.typography.sizes.sm,
-          helperFont: theme.typography.sizes.xs,
           width: "15rem",
-          paddingY: 0,
-          paddingX: theme.spacing.md,
           iconSize: theme.typography.sizes.xs,
           codeFontSize: 24,
         },
         lg: {
           fontSize: theme.typography.sizes.sm,
-          minHeight: theme.componentHeights.lg,
-          labelFont: theme.typography.sizes.md,
-          helperFont: theme.typography.sizes.sm,
           width: "18.125rem",
-          paddingY: 0,
-          paddingX: theme.spacing.md,
           iconSize: theme.typography.sizes.xs,
           codeFontSize: 28,
         },
       } as const;
-      const key: SizeKey = (["sm", "md", "lg"] as const).includes(size as any)
-        ? (size as SizeKey)
-        : "md";
-      return map[key];
-    }, [size, theme]);
+      return map[sizeKey];
+    }, [sizeKey, theme]);
 
     const N = theme.neutral;
     const T = theme.text;
@@ -218,26 +212,8 @@ export const TextField: React.ForwardRefExoticComponent<
       [setValue]
     );
 
-    const surfaceBg =
-      disabled
-        ? N[200]
-        : error && variant === "outlined"
-        ? theme.palette.danger?.[50] ?? theme.surface.panelBg
-        : error && variant === "subtle"
-        ? theme.palette.danger?.[50] ?? theme.surface.subtleBg
-        : variant === "outlined"
-        ? theme.surface.panelBg
-        : variant === "subtle"
-        ? theme.surface.subtleBg
-        : "transparent";
-
-    const borderW = theme.componentHeights.border;
-    const surfaceBorder =
-      variant === "outlined"
-        ? `${borderW} solid ${
-            error ? theme.palette.danger?.[300] ?? theme.surface.border : theme.surface.border
-          }`
-        : "none";
+    const field = { size: sizeKey, variant, error, disabled };
+    const surfaceBg = fieldSurfaceBg(theme, field);
 
     const rootCss = mergeCss({
       boxSizing: "border-box",
@@ -250,59 +226,18 @@ export const TextField: React.ForwardRefExoticComponent<
     });
 
     const labelCss = useMemo(
-      () =>
-        mergeCss(
-          {
-            fontSize: s.labelFont,
-            fontWeight: 500,
-            color: error
-              ? theme.palette.danger?.[700] ?? T.primary
-              : disabled
-              ? N[500]
-              : T.primary,
-            marginBottom: 4,
-            display: "inline-block",
-          },
-          ...asArray(userLabelCss)
-        ),
-      [s.labelFont, error, disabled, N, T, theme.palette.danger, userLabelCss]
+      () => mergeCss(fieldLabelStyle(theme, field), ...asArray(userLabelCss)),
+      [theme, sizeKey, error, disabled, userLabelCss]
     );
 
     const surfaceBaseCss = useMemo(
       () =>
         mergeCss(
-          {
-            display: "flex",
-            alignItems: "center",
-            gap: theme.spacing.sm,
-            padding: `${u(s.paddingY)} ${u(s.paddingX)}`,
-            background: surfaceBg,
-            border: surfaceBorder,
-            borderRadius: rounded
-              ? (theme.radius.full as string)
-              : (theme.radius.md as string),
-            minHeight: s.minHeight,
-            boxSizing: "border-box",
-            width: "100%",
-            cursor: disabled ? "not-allowed" : "text",
-            opacity: disabled ? 0.65 : 1,
-            transition: "box-shadow .18s, border-color .16s",
-          },
+          fieldSurfaceStyle(theme, { ...field, rounded }),
           ...asArray(userWrapperCss),
           ...asArray(userSurfaceCss)
         ),
-      [
-        theme,
-        s.minHeight,
-        s.paddingX,
-        s.paddingY,
-        surfaceBg,
-        surfaceBorder,
-        rounded,
-        disabled,
-        userWrapperCss,
-        userSurfaceCss,
-      ]
+      [theme, sizeKey, variant, error, disabled, rounded, userWrapperCss, userSurfaceCss]
     );
 
     const inputBaseCss = useMemo(
@@ -374,38 +309,12 @@ export const TextField: React.ForwardRefExoticComponent<
     );
 
     const helperRowCss = useMemo(
-      () =>
-        mergeCss(
-          {
-            minHeight: 16,
-            fontSize: s.helperFont,
-            color: error
-              ? theme.palette.danger?.[700] ?? T.secondary
-              : T.secondary,
-            paddingTop: 3,
-            display: "flex",
-            alignItems: "flex-start",
-            justifyContent: "space-between",
-            gap: 8,
-            width: "100%",
-          },
-          ...asArray(userHelperRowCss)
-        ),
-      [s.helperFont, error, theme.palette.danger, T.secondary, userHelperRowCss]
+      () => mergeCss(fieldHelperRowStyle(theme, field), ...asArray(userHelperRowCss)),
+      [theme, sizeKey, error, userHelperRowCss]
     );
 
     const helperTextCss = useMemo(
-      () =>
-        mergeCss(
-          {
-            flex: 1,
-            wordBreak: "break-word",
-            whiteSpace: "pre-wrap",
-            minWidth: 0,
-            fontWeight: 400,
-          },
-          ...asArray(userHelperTextCss)
-        ),
+      () => mergeCss(FIELD_HELPER_TEXT_STYLE, ...asArray(userHelperTextCss)),
       [userHelperTextCss]
     );
 
@@ -489,7 +398,7 @@ export const TextField: React.ForwardRefExoticComponent<
               togglePw();
             }}
             tabIndex={-1}
-            aria-label={showPw ? "Hide password" : "Show password"}
+            aria-label={showPw ? messages.textField.hidePassword : messages.textField.showPassword}
             disabled={disabled}
           >
             {node}
@@ -509,7 +418,7 @@ export const TextField: React.ForwardRefExoticComponent<
               clear();
             }}
             tabIndex={-1}
-            aria-label="Clear"
+            aria-label={messages.textField.clear}
           >
             <X strokeWidth={2.5} size={iconPx} />
           </button>
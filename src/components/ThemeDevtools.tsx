@@ -0,0 +1,327 @@
+/** @jsxImportSource @emotion/react */
+import React, { useEffect, useState } from "react";
+import { Palette } from "lucide-react";
+import { useColorMode, usePlainframeUITheme, usePrimitives, useThemePatch, type ThemePatch, type ThemeProp } from "../theme/ThemeProvider";
+import type { Mode, Scale } from "../theme/theme";
+import { resolveAlias } from "../theme/resolve";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatMessage } from "../locale/messages";
+import { isDevEnv } from "../utils/env";
+import { Drawer, DrawerContent, DrawerTrigger } from "./Drawer";
+import { Tabs, Tab, TabContent } from "./Tabs";
+import { Slider } from "./Slider";
+import { Select, SelectItem } from "./Select";
+import { TextField } from "./TextField";
+import { Button } from "./Button";
+import { Switch } from "./Switch";
+import { Checkbox } from "./Checkbox";
+import { Badge } from "./Badge";
+import { Chip } from "./Chip";
+import { Progress } from "./Progress";
+import { Alert, AlertTitle, AlertDescription } from "./Alert";
+
+export type ThemeDevtoolsProps = {
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  position?: "start" | "end";
+  // Hides the floating button, e.g. when `open` is driven from your own UI.
+  hideTrigger?: boolean;
+};
+
+type DimSection = "spacing" | "radius" | "componentHeights" | "sizes";
+
+const STOPS = ["0", "50", "100", "200", "300", "400", "500", "600", "700", "800", "900"] as const;
+const MODE_KEY: Record<Mode, "light" | "dark" | "highContrast"> = {
+  light: "light",
+  dark: "dark",
+  "high-contrast": "highContrast",
+};
+
+// Slider ceilings in px; fixed so the range doesn't move under the pointer while dragging.
+const DIM_MAX: Record<DimSection, number> = { spacing: 128, radius: 64, componentHeights: 128, sizes: 96 };
+
+const parseDim = (v: string | number) =>
+  typeof v === "number" ? { n: v, unit: "px" } : { n: parseFloat(v) || 0, unit: v.replace(/^-?[\d.]+/, "") || "px" };
+
+const isHex = (v: string) => /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(v);
+
+// <input type="color"> only takes #rrggbb, so shorthand is expanded and alpha dropped.
+const toColorInput = (v: string) => {
+  if (!isHex(v)) return "#000000";
+  if (v.length === 4) return `#${v[1]}${v[1]}${v[2]}${v[2]}${v[3]}${v[3]}`.toLowerCase();
+  return v.slice(0, 7).toLowerCase();
+};
+
+function DimSlider({
+  name,
+  section,
+  value,
+  onChange,
+}: {
+  name: string;
+  section: DimSection;
+  value: string | number;
+  onChange: (v: string) => void;
+}) {
+  const { n, unit } = parseDim(value);
+  const rem = unit === "rem" || unit === "em";
+  const max = rem ? DIM_MAX[section] / 16 : DIM_MAX[section];
+  const format = (x: number) => `${Number(x.toFixed(2))}${unit}`;
+  return (
+    <Slider
+      label={`${name}: ${format(n)}`}
+      value={n}
+      min={0}
+      max={max}
+      step={rem ? 0.05 : 1}
+      formatValue={format}
+      onChange={(x) => onChange(format(x))}
+      fullWidth
+    />
+  );
+}
+
+function StopField({ stop, value, onCommit }: { stop: string; value: string; onCommit: (hex: string) => void }) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  return (
+    <div css={{ display: "grid", gridTemplateColumns: "32px 1fr", gap: 8, alignItems: "end" }}>
+      <input
+        type="color"
+        aria-label={`${stop} color`}
+        value={toColorInput(value)}
+        onChange={(e) => onCommit(e.target.value)}
+        css={{ width: 32, height: 32, padding: 0, border: 0, background: "none", cursor: "pointer" }}
+      />
+      <TextField
+        label={stop}
+        size="sm"
+        value={draft}
+        error={!isHex(draft)}
+        onChange={(v) => {
+          setDraft(v);
+          if (isHex(v)) onCommit(v);
+        }}
+        fullWidth
+      />
+    </div>
+  );
+}
+
+function Preview() {
+  const theme = usePlainframeUITheme();
+  const cell = { display: "flex", flexWrap: "wrap" as const, gap: 8, alignItems: "center" };
+  return (
+    <div css={{ display: "grid", gap: theme.spacing.lg }}>
+      <div css={cell}>
+        <Button variant="primary">Primary</Button>
+        <Button variant="subtle">Subtle</Button>
+        <Button variant="outlined">Outlined</Button>
+        <Button variant="ghost">Ghost</Button>
+        <Button variant="destructive">Delete</Button>
+      </div>
+      <div css={cell}>
+        <Button size="sm">Small</Button>
+        <Button size="md">Medium</Button>
+        <Button size="lg">Large</Button>
+      </div>
+      <TextField label="Text field" placeholder="Type here" fullWidth />
+      <Select label="Select" placeholder="Pick one" fullWidth>
+        <SelectItem value="a">Apple</SelectItem>
+        <SelectItem value="b">Banana</SelectItem>
+      </Select>
+      <div css={cell}>
+        <Switch label="Switch" defaultChecked />
+        <Checkbox label="Checkbox" defaultChecked />
+      </div>
+      <Slider label="Slider" defaultValue={40} fullWidth />
+      <div css={cell}>
+        <Badge content={4}>
+          <Chip>Chip</Chip>
+        </Badge>
+        <Chip variant="outlined">Outlined</Chip>
+      </div>
+      <Progress value={60} />
+      <Tabs defaultValue="one">
+        <Tab value="one">One</Tab>
+        <Tab value="two">Two</Tab>
+        <Tab value="three">Three</Tab>
+      </Tabs>
+      <Alert intent="info">
+        <AlertTitle>Heads up</AlertTitle>
+        <AlertDescription>Alerts use the palette and radius tokens.</AlertDescription>
+      </Alert>
+    </div>
+  );
+}
+
+function DevtoolsPanel({ open, defaultOpen, onOpenChange, position = "end", hideTrigger }: ThemeDevtoolsProps) {
+  const theme = usePlainframeUITheme();
+  const prims = usePrimitives();
+  const { mode } = useColorMode();
+  const { messages } = useLocale();
+  const t = messages.themeDevtools;
+  const { theme: merged, patch, setPatch, resetPatch } = useThemePatch();
+  const [paletteKey, setPaletteKey] = useState<string | null>(null);
+  const [format, setFormat] = useState<"json" | "ts">("json");
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+
+  const p: ThemeProp = patch ?? {};
+  const primaryKey = merged.primaryKey ?? "mono";
+  const editKey = paletteKey ?? resolveAlias(primaryKey);
+  const paletteKeys = Object.keys(prims.palette).filter((k) => k !== "primary");
+
+  const setDim = (section: DimSection, key: string, v: string) => {
+    if (section === "sizes") {
+      setPatch({ ...p, typography: { ...p.typography, sizes: { ...p.typography?.sizes, [key]: v } } });
+    } else {
+      setPatch({ ...p, [section]: { ...p[section], [key]: v } });
+    }
+  };
+
+  // Stops differ per mode, so an edit goes to the current mode's patch with the full scale.
+  const setStop = (stop: string, hex: string) => {
+    const mk = MODE_KEY[mode];
+    const modePatch: ThemePatch = p[mk] ?? {};
+    const scale = { ...(prims.palette[editKey] as Scale), ...(modePatch.palette?.[editKey] as Partial<Scale>), [stop]: hex };
+    setPatch({ ...p, [mk]: { ...modePatch, palette: { ...modePatch.palette, [editKey]: scale } } });
+  };
+
+  const json = JSON.stringify(merged, null, 2);
+  const code =
+    format === "json" ? json : `import type { ThemeProp } from "plainframe-ui";\n\nexport const theme: ThemeProp = ${json};\n`;
+
+  const copy = () => {
+    const done = (state: "copied" | "failed") => {
+      setCopyState(state);
+      window.setTimeout(() => setCopyState("idle"), 1500);
+    };
+    // The Clipboard API is missing in insecure contexts and rejects when permission is denied.
+    if (!navigator.clipboard) return done("failed");
+    navigator.clipboard.writeText(code).then(
+      () => done("copied"),
+      () => done("failed")
+    );
+  };
+
+  const dimGroup = (title: string, section: DimSection, values: Record<string, string | number>) => (
+    <section css={{ display: "grid", gap: theme.spacing.sm }}>
+      <div css={{ fontSize: theme.typography.sizes.sm, fontWeight: 600 }}>{title}</div>
+      {Object.entries(values)
+        .filter(([k]) => !(section === "radius" && k === "full"))
+        .map(([k, v]) => (
+          <DimSlider key={k} name={k} section={section} value={v} onChange={(next) => setDim(section, k, next)} />
+        ))}
+    </section>
+  );
+
+  const trigger = (
+    <Button
+      variant="primary"
+      startIcon={<Palette size={16} />}
+      css={{ position: "fixed", bottom: 16, insetInlineStart: 16, zIndex: 2147483000 }}
+    >
+      {t.title}
+    </Button>
+  );
+
+  return (
+    <Drawer open={open} defaultOpen={defaultOpen} onOpenChange={onOpenChange} lockScroll={false}>
+      {!hideTrigger && <DrawerTrigger>{trigger}</DrawerTrigger>}
+      <DrawerContent position={position} width={420} aria-label={t.label} className="plainframe-ui-theme-devtools">
+        <div css={{ display: "flex", flexDirection: "column", gap: theme.spacing.md, height: "100%", minHeight: 0 }}>
+          <div css={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+            <div css={{ fontSize: theme.typography.sizes.lg, fontWeight: 600 }}>{t.title}</div>
+            <Button variant="ghost" size="sm" disabled={!patch} onClick={resetPatch}>
+              {t.reset}
+            </Button>
+          </div>
+          <Tabs defaultValue="tokens" fullWidth>
+            <Tab value="tokens">{t.tokens}</Tab>
+            <Tab value="colors">{t.colors}</Tab>
+            <Tab value="preview">{t.preview}</Tab>
+            <Tab value="export">{t.export}</Tab>
+
+            <TabContent value="tokens" css={{ display: "grid", gap: theme.spacing.lg, overflowY: "auto" }}>
+              {dimGroup(t.spacing, "spacing", prims.spacing)}
+              {dimGroup(t.radius, "radius", prims.radius)}
+              {dimGroup(t.componentHeights, "componentHeights", prims.componentHeights)}
+              {dimGroup(t.fontSizes, "sizes", prims.typography.sizes)}
+            </TabContent>
+
+            <TabContent value="colors" css={{ display: "grid", gap: theme.spacing.md, overflowY: "auto" }}>
+              <Select<string>
+                label={t.primaryPalette}
+                value={primaryKey}
+                onChange={(k) => setPatch({ ...p, primaryKey: k as string })}
+                fullWidth
+              >
+                {paletteKeys.map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {k}
+                  </SelectItem>
+                ))}
+              </Select>
+              <Select<string> label={formatMessage(t.editPalette, { mode })} value={editKey} onChange={(k) => setPaletteKey(k as string)} fullWidth>
+                {paletteKeys.map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {k}
+                  </SelectItem>
+                ))}
+              </Select>
+              <div css={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: theme.spacing.sm }}>
+                {STOPS.map((stop) => (
+                  <StopField
+                    key={`${editKey}-${stop}`}
+                    stop={stop}
+                    value={String(prims.palette[editKey]?.[Number(stop) as keyof Scale] ?? "")}
+                    onCommit={(hex) => setStop(stop, hex)}
+                  />
+                ))}
+              </div>
+            </TabContent>
+
+            <TabContent value="preview" css={{ overflowY: "auto" }}>
+              <Preview />
+            </TabContent>
+
+            <TabContent value="export" css={{ display: "grid", gap: theme.spacing.sm }}>
+              <div css={{ display: "flex", gap: theme.spacing.sm, alignItems: "end" }}>
+                <Select<"json" | "ts"> label={t.format} value={format} onChange={(f) => setFormat(f as "json" | "ts")} width={160}>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="ts">TypeScript</SelectItem>
+                </Select>
+                <Button variant="outlined" onClick={copy}>
+                  {copyState === "copied" ? t.copied : copyState === "failed" ? t.copyFailed : t.copy}
+                </Button>
+              </div>
+              <pre
+                css={{
+                  margin: 0,
+                  padding: theme.spacing.md,
+                  maxHeight: 420,
+                  overflow: "auto",
+                  borderRadius: theme.radius.md,
+                  background: theme.surface.subtleBg,
+                  fontFamily: theme.typography.fonts.mono,
+                  fontSize: theme.typography.sizes.xs,
+                }}
+              >
+                {code}
+              </pre>
+            </TabContent>
+          </Tabs>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
+
+/**
+ * Development-only drawer for editing the surrounding ThemeProvider's tokens live and exporting
+ * the result as a `ThemeProp`. Renders nothing when NODE_ENV is "production".
+ */
+export const ThemeDevtools: React.FC<ThemeDevtoolsProps> = (props) => (isDevEnv() ? <DevtoolsPanel {...props} /> : null);
+
+ThemeDevtools.displayName = "ThemeDevtools";
@@ -0,0 +1,326 @@
+/** @jsxImportSource @emotion/react */
+import React, { forwardRef, useEffect, useMemo, useRef, useState } from "react";
+import { css, type Interpolation, type Theme } from "@emotion/react";
+import { Clock } from "lucide-react";
+import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { HiddenInput, useFormReset, type NativeFormProps } from "../utils/formInput";
+import { dateFormat, dateParts, dayPeriodLabels, parseTime, prefersHour12, toTimeString } from "../utils/dates";
+import { SegmentField, useSegmentedValue, type SegmentValues } from "../utils/segmentField";
+import { Popover, PopoverAnchor, PopoverContent } from "./Popover";
+
+type SizeKey = "sm" | "md" | "lg";
+type Variant = "outlined" | "subtle" | "ghost";
+
+export type TimePickerProps = NativeFormProps & {
+  label?: React.ReactNode;
+  // Times are "HH:mm" strings in 24-hour form, like `<input type="time">`.
+  value?: string | null;
+  defaultValue?: string | null;
+  onChange?: (value: string | null) => void;
+  min?: string;
+  max?: string;
+  minuteStep?: number;
+  hourCycle?: 12 | 24;
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  helperText?: React.ReactNode;
+  error?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  size?: SizeKey;
+  variant?: Variant;
+  width?: number | string;
+  fullWidth?: boolean;
+  autoFocus?: boolean;
+  onBlur?: () => void;
+  className?: string;
+  css?: Interpolation<Theme>;
+};
+
+const u = (v: number | string) => (typeof v === "number" ? `${v}px` : v);
+
+type TimeListProps = {
+  options: number[];
+  selected: number | null;
+  format: (minutes: number) => string;
+  label: string;
+  onPick: (minutes: number) => void;
+};
+
+const TimeList = forwardRef<HTMLDivElement, TimeListProps>(function TimeList(
+  { options, selected, format, label, onPick },
+  ref
+) {
+  const theme = usePlainframeUITheme();
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const [active, setActive] = useState(() => {
+    if (selected == null) return 0;
+    const i = options.findIndex((m) => m >= selected);
+    return i < 0 ? options.length - 1 : i;
+  });
+
+  useEffect(() => {
+    const el = listRef.current?.querySelector<HTMLElement>(`[data-index="${active}"]`);
+    el?.focus({ preventScroll: true });
+    el?.scrollIntoView?.({ block: "nearest" });
+  }, [active]);
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const last = options.length - 1;
+    let next = active;
+    switch (e.key) {
+      case "ArrowDown": next = Math.min(last, active + 1); break;
+      case "ArrowUp": next = Math.max(0, active - 1); break;
+      case "PageDown": next = Math.min(last, active + 6); break;
+      case "PageUp": next = Math.max(0, active - 6); break;
+      case "Home": next = 0; break;
+      case "End": next = last; break;
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        if (options[active] != null) onPick(options[active]);
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    setActive(next);
+  };
+
+  const optionCss = css({
+    padding: `6px ${u(theme.spacing.md)}`,
+    borderRadius: theme.radius.sm,
+    fontSize: theme.typography.sizes.sm,
+    fontVariantNumeric: "tabular-nums",
+    color: theme.text.primary,
+    cursor: "pointer",
+    outline: "none",
+    whiteSpace: "nowrap",
+    ":hover, :focus": { background: theme.surface.subtleHover },
+    "&[aria-selected='true']": { background: theme.palette.primary[600], color: theme.text.onColors.primary },
+  });
+
+  return (
+    <div
+      ref={(node) => {
+        listRef.current = node;
+        if (typeof ref === "function") ref(node);
+        else if (ref) ref.current = node;
+      }}
+      role="listbox"
+      aria-label={label}
+      className="plainframe-ui-time-list"
+      css={{ maxHeight: 240, overflowY: "auto", display: "flex", flexDirection: "column", gap: 2 }}
+      onKeyDown={onKeyDown}
+    >
+      {options.map((m, i) => (
+        <div
+          key={m}
+          role="option"
+          data-index={i}
+          tabIndex={i === active ? 0 : -1}
+          aria-selected={m === selected}
+          css={optionCss}
+          onClick={() => onPick(m)}
+          onFocus={() => setActive(i)}
+        >
+          {format(m)}
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export const TimePicker = forwardRef<HTMLDivElement, TimePickerProps>(function TimePicker(
+  {
+    label,
+    value,
+    defaultValue = null,
+    onChange,
+    min,
+    max,
+    minuteStep = 1,
+    hourCycle,
+    open: openProp,
+    defaultOpen = false,
+    onOpenChange,
+    helperText,
+    error,
+    disabled,
+    readOnly,
+    size,
+    variant,
+    width,
+    fullWidth,
+    autoFocus,
+    onBlur,
+    className,
+    css: cssOverride,
+    name,
+    required,
+    form,
+  },
+  ref
+) {
+  const theme = usePlainframeUITheme();
+  const { locale, messages } = useLocale();
+  const t = messages.timePicker;
+
+  const hour12 = hourCycle ? hourCycle === 12 : prefersHour12(locale);
+  const hc = hour12 ? "h12" : "h23";
+  const parts = useMemo(() => dateParts(locale, { hour: "2-digit", minute: "2-digit", hourCycle: hc }), [locale, hc]);
+  const dayPeriods = useMemo(() => dayPeriodLabels(locale), [locale]);
+
+  const minM = min ? parseTime(min) : null;
+  const maxM = max ? parseTime(max) : null;
+  const inRange = (m: number) => (minM == null || m >= minM) && (maxM == null || m <= maxM);
+
+  const toSegments = (v: string | null): SegmentValues => {
+    const m = v == null ? null : parseTime(v);
+    if (m == null) return { hour: null, minute: null, dayPeriod: null };
+    const h = Math.floor(m / 60);
+    return hour12 ? { hour: h % 12 || 12, minute: m % 60, dayPeriod: h >= 12 ? 1 : 0 } : { hour: h, minute: m % 60 };
+  };
+
+  const fromSegments = ({ hour, minute, dayPeriod }: SegmentValues): string | null => {
+    if (hour == null || minute == null || (hour12 && dayPeriod == null)) return null;
+    const m = (hour12 ? (hour % 12) + (dayPeriod ? 12 : 0) : hour) * 60 + minute;
+    return inRange(m) ? toTimeString(m) : null;
+  };
+
+  const field = useSegmentedValue<string>({
+    value,
+    defaultValue,
+    onChange,
+    toSegments,
+    fromSegments,
+    same: (a, b) => (a ?? null) === (b ?? null),
+  });
+
+  const groupRef = useRef<HTMLDivElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const formInputRef = useRef<HTMLInputElement>(null);
+  useFormReset(formInputRef, field.reset);
+
+  const [openInner, setOpenInner] = useState(defaultOpen);
+  const open = !disabled && !readOnly && (openProp ?? openInner);
+  const [session, setSession] = useState(0);
+
+  const focusSegment = () => groupRef.current?.querySelector<HTMLElement>("[data-segment]")?.focus();
+
+  const setOpen = (next: boolean) => {
+    if (next === open) return;
+    if (!next && listRef.current?.contains(document.activeElement)) focusSegment();
+    if (next) setSession((n) => n + 1);
+    if (openProp === undefined) setOpenInner(next);
+    onOpenChange?.(next);
+  };
+
+  const listStep = minuteStep > 1 ? minuteStep : 30;
+  const options = useMemo(() => {
+    const out: number[] = [];
+    for (let m = 0; m < 24 * 60; m += listStep) if (inRange(m)) out.push(m);
+    return out;
+  }, [listStep, minM, maxM]);
+
+  const optionFormat = dateFormat(locale, { hour: "numeric", minute: "2-digit", hourCycle: hc });
+  const selected = field.current ? parseTime(field.current) : null;
+
+  const toggle = (
+    <span
+      role="button"
+      tabIndex={-1}
+      aria-label={t.chooseTime}
+      aria-expanded={open}
+      aria-haspopup="listbox"
+      aria-disabled={disabled || readOnly || undefined}
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={() => {
+        if (!disabled && !readOnly) setOpen(!open);
+      }}
+      css={{
+        display: "flex",
+        cursor: disabled || readOnly ? "not-allowed" : "pointer",
+        ":hover": { color: disabled || readOnly ? undefined : theme.text.primary },
+      }}
+    >
+      <Clock size={16} strokeWidth={2} />
+    </span>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverAnchor>
+        <div
+          className={["plainframe-ui-time-picker", className].filter(Boolean).join(" ")}
+          css={[{ position: "relative", display: fullWidth ? "block" : "inline-block" }, cssOverride]}
+          onKeyDown={(e) => {
+            if (e.altKey && e.key === "ArrowDown") {
+              e.preventDefault();
+              setOpen(true);
+            }
+          }}
+        >
+          <SegmentField
+            ref={(node) => {
+              groupRef.current = node;
+              if (typeof ref === "function") ref(node);
+              else if (ref) ref.current = node;
+            }}
+            parts={parts}
+            values={field.segments}
+            onValuesChange={field.update}
+            hour12={hour12}
+            dayPeriods={dayPeriods}
+            minuteStep={minuteStep}
+            label={label}
+            helperText={field.invalid ? t.invalid : helperText}
+            error={error || field.invalid}
+            disabled={disabled}
+            readOnly={readOnly}
+            required={required}
+            size={size}
+            variant={variant}
+            width={width}
+            fullWidth={fullWidth}
+            endAdornment={toggle}
+            autoFocus={autoFocus}
+            onBlur={() => {
+              // Moving into the open popover isn't leaving the field.
+              if (open) return;
+              field.validate();
+              onBlur?.();
+            }}
+          />
+          <HiddenInput
+            inputRef={formInputRef}
+            name={name}
+            value={field.current ?? ""}
+            required={required}
+            form={form}
+            disabled={disabled}
+            onFocus={focusSegment}
+          />
+        </div>
+      </PopoverAnchor>
+      <PopoverContent anchorOrigin={{ vertical: "bottom", horizontal: "left" }} padding={theme.spacing.xs}>
+        <TimeList
+          key={session}
+          ref={listRef}
+          options={options}
+          selected={selected}
+          label={t.chooseTime}
+          format={(m) => optionFormat.format(new Date(2000, 0, 1, Math.floor(m / 60), m % 60))}
+          onPick={(m) => {
+            field.setValue(toTimeString(m));
+            setOpen(false);
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+TimePicker.displayName = "TimePicker";
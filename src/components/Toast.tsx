@@ -1,14 +1,17 @@
 /** @jsxImportSource @emotion/react */
-import React, { useEffect, useSyncExternalStore } from "react";
+import React, { useEffect, useLayoutEffect, useState, useSyncExternalStore } from "react";
 import { css, type CSSObject } from "@emotion/react";
+import { createPortal } from "react-dom";
 import { createRoot, type Root } from "react-dom/client";
 import { AnimatePresence, motion, useAnimationControls } from "framer-motion";
 import { ThemeProvider, usePlainframeUITheme } from "../theme/ThemeProvider";
-import { defaultLightTheme } from "../theme/theme";
+import { useLocale } from "../locale/LocaleProvider";
+import { formatMessage } from "../locale/messages";
+import { announce } from "../utils/announcer";
+import { matchesHotkey } from "../utils/hotkeys";
+import { notifications } from "./NotificationCenter";
 import { X } from "lucide-react";
 
-const THEME = defaultLightTheme;
-
 type CoreStatus = "default" | "success" | "error" | "warning" | "info";
 type Status = CoreStatus | "danger";
 type Position =
@@ -46,6 +49,13 @@ export type ToastItem = {
   showDismiss?: boolean | ShowDismissMode;
   onClick?: (id: string, e: React.MouseEvent | MouseEvent) => void;
   width?: number | string;
+  // Toasts sharing a key collapse into one whose `count` goes up.
+  dedupeKey?: string;
+  count: number;
+  // Set to false to keep a toast out of a persisting <Toaster>.
+  persist?: boolean;
+  // Also keeps the toast in the NotificationCenter after it closes.
+  inbox?: boolean;
 };
 
 type Options = Partial<
@@ -68,8 +78,12 @@ type Options = Partial<
     | "duration"
     | "createdAt"
     | "id"
+    | "dedupeKey"
+    | "count"
+    | "persist"
+    | "inbox"
   >
-> & { id?: string; duration?: number | null };
+> & { id?: string; duration?: number | null; toaster?: string };
 
 type Styles = {
   stack?: CSSObject;
@@ -88,10 +102,15 @@ type Config = {
   styles: Styles;
   renderer?: React.ReactNode | ToastRenderer;
   bareRenderer: boolean;
+  // Collapses toasts of the same status into one expandable stack.
+  group: boolean;
+  // Sends every toast to the NotificationCenter unless it passes `inbox: false`.
+  inbox: boolean;
 };
 
 const ENTER_SPRING = { type: "spring" as const, stiffness: 920, damping: 100 };
 const ROOT_KEY = "__toast_root__";
+const DEFAULT_TOASTER = "default";
 
 const getIn = (obj: unknown, path: string): unknown =>
   path.split(".").reduce((o: unknown, k) => (o != null && typeof o === "object" ? (o as Record<string, unknown>)[k] : undefined), obj);
@@ -115,7 +134,6 @@ function resolveToastTokens(theme: unknown) {
     "0 8px 24px rgba(0,0,0,.03), 0 2px 8px rgba(0,0,0,.05)";
   return { radius: px(radius, 16), padX: px(padX, 14), padY: px(padY, 12), shadow: String(shadow) };
 }
-const TOK = resolveToastTokens(THEME);
 
 let hostEl: HTMLElement | null = null;
 let root: Root | null = null;
@@ -130,9 +148,99 @@ const cfg: Config = {
   styles: {},
   renderer: undefined,
   bareRenderer: false,
+  group: false,
+  inbox: false,
+};
+
+type Snapshot = {
+  displayed: ToastItem[];
+  entering: Record<string, boolean>;
+  exiting: Record<string, boolean>;
+  enterFrom: Record<string, "head" | "tail">;
+  hasToaster: boolean;
+};
+
+type ToastStore = {
+  name: string;
+  displayed: ToastItem[];
+  queue: ToastItem[];
+  entering: Record<string, boolean>;
+  exiting: Record<string, boolean>;
+  enterFrom: Record<string, "head" | "tail">;
+  timers: Map<string, number>;
+  expiry: Map<string, number>;
+  remaining: Map<string, number>;
+  paused: Set<string>;
+  listeners: Set<() => void>;
+  snapshot: Snapshot;
+  // Props of the mounted <Toaster>, layered over `toast.config()`.
+  overrides: Partial<Config>;
+  toasters: number;
+  subscribe: (fn: () => void) => () => void;
+  notify: () => void;
+  sync: () => void;
 };
 
-function ensureHost() {
+function createStore(name: string): ToastStore {
+  return {
+    name,
+    displayed: [],
+    queue: [],
+    entering: {},
+    exiting: {},
+    enterFrom: {},
+    timers: new Map(),
+    expiry: new Map(),
+    remaining: new Map(),
+    paused: new Set(),
+    listeners: new Set(),
+    snapshot: { displayed: [], entering: {}, exiting: {}, enterFrom: {}, hasToaster: false },
+    overrides: {},
+    toasters: 0,
+    subscribe(fn) {
+      this.listeners.add(fn);
+      return () => {
+        this.listeners.delete(fn);
+      };
+    },
+    notify() {
+      this.listeners.forEach((fn) => fn());
+    },
+    sync() {
+      this.snapshot = {
+        displayed: [...this.displayed],
+        entering: { ...this.entering },
+        exiting: { ...this.exiting },
+        enterFrom: { ...this.enterFrom },
+        hasToaster: this.toasters > 0,
+      };
+    },
+  };
+}
+
+const stores = new Map<string, ToastStore>();
+
+// Stores exist before their <Toaster> mounts, so early toasts wait for it.
+function getStore(name: string = DEFAULT_TOASTER): ToastStore {
+  let s = stores.get(name);
+  if (!s) {
+    s = createStore(name);
+    stores.set(name, s);
+  }
+  return s;
+}
+
+function findStore(id: string): ToastStore | undefined {
+  for (const s of stores.values()) {
+    if (s.displayed.some((x) => x.id === id) || s.queue.some((x) => x.id === id)) return s;
+  }
+  return undefined;
+}
+
+const configOf = (s: ToastStore): Config => ({ ...cfg, ...s.overrides });
+
+// Without a mounted <Toaster>, default toasts render in a root of their own, as before.
+function ensureFallbackHost() {
   if (typeof document === "undefined") return;
   if (!hostEl) {
     hostEl = document.getElementById("toast-host");
@@ -149,50 +257,16 @@ function ensureHost() {
       (hostEl as any)[ROOT_KEY] = root;
       root.render(
         <ThemeProvider>
-          <ToastHost />
+          <FallbackHost />
         </ThemeProvider>
       );
     }
   }
 }
 
-const store = {
-  displayed: [] as ToastItem[],
-  queue: [] as ToastItem[],
-  entering: {} as Record<string, boolean>,
-  exiting: {} as Record<string, boolean>,
-  enterFrom: {} as Record<string, "head" | "tail">,
-  timers: new Map<string, number>(),
-  expiry: new Map<string, number>(),
-  remaining: new Map<string, number>(),
-  paused: new Set<string>(),
-  listeners: new Set<() => void>(),
-  snapshot: {
-    displayed: [] as ToastItem[],
-    entering: {} as Record<string, boolean>,
-    exiting: {} as Record<string, boolean>,
-    enterFrom: {} as Record<string, "head" | "tail">,
-  },
-  subscribe(fn: () => void) {
-    this.listeners.add(fn);
-    return () => this.listeners.delete(fn);
-  },
-  notify() {
-    this.listeners.forEach((fn) => fn());
-  },
-  sync() {
-    this.snapshot = {
-      displayed: [...this.displayed],
-      entering: { ...this.entering },
-      exiting: { ...this.exiting },
-      enterFrom: { ...this.enterFrom },
-    };
-  },
-};
-
-const syncAndNotify = () => {
-  store.sync();
-  store.notify();
+const syncAndNotify = (s: ToastStore) => {
+  s.sync();
+  s.notify();
 };
 
 const uid = () =>
@@ -200,57 +274,58 @@ const uid = () =>
     ? crypto.randomUUID()
     : Math.random().toString(36).slice(2);
 
-function armTimer(t: ToastItem, override?: number | null) {
+function armTimer(s: ToastStore, t: ToastItem, override?: number | null) {
   if (override === null) return;
   const dur = override ?? t.duration;
   if (dur == null) return;
-  if (store.timers.has(t.id)) return;
+  if (s.timers.has(t.id)) return;
   const now = Date.now();
-  const remaining = store.remaining.get(t.id);
+  const remaining = s.remaining.get(t.id);
   const timeoutMs = remaining != null ? Math.max(0, remaining) : dur;
-  store.expiry.set(t.id, now + timeoutMs);
+  s.expiry.set(t.id, now + timeoutMs);
   const handle = window.setTimeout(() => toast.dismiss(t.id), timeoutMs);
-  store.timers.set(t.id, handle);
+  s.timers.set(t.id, handle);
 }
 
-function clearTimer(id: string) {
-  const handle = store.timers.get(id);
+function clearTimer(s: ToastStore, id: string) {
+  const handle = s.timers.get(id);
   if (handle) {
     clearTimeout(handle);
-    store.timers.delete(id);
+    s.timers.delete(id);
   }
 }
 
-function flushQueueIntoDisplayed() {
+function flushQueueIntoDisplayed(s: ToastStore) {
+  const { max } = configOf(s);
   let changed = false;
-  while (store.displayed.length < cfg.max && store.queue.length) {
-    const t = store.queue.shift()!;
-    store.displayed = [t, ...store.displayed];
-    store.enterFrom[t.id] = "head";
-    store.entering[t.id] = true;
+  while (s.displayed.length < max && s.queue.length) {
+    const t = s.queue.shift()!;
+    s.displayed = [t, ...s.displayed];
+    s.enterFrom[t.id] = "head";
+    s.entering[t.id] = true;
     changed = true;
     requestAnimationFrame(() => {
-      delete store.entering[t.id];
-      syncAndNotify();
+      delete s.entering[t.id];
+      syncAndNotify(s);
     });
-    armTimer(t);
+    armTimer(s, t);
   }
-  if (changed) syncAndNotify();
+  if (changed) syncAndNotify(s);
 }
 
-function pushOutOldestIntoQueue() {
-  if (store.displayed.length < cfg.max) return;
-  const candidates = store.displayed.filter((d) => !store.exiting[d.id]);
+function pushOutOldestIntoQueue(s: ToastStore) {
+  if (s.displayed.length < configOf(s).max) return;
+  const candidates = s.displayed.filter((d) => !s.exiting[d.id]);
   if (!candidates.length) return;
   const oldest = candidates.reduce((a, b) => (a.createdAt <= b.createdAt ? a : b));
-  const exp = store.expiry.get(oldest.id);
-  if (exp != null) store.remaining.set(oldest.id, Math.max(0, exp - Date.now()));
-  clearTimer(oldest.id);
-  store.exiting[oldest.id] = true;
-  store.displayed = store.displayed.filter((x) => x.id !== oldest.id);
-  delete store.enterFrom[oldest.id];
-  store.queue.push(oldest);
-  syncAndNotify();
+  const exp = s.expiry.get(oldest.id);
+  if (exp != null) s.remaining.set(oldest.id, Math.max(0, exp - Date.now()));
+  clearTimer(s, oldest.id);
+  s.exiting[oldest.id] = true;
+  s.displayed = s.displayed.filter((x) => x.id !== oldest.id);
+  delete s.enterFrom[oldest.id];
+  s.queue.push(oldest);
+  syncAndNotify(s);
 }
 
 const normalizeStatus = (s: unknown): CoreStatus => {
@@ -259,6 +334,31 @@ const normalizeStatus = (s: unknown): CoreStatus => {
   return (allowed as readonly string[]).includes(s as string) ? (s as CoreStatus) : "default";
 };
 
+// Plain text of a toast for the live region; custom `render` output isn't announced.
+const nodeText = (node: React.ReactNode): string => {
+  if (node == null || typeof node === "boolean") return "";
+  if (typeof node === "string" || typeof node === "number") return String(node);
+  if (Array.isArray(node)) return node.map(nodeText).filter(Boolean).join(" ");
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) return nodeText(node.props.children);
+  return "";
+};
+
+// Errors interrupt; everything else waits for the screen reader to finish.
+const announceToast = (t: ToastItem) =>
+  announce(nodeText(t.content), normalizeStatus(t.status) === "error" ? "assertive" : "polite");
+
+// Same id as the toast, so updates (e.g. from toast.promise) land on the same inbox entry.
+const sendToInbox = (t: ToastItem, repeat: boolean) =>
+  notifications.add({
+    id: t.id,
+    status: normalizeStatus(t.status),
+    title: t.title,
+    description: t.description,
+    content: t.title == null && t.description == null ? t.content : undefined,
+    action: t.action,
+    ...(repeat && { createdAt: Date.now(), read: false }),
+  });
+
 function statusColors(theme: unknown, s: Status) {
   const st = normalizeStatus(s);
   const themeObj = theme as Record<string, unknown>;
@@ -288,24 +388,70 @@ function statusColors(theme: unknown, s: Status) {
   return { bg: panelBg, fg: panelFg, border };
 }
 
-export const toast = Object.assign(
-  (contentOrOptions: React.ReactNode | Options, opts?: Options): string => {
-    ensureHost();
+const isIterable = (obj: unknown): obj is Iterable<unknown> =>
+  obj != null && typeof (obj as Record<symbol, unknown>)[Symbol.iterator] === "function";
+const isPromise = (obj: unknown): obj is Promise<unknown> =>
+  !!obj && (typeof obj === "object" || typeof obj === "function") && typeof (obj as Record<string, unknown>).then === "function";
+const isOptions = (v: React.ReactNode | Options): v is Options =>
+  typeof v === "object" && v != null && !React.isValidElement(v) && !isIterable(v) && !isPromise(v);
+
+// Toasts given a title and/or description show them as their content.
+const contentOf = (o: Options): React.ReactNode =>
+  o.content == null && (o.title != null || o.description != null) ? (
+    <div>
+      {o.title && <strong style={{ display: "block", marginBottom: 2 }}>{o.title}</strong>}
+      {o.description}
+    </div>
+  ) : (
+    o.content
+  );
 
-    const isIterable = (obj: unknown): obj is Iterable<unknown> =>
-      obj != null && typeof (obj as Record<symbol, unknown>)[Symbol.iterator] === "function";
-    const isPromise = (obj: unknown): obj is Promise<unknown> =>
-      !!obj && (typeof obj === "object" || typeof obj === "function") && typeof (obj as Record<string, unknown>).then === "function";
+function createItem(id: string, o: Options, config: Config): ToastItem {
+  return {
+    id,
+    status: (o.status ?? "default") as Status,
+    content: o.content,
+    title: o.title,
+    description: o.description,
+    startIcon: o.startIcon,
+    endIcon: o.endIcon,
+    action: o.action,
+    duration: o.duration === undefined ? config.duration : o.duration,
+    onClose: o.onClose,
+    createdAt: o.createdAt ?? Date.now(),
+    pauseOnHover: o.pauseOnHover ?? true,
+    showDismiss: o.showDismiss,
+    render: o.render,
+    bare: o.bare,
+    onClick: o.onClick,
+    width: o.width ?? 300,
+    dedupeKey: o.dedupeKey,
+    count: o.count ?? 1,
+    persist: o.persist,
+    inbox: o.inbox ?? config.inbox,
+  };
+}
+
+function insertItem(s: ToastStore, t: ToastItem) {
+  if (s.displayed.length >= configOf(s).max) pushOutOldestIntoQueue(s);
+
+  s.displayed = [...s.displayed, t];
+  s.enterFrom[t.id] = "tail";
+  s.entering[t.id] = true;
+  requestAnimationFrame(() => {
+    delete s.entering[t.id];
+    syncAndNotify(s);
+  });
+  syncAndNotify(s);
+  armTimer(s, t);
+}
 
+export const toast = Object.assign(
+  (contentOrOptions: React.ReactNode | Options, opts?: Options): string => {
     let o: Options;
-    if (
-      typeof contentOrOptions === "object" &&
-      contentOrOptions != null &&
-      !React.isValidElement(contentOrOptions) &&
-      !isIterable(contentOrOptions) &&
-      !isPromise(contentOrOptions)
-    ) {
-      o = contentOrOptions as Options;
+    if (isOptions(contentOrOptions)) {
+      // `toast.error({ title })` passes its status as the second argument.
+      o = { ...contentOrOptions, ...(opts || {}) };
     } else {
       o = {
         content: React.isValidElement(contentOrOptions) ? contentOrOptions : (contentOrOptions as React.ReactNode),
@@ -313,17 +459,29 @@ export const toast = Object.assign(
       };
     }
 
-    if (o.content == null && (o.title != null || o.description != null)) {
-      o.content = (
-        <div>
-          {o.title && <strong style={{ display: "block", marginBottom: 2 }}>{o.title}</strong>}
-          {o.description}
-        </div>
-      );
+    o.content = contentOf(o);
+
+    // Updates go to whichever toaster already shows the id.
+    const s = (o.id != null ? findStore(o.id) : undefined) ?? getStore(o.toaster);
+
+    let repeat = false;
+    if (o.id == null && o.dedupeKey != null) {
+      const dup = [...s.displayed, ...s.queue].find((x) => x.dedupeKey === o.dedupeKey);
+      if (dup) {
+        o = { ...o, id: dup.id };
+        repeat = true;
+      }
     }
 
     const id = o.id ?? uid();
 
+    if (s.name === DEFAULT_TOASTER && !s.toasters && typeof window !== "undefined") {
+      // A <Toaster> mounting in the same commit registers in an effect; only fall back if none did.
+      window.setTimeout(() => {
+        if (!s.toasters) ensureFallbackHost();
+      }, 0);
+    }
+
     const updateIn = (arr: ToastItem[]) => {
       const i = arr.findIndex((x) => x.id === id);
       if (i === -1) return false;
@@ -345,48 +503,27 @@ export const toast = Object.assign(
         bare: o.bare ?? prev.bare,
         onClick: o.onClick ?? prev.onClick,
         width: o.width ?? prev.width,
+        dedupeKey: o.dedupeKey ?? prev.dedupeKey,
+        count: o.count ?? prev.count + (repeat ? 1 : 0),
+        persist: o.persist ?? prev.persist,
+        inbox: o.inbox ?? prev.inbox,
       };
       arr[i] = next;
-      clearTimer(id);
-      store.remaining.delete(id);
-      if (!store.paused.has(id)) armTimer(next);
-      syncAndNotify();
+      clearTimer(s, id);
+      s.remaining.delete(id);
+      if (!s.paused.has(id)) armTimer(s, next);
+      syncAndNotify(s);
+      if (repeat || o.content != null || o.status != null) announceToast(next);
+      if (next.inbox) sendToInbox(next, repeat);
       return true;
     };
 
-    if (updateIn(store.displayed) || updateIn(store.queue)) return id;
-
-    const t: ToastItem = {
-      id,
-      status: (o.status ?? "default") as Status,
-      content: o.content,
-      title: o.title,
-      description: o.description,
-      startIcon: o.startIcon,
-      endIcon: o.endIcon,
-      action: o.action,
-      duration: o.duration === undefined ? cfg.duration : o.duration,
-      onClose: o.onClose,
-      createdAt: Date.now(),
-      pauseOnHover: o.pauseOnHover ?? true,
-      showDismiss: o.showDismiss,
-      render: o.render,
-      bare: o.bare,
-      onClick: o.onClick,
-      width: o.width ?? 300,
-    };
+    if (updateIn(s.displayed) || updateIn(s.queue)) return id;
 
-    if (store.displayed.length >= cfg.max) pushOutOldestIntoQueue();
-
-    store.displayed = [...store.displayed, t];
-    store.enterFrom[t.id] = "tail";
-    store.entering[t.id] = true;
-    requestAnimationFrame(() => {
-      delete store.entering[t.id];
-      syncAndNotify();
-    });
-    syncAndNotify();
-    armTimer(t);
+    const t = createItem(id, o, configOf(s));
+    insertItem(s, t);
+    announceToast(t);
+    if (t.inbox) sendToInbox(t, false);
 
     return id;
   },
@@ -397,56 +534,68 @@ export const toast = Object.assign(
     info: (msg: React.ReactNode, o: Options = {}) => toast(msg, { ...o, status: "info" }),
     custom: (node: React.ReactNode, o: Options = {}) => toast(node, { ...o }),
 
+    // Shows a toast in the <Toaster name={toaster}>.
+    to: (toaster: string, contentOrOptions: React.ReactNode | Options, o: Options = {}) =>
+      isOptions(contentOrOptions)
+        ? toast({ ...contentOrOptions, toaster })
+        : toast(contentOrOptions, { ...o, toaster }),
+
     update: (id: string, o: Options) => toast({ id, ...o }),
 
     dismiss: (id?: string) => {
       if (!id) {
-        const first = store.displayed.find((d) => !store.exiting[d.id])?.id;
+        const s = getStore();
+        const first = s.displayed.find((d) => !s.exiting[d.id])?.id;
         if (first) toast.dismiss(first);
         return;
       }
-      clearTimer(id);
-      store.remaining.delete(id);
-      store.paused.delete(id);
-      store.exiting[id] = true;
-      const item = store.displayed.find((x) => x.id === id);
-      store.displayed = store.displayed.filter((x) => x.id !== id);
-      delete store.enterFrom[id];
-      syncAndNotify();
+      const s = findStore(id);
+      if (!s) return;
+      clearTimer(s, id);
+      s.remaining.delete(id);
+      s.paused.delete(id);
+      s.exiting[id] = true;
+      const item = s.displayed.find((x) => x.id === id) ?? s.queue.find((x) => x.id === id);
+      s.displayed = s.displayed.filter((x) => x.id !== id);
+      s.queue = s.queue.filter((x) => x.id !== id);
+      delete s.enterFrom[id];
+      syncAndNotify(s);
       window.setTimeout(() => item?.onClose?.(), 120);
-      flushQueueIntoDisplayed();
+      flushQueueIntoDisplayed(s);
     },
 
-    clear: () => {
-      const ids = [...store.displayed.map((t) => t.id)];
-      ids.forEach((id) => toast.dismiss(id));
+    // Clears one toaster, or every toaster when no name is given.
+    clear: (toaster?: string) => {
+      const targets = toaster != null ? [getStore(toaster)] : [...stores.values()];
+      targets.forEach((s) => [...s.queue, ...s.displayed].map((t) => t.id).forEach((id) => toast.dismiss(id)));
     },
 
     pause: (id: string) => {
-      if (store.paused.has(id)) return;
-      const exp = store.expiry.get(id);
-      if (exp != null) store.remaining.set(id, Math.max(0, exp - Date.now()));
-      store.paused.add(id);
-      clearTimer(id);
+      const s = findStore(id);
+      if (!s || s.paused.has(id)) return;
+      const exp = s.expiry.get(id);
+      if (exp != null) s.remaining.set(id, Math.max(0, exp - Date.now()));
+      s.paused.add(id);
+      clearTimer(s, id);
     },
 
     resume: (id: string) => {
-      if (!store.paused.has(id)) return;
-      store.paused.delete(id);
-      const t =
-        store.displayed.find((x) => x.id === id) ?? store.queue.find((x) => x.id === id);
-      const left = store.remaining.get(id);
-      if (t) armTimer(t, left ?? undefined);
-      store.remaining.delete(id);
+      const s = findStore(id);
+      if (!s || !s.paused.has(id)) return;
+      s.paused.delete(id);
+      const t = s.displayed.find((x) => x.id === id) ?? s.queue.find((x) => x.id === id);
+      const left = s.remaining.get(id);
+      if (t) armTimer(s, t, left ?? undefined);
+      s.remaining.delete(id);
     },
 
     pauseLatest: () => {
-      const latest = store.displayed.at(-1);
+      const latest = getStore().displayed.at(-1);
       if (latest) toast.pause(latest.id);
     },
 
     resumeLatest: () => {
-      const latest = store.displayed.at(-1);
+      const latest = getStore().displayed.at(-1);
       if (latest) toast.resume(latest.id);
     },
 
@@ -486,6 +635,8 @@ export const toast = Object.assign(
       styles: Styles;
       renderer: React.ReactNode | ToastRenderer;
       bareRenderer: boolean;
+      group: boolean;
+      inbox: boolean;
     }>) => {
       if (opts.max != null) cfg.max = opts.max;
       if (opts.position) cfg.position = opts.position;
@@ -496,15 +647,75 @@ export const toast = Object.assign(
       if (opts.styles) cfg.styles = { ...cfg.styles, ...opts.styles };
       if (opts.renderer !== undefined) cfg.renderer = opts.renderer;
       if (opts.bareRenderer !== undefined) cfg.bareRenderer = opts.bareRenderer;
+      if (opts.group !== undefined) cfg.group = opts.group;
+      if (opts.inbox !== undefined) cfg.inbox = opts.inbox;
     },
   }
 );
 
-function normalizeDismiss(show?: boolean | ShowDismissMode): ShowDismissMode {
+type PersistedToast = Pick<
+  ToastItem,
+  "id" | "status" | "title" | "description" | "duration" | "createdAt" | "dedupeKey" | "count" | "showDismiss" | "pauseOnHover" | "width"
+> & { content?: string | number };
+
+const isText = (v: unknown): v is string | number | undefined | null =>
+  v == null || typeof v === "string" || typeof v === "number";
+
+// Only plain-text toasts survive a reload; `render`, `action` and callbacks can't be stored.
+function toPersisted(s: ToastStore, t: ToastItem): PersistedToast | null {
+  if (t.persist === false || t.render || t.action) return null;
+  const fromTitle = t.title != null || t.description != null;
+  if (!isText(t.title) || !isText(t.description) || (!fromTitle && !isText(t.content))) return null;
+  const exp = s.expiry.get(t.id);
+  const left = s.remaining.get(t.id) ?? (exp != null ? Math.max(0, exp - Date.now()) : t.duration);
+  return {
+    id: t.id,
+    status: t.status,
+    content: fromTitle ? undefined : (t.content as string | number | undefined),
+    title: t.title,
+    description: t.description,
+    duration: left,
+    createdAt: t.createdAt,
+    dedupeKey: t.dedupeKey,
+    count: t.count,
+    showDismiss: t.showDismiss,
+    pauseOnHover: t.pauseOnHover,
+    width: t.width,
+  };
+}
+
+function saveToasts(s: ToastStore, key: string) {
+  try {
+    const items = [...s.displayed, ...s.queue]
+      .map((t) => toPersisted(s, t))
+      .filter((t): t is PersistedToast => t != null);
+    if (items.length) sessionStorage.setItem(key, JSON.stringify(items));
+    else sessionStorage.removeItem(key);
+  } catch {
+    // Storage can be full or blocked; persistence is best effort.
+  }
+}
+
+function restoreToasts(s: ToastStore, key: string) {
+  let saved: PersistedToast[] = [];
+  try {
+    saved = JSON.parse(sessionStorage.getItem(key) ?? "[]");
+  } catch {
+    return;
+  }
+  if (!Array.isArray(saved)) return;
+  // These were announced and sent to the inbox before the reload, so they go straight into the store.
+  for (const p of saved) {
+    if (p?.id == null || findStore(p.id)) continue;
+    insertItem(s, createItem(p.id, { ...p, content: contentOf(p) }, configOf(s)));
+  }
+}
+
+function normalizeDismiss(show: boolean | ShowDismissMode | undefined, fallback: ShowDismissMode): ShowDismissMode {
   if (typeof show === "string") return show;
   if (show === true) return "always";
   if (show === false) return "never";
-  return cfg.showDismiss;
+  return fallback;
 }
 
 function positionCss(pos: Position): CSSObject {
@@ -529,18 +740,111 @@ const iconWrapCss = css({
 });
 const textCss = css({ fontSize: 14, lineHeight: 1.4, fontWeight: 500, flex: 1, minWidth: 0 });
 const actionRowCss = css({ display: "flex", alignItems: "center", gap: 6, marginRight: -2 });
+const countCss = css({
+  alignSelf: "center",
+  padding: "1px 7px",
+  borderRadius: 999,
+  fontSize: 12,
+  fontWeight: 600,
+  lineHeight: 1.5,
+  fontVariantNumeric: "tabular-nums",
+  background: "color-mix(in srgb, currentColor 14%, transparent)",
+});
 
-const ToastHost = React.memo(function ToastHost() {
+type Region = { el: HTMLElement; hotkey: string };
+
+// Toasters showing toasts, in the order they got them. One listener serves all of them.
+const regions: Region[] = [];
+let regionReturnFocus: HTMLElement | null = null;
+
+function leaveRegions() {
+  const back = regionReturnFocus;
+  regionReturnFocus = null;
+  if (back?.isConnected) back.focus();
+  else (document.activeElement as HTMLElement | null)?.blur();
+}
+
+// The hotkey jumps into the first toaster, then on to the next, and after the last one back out again.
+function onRegionHotkey(e: KeyboardEvent) {
+  if (e.defaultPrevented) return;
+  const live = regions.filter((r) => r.el.isConnected && matchesHotkey(e, r.hotkey));
+  if (!live.length) return;
+  e.preventDefault();
+  const i = live.findIndex((r) => r.el.contains(document.activeElement));
+  if (i < 0) regionReturnFocus = document.activeElement as HTMLElement | null;
+  if (i === live.length - 1) leaveRegions();
+  else live[i + 1].el.focus();
+}
+
+function registerRegion(region: Region): () => void {
+  if (!regions.length) window.addEventListener("keydown", onRegionHotkey);
+  regions.push(region);
+  return () => {
+    regions.splice(regions.indexOf(region), 1);
+    if (!regions.length) window.removeEventListener("keydown", onRegionHotkey);
+  };
+}
+
+type ToastHostProps = {
+  store: ToastStore;
+  config: Config;
+  inline?: boolean;
+  className?: string;
+  hotkey?: string | false;
+};
+
+const ToastHost = React.memo(function ToastHost({
+  store,
+  config: cfg,
+  inline = false,
+  className,
+  hotkey = "F6",
+}: ToastHostProps) {
   const snap = useSyncExternalStore(store.subscribe.bind(store), () => store.snapshot, () => store.snapshot);
   const theme = usePlainframeUITheme();
+  const { messages } = useLocale();
+  const tok = React.useMemo(() => resolveToastTokens(theme), [theme]);
   const isBottom = cfg.position.startsWith("bottom");
-  const list = React.useMemo(() => 
-    isBottom ? snap.displayed : [...snap.displayed].reverse(),
-    [snap.displayed, isBottom]
-  );
+  const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({});
+
+  // With grouping on, a collapsed status group shows only its newest toast.
+  const { list, groups, newest } = React.useMemo(() => {
+    const groups = new Map<CoreStatus, ToastItem[]>();
+    // Toasts created in the same millisecond are told apart by display order; the later one leads.
+    const newest = new Map<CoreStatus, ToastItem>();
+    if (cfg.group) {
+      for (const t of snap.displayed) {
+        const key = normalizeStatus(t.status);
+        groups.set(key, [...(groups.get(key) ?? []), t]);
+        const lead = newest.get(key);
+        if (!lead || t.createdAt >= lead.createdAt) newest.set(key, t);
+      }
+    }
+    const lead = (t: ToastItem) => {
+      const key = normalizeStatus(t.status);
+      const members = groups.get(key);
+      if (!members || members.length < 2 || expandedGroups[key]) return true;
+      return newest.get(key) === t;
+    };
+    const shown = snap.displayed.filter(lead);
+    return { list: isBottom ? shown : shown.reverse(), groups, newest };
+  }, [snap.displayed, isBottom, cfg.group, expandedGroups]);
+
+  const stackRef = React.useRef<HTMLDivElement>(null);
+  const hasToasts = snap.displayed.length > 0;
+
+  useEffect(() => {
+    const el = stackRef.current;
+    if (!hotkey || !hasToasts || !el) return;
+    return registerRegion({ el, hotkey });
+  }, [hotkey, hasToasts]);
+
+  // Nothing times out while the user is working inside the region.
+  const pauseAll = () => store.displayed.forEach((t) => toast.pause(t.id));
+  const resumeAll = () => store.displayed.forEach((t) => toast.resume(t.id));
 
   const stackStyle = React.useMemo<CSSObject>(() => ({
-    position: "fixed",
+    position: inline ? "absolute" : "fixed",
     zIndex: cfg.zIndex,
     pointerEvents: "none",
     width: "100%",
@@ -548,10 +852,32 @@ const ToastHost = React.memo(function ToastHost() {
     flexDirection: "column",
     ...positionCss(cfg.position),
     ...(cfg.styles.stack ?? {}),
-  }), []);
+  }), [inline, cfg.zIndex, cfg.position, cfg.styles.stack]);
 
   return (
-    <div className="plainframe-ui-toast-stack" css={css(stackStyle)}>
+    <div
+      ref={stackRef}
+      className={["plainframe-ui-toast-stack", className || ""].join(" ").trim()}
+      data-toaster={store.name}
+      role={hasToasts ? "region" : undefined}
+      aria-label={hasToasts ? messages.toast.region : undefined}
+      aria-keyshortcuts={hasToasts && hotkey ? hotkey : undefined}
+      tabIndex={-1}
+      onFocus={pauseAll}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) resumeAll();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" && regionReturnFocus) {
+          e.preventDefault();
+          leaveRegions();
+        }
+      }}
+      css={[
+        css(stackStyle),
+        { outline: "none", "&:focus-visible": { outline: `2px solid ${theme.palette.primary[600]}`, outlineOffset: 4 } },
+      ]}
+    >
       <AnimatePresence initial={false}>
         {list.map((t, index) => {
           const from = snap.enterFrom[t.id] || "tail";
@@ -564,12 +890,18 @@ const ToastHost = React.memo(function ToastHost() {
             resume: toast.resume,
           };
           const { bg, fg, border } = statusColors(theme, t.status);
+          const groupKey = normalizeStatus(t.status);
+          const members = groups.get(groupKey) ?? [];
+          const expanded = !!expandedGroups[groupKey];
+          const isNewest = newest.get(groupKey) === t;
+          const stacked = members.length > 1 && !expanded;
+          const layer = `color-mix(in srgb, ${bg} 88%, ${fg})`;
 
           const baseSurface: CSSObject = {
             position: "relative",
             overflow: "hidden",
             borderRadius: theme.radius.md,
-            boxShadow: TOK.shadow,
+            boxShadow: tok.shadow,
             padding: `${theme.spacing.md} calc(${theme.spacing.lg} + 30px) ${theme.spacing.md} ${theme.spacing.lg}`,
             display: "grid",
             gridTemplateColumns: "1fr auto",
@@ -578,12 +910,15 @@ const ToastHost = React.memo(function ToastHost() {
             color: fg,
             cursor: t.onClick ? "pointer" : "default",
             border: border ? `1px solid ${border}` : "1px solid transparent",
+            ...(stacked && {
+              boxShadow: `0 ${isBottom ? "" : "-"}5px 0 -3px ${layer}, 0 ${isBottom ? "" : "-"}10px 0 -6px ${layer}, ${tok.shadow}`,
+            }),
           };
 
           const extraSurface =
             typeof cfg.styles.surface === "function" ? cfg.styles.surface(t) : cfg.styles.surface ?? {};
 
-          const dismissMode = normalizeDismiss(t.showDismiss);
+          const dismissMode = normalizeDismiss(t.showDismiss, cfg.showDismiss);
           const modeStyles: CSSObject = {};
           const closeSel = "& .plainframe-ui-toast-close";
           const hoverSel = "&:hover .plainframe-ui-toast-close";
@@ -650,6 +985,15 @@ const ToastHost = React.memo(function ToastHost() {
                   <div css={rowCss}>
                     {t.startIcon && <div css={iconWrapCss}>{t.startIcon}</div>}
                     <div css={textCss}>{t.content}</div>
+                    {t.count > 1 && (
+                      <span
+                        className="plainframe-ui-toast-count"
+                        aria-label={formatMessage(messages.toast.repeated, { count: t.count })}
+                        css={countCss}
+                      >
+                        ×{t.count}
+                      </span>
+                    )}
                     {t.endIcon && <div css={iconWrapCss}>{t.endIcon}</div>}
                   </div>
                   {t.action && <div css={actionRowCss}>{t.action}</div>}
@@ -661,7 +1005,7 @@ const ToastHost = React.memo(function ToastHost() {
                 {innerBlock}
                 <button
                   className="plainframe-ui-toast-close"
-                  aria-label="Close"
+                  aria-label={messages.toast.dismiss}
                   css={closeCss}
                   onClick={(e) => {
                     e.stopPropagation();
@@ -683,8 +1027,35 @@ const ToastHost = React.memo(function ToastHost() {
               enterY={enterY}
               width={t.width}
               pauseOnHover={t.pauseOnHover !== false}
+              itemStyles={cfg.styles.item}
             >
               {content}
+              {members.length > 1 && isNewest && (
+                <button
+                  type="button"
+                  className="plainframe-ui-toast-group-toggle"
+                  aria-expanded={expanded}
+                  onClick={() => setExpandedGroups((g) => ({ ...g, [groupKey]: !expanded }))}
+                  css={{
+                    display: "block",
+                    marginTop: stacked ? 14 : 6,
+                    marginLeft: "auto",
+                    padding: "2px 8px",
+                    border: 0,
+                    borderRadius: theme.radius.sm,
+                    background: "transparent",
+                    color: theme.text.secondary,
+                    fontSize: 12,
+                    fontWeight: 500,
+                    cursor: "pointer",
+                    ":hover": { color: theme.text.primary },
+                  }}
+                >
+                  {expanded
+                    ? messages.toast.showLess
+                    : formatMessage(messages.toast.showMore, { count: members.length - 1 })}
+                </button>
+              )}
             </SwipeItem>
           );
         })}
@@ -701,9 +1072,10 @@ const SwipeItem = React.memo(function SwipeItem(
     enterY: number;
     width?: number | string;
     pauseOnHover: boolean;
+    itemStyles?: CSSObject;
   }>
 ) {
-  const { id, isBottom, mt, enterY, width, pauseOnHover, children } = props;
+  const { id, isBottom, mt, enterY, width, pauseOnHover, itemStyles, children } = props;
   const controls = useAnimationControls();
 
   useEffect(() => {
@@ -716,7 +1088,7 @@ const SwipeItem = React.memo(function SwipeItem(
     marginTop: mt,
     width: "100%",
     maxWidth: width != null ? (typeof width === "number" ? `${width}px` : width) : "none",
-    ...(cfg.styles.item ?? {}),
+    ...(itemStyles ?? {}),
   };
 
   return (
@@ -753,9 +1125,73 @@ const SwipeItem = React.memo(function SwipeItem(
   );
 });
 
-let mounted = false;
-(function mountHostOnce() {
-  if (mounted) return;
-  mounted = true;
-  ensureHost();
-})();
+const FallbackHost = () => {
+  const store = getStore();
+  const snap = useSyncExternalStore(store.subscribe.bind(store), () => store.snapshot, () => store.snapshot);
+  if (snap.hasToaster) return null;
+  return <ToastHost store={store} config={configOf(store)} />;
+};
+
+export type ToasterProps = Partial<Config> & {
+  // `toast.to(name, …)` targets this toaster; plain `toast()` goes to "default".
+  name?: string;
+  // Renders in place, positioned against the nearest positioned ancestor, instead of over the viewport.
+  inline?: boolean;
+  className?: string;
+  // Moves focus into the toasts and back. Defaults to F6; false turns it off.
+  hotkey?: string | false;
+  // Keeps undismissed plain-text toasts in sessionStorage across reloads. A string sets the storage key.
+  persist?: boolean | string;
+};
+
+export const Toaster: React.FC<ToasterProps> = ({
+  name = DEFAULT_TOASTER,
+  inline = false,
+  className,
+  persist,
+  hotkey,
+  ...props
+}) => {
+  const store = getStore(name);
+  const [portalHost, setPortalHost] = useState<HTMLElement | null>(null);
+
+  const overrides = Object.fromEntries(
+    Object.entries(props).filter(([, v]) => v !== undefined)
+  ) as Partial<Config>;
+  const config: Config = { ...cfg, ...overrides };
+
+  // Published after commit for toast() calls outside React; rendering uses `config` directly.
+  useLayoutEffect(() => {
+    store.overrides = overrides;
+    return () => {
+      if (store.overrides === overrides) store.overrides = {};
+    };
+  });
+
+  const storageKey = persist === true ? `plainframe-ui-toasts:${name}` : persist || null;
+  // Declared first so unmounting stops saving before the toaster count drops.
+  useEffect(() => {
+    if (!storageKey) return;
+    restoreToasts(store, storageKey);
+    return store.subscribe(() => saveToasts(store, storageKey));
+  }, [store, storageKey]);
+
+  useEffect(() => {
+    store.toasters += 1;
+    syncAndNotify(store);
+    setPortalHost(document.body);
+    flushQueueIntoDisplayed(store);
+    return () => {
+      store.toasters -= 1;
+      syncAndNotify(store);
+    };
+  }, [store]);
+
+  const host = (
+    <ToastHost store={store} config={config} inline={inline} className={className} hotkey={hotkey} />
+  );
+  if (inline) return host;
+  return portalHost ? createPortal(host, portalHost) : null;
+};
+
+Toaster.displayName = "Toaster";
@@ -0,0 +1,749 @@
+/** @jsxImportSource @emotion/react */
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { css, type Interpolation, type Theme } from "@emotion/react";
+import { ChevronRight } from "lucide-react";
+import { usePlainframeUITheme, useDirection } from "../theme/ThemeProvider";
+import { FORCED_COLORS } from "../utils/forcedColors";
+import { logicalArrowKey } from "../utils/direction";
+import { useCollapse } from "../utils/collapse";
+import { useControllable } from "../utils/controllable";
+import { Checkbox } from "./Checkbox";
+import { Skeleton } from "./Skeleton";
+
+export type TreeNode = {
+  id: string;
+  label: React.ReactNode;
+  // Used for typeahead when `label` is not a string.
+  textValue?: string;
+  icon?: React.ReactNode;
+  children?: TreeNode[];
+  // Marks a node whose children come from `loadChildren` on first expand.
+  hasChildren?: boolean;
+  disabled?: boolean;
+};
+
+export type TreeDropPosition = "before" | "after" | "inside";
+export type TreeMove = { id: string; targetId: string; position: TreeDropPosition };
+
+export type TreeViewProps = {
+  items: TreeNode[];
+
+  expandedIds?: string[];
+  defaultExpandedIds?: string[];
+  onExpandedChange?: (ids: string[]) => void;
+
+  selectionMode?: "none" | "single" | "multiple";
+  selectedIds?: string[];
+  defaultSelectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+
+  checkboxes?: boolean;
+  checkedIds?: string[];
+  defaultCheckedIds?: string[];
+  onCheckedChange?: (ids: string[]) => void;
+
+  loadChildren?: (node: TreeNode) => Promise<TreeNode[]>;
+  onAction?: (node: TreeNode) => void;
+
+  draggable?: boolean;
+  canDrop?: (move: TreeMove) => boolean;
+  onMove?: (move: TreeMove) => void;
+
+  size?: "sm" | "md";
+  "aria-label"?: string;
+  "aria-labelledby"?: string;
+  className?: string;
+  css?: Interpolation<Theme>;
+};
+
+type CheckState = "checked" | "unchecked" | "mixed";
+type Entry = { node: TreeNode; parentId: string | null; level: number };
+
+const TYPEAHEAD_RESET_MS = 500;
+const INDENT = 20;
+const SKELETON_ROWS = 2;
+
+const cls = (s: string) => `plainframe-ui-tree-view${s ? `-${s}` : ""}`;
+
+const nodeText = (node: TreeNode) =>
+  (node.textValue ?? (typeof node.label === "string" || typeof node.label === "number" ? String(node.label) : "")).toLowerCase();
+
+/** Applies a `TreeMove` from `onMove` to a tree, returning a new one. */
+export function moveTreeNode(items: TreeNode[], { id, targetId, position }: TreeMove): TreeNode[] {
+  let moved: TreeNode | null = null;
+  const remove = (list: TreeNode[]): TreeNode[] =>
+    list
+      .filter((n) => {
+        if (n.id !== id) return true;
+        moved = n;
+        return false;
+      })
+      .map((n) => (n.children ? { ...n, children: remove(n.children) } : n));
+  const without = remove(items);
+  if (!moved) return items;
+  const node: TreeNode = moved;
+
+  const insert = (list: TreeNode[]): TreeNode[] =>
+    list.flatMap((n) => {
+      if (n.id === targetId) {
+        if (position === "before") return [node, n];
+        if (position === "after") return [n, node];
+        return [{ ...n, children: [...(n.children ?? []), node] }];
+      }
+      return n.children ? [{ ...n, children: insert(n.children) }] : [n];
+    });
+  return insert(without);
+}
+
+type TreeCtxValue = {
+  size: "sm" | "md";
+  selectionMode: "none" | "single" | "multiple";
+  checkboxes: boolean;
+  draggable: boolean;
+  tabbableId: string | null;
+  expanded: Set<string>;
+  selected: Set<string>;
+  loading: Record<string, boolean>;
+  dropTarget: { targetId: string; position: TreeDropPosition } | null;
+  childrenOf: (node: TreeNode) => TreeNode[] | undefined;
+  isParent: (node: TreeNode) => boolean;
+  checkState: (id: string) => CheckState;
+  registerItem: (id: string, el: HTMLDivElement | null) => void;
+  setFocusedId: (id: string) => void;
+  focusItem: (id: string) => void;
+  toggleExpanded: (id: string) => void;
+  onRowClick: (node: TreeNode, e: React.MouseEvent) => void;
+  toggleChecked: (id: string) => void;
+  dragHandlers: (node: TreeNode) => Pick<
+    React.HTMLAttributes<HTMLDivElement>,
+    "onDragStart" | "onDragOver" | "onDragLeave" | "onDrop" | "onDragEnd"
+  >;
+};
+
+const TreeCtx = createContext<TreeCtxValue | null>(null);
+const useTreeCtx = () => {
+  const v = useContext(TreeCtx);
+  if (!v) throw new Error("TreeItem must be inside <TreeView>.");
+  return v;
+};
+
+type TreeItemProps = { node: TreeNode; level: number; posinset: number; setsize: number };
+
+const TreeItem: React.FC<TreeItemProps> = ({ node, level, posinset, setsize }) => {
+  const theme = usePlainframeUITheme();
+  const ctx = useTreeCtx();
+  const dir = useDirection();
+  const { id, disabled } = node;
+
+  const kids = ctx.childrenOf(node);
+  const parent = ctx.isParent(node);
+  const expanded = parent && ctx.expanded.has(id);
+  const loading = !!ctx.loading[id];
+  const selected = ctx.selected.has(id);
+  const checkState = ctx.checkboxes ? ctx.checkState(id) : null;
+  const drop = ctx.dropTarget?.targetId === id ? ctx.dropTarget.position : undefined;
+
+  // Children mount on first expand and stay mounted so collapsing can animate.
+  const [mounted, setMounted] = useState(expanded);
+  if (expanded && !mounted) setMounted(true);
+
+  const { clipRef, measureRef, clipCss, innerCss } = useCollapse(expanded, { stashTabIndex: false });
+
+  const rowH = ctx.size === "sm" ? 28 : 32;
+  const primary = theme.palette.primary[600];
+
+  const rowCss = css({
+    display: "flex",
+    alignItems: "center",
+    gap: 6,
+    minHeight: rowH,
+    paddingInlineStart: 4 + (level - 1) * INDENT,
+    paddingInlineEnd: 8,
+    borderRadius: theme.radius.sm,
+    fontSize: ctx.size === "sm" ? theme.typography.sizes.xs : theme.typography.sizes.sm,
+    color: disabled ? theme.text.muted : theme.text.primary,
+    cursor: disabled ? "not-allowed" : "pointer",
+    userSelect: "none",
+    boxSizing: "border-box",
+    ":hover": { background: disabled ? undefined : theme.surface.subtleHover },
+    "&[data-selected]": { background: `color-mix(in srgb, ${primary} 12%, transparent)` },
+    "&[data-drop='before']": { boxShadow: `inset 0 2px 0 ${primary}` },
+    "&[data-drop='after']": { boxShadow: `inset 0 -2px 0 ${primary}` },
+    "&[data-drop='inside']": { boxShadow: `inset 0 0 0 2px ${primary}` },
+    [FORCED_COLORS]: {
+      "&[data-selected]": { forcedColorAdjust: "none", background: "Highlight", color: "HighlightText" },
+      "&[data-drop]": { outline: "2px solid Highlight" },
+    },
+  });
+
+  const itemCss = css({
+    outline: "none",
+    [`&:focus-visible > .${cls("row")}`]: {
+      boxShadow: `inset 0 0 0 2px ${primary}`,
+      [FORCED_COLORS]: { outline: "2px solid Highlight", outlineOffset: -2 },
+    },
+  });
+
+  const chevronCss = css({
+    display: "flex",
+    flex: "0 0 auto",
+    width: 16,
+    height: 16,
+    color: theme.text.secondary,
+    visibility: parent ? "visible" : "hidden",
+    transition: "transform .2s ease",
+    transform: expanded ? "rotate(90deg)" : dir === "rtl" ? "scaleX(-1)" : "none",
+  });
+
+  return (
+    <div
+      ref={(el) => ctx.registerItem(id, el)}
+      role="treeitem"
+      data-id={id}
+      aria-level={level}
+      aria-posinset={posinset}
+      aria-setsize={setsize}
+      aria-expanded={parent ? expanded : undefined}
+      aria-selected={ctx.selectionMode === "none" ? undefined : selected}
+      aria-checked={checkState ? (checkState === "mixed" ? "mixed" : checkState === "checked") : undefined}
+      aria-disabled={disabled || undefined}
+      aria-busy={loading || undefined}
+      tabIndex={ctx.tabbableId === id ? 0 : -1}
+      draggable={ctx.draggable && !disabled}
+      className={cls("item")}
+      css={itemCss}
+      onFocus={(e) => {
+        if (e.target === e.currentTarget) ctx.setFocusedId(id);
+      }}
+      {...ctx.dragHandlers(node)}
+    >
+      <div
+        className={cls("row")}
+        data-selected={selected || undefined}
+        data-drop={drop}
+        css={rowCss}
+        onClick={(e) => ctx.onRowClick(node, e)}
+      >
+        <span
+          aria-hidden
+          className={cls("toggle")}
+          css={chevronCss}
+          onClick={(e) => {
+            if (!parent || disabled) return;
+            e.stopPropagation();
+            ctx.toggleExpanded(id);
+            ctx.focusItem(id);
+          }}
+        >
+          <ChevronRight size={16} strokeWidth={2} />
+        </span>
+        {checkState && (
+          <span
+            aria-hidden
+            css={{ display: "flex" }}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={(e) => {
+              e.stopPropagation();
+              ctx.focusItem(id);
+            }}
+          >
+            <Checkbox
+              size="sm"
+              tabIndex={-1}
+              checked={checkState === "checked"}
+              indeterminate={checkState === "mixed"}
+              disabled={disabled}
+              onChange={() => ctx.toggleChecked(id)}
+            />
+          </span>
+        )}
+        {node.icon && (
+          <span className={cls("icon")} css={{ display: "flex", color: theme.text.secondary }}>
+            {node.icon}
+          </span>
+        )}
+        <span className={cls("label")} css={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          {node.label}
+        </span>
+      </div>
+      {parent && (
+        <div ref={clipRef} className={cls("group-clip")} css={clipCss}>
+          <div ref={measureRef} role="group" css={innerCss}>
+            {mounted &&
+              (kids
+                ? kids.map((child, i) => (
+                    <TreeItem key={child.id} node={child} level={level + 1} posinset={i + 1} setsize={kids.length} />
+                  ))
+                : loading &&
+                  Array.from({ length: SKELETON_ROWS }, (_, i) => (
+                    <div
+                      key={i}
+                      aria-hidden
+                      className={cls("skeleton")}
+                      css={{ display: "flex", alignItems: "center", height: rowH, paddingInlineStart: 26 + level * INDENT }}
+                    >
+                      <Skeleton width={`${60 - i * 15}%`} height={10} radius={4} />
+                    </div>
+                  )))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export function TreeView({
+  items,
+  expandedIds: expandedProp,
+  defaultExpandedIds = [],
+  onExpandedChange,
+  selectionMode = "single",
+  selectedIds: selectedProp,
+  defaultSelectedIds = [],
+  onSelectionChange,
+  checkboxes = false,
+  checkedIds: checkedProp,
+  defaultCheckedIds = [],
+  onCheckedChange,
+  loadChildren,
+  onAction,
+  draggable = false,
+  canDrop,
+  onMove,
+  size = "md",
+  "aria-label": ariaLabel,
+  "aria-labelledby": ariaLabelledBy,
+  className,
+  css: userCss,
+}: TreeViewProps) {
+  const dir = useDirection();
+
+  const [expandedIds, setExpandedIds] = useControllable(expandedProp, defaultExpandedIds, onExpandedChange);
+  const [selectedIds, setSelectedIds] = useControllable(selectedProp, defaultSelectedIds, onSelectionChange);
+  const [checkedIds, setCheckedIds] = useControllable(checkedProp, defaultCheckedIds, onCheckedChange);
+  const expanded = useMemo(() => new Set(expandedIds), [expandedIds]);
+  const selected = useMemo(() => new Set(selectedIds), [selectedIds]);
+
+  const [loaded, setLoaded] = useState<Record<string, TreeNode[]>>({});
+  const [loading, setLoading] = useState<Record<string, boolean>>({});
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const anchorRef = useRef<string | null>(null);
+  const itemEls = useRef(new Map<string, HTMLDivElement>());
+
+  const childrenOf = useCallback((node: TreeNode) => node.children ?? loaded[node.id], [loaded]);
+  const isParent = useCallback(
+    (node: TreeNode) => {
+      const kids = childrenOf(node);
+      return kids ? kids.length > 0 : !!node.hasChildren;
+    },
+    [childrenOf]
+  );
+
+  const index = useMemo(() => {
+    const map = new Map<string, Entry>();
+    const walk = (list: TreeNode[], parentId: string | null, level: number) => {
+      for (const node of list) {
+        map.set(node.id, { node, parentId, level });
+        const kids = node.children ?? loaded[node.id];
+        if (kids) walk(kids, node.id, level + 1);
+      }
+    };
+    walk(items, null, 1);
+    return map;
+  }, [items, loaded]);
+
+  const visible = useMemo(() => {
+    const out: string[] = [];
+    const walk = (list: TreeNode[]) => {
+      for (const node of list) {
+        out.push(node.id);
+        const kids = childrenOf(node);
+        if (kids && expanded.has(node.id)) walk(kids);
+      }
+    };
+    walk(items);
+    return out;
+  }, [items, childrenOf, expanded]);
+
+  const descendantsOf = useCallback(
+    (node: TreeNode) => {
+      const out: string[] = [];
+      const walk = (n: TreeNode) => {
+        for (const k of childrenOf(n) ?? []) {
+          out.push(k.id);
+          walk(k);
+        }
+      };
+      walk(node);
+      return out;
+    },
+    [childrenOf]
+  );
+
+  const isAncestor = (ancestorId: string, id: string) => {
+    for (let p = index.get(id)?.parentId; p != null; p = index.get(p)?.parentId) if (p === ancestorId) return true;
+    return false;
+  };
+
+  // Parents with loaded children derive their state from them; leaves and unloaded parents read the list.
+  const checkStates = useMemo(() => {
+    const states = new Map<string, CheckState>();
+    if (!checkboxes) return states;
+    const checkedSet = new Set(checkedIds);
+    const walk = (node: TreeNode): CheckState => {
+      const kids = childrenOf(node);
+      let state: CheckState;
+      if (kids && kids.length) {
+        const childStates = kids.map(walk);
+        state = childStates.every((s) => s === "checked")
+          ? "checked"
+          : childStates.every((s) => s === "unchecked")
+            ? "unchecked"
+            : "mixed";
+      } else {
+        state = checkedSet.has(node.id) ? "checked" : "unchecked";
+      }
+      states.set(node.id, state);
+      return state;
+    };
+    items.forEach(walk);
+    return states;
+  }, [checkboxes, checkedIds, items, childrenOf]);
+
+  const checkState = useCallback((id: string) => checkStates.get(id) ?? "unchecked", [checkStates]);
+
+  const checkedRef = useRef(checkedIds);
+  checkedRef.current = checkedIds;
+  const expandedRef = useRef(expandedIds);
+  expandedRef.current = expandedIds;
+
+  const toggleChecked = (id: string) => {
+    const entry = index.get(id);
+    if (!entry || entry.node.disabled) return;
+    const on = checkState(id) !== "checked";
+    const next = new Set(checkedIds);
+    for (const d of [id, ...descendantsOf(entry.node)]) {
+      if (index.get(d)?.node.disabled) continue;
+      if (on) next.add(d);
+      else next.delete(d);
+    }
+    for (let p = entry.parentId; p != null; p = index.get(p)?.parentId ?? null) {
+      const kids = childrenOf(index.get(p)!.node) ?? [];
+      if (kids.every((k) => next.has(k.id))) next.add(p);
+      else next.delete(p);
+    }
+    setCheckedIds(Array.from(next));
+  };
+
+  // Expanded nodes with `hasChildren` and nothing loaded yet fetch their children.
+  useEffect(() => {
+    if (!loadChildren) return;
+    for (const id of expandedIds) {
+      const node = index.get(id)?.node;
+      if (!node || !node.hasChildren || node.children || loaded[id] || loading[id]) continue;
+      setLoading((prev) => ({ ...prev, [id]: true }));
+      loadChildren(node)
+        .then((kids) => {
+          setLoaded((prev) => ({ ...prev, [id]: kids }));
+          // Children of a checked parent arrive checked.
+          if (checkboxes && checkedRef.current.includes(id)) {
+            const ids: string[] = [];
+            const walk = (list: TreeNode[]) =>
+              list.forEach((k) => {
+                if (!k.disabled) ids.push(k.id);
+                if (k.children) walk(k.children);
+              });
+            walk(kids);
+            setCheckedIds(Array.from(new Set([...checkedRef.current, ...ids])));
+          }
+        })
+        .catch(() => {
+          // Collapse again so expanding retries.
+          setExpandedIds(expandedRef.current.filter((x) => x !== id));
+        })
+        .finally(() => {
+          setLoading(({ [id]: _, ...rest }) => rest);
+        });
+    }
+  }, [expandedIds, index, loaded, loading, loadChildren, checkboxes, setCheckedIds, setExpandedIds]);
+
+  const tabbableId =
+    focusedId && visible.includes(focusedId)
+      ? focusedId
+      : visible.find((id) => selected.has(id)) ?? visible[0] ?? null;
+
+  const focusItem = useCallback((id: string) => {
+    setFocusedId(id);
+    itemEls.current.get(id)?.focus();
+  }, []);
+
+  const registerItem = useCallback((id: string, el: HTMLDivElement | null) => {
+    if (el) itemEls.current.set(id, el);
+    else itemEls.current.delete(id);
+  }, []);
+
+  const setExpanded = (id: string, open: boolean) => {
+    if (open === expanded.has(id)) return;
+    if (!open && focusedId && isAncestor(id, focusedId)) focusItem(id);
+    setExpandedIds(open ? [...expandedIds, id] : expandedIds.filter((x) => x !== id));
+  };
+
+  const toggleExpanded = (id: string) => setExpanded(id, !expanded.has(id));
+
+  const selectable = (id: string) => !index.get(id)?.node.disabled;
+
+  const selectRange = (toId: string, additive: boolean) => {
+    const from = visible.indexOf(anchorRef.current ?? toId);
+    const to = visible.indexOf(toId);
+    const [a, b] = from < to ? [from, to] : [to, from];
+    const range = visible.slice(a < 0 ? to : a, b + 1).filter(selectable);
+    setSelectedIds(additive ? Array.from(new Set([...selectedIds, ...range])) : range);
+  };
+
+  const select = (id: string, mode: "replace" | "toggle" | "range") => {
+    if (selectionMode === "none" || !selectable(id)) return;
+    if (selectionMode === "single") {
+      if (!selected.has(id) || selectedIds.length !== 1) setSelectedIds([id]);
+      return;
+    }
+    if (mode === "range") {
+      selectRange(id, false);
+      return;
+    }
+    anchorRef.current = id;
+    if (mode === "toggle") setSelectedIds(selected.has(id) ? selectedIds.filter((x) => x !== id) : [...selectedIds, id]);
+    else setSelectedIds([id]);
+  };
+
+  const onRowClick = (node: TreeNode, e: React.MouseEvent) => {
+    if (node.disabled) return;
+    focusItem(node.id);
+    if (selectionMode === "none") {
+      if (isParent(node)) toggleExpanded(node.id);
+    } else {
+      select(node.id, e.shiftKey ? "range" : e.metaKey || e.ctrlKey ? "toggle" : "replace");
+    }
+    onAction?.(node);
+  };
+
+  const typeahead = useRef<{ text: string; timer?: ReturnType<typeof setTimeout> }>({ text: "" });
+  useEffect(() => () => clearTimeout(typeahead.current.timer), []);
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.getAttribute("role") !== "treeitem") return;
+    const id = target.dataset.id;
+    const entry = id != null ? index.get(id) : undefined;
+    if (!id || !entry) return;
+    const { node } = entry;
+    const i = visible.indexOf(id);
+    const multi = selectionMode === "multiple";
+
+    const move = (to: string | undefined) => {
+      if (to == null) return;
+      focusItem(to);
+      if (multi && e.shiftKey) {
+        anchorRef.current ??= id;
+        selectRange(to, true);
+      }
+    };
+
+    const key = logicalArrowKey(e.key, dir);
+    switch (key) {
+      case "ArrowDown":
+        move(visible[i + 1]);
+        break;
+      case "ArrowUp":
+        move(visible[i - 1]);
+        break;
+      case "ArrowRight":
+        if (!isParent(node) || node.disabled) break;
+        if (!expanded.has(id)) setExpanded(id, true);
+        else {
+          const first = childrenOf(node)?.[0];
+          if (first) focusItem(first.id);
+        }
+        break;
+      case "ArrowLeft":
+        if (isParent(node) && expanded.has(id)) setExpanded(id, false);
+        else if (entry.parentId != null) focusItem(entry.parentId);
+        break;
+      case "Home":
+        if (multi && e.shiftKey && e.ctrlKey) selectRange(visible[0], true);
+        focusItem(visible[0]);
+        break;
+      case "End":
+        if (multi && e.shiftKey && e.ctrlKey) selectRange(visible[visible.length - 1], true);
+        focusItem(visible[visible.length - 1]);
+        break;
+      case "Enter":
+        if (node.disabled) break;
+        select(id, "replace");
+        onAction?.(node);
+        break;
+      case " ":
+        if (node.disabled) break;
+        if (checkboxes) toggleChecked(id);
+        else if (multi && e.shiftKey) selectRange(id, true);
+        else select(id, multi ? "toggle" : "replace");
+        break;
+      case "*": {
+        const siblings = entry.parentId == null ? items : childrenOf(index.get(entry.parentId)!.node) ?? [];
+        const closed = siblings.filter((s) => isParent(s) && !s.disabled && !expanded.has(s.id)).map((s) => s.id);
+        if (closed.length) setExpandedIds([...expandedIds, ...closed]);
+        break;
+      }
+      default:
+        if ((e.key === "a" || e.key === "A") && (e.ctrlKey || e.metaKey) && multi) {
+          setSelectedIds(visible.filter(selectable));
+          break;
+        }
+        if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return;
+        {
+          const ta = typeahead.current;
+          clearTimeout(ta.timer);
+          ta.text += e.key.toLowerCase();
+          ta.timer = setTimeout(() => (ta.text = ""), TYPEAHEAD_RESET_MS);
+          // A repeated first letter cycles through matches; a longer prefix keeps the current match if it still fits.
+          const start = ta.text.length === 1 ? i + 1 : i;
+          for (let k = 0; k < visible.length; k++) {
+            const candidate = visible[(start + k) % visible.length];
+            if (nodeText(index.get(candidate)!.node).startsWith(ta.text)) {
+              focusItem(candidate);
+              break;
+            }
+          }
+        }
+        break;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const dragIdRef = useRef<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TreeCtxValue["dropTarget"]>(null);
+
+  const dragHandlers = (node: TreeNode): ReturnType<TreeCtxValue["dragHandlers"]> =>
+    !draggable
+      ? {}
+      : {
+          onDragStart: (e) => {
+            e.stopPropagation();
+            if (node.disabled) return;
+            dragIdRef.current = node.id;
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", node.id);
+          },
+          onDragOver: (e) => {
+            const dragId = dragIdRef.current;
+            if (!dragId || (e.target as HTMLElement).closest("[role='treeitem']") !== e.currentTarget) return;
+            e.stopPropagation();
+            if (dragId === node.id || isAncestor(dragId, node.id) || node.disabled) {
+              setDropTarget(null);
+              return;
+            }
+            const row = e.currentTarget.firstElementChild as HTMLElement;
+            const rect = row.getBoundingClientRect();
+            const ratio = rect.height ? (e.clientY - rect.top) / rect.height : 0.5;
+            const position: TreeDropPosition = ratio < 0.25 ? "before" : ratio > 0.75 ? "after" : "inside";
+            const move = { id: dragId, targetId: node.id, position };
+            if (canDrop && !canDrop(move)) {
+              setDropTarget(null);
+              return;
+            }
+            e.preventDefault();
+            e.dataTransfer.dropEffect = "move";
+            if (dropTarget?.targetId !== node.id || dropTarget.position !== position) setDropTarget({ targetId: node.id, position });
+          },
+          onDragLeave: (e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null) && dropTarget?.targetId === node.id) setDropTarget(null);
+          },
+          onDrop: (e) => {
+            const dragId = dragIdRef.current;
+            if (!dragId || !dropTarget || dropTarget.targetId !== node.id) return;
+            e.preventDefault();
+            e.stopPropagation();
+            onMove?.({ id: dragId, targetId: node.id, position: dropTarget.position });
+            if (dropTarget.position === "inside" && !expanded.has(node.id)) setExpanded(node.id, true);
+            dragIdRef.current = null;
+            setDropTarget(null);
+          },
+          onDragEnd: (e) => {
+            e.stopPropagation();
+            dragIdRef.current = null;
+            setDropTarget(null);
+          },
+        };
+
+  // Event handlers are read from the latest render, so the context only changes with the tree's state.
+  const handlersRef = useRef({ toggleExpanded, onRowClick, toggleChecked, dragHandlers });
+  handlersRef.current = { toggleExpanded, onRowClick, toggleChecked, dragHandlers };
+  const stableToggleExpanded = useCallback((id: string) => handlersRef.current.toggleExpanded(id), []);
+  const stableOnRowClick = useCallback((node: TreeNode, e: React.MouseEvent) => handlersRef.current.onRowClick(node, e), []);
+  const stableToggleChecked = useCallback((id: string) => handlersRef.current.toggleChecked(id), []);
+  const stableDragHandlers = useCallback((node: TreeNode) => handlersRef.current.dragHandlers(node), []);
+
+  const ctx = useMemo<TreeCtxValue>(
+    () => ({
+      size,
+      selectionMode,
+      checkboxes,
+      draggable,
+      tabbableId,
+      expanded,
+      selected,
+      loading,
+      dropTarget,
+      childrenOf,
+      isParent,
+      checkState,
+      registerItem,
+      setFocusedId,
+      focusItem,
+      toggleExpanded: stableToggleExpanded,
+      onRowClick: stableOnRowClick,
+      toggleChecked: stableToggleChecked,
+      dragHandlers: stableDragHandlers,
+    }),
+    [
+      size,
+      selectionMode,
+      checkboxes,
+      draggable,
+      tabbableId,
+      expanded,
+      selected,
+      loading,
+      dropTarget,
+      childrenOf,
+      isParent,
+      checkState,
+      registerItem,
+      focusItem,
+      stableToggleExpanded,
+      stableOnRowClick,
+      stableToggleChecked,
+      stableDragHandlers,
+    ]
+  );
+
+  return (
+    <TreeCtx.Provider value={ctx}>
+      <div
+        role="tree"
+        aria-label={ariaLabel}
+        aria-labelledby={ariaLabelledBy}
+        aria-multiselectable={selectionMode === "multiple" || undefined}
+        className={[cls(""), className || ""].join(" ").trim()}
+        css={[{ display: "flex", flexDirection: "column" }, userCss]}
+        onKeyDown={onKeyDown}
+      >
+        {items.map((node, i) => (
+          <TreeItem key={node.id} node={node} level={1} posinset={i + 1} setsize={items.length} />
+        ))}
+      </div>
+    </TreeCtx.Provider>
+  );
+}
+
+TreeView.displayName = "TreeView";
@@ -9,19 +9,26 @@ export { Backdrop } from "./Backdrop";
 export { Badge } from "./Badge";
 export { BreadCrumbs, BreadCrumbItem } from "./Breadcrumbs";
 export { Button } from "./Button";
+export { Calendar } from "./Calendar";
 export { ButtonGroup } from "./ButtonGroup";
 export { Card, CardContent, CardDescription, CardEnd, CardTitle, CardStart } from "./Card";
 export { CardGroup } from "./CardGroup";
 export { Checkbox } from "./Checkbox";
 export { Chip } from "./Chip";
 export { CodeField } from "./CodeField";
+export { CommandPalette, registerCommands, useCommands } from "./CommandPalette";
 export { Container } from "./Container";
 export { ContextZone } from "./ContextZone";
+export { DataTable } from "./DataTable";
+export { DatePicker, DateRangePicker } from "./DatePicker";
+export { DateTimeField } from "./DateTimeField";
+export { confirm, prompt, dialogs, DialogHost } from "./Dialog";
 export { Divider } from "./Divider";
 export { Drawer, DrawerTrigger, DrawerContent, DrawerLegacy } from "./Drawer";
 export { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, useDropdownMenuActiveIndex } from "./DropdownMenu";
 export { Fade } from "./Fade";
 export { Flex } from "./Flex";
+export { Form, FormField, useForm, useFormContext } from "./Form";
 export { Grow } from "./Grow";
 export { Image } from "./Image";
 export { ImageStack } from "./ImageStack";
@@ -29,6 +36,7 @@ export { Kbd } from "./Kbd";
 export { Menu, MenuVariantCtx } from "./Menu";
 export { MenuItem, MenuCheckboxGroup, MenuCheckboxItem, MenuRadioItem, MenuLabel, MenuRadioGroup, MenuSeparator, MenuSwitchItem } from "./MenuItems";
 export { Modal, ModalContent, ModalTrigger } from "./Modal";
+export { NotificationCenter, notifications, useNotifications, useUnreadCount } from "./NotificationCenter";
 export { Pagination } from "./Pagination";
 export { Popover, PopoverAnchor, PopoverContent, PopoverTrigger, usePopoverContext } from "./Popover";
 export { Progress } from "./Progress";
@@ -44,7 +52,10 @@ export { Switch } from "./Switch";
 export { Tabs, Tab, TabContent } from "./Tabs";
 export { TextArea } from "./TextArea";
 export { TextField } from "./TextField";
-export { toast } from "./Toast";
+export { ThemeDevtools } from "./ThemeDevtools";
+export { TimePicker } from "./TimePicker";
+export { toast, Toaster } from "./Toast";
 export { Tooltip, TooltipContent, TooltipTrigger } from "./Tooltip";
+export { TreeView, moveTreeNode } from "./TreeView";
 export { Typography } from "./Typography";
 export { usePlainframeUITheme } from "../theme/ThemeProvider";
\ No newline at end of file
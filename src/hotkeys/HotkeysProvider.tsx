@@ -0,0 +1,151 @@
+import React, { useContext, useEffect, useRef, useState } from "react";
+import { matchesHotkey, normalizeShortcut, parseShortcut, type Hotkey } from "../utils/hotkeys";
+import { hasOverlay, OverlayScopeContext } from "../utils/overlayStack";
+import { isDevEnv } from "../utils/env";
+
+export type HotkeyScope = "layer" | "global";
+
+export type UseHotkeyOptions = {
+  // "layer" (default) only fires while the overlay the hook is rendered in is on top (or no overlay is
+  // open, outside of one). "global" fires regardless.
+  scope?: HotkeyScope;
+  enabled?: boolean;
+  enableInInputs?: boolean;
+  preventDefault?: boolean;
+};
+
+export type HotkeyConflict = { shortcut: string; scope: HotkeyScope };
+
+export type HotkeysProviderProps = {
+  sequenceTimeout?: number;
+  disabled?: boolean;
+  onConflict?: (conflict: HotkeyConflict) => void;
+  children: React.ReactNode;
+};
+
+type Binding = {
+  steps: Hotkey[];
+  id: string;
+  scope: HotkeyScope;
+  isTopmost: (() => boolean) | null;
+  enableInInputs: boolean;
+  preventDefault: boolean;
+  handler: { current: (e: KeyboardEvent) => void };
+};
+
+type Pressed = { event: KeyboardEvent; editable: boolean };
+
+type Registry = {
+  config: Omit<HotkeysProviderProps, "children">;
+  register: (binding: Binding) => () => void;
+};
+
+const MODIFIER_KEYS = new Set(["Shift", "Control", "Alt", "Meta", "CapsLock", "Fn"]);
+
+const isEditable = (el: EventTarget | null): boolean => {
+  if (!(el instanceof HTMLElement)) return false;
+  if (el.isContentEditable) return true;
+  if (el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement) return true;
+  if (el instanceof HTMLInputElement) {
+    return !["checkbox", "radio", "button", "submit", "reset", "range", "color", "file"].includes(el.type);
+  }
+  return false;
+};
+
+const isActive = (b: Binding) => b.scope === "global" || (b.isTopmost ? b.isTopmost() : !hasOverlay());
+
+function createRegistry(): Registry {
+  const bindings: Binding[] = [];
+  let pressed: Pressed[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const registry: Registry = {
+    config: {},
+    register(binding) {
+      const clash = bindings.find(
+        (b) => b.id === binding.id && b.scope === binding.scope && b.isTopmost === binding.isTopmost
+      );
+      if (clash) {
+        const conflict = { shortcut: binding.id, scope: binding.scope };
+        if (registry.config.onConflict) registry.config.onConflict(conflict);
+        else if (isDevEnv()) console.warn(`[plainframe-ui] Hotkey "${binding.id}" is bound more than once in the same scope.`);
+      }
+      if (!bindings.length && typeof document !== "undefined") document.addEventListener("keydown", onKeyDown);
+      bindings.push(binding);
+      return () => {
+        const i = bindings.indexOf(binding);
+        if (i >= 0) bindings.splice(i, 1);
+        if (!bindings.length && typeof document !== "undefined") {
+          document.removeEventListener("keydown", onKeyDown);
+          pressed = [];
+        }
+      };
+    },
+  };
+
+  const matches = (b: Binding) => {
+    const n = b.steps.length;
+    if (pressed.length < n) return false;
+    const tail = pressed.slice(-n);
+    return tail.every((p, i) => (b.enableInInputs || !p.editable) && matchesHotkey(p.event, b.steps[i]));
+  };
+
+  function onKeyDown(e: KeyboardEvent) {
+    if (registry.config.disabled || e.defaultPrevented || e.isComposing || MODIFIER_KEYS.has(e.key)) return;
+
+    clearTimeout(timer);
+    pressed.push({ event: e, editable: isEditable(e.target) });
+    if (pressed.length > 8) pressed.shift();
+    timer = setTimeout(() => {
+      pressed = [];
+    }, registry.config.sequenceTimeout ?? 1000);
+
+    // Longer sequences win over their last key alone; among equals, the most recently bound wins.
+    let hit: Binding | undefined;
+    for (let i = bindings.length - 1; i >= 0; i--) {
+      const b = bindings[i];
+      if ((!hit || b.steps.length > hit.steps.length) && isActive(b) && matches(b)) hit = b;
+    }
+    if (!hit) return;
+
+    pressed = [];
+    if (hit.preventDefault) e.preventDefault();
+    hit.handler.current(e);
+  }
+
+  return registry;
+}
+
+const defaultRegistry = createRegistry();
+
+const HotkeysContext = React.createContext<Registry | null>(null);
+
+export const HotkeysProvider: React.FC<HotkeysProviderProps> = ({ children, ...config }) => {
+  const [registry] = useState(createRegistry);
+  registry.config = config;
+  return <HotkeysContext.Provider value={registry}>{children}</HotkeysContext.Provider>;
+};
+
+export function useHotkey(
+  shortcut: string | null | undefined | false,
+  handler: (e: KeyboardEvent) => void,
+  { scope = "layer", enabled = true, enableInInputs = false, preventDefault = true }: UseHotkeyOptions = {}
+): void {
+  const registry = useContext(HotkeysContext) ?? defaultRegistry;
+  const isTopmost = useContext(OverlayScopeContext)?.isTopmost ?? null;
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!shortcut || !enabled) return;
+    return registry.register({
+      steps: parseShortcut(shortcut),
+      id: normalizeShortcut(shortcut),
+      scope,
+      isTopmost,
+      enableInInputs,
+      preventDefault,
+      handler: handlerRef,
+    });
+  }, [registry, shortcut, enabled, scope, isTopmost, enableInInputs, preventDefault]);
+}
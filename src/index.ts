@@ -11,18 +11,32 @@ export { BreadCrumbs, BreadCrumbItem } from "./components/Breadcrumbs";
 export { Button } from "./components/Button";
 export type { ButtonProps } from "./components/Button";
 export { ButtonGroup } from "./components/ButtonGroup";
+export { Calendar } from "./components/Calendar";
+export type { CalendarProps, CalendarRangeProps, CalendarSingleProps } from "./components/Calendar";
 export { Card, CardContent, CardDescription, CardEnd, CardTitle, CardStart } from "./components/Card";
 export { CardGroup } from "./components/CardGroup";
 export { Checkbox } from "./components/Checkbox";
 export { Chip } from "./components/Chip";
 export { CodeField } from "./components/CodeField";
+export { CommandPalette, registerCommands, useCommands } from "./components/CommandPalette";
+export type { Command, CommandPaletteProps } from "./components/CommandPalette";
 export { Container } from "./components/Container";
 export { ContextZone } from "./components/ContextZone";
+export { confirm, prompt, dialogs, DialogHost } from "./components/Dialog";
+export type { ConfirmOptions, PromptOptions, DialogIntent } from "./components/Dialog";
+export { DataTable } from "./components/DataTable";
+export type { DataTableColumn, DataTableProps, DataTableSort, SortDirection } from "./components/DataTable";
+export { DatePicker, DateRangePicker } from "./components/DatePicker";
+export type { DatePickerProps, DateRangePickerProps } from "./components/DatePicker";
+export { DateTimeField } from "./components/DateTimeField";
+export type { DateTimeFieldProps } from "./components/DateTimeField";
 export { Divider } from "./components/Divider";
 export { Drawer, DrawerTrigger, DrawerContent } from "./components/Drawer";
 export { DropdownMenu, DropdownMenuContent, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger, useDropdownMenuActiveIndex } from "./components/DropdownMenu";
 export { Fade } from "./components/Fade";
 export { Flex } from "./components/Flex";
+export { Form, FormField, useForm, useFormContext } from "./components/Form";
+export type { FieldState, FieldValidator, FieldValidatorContext, FormApi, FormErrors, FormFieldProps, FormFieldRenderProps, FormProps, FormValidator, FormValues, UseFormOptions, ValidateOn } from "./components/Form";
 export { Grow } from "./components/Grow";
 export { Image } from "./components/Image";
 export { ImageStack } from "./components/ImageStack";
@@ -32,6 +46,8 @@ export { Menu, MenuVariantCtx } from "./components/Menu";
 export { MenuItem, MenuCheckboxGroup, MenuCheckboxItem, MenuLabel, MenuRadioGroup, MenuRadioItem, MenuSeparator, MenuSwitchItem } from "./components/MenuItems";
 export { Modal, ModalContent, ModalTrigger } from "./components/Modal";
 export type { ModalProps } from "./components/Modal";
+export { NotificationCenter, notifications, useNotifications, useUnreadCount } from "./components/NotificationCenter";
+export type { NotificationCenterProps, NotificationEntry, NotificationInput, NotificationStatus } from "./components/NotificationCenter";
 export { Pagination } from "./components/Pagination";
 export { Popover, PopoverTrigger, PopoverContent, PopoverAnchor, usePopoverContext } from "./components/Popover";
 export type { PopoverRootProps, PopoverTriggerProps, PopoverContentProps, PopoverAnchorProps } from "./components/Popover";
@@ -44,16 +60,41 @@ export { Select, SelectItem } from "./components/Select";
 export { Skeleton } from "./components/Skeleton";
 export { Slide } from "./components/Slide";
 export { Slider } from "./components/Slider";
+export type { SliderProps, SliderMark, SliderValue } from "./components/Slider";
 export { Stepper, Step } from "./components/Stepper";
 export { Switch } from "./components/Switch";
 export { Tabs, Tab, TabContent } from "./components/Tabs";
 export { TextArea } from "./components/TextArea";
 export { TextField } from "./components/TextField";
 export type { TextFieldProps } from "./components/TextField";
-export { toast } from "./components/Toast";
+export { ThemeDevtools } from "./components/ThemeDevtools";
+export type { ThemeDevtoolsProps } from "./components/ThemeDevtools";
+export { TimePicker } from "./components/TimePicker";
+export type { TimePickerProps } from "./components/TimePicker";
+export { toast, Toaster } from "./components/Toast";
+export type { ToasterProps } from "./components/Toast";
 export { Tooltip, TooltipContent, TooltipTrigger } from "./components/Tooltip";
+export { TreeView, moveTreeNode } from "./components/TreeView";
+export type { TreeDropPosition, TreeMove, TreeNode, TreeViewProps } from "./components/TreeView";
 export { Typography } from "./components/Typography";
 
 export * from "./theme/ThemeProvider";
 export * from "./theme/theme";
 export { CssBaseline } from "./theme/CssBaseline";
+export * from "./theme/tokens";
+export { createScale, hexToOklch } from "./theme/palette";
+export { auditTheme, contrastRatio } from "./theme/contrast";
+export type { AuditThemeOptions, ContrastIssue, ContrastLevel, ContrastPairKind } from "./theme/contrast";
+export { LocaleProvider, useLocale } from "./locale/LocaleProvider";
+export type { LocaleContextValue, LocaleProviderProps } from "./locale/LocaleProvider";
+export { HotkeysProvider, useHotkey } from "./hotkeys/HotkeysProvider";
+export type { HotkeyConflict, HotkeyScope, HotkeysProviderProps, UseHotkeyOptions } from "./hotkeys/HotkeysProvider";
+export { locales, formatMessage } from "./locale/messages";
+export type { Messages, MessagesOverride } from "./locale/messages";
+export { validators, schemaValidator, issuesToErrors, standardSchemaAdapter, zodAdapter, yupAdapter } from "./utils/validation";
+export type { SchemaAdapter, ValidationIssue } from "./utils/validation";
+export type { VirtualizeOptions } from "./utils/virtualList";
+export { formatDate, parseDate, weekStartFor } from "./utils/dates";
+export type { DateRange, Weekday } from "./utils/dates";
+export { announce, clearAnnouncer, useAnnouncer } from "./utils/announcer";
+export type { Politeness } from "./utils/announcer";
@@ -0,0 +1,93 @@
+import React, { useMemo, useSyncExternalStore } from "react";
+import { en, locales, type Messages, type MessagesOverride } from "./messages";
+
+export type LocaleProviderProps = {
+  locale?: string;
+  messages?: MessagesOverride;
+  children: React.ReactNode;
+};
+
+export type LocaleContextValue = {
+  locale: string;
+  messages: Messages;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function numberFormat(locale: string, options?: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}|${options ? JSON.stringify(options) : ""}`;
+  let f = formatters.get(key);
+  if (!f) {
+    try {
+      f = new Intl.NumberFormat(locale, options);
+    } catch {
+      f = new Intl.NumberFormat("en", options);
+    }
+    formatters.set(key, f);
+  }
+  return f;
+}
+
+function catalogFor(locale: string): Messages {
+  return locales[locale] ?? locales[locale.split("-")[0]] ?? en;
+}
+
+function mergeMessages(base: Messages, over?: MessagesOverride): Messages {
+  if (!over) return base;
+  const out = { ...base } as Record<string, Record<string, string>>;
+  (Object.keys(over) as (keyof Messages)[]).forEach((k) => {
+    if (over[k]) out[k] = { ...out[k], ...(over[k] as Record<string, string>) };
+  });
+  return out as unknown as Messages;
+}
+
+function createLocaleValue(locale: string, messages: Messages): LocaleContextValue {
+  return { locale, messages, formatNumber: (value, options) => numberFormat(locale, options).format(value) };
+}
+
+const DEFAULT_LOCALE = createLocaleValue("en", en);
+
+let globalLocale = DEFAULT_LOCALE;
+const globalSubs = new Set<() => void>();
+const globalStore = {
+  get: () => globalLocale,
+  set: (v: LocaleContextValue) => {
+    globalLocale = v;
+    globalSubs.forEach((f) => f());
+  },
+  subscribe: (f: () => void) => {
+    globalSubs.add(f);
+    return () => {
+      globalSubs.delete(f);
+    };
+  },
+};
+
+const LocaleContext = React.createContext<LocaleContextValue | null>(null);
+
+export function useLocale(): LocaleContextValue {
+  const ctx = React.useContext(LocaleContext);
+  const global = useSyncExternalStore(globalStore.subscribe, globalStore.get, () => DEFAULT_LOCALE);
+  return ctx ?? global;
+}
+
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ locale, messages, children }) => {
+  const parent = React.useContext(LocaleContext);
+
+  const value = useMemo(() => {
+    const loc = locale ?? parent?.locale ?? "en";
+    const base = locale ? catalogFor(locale) : parent?.messages ?? en;
+    return createLocaleValue(loc, mergeMessages(base, messages));
+  }, [locale, messages, parent]);
+
+  React.useEffect(() => {
+    if (parent) return;
+    globalStore.set(value);
+    return () => {
+      if (globalStore.get() === value) globalStore.set(DEFAULT_LOCALE);
+    };
+  }, [parent, value]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
@@ -0,0 +1,486 @@
+import type { DeepPartial } from "../theme/theme";
+
+export type Messages = {
+  alert: { close: string };
+  autocomplete: { loading: string; noResults: string; results: string };
+  avatarGroup: { label: string; more: string };
+  breadcrumbs: { label: string };
+  calendar: { previousMonth: string; nextMonth: string };
+  chip: { delete: string };
+  commandPalette: { label: string; placeholder: string; noResults: string; recent: string; back: string };
+  dataTable: { empty: string; selectAll: string; selectRow: string; range: string; resize: string };
+  datePicker: { openCalendar: string; invalid: string };
+  dateSegments: { year: string; month: string; day: string; hour: string; minute: string; dayPeriod: string };
+  dateTimeField: { invalid: string };
+  dialog: { confirm: string; cancel: string };
+  kbd: { then: string };
+  notificationCenter: { title: string; empty: string; markAllRead: string; remove: string; unread: string };
+  pagination: {
+    label: string;
+    first: string;
+    previous: string;
+    next: string;
+    last: string;
+    page: string;
+    currentPage: string;
+    pageOf: string;
+  };
+  select: { placeholder: string; selected: string };
+  slider: { minimum: string; maximum: string };
+  stepper: { step: string; progress: string };
+  textField: { clear: string; showPassword: string; hidePassword: string };
+  themeDevtools: {
+    title: string;
+    label: string;
+    reset: string;
+    copy: string;
+    copied: string;
+    copyFailed: string;
+    tokens: string;
+    colors: string;
+    preview: string;
+    export: string;
+    spacing: string;
+    radius: string;
+    componentHeights: string;
+    fontSizes: string;
+    primaryPalette: string;
+    editPalette: string;
+    format: string;
+  };
+  timePicker: { chooseTime: string; invalid: string };
+  toast: { dismiss: string; region: string; repeated: string; showMore: string; showLess: string };
+  validation: {
+    required: string;
+    minLength: string;
+    maxLength: string;
+    pattern: string;
+    email: string;
+    number: string;
+    min: string;
+    max: string;
+    range: string;
+  };
+};
+
+export type MessagesOverride = DeepPartial<Messages>;
+
+export const en: Messages = {
+  alert: { close: "Close alert" },
+  autocomplete: { loading: "Loading…", noResults: "No Items Found", results: "Results: {count}" },
+  avatarGroup: { label: "Avatar group", more: "+{count} more" },
+  breadcrumbs: { label: "Breadcrumb" },
+  calendar: { previousMonth: "Previous month", nextMonth: "Next month" },
+  chip: { delete: "Delete" },
+  commandPalette: { label: "Command palette", placeholder: "Type a command or search…", noResults: "No results", recent: "Recent", back: "Back" },
+  dataTable: { empty: "No data", selectAll: "Select all rows", selectRow: "Select row", range: "{from}–{to} of {total}", resize: "Resize column" },
+  datePicker: { openCalendar: "Choose date", invalid: "Enter a valid date" },
+  dateSegments: { year: "Year", month: "Month", day: "Day", hour: "Hour", minute: "Minute", dayPeriod: "AM/PM" },
+  dateTimeField: { invalid: "Enter a valid date and time" },
+  dialog: { confirm: "OK", cancel: "Cancel" },
+  kbd: { then: "then" },
+  notificationCenter: { title: "Notifications", empty: "No notifications", markAllRead: "Mark all as read", remove: "Remove notification", unread: "Unread" },
+  pagination: {
+    label: "Pagination",
+    first: "First page",
+    previous: "Previous page",
+    next: "Next page",
+    last: "Last page",
+    page: "Go to page {page}",
+    currentPage: "Page {page}, current page",
+    pageOf: "Page {page} of {count}",
+  },
+  select: { placeholder: "Select…", selected: "{count} selected" },
+  slider: { minimum: "Minimum", maximum: "Maximum" },
+  stepper: { step: "Step {step}", progress: "Step {step} of {count}" },
+  textField: { clear: "Clear", showPassword: "Show password", hidePassword: "Hide password" },
+  themeDevtools: {
+    title: "Theme",
+    label: "Theme devtools",
+    reset: "Reset",
+    copy: "Copy",
+    copied: "Copied",
+    copyFailed: "Copy failed",
+    tokens: "Tokens",
+    colors: "Colors",
+    preview: "Preview",
+    export: "Export",
+    spacing: "Spacing",
+    radius: "Radius",
+    componentHeights: "Component heights",
+    fontSizes: "Font sizes",
+    primaryPalette: "Primary palette",
+    editPalette: "Edit palette ({mode})",
+    format: "Format",
+  },
+  timePicker: { chooseTime: "Choose time", invalid: "Enter a valid time" },
+  toast: {
+    dismiss: "Close",
+    region: "Notifications",
+    repeated: "Shown {count} times",
+    showMore: "Show {count} more",
+    showLess: "Show less",
+  },
+  validation: {
+    required: "Required",
+    minLength: "Must be at least {min} characters",
+    maxLength: "Must be at most {max} characters",
+    pattern: "Invalid format",
+    email: "Enter a valid email address",
+    number: "Enter a number",
+    min: "Must be at least {min}",
+    max: "Must be at most {max}",
+    range: "Must be between {min} and {max}",
+  },
+};
+
+export const de: Messages = {
+  alert: { close: "Hinweis schließen" },
+  autocomplete: { loading: "Wird geladen…", noResults: "Keine Einträge gefunden", results: "Ergebnisse: {count}" },
+  avatarGroup: { label: "Avatargruppe", more: "+{count} weitere" },
+  breadcrumbs: { label: "Brotkrumen" },
+  calendar: { previousMonth: "Vorheriger Monat", nextMonth: "Nächster Monat" },
+  chip: { delete: "Entfernen" },
+  commandPalette: { label: "Befehlspalette", placeholder: "Befehl eingeben oder suchen…", noResults: "Keine Ergebnisse", recent: "Zuletzt verwendet", back: "Zurück" },
+  dataTable: { empty: "Keine Daten", selectAll: "Alle Zeilen auswählen", selectRow: "Zeile auswählen", range: "{from}–{to} von {total}", resize: "Spaltenbreite ändern" },
+  datePicker: { openCalendar: "Datum auswählen", invalid: "Gültiges Datum eingeben" },
+  dateSegments: { year: "Jahr", month: "Monat", day: "Tag", hour: "Stunde", minute: "Minute", dayPeriod: "AM/PM" },
+  dateTimeField: { invalid: "Gültiges Datum und Uhrzeit eingeben" },
+  dialog: { confirm: "OK", cancel: "Abbrechen" },
+  kbd: { then: "dann" },
+  notificationCenter: { title: "Benachrichtigungen", empty: "Keine Benachrichtigungen", markAllRead: "Alle als gelesen markieren", remove: "Benachrichtigung entfernen", unread: "Ungelesen" },
+  pagination: {
+    label: "Seitennavigation",
+    first: "Erste Seite",
+    previous: "Vorherige Seite",
+    next: "Nächste Seite",
+    last: "Letzte Seite",
+    page: "Zu Seite {page}",
+    currentPage: "Seite {page}, aktuelle Seite",
+    pageOf: "Seite {page} von {count}",
+  },
+  select: { placeholder: "Auswählen…", selected: "{count} ausgewählt" },
+  slider: { minimum: "Minimum", maximum: "Maximum" },
+  stepper: { step: "Schritt {step}", progress: "Schritt {step} von {count}" },
+  textField: { clear: "Leeren", showPassword: "Passwort anzeigen", hidePassword: "Passwort verbergen" },
+  themeDevtools: {
+    title: "Theme",
+    label: "Theme-Entwicklertools",
+    reset: "Zurücksetzen",
+    copy: "Kopieren",
+    copied: "Kopiert",
+    copyFailed: "Kopieren fehlgeschlagen",
+    tokens: "Tokens",
+    colors: "Farben",
+    preview: "Vorschau",
+    export: "Export",
+    spacing: "Abstände",
+    radius: "Radien",
+    componentHeights: "Komponentenhöhen",
+    fontSizes: "Schriftgrößen",
+    primaryPalette: "Primärpalette",
+    editPalette: "Palette bearbeiten ({mode})",
+    format: "Format",
+  },
+  timePicker: { chooseTime: "Uhrzeit auswählen", invalid: "Gültige Uhrzeit eingeben" },
+  toast: {
+    dismiss: "Schließen",
+    region: "Benachrichtigungen",
+    repeated: "{count}-mal angezeigt",
+    showMore: "{count} weitere anzeigen",
+    showLess: "Weniger anzeigen",
+  },
+  validation: {
+    required: "Pflichtfeld",
+    minLength: "Mindestens {min} Zeichen",
+    maxLength: "Höchstens {max} Zeichen",
+    pattern: "Ungültiges Format",
+    email: "Gültige E-Mail-Adresse eingeben",
+    number: "Zahl eingeben",
+    min: "Mindestens {min}",
+    max: "Höchstens {max}",
+    range: "Zwischen {min} und {max}",
+  },
+};
+
+export const fr: Messages = {
+  alert: { close: "Fermer l’alerte" },
+  autocomplete: { loading: "Chargement…", noResults: "Aucun élément trouvé", results: "Résultats : {count}" },
+  avatarGroup: { label: "Groupe d’avatars", more: "+{count} de plus" },
+  breadcrumbs: { label: "Fil d’Ariane" },
+  calendar: { previousMonth: "Mois précédent", nextMonth: "Mois suivant" },
+  chip: { delete: "Supprimer" },
+  commandPalette: { label: "Palette de commandes", placeholder: "Saisissez une commande ou recherchez…", noResults: "Aucun résultat", recent: "Récents", back: "Retour" },
+  dataTable: { empty: "Aucune donnée", selectAll: "Sélectionner toutes les lignes", selectRow: "Sélectionner la ligne", range: "{from}–{to} sur {total}", resize: "Redimensionner la colonne" },
+  datePicker: { openCalendar: "Choisir une date", invalid: "Saisissez une date valide" },
+  dateSegments: { year: "Année", month: "Mois", day: "Jour", hour: "Heure", minute: "Minute", dayPeriod: "AM/PM" },
+  dateTimeField: { invalid: "Saisissez une date et une heure valides" },
+  dialog: { confirm: "OK", cancel: "Annuler" },
+  kbd: { then: "puis" },
+  notificationCenter: { title: "Notifications", empty: "Aucune notification", markAllRead: "Tout marquer comme lu", remove: "Supprimer la notification", unread: "Non lu" },
+  pagination: {
+    label: "Pagination",
+    first: "Première page",
+    previous: "Page précédente",
+    next: "Page suivante",
+    last: "Dernière page",
+    page: "Aller à la page {page}",
+    currentPage: "Page {page}, page actuelle",
+    pageOf: "Page {page} sur {count}",
+  },
+  select: { placeholder: "Sélectionner…", selected: "{count} sélectionné(s)" },
+  slider: { minimum: "Minimum", maximum: "Maximum" },
+  stepper: { step: "Étape {step}", progress: "Étape {step} sur {count}" },
+  textField: { clear: "Effacer", showPassword: "Afficher le mot de passe", hidePassword: "Masquer le mot de passe" },
+  themeDevtools: {
+    title: "Thème",
+    label: "Outils de thème",
+    reset: "Réinitialiser",
+    copy: "Copier",
+    copied: "Copié",
+    copyFailed: "Échec de la copie",
+    tokens: "Jetons",
+    colors: "Couleurs",
+    preview: "Aperçu",
+    export: "Export",
+    spacing: "Espacements",
+    radius: "Rayons",
+    componentHeights: "Hauteurs des composants",
+    fontSizes: "Tailles de police",
+    primaryPalette: "Palette principale",
+    editPalette: "Modifier la palette ({mode})",
+    format: "Format",
+  },
+  timePicker: { chooseTime: "Choisir une heure", invalid: "Saisissez une heure valide" },
+  toast: {
+    dismiss: "Fermer",
+    region: "Notifications",
+    repeated: "Affiché {count} fois",
+    showMore: "Afficher {count} de plus",
+    showLess: "Afficher moins",
+  },
+  validation: {
+    required: "Champ obligatoire",
+    minLength: "Au moins {min} caractères",
+    maxLength: "Au plus {max} caractères",
+    pattern: "Format invalide",
+    email: "Saisissez une adresse e-mail valide",
+    number: "Saisissez un nombre",
+    min: "Doit être au moins {min}",
+    max: "Doit être au plus {max}",
+    range: "Doit être entre {min} et {max}",
+  },
+};
+
+export const es: Messages = {
+  alert: { close: "Cerrar alerta" },
+  autocomplete: { loading: "Cargando…", noResults: "No se encontraron elementos", results: "Resultados: {count}" },
+  avatarGroup: { label: "Grupo de avatares", more: "+{count} más" },
+  breadcrumbs: { label: "Ruta de navegación" },
+  calendar: { previousMonth: "Mes anterior", nextMonth: "Mes siguiente" },
+  chip: { delete: "Eliminar" },
+  commandPalette: { label: "Paleta de comandos", placeholder: "Escribe un comando o busca…", noResults: "Sin resultados", recent: "Recientes", back: "Atrás" },
+  dataTable: { empty: "Sin datos", selectAll: "Seleccionar todas las filas", selectRow: "Seleccionar fila", range: "{from}–{to} de {total}", resize: "Cambiar ancho de columna" },
+  datePicker: { openCalendar: "Elegir fecha", invalid: "Introduce una fecha válida" },
+  dateSegments: { year: "Año", month: "Mes", day: "Día", hour: "Hora", minute: "Minuto", dayPeriod: "a. m./p. m." },
+  dateTimeField: { invalid: "Introduce una fecha y hora válidas" },
+  dialog: { confirm: "Aceptar", cancel: "Cancelar" },
+  kbd: { then: "luego" },
+  notificationCenter: { title: "Notificaciones", empty: "No hay notificaciones", markAllRead: "Marcar todo como leído", remove: "Eliminar notificación", unread: "No leído" },
+  pagination: {
+    label: "Paginación",
+    first: "Primera página",
+    previous: "Página anterior",
+    next: "Página siguiente",
+    last: "Última página",
+    page: "Ir a la página {page}",
+    currentPage: "Página {page}, página actual",
+    pageOf: "Página {page} de {count}",
+  },
+  select: { placeholder: "Seleccionar…", selected: "{count} seleccionados" },
+  slider: { minimum: "Mínimo", maximum: "Máximo" },
+  stepper: { step: "Paso {step}", progress: "Paso {step} de {count}" },
+  textField: { clear: "Borrar", showPassword: "Mostrar contraseña", hidePassword: "Ocultar contraseña" },
+  themeDevtools: {
+    title: "Tema",
+    label: "Herramientas de tema",
+    reset: "Restablecer",
+    copy: "Copiar",
+    copied: "Copiado",
+    copyFailed: "Error al copiar",
+    tokens: "Tokens",
+    colors: "Colores",
+    preview: "Vista previa",
+    export: "Exportar",
+    spacing: "Espaciado",
+    radius: "Radios",
+    componentHeights: "Alturas de componentes",
+    fontSizes: "Tamaños de fuente",
+    primaryPalette: "Paleta principal",
+    editPalette: "Editar paleta ({mode})",
+    format: "Formato",
+  },
+  timePicker: { chooseTime: "Elegir hora", invalid: "Introduce una hora válida" },
+  toast: {
+    dismiss: "Cerrar",
+    region: "Notificaciones",
+    repeated: "Mostrado {count} veces",
+    showMore: "Mostrar {count} más",
+    showLess: "Mostrar menos",
+  },
+  validation: {
+    required: "Obligatorio",
+    minLength: "Debe tener al menos {min} caracteres",
+    maxLength: "Debe tener como máximo {max} caracteres",
+    pattern: "Formato no válido",
+    email: "Introduce un correo electrónico válido",
+    number: "Introduce un número",
+    min: "Debe ser al menos {min}",
+    max: "Debe ser como máximo {max}",
+    range: "Debe estar entre {min} y {max}",
+  },
+};
+
+export const ar: Messages = {
+  alert: { close: "إغلاق التنبيه" },
+  autocomplete: { loading: "جارٍ التحميل…", noResults: "لم يتم العثور على عناصر", results: "النتائج: {count}" },
+  avatarGroup: { label: "مجموعة الصور الرمزية", more: "+{count} أخرى" },
+  breadcrumbs: { label: "مسار التنقل" },
+  calendar: { previousMonth: "الشهر السابق", nextMonth: "الشهر التالي" },
+  chip: { delete: "حذف" },
+  commandPalette: { label: "لوحة الأوامر", placeholder: "اكتب أمرًا أو ابحث…", noResults: "لا توجد نتائج", recent: "الأخيرة", back: "رجوع" },
+  dataTable: { empty: "لا توجد بيانات", selectAll: "تحديد كل الصفوف", selectRow: "تحديد الصف", range: "{from}–{to} من {total}", resize: "تغيير عرض العمود" },
+  datePicker: { openCalendar: "اختر التاريخ", invalid: "أدخل تاريخًا صالحًا" },
+  dateSegments: { year: "السنة", month: "الشهر", day: "اليوم", hour: "الساعة", minute: "الدقيقة", dayPeriod: "ص/م" },
+  dateTimeField: { invalid: "أدخل تاريخًا ووقتًا صالحين" },
+  dialog: { confirm: "موافق", cancel: "إلغاء" },
+  kbd: { then: "ثم" },
+  notificationCenter: { title: "الإشعارات", empty: "لا توجد إشعارات", markAllRead: "تعليم الكل كمقروء", remove: "إزالة الإشعار", unread: "غير مقروء" },
+  pagination: {
+    label: "ترقيم الصفحات",
+    first: "الصفحة الأولى",
+    previous: "الصفحة السابقة",
+    next: "الصفحة التالية",
+    last: "الصفحة الأخيرة",
+    page: "الانتقال إلى الصفحة {page}",
+    currentPage: "الصفحة {page}، الصفحة الحالية",
+    pageOf: "الصفحة {page} من {count}",
+  },
+  select: { placeholder: "اختر…", selected: "تم تحديد {count}" },
+  slider: { minimum: "الحد الأدنى", maximum: "الحد الأقصى" },
+  stepper: { step: "الخطوة {step}", progress: "الخطوة {step} من {count}" },
+  textField: { clear: "مسح", showPassword: "إظهار كلمة المرور", hidePassword: "إخفاء كلمة المرور" },
+  themeDevtools: {
+    title: "السمة",
+    label: "أدوات تطوير السمة",
+    reset: "إعادة تعيين",
+    copy: "نسخ",
+    copied: "تم النسخ",
+    copyFailed: "تعذّر النسخ",
+    tokens: "الرموز",
+    colors: "الألوان",
+    preview: "معاينة",
+    export: "تصدير",
+    spacing: "المسافات",
+    radius: "الانحناءات",
+    componentHeights: "ارتفاعات المكونات",
+    fontSizes: "أحجام الخط",
+    primaryPalette: "اللوحة الأساسية",
+    editPalette: "تعديل اللوحة ({mode})",
+    format: "التنسيق",
+  },
+  timePicker: { chooseTime: "اختر الوقت", invalid: "أدخل وقتًا صالحًا" },
+  toast: {
+    dismiss: "إغلاق",
+    region: "الإشعارات",
+    repeated: "عُرض {count} مرات",
+    showMore: "عرض {count} أخرى",
+    showLess: "عرض أقل",
+  },
+  validation: {
+    required: "حقل مطلوب",
+    minLength: "يجب ألا يقل عن {min} أحرف",
+    maxLength: "يجب ألا يزيد عن {max} أحرف",
+    pattern: "تنسيق غير صالح",
+    email: "أدخل بريدًا إلكترونيًا صالحًا",
+    number: "أدخل رقمًا",
+    min: "يجب ألا يقل عن {min}",
+    max: "يجب ألا يزيد عن {max}",
+    range: "يجب أن يكون بين {min} و{max}",
+  },
+};
+
+export const he: Messages = {
+  alert: { close: "סגירת התראה" },
+  autocomplete: { loading: "טוען…", noResults: "לא נמצאו פריטים", results: "תוצאות: {count}" },
+  avatarGroup: { label: "קבוצת אווטרים", more: "+{count} נוספים" },
+  breadcrumbs: { label: "פירורי לחם" },
+  calendar: { previousMonth: "החודש הקודם", nextMonth: "החודש הבא" },
+  chip: { delete: "מחיקה" },
+  commandPalette: { label: "לוח פקודות", placeholder: "הקלידו פקודה או חפשו…", noResults: "אין תוצאות", recent: "אחרונים", back: "חזרה" },
+  dataTable: { empty: "אין נתונים", selectAll: "בחירת כל השורות", selectRow: "בחירת שורה", range: "{from}–{to} מתוך {total}", resize: "שינוי רוחב עמודה" },
+  datePicker: { openCalendar: "בחירת תאריך", invalid: "יש להזין תאריך תקין" },
+  dateSegments: { year: "שנה", month: "חודש", day: "יום", hour: "שעה", minute: "דקה", dayPeriod: "AM/PM" },
+  dateTimeField: { invalid: "יש להזין תאריך ושעה תקינים" },
+  dialog: { confirm: "אישור", cancel: "ביטול" },
+  kbd: { then: "ואז" },
+  notificationCenter: { title: "התראות", empty: "אין התראות", markAllRead: "סמן הכול כנקרא", remove: "הסר התראה", unread: "לא נקרא" },
+  pagination: {
+    label: "עימוד",
+    first: "עמוד ראשון",
+    previous: "עמוד קודם",
+    next: "עמוד הבא",
+    last: "עמוד אחרון",
+    page: "מעבר לעמוד {page}",
+    currentPage: "עמוד {page}, העמוד הנוכחי",
+    pageOf: "עמוד {page} מתוך {count}",
+  },
+  select: { placeholder: "בחירה…", selected: "{count} נבחרו" },
+  slider: { minimum: "מינימום", maximum: "מקסימום" },
+  stepper: { step: "שלב {step}", progress: "שלב {step} מתוך {count}" },
+  textField: { clear: "ניקוי", showPassword: "הצגת סיסמה", hidePassword: "הסתרת סיסמה" },
+  themeDevtools: {
+    title: "ערכת נושא",
+    label: "כלי פיתוח לערכת נושא",
+    reset: "איפוס",
+    copy: "העתקה",
+    copied: "הועתק",
+    copyFailed: "ההעתקה נכשלה",
+    tokens: "אסימונים",
+    colors: "צבעים",
+    preview: "תצוגה מקדימה",
+    export: "ייצוא",
+    spacing: "ריווח",
+    radius: "רדיוסים",
+    componentHeights: "גובהי רכיבים",
+    fontSizes: "גדלי גופן",
+    primaryPalette: "פלטה ראשית",
+    editPalette: "עריכת פלטה ({mode})",
+    format: "תבנית",
+  },
+  timePicker: { chooseTime: "בחירת שעה", invalid: "יש להזין שעה תקינה" },
+  toast: {
+    dismiss: "סגירה",
+    region: "התראות",
+    repeated: "הוצג {count} פעמים",
+    showMore: "הצג עוד {count}",
+    showLess: "הצג פחות",
+  },
+  validation: {
+    required: "שדה חובה",
+    minLength: "לפחות {min} תווים",
+    maxLength: "לכל היותר {max} תווים",
+    pattern: "תבנית לא תקינה",
+    email: "יש להזין כתובת אימייל תקינה",
+    number: "יש להזין מספר",
+    min: "לפחות {min}",
+    max: "לכל היותר {max}",
+    range: "בין {min} ל-{max}",
+  },
+};
+
+export const locales: Record<string, Messages> = { en, de, fr, es, ar, he };
+
+export function formatMessage(template: string, values: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (m, k: string) => (k in values ? String(values[k]) : m));
+}
@@ -0,0 +1,75 @@
+import React from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { ThemeProvider } from "../theme/ThemeProvider";
+import { DataTable, type DataTableColumn } from "../components/DataTable";
+
+type Row = { id: string; name: string; joined: Date };
+
+const rows: Row[] = [
+  { id: "a", name: "Carol", joined: new Date(2024, 2, 5) },
+  { id: "b", name: "Alice", joined: new Date(2023, 0, 20) },
+  { id: "c", name: "Bob", joined: new Date(2024, 11, 1) },
+  { id: "d", name: "Dave", joined: new Date(2022, 6, 14) },
+];
+
+const columns: DataTableColumn<Row>[] = [
+  { id: "name", header: "Name", sortable: true },
+  { id: "joined", header: "Joined", sortable: true },
+];
+
+const renderTable = (props: Partial<React.ComponentProps<typeof DataTable<Row>>> = {}) =>
+  render(
+    <ThemeProvider>
+      <DataTable data={rows} columns={columns} aria-label="People" {...props} />
+    </ThemeProvider>
+  );
+
+const names = () => screen.getAllByRole("row").slice(1).map((r) => within(r).getAllByRole("cell").at(-2)!.textContent);
+const header = (name: string) => screen.getByRole("columnheader", { name: new RegExp(name) });
+
+describe("DataTable sorting", () => {
+  it("cycles a column through ascending, descending and unsorted", () => {
+    renderTable();
+    const button = within(header("Name")).getByRole("button");
+
+    fireEvent.click(button);
+    expect(header("Name")).toHaveAttribute("aria-sort", "ascending");
+    expect(names()).toEqual(["Alice", "Bob", "Carol", "Dave"]);
+
+    fireEvent.click(button);
+    expect(header("Name")).toHaveAttribute("aria-sort", "descending");
+    expect(names()).toEqual(["Dave", "Carol", "Bob", "Alice"]);
+
+    fireEvent.click(button);
+    expect(header("Name")).toHaveAttribute("aria-sort", "none");
+    expect(names()).toEqual(["Carol", "Alice", "Bob", "Dave"]);
+  });
+
+  it("sorts and renders Date values without a cell renderer", () => {
+    renderTable();
+    fireEvent.click(within(header("Joined")).getByRole("button"));
+    expect(names()).toEqual(["Dave", "Alice", "Carol", "Bob"]);
+
+    const firstDate = within(screen.getAllByRole("row")[1]).getAllByRole("cell").at(-1)!;
+    expect(firstDate).toHaveTextContent(new Intl.DateTimeFormat("en", { dateStyle: "medium" }).format(rows[3].joined));
+  });
+});
+
+describe("DataTable selection", () => {
+  it("selects the range between the anchor and a shift-clicked row", () => {
+    const onSelectionChange = vi.fn();
+    renderTable({ selectable: true, onSelectionChange });
+    // The hidden native input shares the accessible name; the label is the visible control.
+    const boxes = screen.getAllByRole("checkbox", { name: "Select row" }).filter((el) => el.tagName === "LABEL");
+
+    fireEvent.click(boxes[0]);
+    expect(onSelectionChange).toHaveBeenLastCalledWith(["a"]);
+
+    fireEvent.mouseDown(boxes[2], { shiftKey: true });
+    fireEvent.click(boxes[2], { shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(["a", "b", "c"]);
+    boxes.slice(0, 3).forEach((box) => expect(box).toBeChecked());
+    expect(boxes[3]).not.toBeChecked();
+  });
+});
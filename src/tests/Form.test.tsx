@@ -0,0 +1,256 @@
+import React from "react";
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { ThemeProvider } from "../theme/ThemeProvider";
+import { LocaleProvider } from "../locale/LocaleProvider";
+import { de } from "../locale/messages";
+import { validators } from "../utils/validation";
+import { Form, FormField, useForm, type FormApi } from "../components/Form";
+import { Autocomplete } from "../components/Autocomplete";
+import { Checkbox } from "../components/Checkbox";
+import { CodeField } from "../components/CodeField";
+import { RadioGroup, RadioItem } from "../components/RadioGroup";
+import { Select, SelectItem } from "../components/Select";
+import { Slider } from "../components/Slider";
+import { Switch } from "../components/Switch";
+import { TextArea } from "../components/TextArea";
+import { TextField } from "../components/TextField";
+
+type Values = Record<string, unknown>;
+
+function renderForm(field: React.ReactElement, defaultValues: Values, options: Parameters<typeof useForm>[0] = {}) {
+  const ref: { current: FormApi<Values> | null } = { current: null };
+  function Harness() {
+    const form = useForm<Values>({ defaultValues, ...options });
+    ref.current = form;
+    return <Form form={form}>{field}</Form>;
+  }
+  const utils = render(
+    <ThemeProvider>
+      <Harness />
+    </ThemeProvider>
+  );
+  return { ...utils, form: () => ref.current! };
+}
+
+const hidden = (container: HTMLElement, name: string) => container.querySelector<HTMLInputElement>(`input[name="${name}"]`)!;
+
+describe("FormField bindings", () => {
+  it("binds TextField", () => {
+    const { form } = renderForm(
+      <FormField name="email">
+        <TextField label="Email" />
+      </FormField>,
+      { email: "a@b.c" }
+    );
+    const input = screen.getByLabelText("Email") as HTMLInputElement;
+    expect(input.value).toBe("a@b.c");
+    fireEvent.change(input, { target: { value: "x@y.z" } });
+    expect(form().values.email).toBe("x@y.z");
+  });
+
+  it("binds TextArea", () => {
+    const { container, form } = renderForm(
+      <FormField name="bio">
+        <TextArea />
+      </FormField>,
+      { bio: "hi" }
+    );
+    const area = container.querySelector("textarea")!;
+    expect(area.value).toBe("hi");
+    fireEvent.change(area, { target: { value: "hello" } });
+    expect(form().values.bio).toBe("hello");
+  });
+
+  it("binds Checkbox and Switch", () => {
+    const { container, form } = renderForm(
+      <>
+        <FormField name="terms">
+          <Checkbox label="Terms" />
+        </FormField>
+        <FormField name="news">
+          <Switch label="News" />
+        </FormField>
+      </>,
+      { terms: false, news: true }
+    );
+    const checkbox = container.querySelector('[role="checkbox"]')!;
+    const toggle = container.querySelector('[role="switch"]')!;
+    expect(checkbox).toHaveAttribute("aria-checked", "false");
+    expect(toggle).toHaveAttribute("aria-checked", "true");
+    fireEvent.click(checkbox);
+    fireEvent.click(toggle);
+    expect(form().values).toMatchObject({ terms: true, news: false });
+  });
+
+  it("binds Select", () => {
+    const { container, form } = renderForm(
+      <FormField name="fruit">
+        <Select label="Fruit">
+          <SelectItem value="a">Apple</SelectItem>
+          <SelectItem value="b">Banana</SelectItem>
+        </Select>
+      </FormField>,
+      { fruit: "a" }
+    );
+    expect(hidden(container, "fruit").value).toBe("a");
+    act(() => form().setValue("fruit", "b"));
+    expect(hidden(container, "fruit").value).toBe("b");
+    act(() => form().reset());
+    expect(hidden(container, "fruit").value).toBe("a");
+  });
+
+  it("binds RadioGroup", () => {
+    const { form } = renderForm(
+      <FormField name="size">
+        <RadioGroup>
+          <RadioItem value="s">Small</RadioItem>
+          <RadioItem value="l">Large</RadioItem>
+        </RadioGroup>
+      </FormField>,
+      { size: "s" }
+    );
+    const [small, large] = screen.getAllByRole("radio");
+    expect(small).toHaveAttribute("aria-checked", "true");
+    fireEvent.click(large);
+    expect(form().values.size).toBe("l");
+    expect(large).toHaveAttribute("aria-checked", "true");
+  });
+
+  it("binds Slider", () => {
+    const { form } = renderForm(
+      <FormField name="volume">
+        <Slider />
+      </FormField>,
+      { volume: 30 }
+    );
+    const thumb = screen.getByRole("slider");
+    expect(thumb).toHaveAttribute("aria-valuenow", "30");
+    fireEvent.keyDown(thumb, { key: "ArrowRight" });
+    expect(form().values.volume).toBe(31);
+    act(() => form().setValue("volume", 60));
+    expect(thumb).toHaveAttribute("aria-valuenow", "60");
+  });
+
+  it("binds CodeField", () => {
+    const { container, form } = renderForm(
+      <FormField name="otp">
+        <CodeField length={4} />
+      </FormField>,
+      { otp: "12" }
+    );
+    expect(hidden(container, "otp").value).toBe("12");
+    act(() => form().setValue("otp", "1234"));
+    expect(hidden(container, "otp").value).toBe("1234");
+  });
+
+  it("binds single and multiple Autocomplete", () => {
+    const items = [
+      { value: "ber", title: "Berlin" },
+      { value: "par", title: "Paris" },
+    ];
+    const { container, form } = renderForm(
+      <>
+        <FormField name="city">
+          <Autocomplete items={items} label="City" />
+        </FormField>
+        <FormField name="cities">
+          <Autocomplete items={items} label="Cities" multiple />
+        </FormField>
+      </>,
+      { city: "par", cities: ["ber"] }
+    );
+    expect((screen.getByLabelText("City") as HTMLInputElement).value).toBe("Paris");
+    expect(hidden(container, "city").value).toBe("par");
+    expect(hidden(container, "cities").value).toBe("ber");
+    act(() => form().setValue("city", "ber"));
+    expect((screen.getByLabelText("City") as HTMLInputElement).value).toBe("Berlin");
+    act(() => form().setValue("city", null));
+    expect((screen.getByLabelText("City") as HTMLInputElement).value).toBe("");
+  });
+
+  it("shows the error under inputs without helperText", async () => {
+    const { form } = renderForm(
+      <FormField name="fruit" validate={(v) => !v && "Pick a fruit"}>
+        <Select label="Fruit">
+          <SelectItem value="a">Apple</SelectItem>
+        </Select>
+      </FormField>,
+      {}
+    );
+    await act(() => form().handleSubmit());
+    expect(screen.getByRole("alert")).toHaveTextContent("Pick a fruit");
+  });
+});
+
+describe("useForm failures", () => {
+  it("records a rejected async validator as the field error", async () => {
+    const { form } = renderForm(
+      <FormField name="user" validate={() => Promise.reject(new Error("Service unavailable"))}>
+        <TextField label="User" />
+      </FormField>,
+      { user: "" },
+      { validateOn: "change" }
+    );
+    fireEvent.change(screen.getByLabelText("User"), { target: { value: "ada" } });
+    await waitFor(() => expect(form().errors.user).toBe("Service unavailable"));
+    expect(form().isValidating).toBe(false);
+  });
+
+  it("keeps a throwing onSubmit in submitError", async () => {
+    const boom = new Error("Server error");
+    const onSubmit = vi.fn(() => Promise.reject(boom));
+    const { form } = renderForm(
+      <FormField name="name">
+        <TextField label="Name" />
+      </FormField>,
+      { name: "x" },
+      { onSubmit }
+    );
+    await act(() => form().handleSubmit());
+    expect(onSubmit).toHaveBeenCalledOnce();
+    expect(form().submitError).toBe(boom);
+    expect(form().isSubmitting).toBe(false);
+  });
+});
+
+describe("native form reset", () => {
+  it("resets unnamed controls without submitting them", () => {
+    const { container } = render(
+      <ThemeProvider>
+        <form>
+          <Switch label="Alerts" defaultChecked />
+          <Slider label="Volume" defaultValue={20} />
+        </form>
+      </ThemeProvider>
+    );
+    const form = container.querySelector("form")!;
+    const alerts = screen.getByRole("switch");
+    const thumb = screen.getByRole("slider");
+
+    fireEvent.click(alerts);
+    fireEvent.keyDown(thumb, { key: "ArrowRight" });
+    expect(alerts).not.toBeChecked();
+    expect(thumb).toHaveAttribute("aria-valuenow", "21");
+
+    act(() => form.reset());
+    expect(alerts).toBeChecked();
+    expect(thumb).toHaveAttribute("aria-valuenow", "20");
+    expect(form.querySelectorAll("input[name]")).toHaveLength(0);
+  });
+});
+
+describe("validation messages", () => {
+  it("come from the LocaleProvider around the field", async () => {
+    const { form } = renderForm(
+      <LocaleProvider locale="de">
+        <FormField name="name" validate={validators.required()}>
+          <TextField label="Name" />
+        </FormField>
+      </LocaleProvider>,
+      { name: "" }
+    );
+    await act(() => form().validate());
+    expect(form().errors.name).toBe(de.validation.required);
+  });
+});
@@ -0,0 +1,46 @@
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { ThemeProvider } from "../theme/ThemeProvider";
+import { Slider } from "../components/Slider";
+
+const renderRange = (props: Partial<React.ComponentProps<typeof Slider<[number, number]>>>) =>
+  render(
+    <ThemeProvider>
+      <Slider<[number, number]> label="Price" minDistance={10} {...props} />
+    </ThemeProvider>
+  );
+
+const values = () => screen.getAllByRole("slider").map((t) => Number(t.getAttribute("aria-valuenow")));
+
+describe("range Slider minDistance", () => {
+  it("pushes thumbs that start too close apart, within min and max", () => {
+    const { unmount } = renderRange({ defaultValue: [42, 40] });
+    expect(values()).toEqual([40, 50]);
+    unmount();
+
+    renderRange({ defaultValue: [95, 98] });
+    expect(values()).toEqual([90, 100]);
+  });
+
+  it("stops a thumb minDistance short of the other", () => {
+    const onChange = vi.fn();
+    renderRange({ defaultValue: [20, 60], onChange });
+    const [start, end] = screen.getAllByRole("slider");
+    expect(start).toHaveAttribute("aria-valuemax", "50");
+    expect(end).toHaveAttribute("aria-valuemin", "30");
+
+    fireEvent.keyDown(start, { key: "End" });
+    expect(values()).toEqual([50, 60]);
+    fireEvent.keyDown(end, { key: "Home" });
+    expect(values()).toEqual([50, 60]);
+    fireEvent.keyDown(end, { key: "ArrowLeft" });
+    expect(values()).toEqual([50, 60]);
+    expect(onChange).toHaveBeenLastCalledWith([50, 60]);
+  });
+
+  it("keeps a controlled value apart", () => {
+    renderRange({ value: [70, 72] });
+    expect(values()).toEqual([70, 80]);
+  });
+});
@@ -0,0 +1,65 @@
+import React from "react";
+import { act, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { ThemeProvider } from "../theme/ThemeProvider";
+import { Toaster, toast } from "../components/Toast";
+import { notifications } from "../components/NotificationCenter";
+
+const renderToaster = (props: React.ComponentProps<typeof Toaster>) =>
+  render(
+    <ThemeProvider>
+      <Toaster {...props} />
+    </ThemeProvider>
+  );
+
+const items = () => Array.from(document.querySelectorAll(".plainframe-ui-toast-item"));
+const announced = () => Array.from(document.querySelectorAll('[class^="plainframe-ui-announcer-"] > div'), (n) => n.textContent);
+const wait = (ms: number) => act(() => new Promise<void>((r) => setTimeout(r, ms)));
+
+describe("toast deduplication", () => {
+  afterEach(() => toast.clear());
+
+  it("collapses toasts with the same key into one with a counter", async () => {
+    renderToaster({ name: "dedupe" });
+    act(() => {
+      toast.to("dedupe", "Saved", { dedupeKey: "save" });
+      toast.to("dedupe", "Saved", { dedupeKey: "save" });
+      toast.to("dedupe", "Saved", { dedupeKey: "save" });
+    });
+
+    await waitFor(() => expect(items()).toHaveLength(1));
+    expect(screen.getByLabelText("Shown 3 times")).toHaveTextContent("×3");
+  });
+});
+
+describe("toast persistence", () => {
+  afterEach(() => {
+    toast.clear();
+    sessionStorage.clear();
+  });
+
+  it("restores saved toasts after a remount without announcing them again", async () => {
+    const first = renderToaster({ name: "persisted", persist: true, inbox: true });
+    act(() => void toast.to("persisted", { status: "success", title: "Uploaded", duration: 60_000 }));
+    await waitFor(() => expect(items()).toHaveLength(1));
+
+    const saved = JSON.parse(sessionStorage.getItem("plainframe-ui-toasts:persisted") ?? "[]");
+    expect(saved).toMatchObject([{ status: "success", title: "Uploaded" }]);
+    await wait(150);
+    expect(announced()).toContain("Uploaded");
+    const inbox = notifications.getAll().length;
+
+    // A reload starts from empty stores; unmounting first keeps the saved copy.
+    first.unmount();
+    act(() => toast.clear("persisted"));
+    await wait(200);
+    document.querySelectorAll('[class^="plainframe-ui-announcer-"]').forEach((r) => r.replaceChildren());
+
+    renderToaster({ name: "persisted", persist: true, inbox: true });
+    await waitFor(() => expect(items()).toHaveLength(1));
+    expect(items()[0]).toHaveTextContent("Uploaded");
+    await wait(150);
+    expect(announced()).toEqual([]);
+    expect(notifications.getAll()).toHaveLength(inbox);
+  });
+});
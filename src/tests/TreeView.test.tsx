@@ -0,0 +1,55 @@
+import React from "react";
+import { fireEvent, render } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { ThemeProvider } from "../theme/ThemeProvider";
+import { TreeView, moveTreeNode, type TreeNode } from "../components/TreeView";
+
+const items: TreeNode[] = [
+  {
+    id: "docs",
+    label: "Docs",
+    children: [
+      { id: "a", label: "A" },
+      { id: "b", label: "B" },
+    ],
+  },
+  { id: "c", label: "C" },
+];
+
+const ids = (nodes: TreeNode[]): unknown => nodes.map((n) => (n.children ? [n.id, ids(n.children)] : n.id));
+
+describe("TreeView checkboxes", () => {
+  it("cascades checks down and derives mixed parents", () => {
+    const onCheckedChange = vi.fn();
+    const { container } = render(
+      <ThemeProvider>
+        <TreeView items={items} checkboxes defaultExpandedIds={["docs"]} onCheckedChange={onCheckedChange} aria-label="Files" />
+      </ThemeProvider>
+    );
+    const item = (id: string) => container.querySelector<HTMLElement>(`[role="treeitem"][data-id="${id}"]`)!;
+
+    fireEvent.keyDown(item("a"), { key: " " });
+    expect(item("a")).toHaveAttribute("aria-checked", "true");
+    expect(item("docs")).toHaveAttribute("aria-checked", "mixed");
+
+    fireEvent.keyDown(item("b"), { key: " " });
+    expect(item("docs")).toHaveAttribute("aria-checked", "true");
+    expect(onCheckedChange).toHaveBeenLastCalledWith(expect.arrayContaining(["a", "b", "docs"]));
+
+    fireEvent.keyDown(item("docs"), { key: " " });
+    ["docs", "a", "b"].forEach((id) => expect(item(id)).toHaveAttribute("aria-checked", "false"));
+    expect(onCheckedChange).toHaveBeenLastCalledWith([]);
+  });
+});
+
+describe("moveTreeNode", () => {
+  it("moves a node before, after or inside a target", () => {
+    expect(ids(moveTreeNode(items, { id: "c", targetId: "a", position: "before" }))).toEqual([["docs", ["c", "a", "b"]]]);
+    expect(ids(moveTreeNode(items, { id: "a", targetId: "c", position: "after" }))).toEqual([["docs", ["b"]], "c", "a"]);
+    expect(ids(moveTreeNode(items, { id: "c", targetId: "b", position: "inside" }))).toEqual([["docs", ["a", ["b", ["c"]]]]]);
+  });
+
+  it("returns the tree unchanged for an unknown id", () => {
+    expect(moveTreeNode(items, { id: "missing", targetId: "a", position: "before" })).toBe(items);
+  });
+});
@@ -0,0 +1,59 @@
+import React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { ThemeProvider } from "../theme/ThemeProvider";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger } from "../components/DropdownMenu";
+import { MenuItem, MenuLabel, MenuSeparator } from "../components/MenuItems";
+
+const COUNT = 200;
+
+function renderMenu() {
+  return render(
+    <ThemeProvider>
+      <DropdownMenu defaultOpen>
+        <DropdownMenuTrigger>
+          <button>Open</button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent virtualize>
+          <MenuLabel>Items</MenuLabel>
+          {Array.from({ length: COUNT }, (_, i) => (
+            <React.Fragment key={i}>
+              {i === 100 && <MenuSeparator />}
+              <MenuItem disabled={i === 1 || i === COUNT - 1}>{`Item ${i}`}</MenuItem>
+            </React.Fragment>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </ThemeProvider>
+  );
+}
+
+const press = (key: string) => act(() => void fireEvent.keyDown(document.activeElement!, { key }));
+const focused = () => document.activeElement?.textContent;
+
+describe("virtualized menus", () => {
+  it("mounts only a window of the rows", () => {
+    renderMenu();
+    expect(screen.getAllByRole("menuitem").length).toBeLessThan(COUNT / 2);
+    expect(screen.queryByText(`Item ${COUNT - 2}`)).toBeNull();
+  });
+
+  it("moves focus to rows that were not mounted and skips disabled ones", () => {
+    renderMenu();
+    act(() => screen.getByText("Item 0").closest<HTMLElement>('[role="menuitem"]')!.focus());
+
+    press("ArrowDown");
+    expect(focused()).toBe("Item 2");
+
+    press("End");
+    expect(focused()).toBe(`Item ${COUNT - 2}`);
+
+    press("ArrowDown");
+    expect(focused()).toBe("Item 0");
+
+    press("ArrowUp");
+    expect(focused()).toBe(`Item ${COUNT - 2}`);
+    expect(document.activeElement).toHaveAttribute("aria-posinset", String(COUNT - 1));
+    expect(document.activeElement).toHaveAttribute("aria-setsize", String(COUNT));
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { announce, clearAnnouncer } from "../utils/announcer";
+
+const messages = (politeness: "polite" | "assertive") =>
+  Array.from(document.querySelectorAll(`.plainframe-ui-announcer-${politeness} > div`), (n) => n.textContent);
+
+describe("announce", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.replaceChildren();
+  });
+
+  it("keeps messages sent while the regions are being created in order", () => {
+    vi.useFakeTimers();
+    announce("first");
+    vi.advanceTimersByTime(50);
+    announce("second");
+    announce("alert", "assertive");
+    expect(messages("polite")).toEqual([]);
+
+    vi.advanceTimersByTime(50);
+    expect(messages("polite")).toEqual(["first", "second"]);
+    expect(messages("assertive")).toEqual(["alert"]);
+
+    announce("third");
+    expect(messages("polite")).toEqual(["first", "second", "third"]);
+  });
+
+  it("drops queued messages on clear", () => {
+    vi.useFakeTimers();
+    announce("stale");
+    announce("kept", "assertive");
+    clearAnnouncer("polite");
+    vi.advanceTimersByTime(100);
+    expect(messages("polite")).toEqual([]);
+    expect(messages("assertive")).toEqual(["kept"]);
+  });
+
+  it("clears messages once they have been read", () => {
+    vi.useFakeTimers();
+    announce("hello");
+    vi.advanceTimersByTime(100);
+    expect(messages("polite")).toEqual(["hello"]);
+    vi.advanceTimersByTime(7000);
+    expect(messages("polite")).toEqual([]);
+  });
+});
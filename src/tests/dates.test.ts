@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { parseDate, toISODate, weekStartFor } from "../utils/dates";
+
+const parsed = (text: string, locale: string) => {
+  const d = parseDate(text, locale);
+  return d && toISODate(d);
+};
+
+describe("parseDate", () => {
+  it("reads the locale's numeric field order with any separator", () => {
+    expect(parsed("03/09/2024", "en-US")).toBe("2024-03-09");
+    expect(parsed("9.3.2024", "de-DE")).toBe("2024-03-09");
+    expect(parsed("09-03-2024", "en-GB")).toBe("2024-03-09");
+  });
+
+  it("accepts ISO dates in every locale", () => {
+    expect(parsed("2024-03-09", "en-US")).toBe("2024-03-09");
+    expect(parsed("2024-3-9", "de-DE")).toBe("2024-03-09");
+  });
+
+  it("expands two-digit years around 2000 and reads Arabic-Indic digits", () => {
+    expect(parsed("9.3.24", "de-DE")).toBe("2024-03-09");
+    expect(parsed("9.3.87", "de-DE")).toBe("1987-03-09");
+    expect(parsed("٢٠٢٤-٠٣-٠٩", "ar-EG")).toBe("2024-03-09");
+  });
+
+  it("rejects impossible dates and incomplete input", () => {
+    expect(parseDate("02/30/2024", "en-US")).toBeNull();
+    expect(parseDate("2023-02-29", "en")).toBeNull();
+    expect(parseDate("03/2024", "en-US")).toBeNull();
+    expect(parseDate("  ", "en-US")).toBeNull();
+  });
+});
+
+describe("weekStartFor", () => {
+  it("follows the region, then the language", () => {
+    expect(weekStartFor("en-US")).toBe(0);
+    expect(weekStartFor("en-GB")).toBe(1);
+    expect(weekStartFor("de-DE")).toBe(1);
+    expect(weekStartFor("ar-EG")).toBe(6);
+    expect(weekStartFor("he")).toBe(0);
+  });
+});
@@ -0,0 +1,41 @@
+import React from "react";
+import { fireEvent, render } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { OverlayScopeContext, useOverlayLayer } from "../utils/overlayStack";
+
+function Layer({ name, onEscape, children }: { name: string; onEscape: (name: string) => void; children?: React.ReactNode }) {
+  const layer = useOverlayLayer(true, { onEscape: () => onEscape(name) });
+  return (
+    <OverlayScopeContext.Provider value={layer}>
+      <div data-testid={name} data-z={layer.zIndex} data-top={layer.isTopmost()} />
+      {children}
+    </OverlayScopeContext.Provider>
+  );
+}
+
+describe("useOverlayLayer", () => {
+  it("stacks a child above its parent when both open in the same commit", () => {
+    const onEscape = vi.fn();
+    const { getByTestId, rerender } = render(
+      <Layer name="parent" onEscape={onEscape}>
+        <Layer name="child" onEscape={onEscape} />
+      </Layer>
+    );
+    const z = (name: string) => Number(getByTestId(name).dataset.z);
+    expect(z("child")).toBeGreaterThan(z("parent"));
+
+    fireEvent.keyDown(document, { key: "Escape" });
+    expect(onEscape).toHaveBeenCalledWith("child");
+
+    rerender(
+      <>
+        <Layer name="parent" onEscape={onEscape}>
+          <Layer name="child" onEscape={onEscape} />
+        </Layer>
+        <Layer name="sibling" onEscape={onEscape} />
+      </>
+    );
+    fireEvent.keyDown(document, { key: "Escape" });
+    expect(onEscape).toHaveBeenLastCalledWith("sibling");
+  });
+});
@@ -1,28 +1,50 @@
 import React, { useCallback, useMemo, useRef } from "react";
 import { ThemeProvider as EmotionThemeProvider, useTheme as useEmotionTheme } from "@emotion/react";
+import { type Mode, type PlainframeUITheme, type PartialTheme, type DeepPartial, type Scale } from "./theme";
+import { auditThemeChanges, warnContrastIssues, type ContrastLevel } from "./contrast";
 import {
-  defaultDarkTheme,
-  defaultLightTheme,
-  surfaceFromNeutral,
-  textLight,
-  textDark,
-  type Mode,
-  type PlainframeUITheme,
-  type PartialTheme,
-  type Scale,
-} from "./theme";
-
-export type ThemeProp = PartialTheme & {
+  buildVarPairs,
+  isMode,
+  mergeThemeProp,
+  mirrorOnColors,
+  modeClass,
+  modeKeys,
+  onColorFor,
+  renderSheet,
+  renderVars,
+  resolveAlias,
+  resolveAllModes,
+  selectorFor,
+  type ModeRecord,
+} from "./resolve";
+import { MODES } from "./theme";
+import { isDevEnv } from "../utils/env";
+
+export type HexColor = `#${string}`;
+
+// A hex string is expanded into a full scale with `createScale`.
+export type PaletteInput = Record<string, DeepPartial<Scale> | HexColor>;
+
+export type ThemePatch = Omit<PartialTheme, "palette"> & {
+  palette?: PaletteInput;
   primaryKey?: string;
-  light?: PartialTheme & { primaryKey?: string };
-  dark?: PartialTheme & { primaryKey?: string };
 };
 
+export type ThemeProp = ThemePatch & {
+  light?: ThemePatch;
+  dark?: ThemePatch;
+  highContrast?: ThemePatch;
+};
+
+export type Direction = "ltr" | "rtl";
+
 export type ThemeProviderProps = {
   theme?: ThemeProp;
   initialMode?: Mode | "system";
   storageKey?: string;
   scope?: string;
+  auditContrast?: boolean | ContrastLevel;
+  dir?: Direction;
   children: React.ReactNode;
 };
 
@@ -44,31 +66,17 @@ function createStore<T>(initial: T) {
   };
 }
 
-const aliasOf: Record<string, string> = {
-  destructive: "danger",
-  error: "danger",
-  violet: "purple",
-  fuchsia: "magenta",
-  gray: "mono",
-  grey: "mono",
-  neutral: "mono",
-};
-const resolveAlias = (k: string) => aliasOf[k] ?? k;
-
-function mirrorOnColors(on: Record<string, string>): Record<string, string> {
-  const out = { ...on };
-  Object.entries(aliasOf).forEach(([alias, target]) => {
-    if (out[target] != null && out[alias] == null) out[alias] = out[target];
-  });
-  return out;
-}
+const useIsoLayoutEffect = typeof window !== "undefined" ? React.useLayoutEffect : React.useEffect;
 
 const ModeStoreContext = React.createContext<ReturnType<typeof createStore<Mode>> | null>(null);
 const PrimaryStoreContext = React.createContext<ReturnType<typeof createStore<string>> | null>(null);
 const ModeActionsContext = React.createContext({ setMode: (m: Mode) => void m, toggleMode: () => {} });
 const PrimaryActionsContext = React.createContext({ setPrimary: (p: string) => void p });
-type BaseResolvedCtxT = { light: PlainframeUITheme; dark: PlainframeUITheme } | null;
+type ThemePatchCtxT = { store: ReturnType<typeof createStore<ThemeProp | null>>; base: ThemeProp | undefined };
+const ThemePatchContext = React.createContext<ThemePatchCtxT | null>(null);
+type BaseResolvedCtxT = ModeRecord<PlainframeUITheme> | null;
 const BaseResolvedContext = React.createContext<BaseResolvedCtxT>(null);
+const DirectionContext = React.createContext<Direction | undefined>(undefined);
 
 export function usePlainframeUITheme() {
   return useEmotionTheme() as any as PlainframeUITheme;
@@ -110,6 +118,21 @@ export function usePrimary() {
   return { primary, setPrimary: actions.setPrimary };
 }
 
+// Live edits layered over the `theme` prop, as used by ThemeDevtools. `theme` is the merged result.
+export function useThemePatch() {
+  const ctx = React.useContext(ThemePatchContext);
+  if (!ctx) throw new Error("useThemePatch must be used within ThemeProvider");
+  const { store, base } = ctx;
+  const patch = React.useSyncExternalStore(store.subscribe, store.get, store.get);
+  const theme = React.useMemo(() => mergeThemeProp(base, patch ?? undefined) ?? {}, [base, patch]);
+  const resetPatch = React.useCallback(() => store.set(null), [store]);
+  return { theme, patch, setPatch: store.set, resetPatch };
+}
+
+export function useDirection(): Direction {
+  return React.useContext(DirectionContext) ?? "ltr";
+}
+
 export function usePrimitives<T = PlainframeUITheme>(selector?: (t: PlainframeUITheme) => T): T {
   const base = React.useContext(BaseResolvedContext);
   if (!base) throw new Error("usePrimitives must be used within ThemeProvider");
@@ -117,7 +140,7 @@ export function usePrimitives<T = PlainframeUITheme>(selector?: (t: PlainframeUI
   const { primary } = usePrimary();
 
   const raw = React.useMemo(() => {
-    const theme = mode === "light" ? base.light : base.dark;
+    const theme = base[mode];
     const chosen = theme.palette[resolveAlias(primary)] ?? theme.palette.primary;
     const onPrim = mirrorOnColors(theme.text.onColors)[resolveAlias(primary)] ?? onColorFor(chosen[600]);
     return {
@@ -138,132 +161,67 @@ export function usePrimitives<T = PlainframeUITheme>(selector?: (t: PlainframeUI
   return selector ? selector(raw) : (raw as unknown as T);
 }
 
-function mergeTheme(base: PlainframeUITheme, patch?: PartialTheme): PlainframeUITheme {
-  if (!patch) return base;
-
-  const mergedPalette = { ...base.palette };
-  if (patch.palette) {
-    for (const key of Object.keys(patch.palette)) {
-      const patchScale = patch.palette[key];
-      if (patchScale) {
-        mergedPalette[key] = { ...(base.palette[key] ?? {}), ...patchScale } as Scale;
-      }
-    }
-  }
-
-  return {
-    ...base,
-    spacing: { ...base.spacing, ...(patch.spacing ?? {}) },
-    radius: { ...base.radius, ...(patch.radius ?? {}) },
-    componentHeights: { ...base.componentHeights, ...(patch.componentHeights ?? {}) },
-    typography: {
-      fonts: { ...base.typography.fonts, ...(patch.typography?.fonts ?? {}) },
-      sizes: { ...base.typography.sizes, ...(patch.typography?.sizes ?? {}) },
-    },
-    palette: mergedPalette,
-    neutral: patch.neutral ? ({ ...base.neutral, ...patch.neutral } as Scale) : base.neutral,
-    surface: { ...base.surface, ...(patch.surface ?? {}) },
-    text: { ...base.text, ...(patch.text ?? {}), onColors: { ...base.text.onColors, ...(patch.text?.onColors ?? {}) } },
-  };
-}
-
-function onColorFor(hex: string) {
-  const m = hex.replace("#", "");
-  const r = parseInt(m.slice(0, 2), 16),
-    g = parseInt(m.slice(2, 4), 16),
-    b = parseInt(m.slice(4, 6), 16);
-  const f = (x: number) => {
-    const s = x / 255;
-    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
-  };
-  const L = 0.2126 * f(r) + 0.7152 * f(g) + 0.0722 * f(b);
-  return L > 0.53 ? "#000" : "#FFF";
-}
-
+// A tag server-rendered under `id` is adopted by the first provider that mounts; every other
+// provider gets a tag of its own, so two roots never overwrite each other's sheet.
 function ensureTag(ref: React.MutableRefObject<HTMLStyleElement | null>, id: string) {
   if (ref.current) return;
+  const existing = document.getElementById(id);
+  if (existing instanceof HTMLStyleElement && !existing.hasAttribute("data-pfui-owned")) {
+    existing.setAttribute("data-pfui-owned", "");
+    ref.current = existing;
+    return;
+  }
   const el = document.createElement("style");
-  el.id = id;
+  if (!existing) el.id = id;
+  el.setAttribute("data-pfui-owned", "");
   document.head.appendChild(el);
   ref.current = el;
 }
 
-function selectorFor(scope?: string) {
-  return scope ? `[data-pfui-scope="${scope}"]` : ":root";
+function releaseTag(ref: React.MutableRefObject<HTMLStyleElement | null>) {
+  ref.current?.remove();
+  ref.current = null;
 }
 
-function buildVarPairs(theme: PlainframeUITheme, primaryKey: string, mode: Mode): string[] {
-  const out: string[] = [];
-  const normalize = (v: string) =>
-    v.startsWith("var(") ? v.replace(/^var\([^,]+,\s*/, "").replace(/\)\s*$/, "").trim() : v;
-
-  out.push(`--pf-font-sans:${normalize(theme.typography.fonts.sans)};`);
-  out.push(`--pf-font-mono:${normalize(theme.typography.fonts.mono)};`);
-  out.push(`--pf-text-primary:${theme.text.primary};`);
-  out.push(`--pf-text-secondary:${theme.text.secondary};`);
-  out.push(`--pf-text-muted:${theme.text.muted};`);
-  Object.entries(theme.text.onColors).forEach(([k, v]) => out.push(`--pf-text-on-${k}:${v};`));
-  Object.entries(theme.spacing).forEach(([k, v]) => out.push(`--pf-space-${k}:${typeof v === "number" ? `${v}px` : v};`));
-  Object.entries(theme.radius).forEach(([k, v]) => out.push(`--pf-radius-${k}:${typeof v === "number" ? `${v}px` : v};`));
-  Object.entries(theme.typography.sizes).forEach(([k, v]) => out.push(`--pf-fontSize-${k}:${typeof v === "number" ? `${v}px` : v};`));
-  Object.entries(theme.componentHeights).forEach(([k, v]) => out.push(`--pf-cmph-${k}:${typeof v === "number" ? `${v}px` : v};`));
-  Object.entries(theme.neutral).forEach(([k, v]) => out.push(`--pf-neutral-${k}:${v};`));
-
-  out.push(`--pf-surface-appBg:${theme.surface.appBg};`);
-  out.push(`--pf-surface-panelBg:${theme.surface.panelBg};`);
-  out.push(`--pf-surface-subtleBg:${theme.surface.subtleBg};`);
-  out.push(`--pf-surface-panelHover:${theme.surface.panelHover};`);
-  out.push(`--pf-surface-subtleHover:${theme.surface.subtleHover};`);
-  out.push(`--pf-surface-overlayBg:${theme.surface.overlayBg};`);
-  out.push(`--pf-surface-border:${theme.surface.border};`);
-
-  out.push(`--pf-focus-main:var(--pf-neutral-400);`);
-  out.push(mode === "dark" ? `--pf-focus-soft:var(--pf-neutral-200);` : `--pf-focus-soft:var(--pf-neutral-300);`);
-
-  Object.entries(theme.palette).forEach(([name, scale]) => {
-    Object.entries(scale).forEach(([shade, val]) => {
-      out.push(`--pf-palette-${name}-${shade}:${val};`);
-    });
-  });
+export type RenderThemeVarsOptions = {
+  scope?: string;
+};
 
-  const focusShade = "300";
-  Object.keys(theme.palette).forEach((name) => {
-    out.push(`--pf-focus-${name}-main: var(--pf-palette-${name}-${focusShade});`);
-    out.push(`--pf-focus-${name}-soft: transparent;`);
-  });
+export const THEME_STYLE_ID = "pfui-vars-root";
 
-  const pk = primaryKey;
-  ([0, 50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const).forEach((s) =>
-    out.push(`--pf-primary-${s}:var(--pf-palette-${pk}-${s});`)
-  );
-  out.push(`--pf-focus-accent-main:var(--pf-primary-300);`);
-  out.push(`--pf-focus-accent-soft: transparent;`);
-
-  const onPrimary =
-    theme.text.onColors[pk] ??
-    (() => {
-      const ref = theme.palette[pk]?.[600] ?? theme.palette.primary[600];
-      const m = ref.replace("#", "");
-      const r = parseInt(m.slice(0, 2), 16),
-        g = parseInt(m.slice(2, 4), 16),
-        b = parseInt(m.slice(4, 6), 16);
-      const f = (x: number) => {
-        const s = x / 255;
-        return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
-      };
-      const L = 0.2126 * f(r) + 0.7152 * f(g) + 0.0722 * f(b);
-      return L > 0.53 ? "#000" : "#FFF";
-    })();
-  out.push(`--pf-text-on-primary:${onPrimary};`);
+export function renderThemeVars(theme?: ThemeProp, mode: Mode = "light", options: RenderThemeVarsOptions = {}): string {
+  const { scope } = options;
+  const basePrimary = theme?.primaryKey ?? "mono";
+  const resolved = resolveAllModes(theme, basePrimary);
+  const keys = modeKeys(theme, basePrimary);
 
-  out.push(`color-scheme:${mode === "dark" ? "dark" : "light"};`);
-  return out;
+  const sel = selectorFor(scope);
+  const fallback = renderVars(resolved[mode], resolveAlias(keys[mode]), mode);
+  const unset = MODES.map((m) => `:not(.${modeClass(m)})`).join("");
+
+  return `${renderSheet(scope, resolved, keys)}\n${sel}${unset}{${fallback}}`;
 }
 
-function renderVars(theme: PlainframeUITheme, primaryKey: string, mode: Mode) {
-  return buildVarPairs(theme, primaryKey, mode).join("");
+export type ThemeScriptProps = {
+  storageKey?: string;
+  initialMode?: Mode | "system";
+  nonce?: string;
+};
+
+function themeScriptSource(storageKey: string, initialMode: Mode | "system") {
+  return (
+    `(function(){try{var d=document.documentElement,m=null;` +
+    `try{var s=JSON.parse(localStorage.getItem(${JSON.stringify(storageKey)})||"null");if(s&&${JSON.stringify(MODES)}.indexOf(s.mode)>-1)m=s.mode;}catch(e){}` +
+    `if(!m){var i=${JSON.stringify(initialMode)},q=function(x){return window.matchMedia&&window.matchMedia(x).matches};` +
+    `m=i==="system"?(q("(prefers-contrast: more)")||q("(forced-colors: active)")?"high-contrast":q("(prefers-color-scheme: dark)")?"dark":"light"):i;}` +
+    `d.classList.remove(${MODES.map((m) => JSON.stringify(modeClass(m))).join(",")});d.classList.add("pf-"+m);d.setAttribute("data-pfui-mode",m);}catch(e){}})();`
+  );
 }
 
+export const ThemeScript: React.FC<ThemeScriptProps> = ({ storageKey = "pfui:pref", initialMode = "light", nonce }) => (
+  <script nonce={nonce} suppressHydrationWarning dangerouslySetInnerHTML={{ __html: themeScriptSource(storageKey, initialMode) }} />
+);
+
 const stripInlinePFVars = (el: HTMLElement): void => {
   for (let i = el.style.length - 1; i >= 0; i--) {
     const prop = el.style.item(i);
@@ -285,33 +243,46 @@ const applyPairsInline = (el: HTMLElement, pairs: string[]): void => {
 };
 
 const applyModeClass = (el: HTMLElement, m: Mode): void => {
-  el.classList.toggle("pf-light", m === "light");
-  el.classList.toggle("pf-dark", m === "dark");
+  MODES.forEach((x) => el.classList.toggle(modeClass(x), x === m));
 };
 
 export const ThemeProvider: React.FC<ThemeProviderProps> = ({
   children,
-  theme,
+  theme: themeProp,
   initialMode = "light",
   storageKey = "pfui:pref",
   scope,
+  auditContrast = false,
+  dir,
 }) => {
   const scoped = !!scope;
+  const parentDir = React.useContext(DirectionContext);
+  const direction = dir ?? parentDir;
+
+  const patchStore = React.useMemo(() => createStore<ThemeProp | null>(null), []);
+  const patch = React.useSyncExternalStore(patchStore.subscribe, patchStore.get, patchStore.get);
+  const theme = useMemo(() => mergeThemeProp(themeProp, patch ?? undefined), [themeProp, patch]);
+  const patchCtx = useMemo(() => ({ store: patchStore, base: themeProp }), [patchStore, themeProp]);
   const basePrimary = theme?.primaryKey ?? "mono";
 
   const parentModeStore = React.useContext(ModeStoreContext);
   const parentModeActions = React.useContext(ModeActionsContext);
   const inheritMode = !!parentModeStore;
 
-  const getInitialMode = () => {
+  const getInitialMode = (): Mode => {
+    if (typeof window === "undefined") return isMode(initialMode) ? initialMode : "light";
     if (!scoped) {
+      const pre = document.documentElement.getAttribute("data-pfui-mode");
+      if (isMode(pre)) return pre;
       try {
         const saved = JSON.parse(localStorage.getItem(storageKey) || "null");
-        if (saved?.mode === "light" || saved?.mode === "dark") return saved.mode;
+        if (isMode(saved?.mode)) return saved.mode;
       } catch {}
     }
     if (initialMode === "system") {
-      return window.matchMedia?.("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+      const q = (m: string) => !!window.matchMedia?.(m).matches;
+      if (q("(prefers-contrast: more)") || q("(forced-colors: active)")) return "high-contrast";
+      return q("(prefers-color-scheme: dark)") ? "dark" : "light";
     }
     return (initialMode as Mode) ?? "light";
   };
@@ -321,7 +292,7 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
   const modeStore = React.useMemo(() => parentModeStore ?? createStore<Mode>(initialModeRef.current), [parentModeStore]);
   const primaryStore = React.useMemo(() => createStore<string>(basePrimary), []);
 
-  React.useLayoutEffect(() => {
+  useIsoLayoutEffect(() => {
     if (primaryStore.get() !== basePrimary) primaryStore.set(basePrimary);
   }, [basePrimary, primaryStore]);
 
@@ -329,7 +300,7 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
   const scopeDepthRef = useRef(0);
   const scopeId = useRef<string>(scope ?? "__root__");
 
-  React.useLayoutEffect(() => {
+  useIsoLayoutEffect(() => {
     let depth = 0;
     let node: HTMLElement | null = wrapperRef.current;
     while (node && node !== document.body) {
@@ -339,47 +310,12 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
     scopeDepthRef.current = depth;
   }, [scope]);
 
-  const lightResolved = useMemo(() => {
-    const base = mergeTheme(defaultLightTheme, theme);
-    const withLight = mergeTheme(base, theme?.light);
-    const key = theme?.light?.primaryKey ?? basePrimary;
-    const k = resolveAlias(key);
-    const selected = withLight.palette.primary ?? withLight.palette[k] ?? withLight.palette.mono;
-
-    const mergedOn = mirrorOnColors({ ...textLight(withLight.neutral).onColors, ...withLight.text.onColors });
-    const onPrimary = mergedOn[k] ?? onColorFor(selected[600]);
-
-    const nextSurface = theme?.surface || theme?.light?.surface ? withLight.surface : surfaceFromNeutral("light", withLight.neutral);
-    const baseText = theme?.text || theme?.light?.text ? withLight.text : textLight(withLight.neutral);
-
-    const nextText = {
-      ...baseText,
-      onColors: mirrorOnColors({ ...mergedOn, primary: onPrimary, [k]: onPrimary }),
-    };
-
-    return { ...withLight, palette: { ...withLight.palette, primary: selected }, surface: nextSurface, text: nextText };
-  }, [theme, basePrimary]);
+  const resolved = useMemo(() => resolveAllModes(theme, basePrimary), [theme, basePrimary]);
 
-  const darkResolved = useMemo(() => {
-    const base = mergeTheme(defaultDarkTheme, theme);
-    const withDark = mergeTheme(base, theme?.dark);
-    const key = theme?.dark?.primaryKey ?? basePrimary;
-    const k = resolveAlias(key);
-    const selected = withDark.palette.primary ?? withDark.palette[k] ?? withDark.palette.mono;
-
-    const mergedOn = mirrorOnColors({ ...textDark(withDark.neutral).onColors, ...withDark.text.onColors });
-    const onPrimary = mergedOn[k] ?? onColorFor(selected[600]);
-
-    const nextSurface = theme?.surface || theme?.dark?.surface ? withDark.surface : surfaceFromNeutral("dark", withDark.neutral);
-    const baseText = theme?.text || theme?.dark?.text ? withDark.text : textDark(withDark.neutral);
-
-    const nextText = {
-      ...baseText,
-      onColors: mirrorOnColors({ ...mergedOn, primary: onPrimary, [k]: onPrimary }),
-    };
-
-    return { ...withDark, palette: { ...withDark.palette, primary: selected }, surface: nextSurface, text: nextText };
-  }, [theme, basePrimary]);
+  React.useEffect(() => {
+    if (!auditContrast || !isDevEnv()) return;
+    warnContrastIssues(auditThemeChanges(themeProp, { level: auditContrast === true ? "AA" : auditContrast }));
+  }, [auditContrast, themeProp]);
 
   const varsRef = useRef<HTMLStyleElement | null>(null);
   const guardRef = useRef<HTMLStyleElement | null>(null);
@@ -390,27 +326,26 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
     ensureTag(guardRef, scoped ? `pfui-guard-${scope}` : "pfui-guard-root");
     guardRef.current!.textContent = `${sel} *{transition:none!important;animation:none!important}`;
     requestAnimationFrame(() => {
-      guardRef.current!.textContent = "";
+      if (guardRef.current) guardRef.current.textContent = "";
     });
   }, [scope, scoped]);
 
   useIsoInsertionEffect(() => {
-    ensureTag(varsRef, scoped ? `pfui-vars-${scope}` : "pfui-vars-root");
+    ensureTag(varsRef, scoped ? `pfui-vars-${scope}` : THEME_STYLE_ID);
 
-    const keyLight = theme?.light?.primaryKey ?? theme?.primaryKey ?? basePrimary;
-    const keyDark = theme?.dark?.primaryKey ?? theme?.primaryKey ?? basePrimary;
-
-    const sel = selectorFor(scope);
-    const lightCss = renderVars(lightResolved, resolveAlias(keyLight), "light");
-    const darkCss = renderVars(darkResolved, resolveAlias(keyDark), "dark");
+    varsRef.current!.textContent = renderSheet(scope, resolved, modeKeys(theme, basePrimary));
+  }, [resolved, theme?.light?.primaryKey, theme?.dark?.primaryKey, theme?.highContrast?.primaryKey, scope, scoped, basePrimary]);
 
-    varsRef.current!.textContent =
-      `${sel}.pf-light{${lightCss}}\n${sel}.pf-dark{${darkCss}}` +
-      (scoped ? `\n${sel}{background:var(--pf-surface-appBg);color:var(--pf-text-primary);}` : "");
-  }, [lightResolved, darkResolved, theme?.primaryKey, theme?.light?.primaryKey, theme?.dark?.primaryKey, scope, scoped, basePrimary]);
+  useIsoInsertionEffect(
+    () => () => {
+      releaseTag(varsRef);
+      releaseTag(guardRef);
+    },
+    []
+  );
 
   const didInitRef = useRef(false);
-  React.useLayoutEffect(() => {
+  useIsoLayoutEffect(() => {
     if (didInitRef.current) return;
     didInitRef.current = true;
 
@@ -428,6 +363,17 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
     if (!inheritMode) modeStore.set(m);
   }, [scoped, modeStore, primaryStore, inheritMode]);
 
+  useIsoLayoutEffect(() => {
+    if (scoped || !dir) return;
+    const root = document.documentElement;
+    const prev = root.getAttribute("dir");
+    root.setAttribute("dir", dir);
+    return () => {
+      if (prev === null) root.removeAttribute("dir");
+      else root.setAttribute("dir", prev);
+    };
+  }, [scoped, dir]);
+
   type ActiveScope = { id: string; depth: number; ts: number };
   const setActiveScope = useCallback(() => {
     (window as any).__pfuiActiveScope = { id: scopeId.current, depth: scopeDepthRef.current, ts: Date.now() } as ActiveScope;
@@ -458,7 +404,7 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
 
       const m = modeStore.get();
       const pk = primaryStore.get();
-      const t = m === "light" ? lightResolved : darkResolved;
+      const t = resolved[m];
 
       const pairs = buildVarPairs(t, resolveAlias(pk), m);
       applyPairsInline(el, pairs);
@@ -467,8 +413,9 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
       el.setAttribute("data-pfui-portal-owner", scopeId.current);
       el.setAttribute("data-pfui-mode", m);
       el.setAttribute("data-pfui-primary", pk);
+      if (direction) el.setAttribute("dir", direction);
     },
-    [modeStore, primaryStore, lightResolved, darkResolved]
+    [modeStore, primaryStore, resolved, direction]
   );
 
   const looksLikePortalRoot = (el: HTMLElement) => {
@@ -525,8 +472,7 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
   const applyOwnedPortals = useCallback(
     (m: Mode) => {
       const pk = resolveAlias(primaryStore.get());
-      const t = m === "light" ? lightResolved : darkResolved;
-      const pairs = buildVarPairs(t, pk, m);
+      const pairs = buildVarPairs(resolved[m], pk, m);
 
       document.querySelectorAll<HTMLElement>(`[data-pfui-portal-owner="${scopeId.current}"]`).forEach((el) => {
         applyPairsInline(el, pairs);
@@ -535,14 +481,14 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
         el.setAttribute("data-pfui-primary", pk);
       });
     },
-    [lightResolved, darkResolved, primaryStore]
+    [resolved, primaryStore]
   );
 
-  React.useLayoutEffect(() => {
+  useIsoLayoutEffect(() => {
     applyOwnedPortals(modeStore.get());
-  }, [applyOwnedPortals, lightResolved, darkResolved, basePrimary, modeStore]);
+  }, [applyOwnedPortals, resolved, basePrimary, modeStore]);
 
-  React.useLayoutEffect(() => {
+  useIsoLayoutEffect(() => {
     if (!inheritMode) return;
     const sync = () => {
       const m = modeStore.get();
@@ -575,20 +521,17 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
     [modeStore, scoped, storageKey, runSwitchGuard, applyWrapper, applyOwnedPortals]
   );
 
-  const toggleMode = useCallback(() => setMode(modeStore.get() === "light" ? "dark" : "light"), [setMode, modeStore]);
+  // Flips light and dark only; high contrast is an accessibility choice, so it is left until `setMode` changes it.
+  const toggleMode = useCallback(() => {
+    const m = modeStore.get();
+    if (m !== "high-contrast") setMode(m === "light" ? "dark" : "light");
+  }, [setMode, modeStore]);
 
   const setPrimary = useCallback(
     (key: string) => {
       primaryStore.set(key);
 
-      const sel = selectorFor(scope);
-      const lightCss = renderVars(lightResolved, resolveAlias(key), "light");
-      const darkCss = renderVars(darkResolved, resolveAlias(key), "dark");
-      if (varsRef.current) {
-        varsRef.current.textContent =
-          `${sel}.pf-light{${lightCss}}\n${sel}.pf-dark{${darkCss}}` +
-          (scoped ? `\n${sel}{background:var(--pf-surface-appBg);color:var(--pf-text-primary);}` : "");
-      }
+      if (varsRef.current) varsRef.current.textContent = renderSheet(scope, resolved, { light: key, dark: key, "high-contrast": key });
 
       runSwitchGuard();
       const m = modeStore.get();
@@ -603,28 +546,32 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
         } catch {}
       }
     },
-    [lightResolved, darkResolved, scope, scoped, modeStore, primaryStore, runSwitchGuard, applyWrapper, applyOwnedPortals]
+    [resolved, scope, scoped, modeStore, primaryStore, runSwitchGuard, applyWrapper, applyOwnedPortals]
   );
 
   const modeActionsValue = inheritMode ? parentModeActions : { setMode, toggleMode };
 
   const content = (
-    <BaseResolvedContext.Provider value={{ light: lightResolved, dark: darkResolved }}>
-      <ModeStoreContext.Provider value={modeStore}>
-        <PrimaryStoreContext.Provider value={primaryStore}>
-          <ModeActionsContext.Provider value={modeActionsValue}>
-            <PrimaryActionsContext.Provider value={{ setPrimary }}>
-              <EmotionThemeProvider theme={toVarTheme(lightResolved) as any}>{children}</EmotionThemeProvider>
-            </PrimaryActionsContext.Provider>
-          </ModeActionsContext.Provider>
-        </PrimaryStoreContext.Provider>
-      </ModeStoreContext.Provider>
-    </BaseResolvedContext.Provider>
+    <DirectionContext.Provider value={direction}>
+      <BaseResolvedContext.Provider value={resolved}>
+        <ModeStoreContext.Provider value={modeStore}>
+          <PrimaryStoreContext.Provider value={primaryStore}>
+            <ModeActionsContext.Provider value={modeActionsValue}>
+              <PrimaryActionsContext.Provider value={{ setPrimary }}>
+                <ThemePatchContext.Provider value={patchCtx}>
+                  <EmotionThemeProvider theme={toVarTheme(resolved.light) as any}>{children}</EmotionThemeProvider>
+                </ThemePatchContext.Provider>
+              </PrimaryActionsContext.Provider>
+            </ModeActionsContext.Provider>
+          </PrimaryStoreContext.Provider>
+        </ModeStoreContext.Provider>
+      </BaseResolvedContext.Provider>
+    </DirectionContext.Provider>
   );
 
   if (scoped) {
     return (
-      <div ref={wrapperRef} data-pfui-scope={scope} style={{ background: "var(--pf-surface-appBg)", color: "var(--pf-text-primary)" }}>
+      <div ref={wrapperRef} data-pfui-scope={scope} dir={direction} style={{ background: "var(--pf-surface-appBg)", color: "var(--pf-text-primary)" }}>
         {content}
       </div>
     );
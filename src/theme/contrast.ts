@@ -0,0 +1,113 @@
+import { MODES, type Mode, type PlainframeUITheme } from "./theme";
+import type { ThemeProp } from "./ThemeProvider";
+import { parseHex } from "./palette";
+import { aliasOf, resolveModeTheme } from "./resolve";
+
+export type ContrastLevel = "AA" | "AAA";
+
+export type ContrastPairKind = "text" | "onColor" | "disabled";
+
+export type ContrastIssue = {
+  mode: Mode;
+  kind: ContrastPairKind;
+  pair: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  required: number;
+  aa: boolean;
+  aaa: boolean;
+};
+
+export type AuditThemeOptions = {
+  level?: ContrastLevel;
+  modes?: Mode[];
+};
+
+const REQUIRED: Record<ContrastPairKind, Record<ContrastLevel, number>> = {
+  text: { AA: 4.5, AAA: 7 },
+  onColor: { AA: 4.5, AAA: 7 },
+  disabled: { AA: 3, AAA: 4.5 },
+};
+
+function luminance(hex: string): number | null {
+  const rgb = parseHex(hex);
+  if (!rgb) return null;
+  const f = (s: number) => (s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4));
+  return 0.2126 * f(rgb[0]) + 0.7152 * f(rgb[1]) + 0.0722 * f(rgb[2]);
+}
+
+export function contrastRatio(foreground: string, background: string): number | null {
+  const a = luminance(foreground);
+  const b = luminance(background);
+  if (a == null || b == null) return null;
+  const [hi, lo] = a > b ? [a, b] : [b, a];
+  return Math.round(((hi + 0.05) / (lo + 0.05)) * 100) / 100;
+}
+
+type Pair = { kind: ContrastPairKind; pair: string; foreground: string; background: string };
+
+function pairsFor(t: PlainframeUITheme): Pair[] {
+  const { text, surface, palette } = t;
+  const out: Pair[] = [];
+  const add = (kind: ContrastPairKind, fgName: string, fg: string, bgName: string, bg: string) =>
+    out.push({ kind, pair: `${fgName} on ${bgName}`, foreground: fg, background: bg });
+
+  (["appBg", "panelBg", "subtleBg"] as const).forEach((bg) => {
+    add("text", "text.primary", text.primary, `surface.${bg}`, surface[bg]);
+    add("text", "text.secondary", text.secondary, `surface.${bg}`, surface[bg]);
+    add("disabled", "text.muted", text.muted, `surface.${bg}`, surface[bg]);
+  });
+
+  Object.entries(text.onColors).forEach(([k, on]) => {
+    if (aliasOf[k]) return;
+    const scale = palette[k];
+    if (!scale) return;
+    add("onColor", `text.onColors.${k}`, on, `palette.${k}.600`, scale[600]);
+  });
+
+  return out;
+}
+
+function check(mode: Mode, p: Pair, level: ContrastLevel): ContrastIssue | null {
+  const ratio = contrastRatio(p.foreground, p.background);
+  if (ratio == null) return null;
+  const req = REQUIRED[p.kind];
+  const aa = ratio >= req.AA;
+  const aaa = ratio >= req.AAA;
+  if (level === "AA" ? aa : aaa) return null;
+  return { mode, ...p, ratio, required: req[level], aa, aaa };
+}
+
+export function auditTheme(theme?: ThemeProp | PlainframeUITheme, options: AuditThemeOptions = {}): ContrastIssue[] {
+  const { level = "AA", modes = [...MODES] } = options;
+  const basePrimary = (theme as ThemeProp | undefined)?.primaryKey ?? "mono";
+  const issues: ContrastIssue[] = [];
+
+  modes.forEach((mode) => {
+    const resolved = resolveModeTheme(theme as ThemeProp | undefined, mode, basePrimary);
+    pairsFor(resolved).forEach((p) => {
+      const issue = check(mode, p, level);
+      if (issue) issues.push(issue);
+    });
+  });
+
+  return issues;
+}
+
+const issueKey = (i: ContrastIssue) => `${i.mode}|${i.pair}`;
+
+export function auditThemeChanges(theme: ThemeProp | undefined, options: AuditThemeOptions = {}): ContrastIssue[] {
+  const baseline = new Set(auditTheme(undefined, options).map(issueKey));
+  return auditTheme(theme, options).filter((i) => !baseline.has(issueKey(i)));
+}
+
+export function warnContrastIssues(issues: ContrastIssue[]): void {
+  if (!issues.length) return;
+  console.warn(
+    `[ThemeProvider] ${issues.length} color pair(s) in the custom theme fail contrast requirements:\n` +
+      issues
+        .map((i) => `  ${i.mode}: ${i.pair} (${i.foreground} / ${i.background}) ratio ${i.ratio}:1, needs ${i.required}:1`)
+        .join("\n")
+  );
+}
@@ -0,0 +1,100 @@
+import { type Mode, type Scale } from "./theme";
+
+type Oklch = { l: number; c: number; h: number };
+
+const STOPS = [0, 50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export function parseHex(hex: string): [number, number, number] | null {
+  let m = hex.trim().replace(/^#/, "");
+  if (m.length === 3 || m.length === 4) m = m.slice(0, 3).split("").map((c) => c + c).join("");
+  if (m.length === 8) m = m.slice(0, 6);
+  if (!/^[0-9a-f]{6}$/i.test(m)) return null;
+  return [parseInt(m.slice(0, 2), 16) / 255, parseInt(m.slice(2, 4), 16) / 255, parseInt(m.slice(4, 6), 16) / 255];
+}
+
+const toLinear = (x: number) => (x <= 0.04045 ? x / 12.92 : Math.pow((x + 0.055) / 1.055, 2.4));
+const fromLinear = (x: number) => (x <= 0.0031308 ? x * 12.92 : 1.055 * Math.pow(x, 1 / 2.4) - 0.055);
+
+function rgbToOklch([r, g, b]: [number, number, number]): Oklch {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const l_ = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m_ = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s_ = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  const L = 0.2104542553 * l_ + 0.793617785 * m_ - 0.0040720468 * s_;
+  const a = 1.9779984951 * l_ - 2.428592205 * m_ + 0.4505937099 * s_;
+  const bb = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.808675766 * s_;
+  const h = (Math.atan2(bb, a) * 180) / Math.PI;
+  return { l: L, c: Math.sqrt(a * a + bb * bb), h: h < 0 ? h + 360 : h };
+}
+
+function oklchToLinear({ l, c, h }: Oklch): [number, number, number] {
+  const hr = (h * Math.PI) / 180;
+  const a = c * Math.cos(hr), b = c * Math.sin(hr);
+  const l_ = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m_ = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s_ = Math.pow(l - 0.0894841775 * a - 1.291485548 * b, 3);
+  return [
+    4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_,
+    -1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_,
+    -0.0041960863 * l_ - 0.7034186147 * m_ + 1.707614701 * s_,
+  ];
+}
+
+const inGamut = (rgb: [number, number, number]) => rgb.every((x) => x >= -1e-4 && x <= 1 + 1e-4);
+
+function oklchToHex(color: Oklch): string {
+  let c = color.c;
+  let lin = oklchToLinear({ ...color, c });
+  for (let i = 0; i < 24 && !inGamut(lin); i++) {
+    c *= 0.9;
+    lin = oklchToLinear({ ...color, c });
+  }
+  const hex = lin.map((x) => Math.round(clamp01(fromLinear(clamp01(x))) * 255).toString(16).padStart(2, "0"));
+  return `#${hex.join("")}`.toUpperCase();
+}
+
+export function hexToOklch(hex: string): Oklch | null {
+  const rgb = parseHex(hex);
+  return rgb ? rgbToOklch(rgb) : null;
+}
+
+const LIGHT_TINT: Record<number, number> = { 0: 1, 50: 0.94, 100: 0.86, 200: 0.72, 300: 0.52, 400: 0.32, 500: 0.14 };
+const LIGHT_SHADE: Record<number, number> = { 700: 0.22, 800: 0.42, 900: 0.72 };
+const DARK_BG: Record<number, number> = { 0: 0.15, 50: 0.18, 100: 0.21, 200: 0.25, 300: 0.29, 400: 0.36 };
+const DARK_LIFT: Record<number, number> = { 500: 0.06, 700: 0.25, 800: 0.6, 900: 0.88 };
+
+export function createScale(hex: string, mode: Mode = "light"): Scale {
+  const base = hexToOklch(hex);
+  if (!base) throw new Error(`createScale: "${hex}" is not a hex color`);
+  const { l: L0, c: C0, h } = base;
+  const out = {} as Record<number, string>;
+
+  STOPS.forEach((s) => {
+    if (s === 600) {
+      out[s] = oklchToHex(base);
+      return;
+    }
+    if (mode === "dark") {
+      if (s in DARK_BG) {
+        const t = DARK_BG[s];
+        out[s] = oklchToHex({ l: t, c: Math.min(C0, 0.02 + t * 0.22), h });
+      } else {
+        const t = DARK_LIFT[s];
+        out[s] = oklchToHex({ l: lerp(L0, 0.97, t), c: C0 * (1 - t * 0.8), h });
+      }
+      return;
+    }
+    if (s in LIGHT_TINT) {
+      const t = LIGHT_TINT[s];
+      out[s] = oklchToHex({ l: lerp(L0, 1, t), c: C0 * (1 - t), h });
+    } else {
+      const t = LIGHT_SHADE[s];
+      out[s] = oklchToHex({ l: lerp(L0, 0.18, t), c: C0 * (1 - t * 0.35), h });
+    }
+  });
+
+  return out as unknown as Scale;
+}
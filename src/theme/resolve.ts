@@ -0,0 +1,305 @@
+import {
+  MODES,
+  defaultDarkTheme,
+  defaultHighContrastTheme,
+  defaultLightTheme,
+  surfaceFromNeutral,
+  textLight,
+  textDark,
+  textHighContrast,
+  type Mode,
+  type PlainframeUITheme,
+  type PartialTheme,
+  type Scale,
+} from "./theme";
+import type { PaletteInput, ThemePatch, ThemeProp } from "./ThemeProvider";
+import { createScale, hexToOklch } from "./palette";
+import { isDevEnv } from "../utils/env";
+
+export const aliasOf: Record<string, string> = {
+  destructive: "danger",
+  error: "danger",
+  violet: "purple",
+  fuchsia: "magenta",
+  gray: "mono",
+  grey: "mono",
+  neutral: "mono",
+};
+export const resolveAlias = (k: string) => aliasOf[k] ?? k;
+
+export function mirrorOnColors(on: Record<string, string>): Record<string, string> {
+  const out = { ...on };
+  Object.entries(aliasOf).forEach(([alias, target]) => {
+    if (out[target] != null && out[alias] == null) out[alias] = out[target];
+  });
+  return out;
+}
+
+export function mergeTheme(base: PlainframeUITheme, patch?: PartialTheme): PlainframeUITheme {
+  if (!patch) return base;
+
+  const mergedPalette = { ...base.palette };
+  if (patch.palette) {
+    for (const key of Object.keys(patch.palette)) {
+      const patchScale = patch.palette[key];
+      if (patchScale) {
+        mergedPalette[key] = { ...(base.palette[key] ?? {}), ...patchScale } as Scale;
+      }
+    }
+  }
+
+  return {
+    ...base,
+    spacing: { ...base.spacing, ...(patch.spacing ?? {}) },
+    radius: { ...base.radius, ...(patch.radius ?? {}) },
+    componentHeights: { ...base.componentHeights, ...(patch.componentHeights ?? {}) },
+    typography: {
+      fonts: { ...base.typography.fonts, ...(patch.typography?.fonts ?? {}) },
+      sizes: { ...base.typography.sizes, ...(patch.typography?.sizes ?? {}) },
+    },
+    palette: mergedPalette,
+    neutral: patch.neutral ? ({ ...base.neutral, ...patch.neutral } as Scale) : base.neutral,
+    surface: { ...base.surface, ...(patch.surface ?? {}) },
+    text: { ...base.text, ...(patch.text ?? {}), onColors: { ...base.text.onColors, ...(patch.text?.onColors ?? {}) } },
+  };
+}
+
+const mergeRecord = <T extends object>(a?: T, b?: T): T | undefined => (a || b ? ({ ...a, ...b } as T) : undefined);
+
+function mergeThemePatch(base: ThemePatch = {}, patch: ThemePatch = {}): ThemePatch {
+  const out: ThemePatch = { ...base, ...patch };
+  const section = <K extends "spacing" | "radius" | "componentHeights">(k: K) => {
+    const merged = mergeRecord(base[k], patch[k]);
+    if (merged) out[k] = merged;
+  };
+  section("spacing");
+  section("radius");
+  section("componentHeights");
+  if (base.typography || patch.typography) {
+    out.typography = {
+      ...mergeRecord(base.typography, patch.typography),
+      fonts: mergeRecord(base.typography?.fonts, patch.typography?.fonts),
+      sizes: mergeRecord(base.typography?.sizes, patch.typography?.sizes),
+    };
+  }
+  if (base.palette || patch.palette) {
+    const palette: PaletteInput = { ...base.palette };
+    Object.entries(patch.palette ?? {}).forEach(([k, v]) => {
+      const prev = palette[k];
+      palette[k] = typeof v === "string" || typeof prev !== "object" ? v : { ...prev, ...v };
+    });
+    out.palette = palette;
+  }
+  return out;
+}
+
+// Layers a partial ThemeProp over another, e.g. live edits over the `theme` passed to ThemeProvider.
+export function mergeThemeProp(base?: ThemeProp, patch?: ThemeProp): ThemeProp | undefined {
+  if (!patch) return base;
+  const { light, dark, highContrast, ...rest } = patch;
+  const out: ThemeProp = { ...base, ...mergeThemePatch(base, rest) };
+  if (light) out.light = mergeThemePatch(base?.light, light);
+  if (dark) out.dark = mergeThemePatch(base?.dark, dark);
+  if (highContrast) out.highContrast = mergeThemePatch(base?.highContrast, highContrast);
+  return out;
+}
+
+export function onColorFor(hex: string) {
+  const m = hex.replace("#", "");
+  const r = parseInt(m.slice(0, 2), 16),
+    g = parseInt(m.slice(2, 4), 16),
+    b = parseInt(m.slice(4, 6), 16);
+  const f = (x: number) => {
+    const s = x / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  const L = 0.2126 * f(r) + 0.7152 * f(g) + 0.0722 * f(b);
+  return L > 0.53 ? "#000" : "#FFF";
+}
+
+export function contrastOnColor(hex: string) {
+  const m = hex.replace("#", "");
+  const f = (x: number) => {
+    const s = x / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  const L = 0.2126 * f(parseInt(m.slice(0, 2), 16)) + 0.7152 * f(parseInt(m.slice(2, 4), 16)) + 0.0722 * f(parseInt(m.slice(4, 6), 16));
+  return (L + 0.05) / 0.05 > 1.05 / (L + 0.05) ? "#000" : "#FFF";
+}
+
+export function selectorFor(scope?: string) {
+  return scope ? `[data-pfui-scope="${scope}"]` : ":root";
+}
+
+export function buildVarPairs(theme: PlainframeUITheme, primaryKey: string, mode: Mode): string[] {
+  const out: string[] = [];
+  const normalize = (v: string) =>
+    v.startsWith("var(") ? v.replace(/^var\([^,]+,\s*/, "").replace(/\)\s*$/, "").trim() : v;
+
+  out.push(`--pf-font-sans:${normalize(theme.typography.fonts.sans)};`);
+  out.push(`--pf-font-mono:${normalize(theme.typography.fonts.mono)};`);
+  out.push(`--pf-text-primary:${theme.text.primary};`);
+  out.push(`--pf-text-secondary:${theme.text.secondary};`);
+  out.push(`--pf-text-muted:${theme.text.muted};`);
+  Object.entries(theme.text.onColors).forEach(([k, v]) => out.push(`--pf-text-on-${k}:${v};`));
+  Object.entries(theme.spacing).forEach(([k, v]) => out.push(`--pf-space-${k}:${typeof v === "number" ? `${v}px` : v};`));
+  Object.entries(theme.radius).forEach(([k, v]) => out.push(`--pf-radius-${k}:${typeof v === "number" ? `${v}px` : v};`));
+  Object.entries(theme.typography.sizes).forEach(([k, v]) => out.push(`--pf-fontSize-${k}:${typeof v === "number" ? `${v}px` : v};`));
+  Object.entries(theme.componentHeights).forEach(([k, v]) => out.push(`--pf-cmph-${k}:${typeof v === "number" ? `${v}px` : v};`));
+  Object.entries(theme.neutral).forEach(([k, v]) => out.push(`--pf-neutral-${k}:${v};`));
+
+  out.push(`--pf-surface-appBg:${theme.surface.appBg};`);
+  out.push(`--pf-surface-panelBg:${theme.surface.panelBg};`);
+  out.push(`--pf-surface-subtleBg:${theme.surface.subtleBg};`);
+  out.push(`--pf-surface-panelHover:${theme.surface.panelHover};`);
+  out.push(`--pf-surface-subtleHover:${theme.surface.subtleHover};`);
+  out.push(`--pf-surface-overlayBg:${theme.surface.overlayBg};`);
+  out.push(`--pf-surface-border:${theme.surface.border};`);
+
+  if (mode === "high-contrast") {
+    out.push(`--pf-focus-main:var(--pf-neutral-900);`);
+    out.push(`--pf-focus-soft:var(--pf-neutral-900);`);
+  } else {
+    out.push(`--pf-focus-main:var(--pf-neutral-400);`);
+    out.push(mode === "dark" ? `--pf-focus-soft:var(--pf-neutral-200);` : `--pf-focus-soft:var(--pf-neutral-300);`);
+  }
+
+  Object.entries(theme.palette).forEach(([name, scale]) => {
+    Object.entries(scale).forEach(([shade, val]) => {
+      out.push(`--pf-palette-${name}-${shade}:${val};`);
+    });
+  });
+
+  const focusShade = "300";
+  Object.keys(theme.palette).forEach((name) => {
+    out.push(`--pf-focus-${name}-main: var(--pf-palette-${name}-${focusShade});`);
+    out.push(`--pf-focus-${name}-soft: transparent;`);
+  });
+
+  const pk = primaryKey;
+  ([0, 50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const).forEach((s) =>
+    out.push(`--pf-primary-${s}:var(--pf-palette-${pk}-${s});`)
+  );
+  out.push(`--pf-focus-accent-main:var(--pf-primary-300);`);
+  out.push(`--pf-focus-accent-soft: transparent;`);
+
+  const onPrimary =
+    theme.text.onColors[pk] ??
+    (() => {
+      const ref = theme.palette[pk]?.[600] ?? theme.palette.primary[600];
+      const m = ref.replace("#", "");
+      const r = parseInt(m.slice(0, 2), 16),
+        g = parseInt(m.slice(2, 4), 16),
+        b = parseInt(m.slice(4, 6), 16);
+      const f = (x: number) => {
+        const s = x / 255;
+        return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+      };
+      const L = 0.2126 * f(r) + 0.7152 * f(g) + 0.0722 * f(b);
+      return L > 0.53 ? "#000" : "#FFF";
+    })();
+  out.push(`--pf-text-on-primary:${onPrimary};`);
+
+  out.push(`color-scheme:${mode === "dark" ? "dark" : "light"};`);
+  return out;
+}
+
+export function renderVars(theme: PlainframeUITheme, primaryKey: string, mode: Mode) {
+  return buildVarPairs(theme, primaryKey, mode).join("");
+}
+
+export const isMode = (m: unknown): m is Mode => (MODES as readonly unknown[]).includes(m);
+
+export type ModeRecord<T> = Record<Mode, T>;
+
+export const modeClass = (m: Mode) => `pf-${m}`;
+
+export function renderSheet(scope: string | undefined, themes: ModeRecord<PlainframeUITheme>, keys: ModeRecord<string>) {
+  const sel = selectorFor(scope);
+  return (
+    MODES.map((m) => `${sel}.${modeClass(m)}{${renderVars(themes[m], resolveAlias(keys[m]), m)}}`).join("\n") +
+    (scope ? `\n${sel}{background:var(--pf-surface-appBg);color:var(--pf-text-primary);}` : "")
+  );
+}
+
+export function modePatch(theme: ThemeProp | undefined, mode: Mode): ThemePatch | undefined {
+  return mode === "light" ? theme?.light : mode === "dark" ? theme?.dark : theme?.highContrast;
+}
+
+export function modeKeys(theme: ThemeProp | undefined, basePrimary: string): ModeRecord<string> {
+  return {
+    light: theme?.light?.primaryKey ?? basePrimary,
+    dark: theme?.dark?.primaryKey ?? basePrimary,
+    "high-contrast": theme?.highContrast?.primaryKey ?? basePrimary,
+  };
+}
+
+export function resolveAllModes(theme: ThemeProp | undefined, basePrimary: string): ModeRecord<PlainframeUITheme> {
+  return {
+    light: resolveModeTheme(theme, "light", basePrimary),
+    dark: resolveModeTheme(theme, "dark", basePrimary),
+    "high-contrast": resolveModeTheme(theme, "high-contrast", basePrimary),
+  };
+}
+
+const DEFAULTS: ModeRecord<PlainframeUITheme> = {
+  light: defaultLightTheme,
+  dark: defaultDarkTheme,
+  "high-contrast": defaultHighContrastTheme,
+};
+
+const TEXT_FOR = { light: textLight, dark: textDark, "high-contrast": textHighContrast } as const;
+
+const warnedColors = new Set<string>();
+
+function expandPatch(patch: ThemePatch | undefined, mode: Mode, generated: Record<string, Scale>): PartialTheme | undefined {
+  if (!patch) return undefined;
+  const { palette, ...rest } = patch;
+  if (!palette) return rest;
+  const next: PartialTheme["palette"] = {};
+  Object.entries(palette as PaletteInput).forEach(([k, v]) => {
+    if (typeof v === "string") {
+      // Resolved during render, so a bad value is skipped rather than taking the whole tree down.
+      if (!hexToOklch(v)) {
+        if (isDevEnv() && !warnedColors.has(v)) {
+          warnedColors.add(v);
+          console.warn(`[plainframe-ui] palette.${k}: "${v}" is not a hex color and was ignored.`);
+        }
+        return;
+      }
+      generated[k] = createScale(v, mode);
+      next[k] = generated[k];
+    } else {
+      next[k] = v;
+    }
+  });
+  return { ...rest, palette: next };
+}
+
+export function resolveModeTheme(theme: ThemeProp | undefined, mode: Mode, basePrimary: string): PlainframeUITheme {
+  const patch = modePatch(theme, mode);
+  const generated: Record<string, Scale> = {};
+  const base = mergeTheme(DEFAULTS[mode], expandPatch(theme, mode, generated));
+  const withMode = mergeTheme(base, expandPatch(patch, mode, generated));
+  const key = patch?.primaryKey ?? basePrimary;
+  const k = resolveAlias(key);
+  const selected = withMode.palette.primary ?? withMode.palette[k] ?? withMode.palette.mono;
+  const textFor = TEXT_FOR[mode];
+
+  const onFor = mode === "high-contrast" ? contrastOnColor : onColorFor;
+  const derived = mode === "high-contrast" ? { ...withMode.palette, ...generated } : generated;
+  const generatedOn = Object.fromEntries(Object.entries(derived).map(([name, scale]) => [name, onFor(scale[600])]));
+  const explicitOn = { ...(theme?.text?.onColors ?? {}), ...(patch?.text?.onColors ?? {}) } as Record<string, string>;
+  const mergedOn = mirrorOnColors({ ...textFor(withMode.neutral).onColors, ...withMode.text.onColors, ...generatedOn, ...explicitOn });
+  const onPrimary = mergedOn[k] ?? onFor(selected[600]);
+
+  const nextSurface = theme?.surface || patch?.surface ? withMode.surface : surfaceFromNeutral(mode, withMode.neutral);
+  const baseText = theme?.text || patch?.text ? withMode.text : textFor(withMode.neutral);
+
+  const nextText = {
+    ...baseText,
+    onColors: mirrorOnColors({ ...mergedOn, primary: onPrimary, [k]: onPrimary }),
+  };
+
+  return { ...withMode, palette: { ...withMode.palette, primary: selected }, surface: nextSurface, text: nextText };
+}
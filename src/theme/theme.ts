@@ -24,7 +24,7 @@ export type DeepPartial<T> = T extends object ? { [P in keyof T]?: DeepPartial<T
 
 export type PartialTheme = DeepPartial<PlainframeUITheme>;
 
-export type Mode = "light" | "dark";
+export type Mode = "light" | "dark" | "high-contrast";
 
 const spacing = { xxs:"0.15rem", xs:"0.25rem", sm:"0.5rem", md:"0.75rem", lg:"1rem", xl:"1.5rem" };
 const radius = { xxs:"0.3rem", xs:"0.4rem", sm:"0.6rem", md:"0.7rem", lg:"1rem", xl:"2rem", full:"9999px" };
@@ -46,6 +46,11 @@ const neutralDark: Scale = {
   400:"#333333",500:"#444444",600:"#6e6e6e",700:"#a6a6a6",800:"#e5e5e5",900:"#ffffff",
 };
 
+const neutralHighContrast: Scale = {
+  0:"#ffffff",50:"#fafafa",100:"#f0f0f0",200:"#dcdcdc",300:"#9a9a9a",
+  400:"#6b6b6b",500:"#4d4d4d",600:"#333333",700:"#262626",800:"#141414",900:"#000000",
+};
+
 const paletteLight = {
   mono:{0:"#FFFFFF",50:"#FAFAFA",100:"#F2F2F2",200:"#E6E6E6",300:"#D1D1D1",400:"#8A8A8A",500:"#2A2A2A",600:"#1A1A1A",700:"#121212",800:"#0B0B0B",900:"#000000"},
   danger:{0:"#FFFFFF",50:"#FFF1F1",100:"#FFE0E0",200:"#ffd2d5ff",300:"#FF9AA6",400:"#FF6A7B",500:"#EF2F23",600:"#E7000B",700:"#DB1424",800:"#C11225",900:"#7A0A18"},
@@ -119,12 +124,15 @@ const withAliases = (p: Record<string, Scale>) => ({
 });
 
 export const surfaceFromNeutral = (mode: Mode, n: Scale) =>
-  mode === "light"
+  mode === "high-contrast"
+    ? { appBg:n[0], panelBg:n[0], subtleBg:n[100], panelHover:n[100], subtleHover:n[200], overlayBg:"rgba(0,0,0,.7)", border:n[900] }
+    : mode === "light"
     ? { appBg:n[0], panelBg:n[0], subtleBg:n[100], panelHover:n[50], subtleHover:n[200], overlayBg:"linear-gradient(rgba(0,0,0,.15),rgba(0,0,0,.525))", border:n[300] }
     : { appBg:n[0], panelBg:n[0], subtleBg:n[50], panelHover:n[50], subtleHover:n[100], overlayBg:"linear-gradient(rgba(16, 16, 16, 0.45),rgba(27, 27, 27, 0.75))", border:n[200] };
 
 export const textLight = (n: Scale) => ({ primary:n[900], secondary:n[600], muted:n[500], onColors:{} as Record<string,string> });
 export const textDark  = (n: Scale) => ({ primary:n[900], secondary:n[700], muted:n[600], onColors:{} as Record<string,string> });
+export const textHighContrast = (n: Scale) => ({ primary:n[900], secondary:n[800], muted:n[600], onColors:{} as Record<string,string> });
 
 const colorKeys = ["danger","success","warning","info","red","amber","orange","yellow","lime","green","teal","cyan","sky","blue","indigo","purple","magenta","pink","rose","mono"];
 const makeOnColors = (defaults: Record<string,string>) =>
@@ -146,4 +154,14 @@ export const defaultDarkTheme: PlainframeUITheme = {
   text: { ...textDark(neutralDark), onColors: { primary:"#000000", ...makeOnColors({ yellow:"#000000", mono:"#000000" }) } },
 };
 
+export const defaultHighContrastTheme: PlainframeUITheme = {
+  spacing, radius, componentHeights, typography,
+  neutral: neutralHighContrast,
+  palette: { ...withAliases(paletteLight), primary: paletteLight.mono as Scale },
+  surface: surfaceFromNeutral("high-contrast", neutralHighContrast),
+  text: { ...textHighContrast(neutralHighContrast), onColors: { primary:"#FFFFFF", ...makeOnColors({ yellow:"#000000" }) } },
+};
+
+export const MODES: readonly Mode[] = ["light", "dark", "high-contrast"];
+
 declare module "@emotion/react" { interface Theme extends PlainframeUITheme {} }
\ No newline at end of file
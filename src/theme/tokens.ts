@@ -0,0 +1,184 @@
+import { type Mode, type PlainframeUITheme, type PartialTheme } from "./theme";
+import type { ThemeProp } from "./ThemeProvider";
+import { buildVarPairs, modeKeys, resolveAlias, resolveAllModes } from "./resolve";
+
+export type DesignToken = {
+  $type?: "color" | "dimension" | "fontFamily";
+  $value: string;
+};
+
+export type DesignTokenGroup = {
+  $extensions?: Record<string, unknown>;
+  [key: string]: DesignToken | DesignTokenGroup | Record<string, unknown> | undefined;
+};
+
+export type DesignTokens = DesignTokenGroup & {
+  light: DesignTokenGroup;
+  dark: DesignTokenGroup;
+  "high-contrast": DesignTokenGroup;
+};
+
+export type ExportThemeCssOptions = {
+  selector?: string;
+  prefersColorScheme?: boolean;
+};
+
+export type ExportedTokens = {
+  css: string;
+  json: DesignTokens;
+  ts: string;
+};
+
+const EXT_KEY = "com.plainframe-ui";
+
+const dim = (v: string | number) => (typeof v === "number" ? `${v}px` : v);
+const isColor = (v: string) => /^(#|rgba?\(|hsla?\(|oklch\(|oklab\(|color\()/i.test(v.trim()) || v === "transparent";
+
+function resolvePair(theme?: ThemeProp) {
+  const basePrimary = theme?.primaryKey ?? "mono";
+  const keys = modeKeys(theme, basePrimary);
+  return {
+    ...resolveAllModes(theme, basePrimary),
+    keyLight: resolveAlias(keys.light),
+    keyDark: resolveAlias(keys.dark),
+    keyHighContrast: resolveAlias(keys["high-contrast"]),
+  };
+}
+
+function group<T>(src: Record<string, T>, map: (v: T) => DesignToken): DesignTokenGroup {
+  return Object.fromEntries(Object.entries(src).map(([k, v]) => [k, map(v)]));
+}
+
+const colorToken = (v: string): DesignToken => (isColor(v) ? { $type: "color", $value: v } : { $value: v });
+const dimToken = (v: string | number): DesignToken => ({ $type: "dimension", $value: dim(v) });
+
+function modeTokens(t: PlainframeUITheme): DesignTokenGroup {
+  const { onColors, ...text } = t.text;
+  return {
+    palette: Object.fromEntries(Object.entries(t.palette).map(([name, scale]) => [name, group(scale, colorToken)])),
+    neutral: group(t.neutral, colorToken),
+    surface: group(t.surface, colorToken),
+    text: { ...group(text, colorToken), onColors: group(onColors, colorToken) },
+  };
+}
+
+export function exportThemeCss(theme?: ThemeProp, options: ExportThemeCssOptions = {}): string {
+  const { selector = ":root", prefersColorScheme = false } = options;
+  const { light, dark, "high-contrast": highContrast, keyLight, keyDark, keyHighContrast } = resolvePair(theme);
+  const block = (sel: string, pairs: string[], indent = "") =>
+    `${indent}${sel} {\n${pairs.map((p) => `${indent}  ${p}`).join("\n")}\n${indent}}`;
+
+  const lightPairs = buildVarPairs(light, keyLight, "light");
+  const darkPairs = buildVarPairs(dark, keyDark, "dark");
+  const highContrastPairs = buildVarPairs(highContrast, keyHighContrast, "high-contrast");
+
+  const out = [
+    block(`${selector}, ${selector}.pf-light`, lightPairs),
+    block(`${selector}.pf-dark`, darkPairs),
+    block(`${selector}.pf-high-contrast`, highContrastPairs),
+  ];
+  if (prefersColorScheme) {
+    out.push(`@media (prefers-color-scheme: dark) {\n${block(`${selector}:not(.pf-light):not(.pf-high-contrast)`, darkPairs, "  ")}\n}`);
+    out.push(`@media (prefers-contrast: more) {\n${block(`${selector}:not(.pf-light):not(.pf-dark)`, highContrastPairs, "  ")}\n}`);
+  }
+  return `${out.join("\n\n")}\n`;
+}
+
+export function exportDesignTokens(theme?: ThemeProp): DesignTokens {
+  const { light, dark, "high-contrast": highContrast } = resolvePair(theme);
+  return {
+    $extensions: { [EXT_KEY]: { primaryKey: theme?.primaryKey ?? "mono" } },
+    spacing: group(light.spacing, dimToken),
+    radius: group(light.radius, dimToken),
+    componentHeights: group(light.componentHeights, dimToken),
+    typography: {
+      fonts: group(light.typography.fonts, (v) => ({ $type: "fontFamily", $value: v })),
+      sizes: group(light.typography.sizes, dimToken),
+    },
+    light: modeTokens(light),
+    dark: modeTokens(dark),
+    "high-contrast": modeTokens(highContrast),
+  };
+}
+
+export function exportThemeModule(theme?: ThemeProp): string {
+  const { light, dark, "high-contrast": highContrast, keyLight } = resolvePair(theme);
+  const vars = Object.fromEntries(
+    buildVarPairs(light, keyLight, "light")
+      .map((p) => p.slice(0, p.indexOf(":")).trim())
+      .filter((name) => name.startsWith("--pf-"))
+      .map((name) => [name.slice(5), `var(${name})`])
+  );
+  const json = (v: unknown) => JSON.stringify(v, null, 2);
+
+  return [
+    "/* Generated by plainframe-ui. Do not edit by hand. */",
+    "",
+    `export const light = ${json(light)} as const;`,
+    "",
+    `export const dark = ${json(dark)} as const;`,
+    "",
+    `export const highContrast = ${json(highContrast)} as const;`,
+    "",
+    `export const vars = ${json(vars)} as const;`,
+    "",
+    "export type ThemeTokens = typeof light;",
+    "export type ThemeVar = keyof typeof vars;",
+    "",
+  ].join("\n");
+}
+
+export function exportTokens(theme?: ThemeProp, options?: ExportThemeCssOptions): ExportedTokens {
+  return { css: exportThemeCss(theme, options), json: exportDesignTokens(theme), ts: exportThemeModule(theme) };
+}
+
+const isToken = (v: unknown): v is DesignToken => !!v && typeof v === "object" && "$value" in (v as object);
+
+function readGroup(g: unknown): Record<string, string> | undefined {
+  if (!g || typeof g !== "object") return undefined;
+  const out: Record<string, string> = {};
+  Object.entries(g as Record<string, unknown>).forEach(([k, v]) => {
+    if (!k.startsWith("$") && isToken(v)) out[k] = String(v.$value);
+  });
+  return Object.keys(out).length ? out : undefined;
+}
+
+function readNested(g: unknown): Record<string, Record<string, string>> | undefined {
+  if (!g || typeof g !== "object") return undefined;
+  const out: Record<string, Record<string, string>> = {};
+  Object.entries(g as Record<string, unknown>).forEach(([k, v]) => {
+    const inner = readGroup(v);
+    if (!k.startsWith("$") && inner) out[k] = inner;
+  });
+  return Object.keys(out).length ? out : undefined;
+}
+
+export function importDesignTokens(tokens: DesignTokenGroup | string, mode: Mode = "light"): PartialTheme {
+  const src = (typeof tokens === "string" ? JSON.parse(tokens) : tokens) as Record<string, any>;
+  const modeSrc = (src[mode] ?? {}) as Record<string, any>;
+  const typography = src.typography ?? {};
+  const text = modeSrc.text ?? {};
+
+  const out: PartialTheme = {};
+  const set = <K extends keyof PartialTheme>(k: K, v: PartialTheme[K] | undefined) => {
+    if (v !== undefined) out[k] = v;
+  };
+
+  set("spacing", readGroup(src.spacing));
+  set("radius", readGroup(src.radius));
+  set("componentHeights", readGroup(src.componentHeights));
+
+  const fonts = readGroup(typography.fonts);
+  const sizes = readGroup(typography.sizes);
+  if (fonts || sizes) set("typography", { ...(fonts ? { fonts } : {}), ...(sizes ? { sizes } : {}) });
+
+  set("palette", readNested(modeSrc.palette) as PartialTheme["palette"]);
+  set("neutral", readGroup(modeSrc.neutral) as PartialTheme["neutral"]);
+  set("surface", readGroup(modeSrc.surface));
+
+  const textValues = readGroup(text);
+  const onColors = readGroup(text.onColors);
+  if (textValues || onColors) set("text", { ...(textValues ?? {}), ...(onColors ? { onColors } : {}) });
+
+  return out;
+}
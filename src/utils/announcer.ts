@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+
+export type Politeness = "polite" | "assertive";
+
+// Long enough for a screen reader to pick the message up; cleared so it isn't found later when browsing.
+const CLEAR_AFTER = 7000;
+
+const HIDDEN =
+  "position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;overflow:hidden;clip:rect(0 0 0 0);clip-path:inset(50%);white-space:nowrap";
+
+// Screen readers skip text added in the same tick a live region is inserted.
+const READY_AFTER = 100;
+
+type Pending = { politeness: Politeness; node: HTMLElement };
+
+let regions: Record<Politeness, HTMLElement> | null = null;
+// Messages announced before fresh regions are ready; flushed in order so none overtakes another.
+let pending: Pending[] | null = null;
+
+function append(r: Record<Politeness, HTMLElement>, { politeness, node }: Pending) {
+  r[politeness].appendChild(node);
+  window.setTimeout(() => node.remove(), CLEAR_AFTER);
+}
+
+function ensureRegions(): Record<Politeness, HTMLElement> {
+  if (regions && regions.polite.isConnected && regions.assertive.isConnected) return regions;
+  const make = (politeness: Politeness) => {
+    const el = document.createElement("div");
+    el.className = `plainframe-ui-announcer-${politeness}`;
+    el.setAttribute("role", "log");
+    el.setAttribute("aria-live", politeness);
+    el.setAttribute("aria-relevant", "additions");
+    el.style.cssText = HIDDEN;
+    document.body.appendChild(el);
+    return el;
+  };
+  const created = { polite: make("polite"), assertive: make("assertive") };
+  const queue: Pending[] = [];
+  regions = created;
+  pending = queue;
+  window.setTimeout(() => {
+    if (pending === queue) pending = null;
+    queue.forEach((p) => append(created, p));
+  }, READY_AFTER);
+  return created;
+}
+
+/**
+ * Reads `message` out through a shared, visually hidden live region. Use "assertive" only for
+ * errors the user must hear right away; it interrupts whatever is being read.
+ */
+export function announce(message: string, politeness: Politeness = "polite"): void {
+  if (typeof document === "undefined" || !message.trim()) return;
+  const r = ensureRegions();
+  const node = document.createElement("div");
+  node.textContent = message;
+  if (pending) pending.push({ politeness, node });
+  else append(r, { politeness, node });
+}
+
+export function clearAnnouncer(politeness?: Politeness): void {
+  if (pending) pending.splice(0, pending.length, ...pending.filter((p) => politeness && p.politeness !== politeness));
+  if (!regions) return;
+  (politeness ? [regions[politeness]] : [regions.polite, regions.assertive]).forEach((el) => el.replaceChildren());
+}
+
+// Inserts the live regions on mount so the first message isn't lost, and returns `announce`.
+export function useAnnouncer(): typeof announce {
+  useEffect(() => {
+    ensureRegions();
+  }, []);
+  return announce;
+}
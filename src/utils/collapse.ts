@@ -0,0 +1,94 @@
+import { useEffect, useLayoutEffect, useRef, useState, type RefObject } from "react";
+import { css } from "@emotion/react";
+
+const FOCUSABLE =
+  "a[href], area[href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), button:not([disabled]), iframe, [tabindex]";
+
+type CollapseOptions = {
+  // Parks the tab stops of hidden content and restores them on open. Off for content that manages its own tabIndex.
+  stashTabIndex?: boolean;
+  // Where focus goes when the content closes around it, before it turns inert.
+  focusOnHide?: RefObject<HTMLElement>;
+};
+
+/**
+ * Height + fade animation used by Accordion and TreeView. Put `clipRef`/`clipCss` on the outer
+ * element and `measureRef`/`innerCss` on the content inside it.
+ */
+export function useCollapse(open: boolean, { stashTabIndex = true, focusOnHide }: CollapseOptions = {}) {
+  const [maxH, setMaxH] = useState(0);
+  const [ready, setReady] = useState(false);
+
+  const clipRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLDivElement>(null);
+
+  // Content size changes in between are picked up by the ResizeObserver below.
+  useLayoutEffect(() => {
+    const el = measureRef.current;
+    if (!el) return;
+    setMaxH(el.scrollHeight);
+  }, [open]);
+
+  useEffect(() => {
+    const el = measureRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setMaxH(el.scrollHeight));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (maxH > 0 && !ready) setReady(true);
+  }, [maxH, ready]);
+
+  useLayoutEffect(() => {
+    const el = clipRef.current;
+    if (!el) return;
+
+    if (!open && el.contains(document.activeElement)) focusOnHide?.current?.focus();
+
+    if (stashTabIndex) {
+      const focusable = Array.from(el.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (!open) {
+        focusable.forEach(node => {
+          if (node.dataset.accordionTabindex == null) {
+            node.dataset.accordionTabindex = node.hasAttribute("tabindex")
+              ? node.getAttribute("tabindex") ?? ""
+              : "";
+          }
+          node.tabIndex = -1;
+        });
+      } else {
+        focusable.forEach(node => {
+          const value = node.dataset.accordionTabindex;
+          if (value != null) {
+            if (value === "") {
+              node.removeAttribute("tabindex");
+            } else {
+              node.tabIndex = Number(value);
+            }
+            delete node.dataset.accordionTabindex;
+          }
+        });
+      }
+    }
+
+    if (open) el.removeAttribute("inert");
+    else el.setAttribute("inert", "");
+  }, [open, stashTabIndex, focusOnHide]);
+
+  const clipCss = css({
+    maxHeight: open ? (maxH ? maxH : "none") : 0,
+    overflow: open && !ready ? "visible" : "hidden",
+    transition: ready ? "max-height 0.36s cubic-bezier(.25,.8,.4,1)" : "none",
+    willChange: ready ? "max-height" : undefined,
+  });
+
+  const innerCss = css({
+    opacity: open ? 1 : 0,
+    transform: open ? "translateY(0)" : "translateY(1rem)",
+    transition: ready ? "transform 0.28s ease, opacity 0.28s ease" : "none",
+  });
+
+  return { clipRef, measureRef, clipCss, innerCss };
+}
@@ -0,0 +1,16 @@
+import { useCallback, useState } from "react";
+
+/** State that follows `value` when it is defined and keeps its own copy otherwise. */
+export function useControllable<V>(value: V | undefined, defaultValue: V, onChange?: (v: V) => void) {
+  const [inner, setInner] = useState(defaultValue);
+  const isControlled = value !== undefined;
+  const current = isControlled ? (value as V) : inner;
+  const set = useCallback(
+    (next: V) => {
+      if (!isControlled) setInner(next);
+      onChange?.(next);
+    },
+    [isControlled, onChange]
+  );
+  return [current, set] as const;
+}
@@ -0,0 +1,171 @@
+export type DateRange = { start: Date | null; end: Date | null };
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export const startOfDay = (d: Date): Date => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+export const startOfMonth = (d: Date): Date => new Date(d.getFullYear(), d.getMonth(), 1);
+
+export const addDays = (d: Date, n: number): Date => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Keeps the day of month where possible: Jan 31 + 1 month is Feb 28/29.
+export function addMonths(d: Date, n: number): Date {
+  const first = new Date(d.getFullYear(), d.getMonth() + n, 1);
+  first.setDate(Math.min(d.getDate(), daysInMonth(first.getFullYear(), first.getMonth())));
+  return first;
+}
+
+export const isSameDay = (a?: Date | null, b?: Date | null): boolean =>
+  !!a && !!b && a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+export const isSameMonth = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+
+export const compareDays = (a: Date, b: Date): number => startOfDay(a).getTime() - startOfDay(b).getTime();
+
+export const isValidDate = (d: unknown): d is Date => d instanceof Date && !Number.isNaN(d.getTime());
+
+// Local calendar date as YYYY-MM-DD (not `toISOString`, which shifts to UTC).
+export const toISODate = (d: Date): string =>
+  `${String(d.getFullYear()).padStart(4, "0")}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+const SUNDAY_REGIONS = new Set(["US", "CA", "MX", "BR", "JP", "KR", "CN", "TW", "HK", "IN", "IL", "PH", "ZA", "AU", "SA", "PE", "CO"]);
+const SATURDAY_REGIONS = new Set(["AE", "AF", "BH", "DZ", "EG", "IQ", "IR", "JO", "KW", "LY", "OM", "QA", "SD", "SY"]);
+const LANGUAGE_DEFAULTS: Record<string, Weekday> = { en: 0, he: 0, ja: 0, ko: 0, zh: 0, pt: 0, ar: 6, fa: 6 };
+
+export function weekStartFor(locale: string): Weekday {
+  try {
+    const loc = new Intl.Locale(locale) as Intl.Locale & {
+      getWeekInfo?: () => { firstDay: number };
+      weekInfo?: { firstDay: number };
+    };
+    const info = loc.getWeekInfo?.() ?? loc.weekInfo;
+    if (info) return (info.firstDay % 7) as Weekday;
+  } catch {
+    // Older runtimes; fall through to the tables below.
+  }
+  const [lang, region] = locale.split(/[-_]/);
+  const r = region?.toUpperCase();
+  if (r && SUNDAY_REGIONS.has(r)) return 0;
+  if (r && SATURDAY_REGIONS.has(r)) return 6;
+  if (r) return 1;
+  return LANGUAGE_DEFAULTS[lang.toLowerCase()] ?? 1;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function dateFormat(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let f = formatters.get(key);
+  if (!f) {
+    try {
+      f = new Intl.DateTimeFormat(locale, options);
+    } catch {
+      f = new Intl.DateTimeFormat("en", options);
+    }
+    formatters.set(key, f);
+  }
+  return f;
+}
+
+const NUMERIC: Intl.DateTimeFormatOptions = { year: "numeric", month: "2-digit", day: "2-digit" };
+
+export const formatDate = (d: Date, locale: string, options: Intl.DateTimeFormatOptions = NUMERIC): string =>
+  dateFormat(locale, options).format(d);
+
+const BIDI_MARKS = /[\u200e\u200f\u061c]/g;
+
+type Field = "year" | "month" | "day";
+
+function fieldOrder(locale: string): Field[] {
+  return dateFormat(locale, NUMERIC)
+    .formatToParts(new Date(2000, 10, 22))
+    .map((p) => p.type)
+    .filter((t): t is Field => t === "year" || t === "month" || t === "day");
+}
+
+// The numeric format spelled out for placeholders, e.g. "MM/DD/YYYY" or "DD.MM.YYYY".
+export function datePattern(locale: string): string {
+  const names: Record<string, string> = { year: "YYYY", month: "MM", day: "DD" };
+  return dateFormat(locale, NUMERIC)
+    .formatToParts(new Date(2000, 10, 22))
+    .map((p) => names[p.type] ?? p.value.replace(BIDI_MARKS, ""))
+    .join("");
+}
+
+const toLatinDigits = (s: string) =>
+  s
+    .replace(/[\u0660-\u0669]/g, (c) => String(c.charCodeAt(0) - 0x0660))
+    .replace(/[\u06f0-\u06f9]/g, (c) => String(c.charCodeAt(0) - 0x06f0));
+
+// Accepts ISO dates (2024-03-09) and the locale's numeric order with any separators (9.3.24, 03/09/2024).
+export function parseDate(text: string, locale: string): Date | null {
+  const raw = toLatinDigits(text).trim();
+  if (!raw) return null;
+
+  let y: number, m: number, d: number;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(raw);
+  if (iso) {
+    [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    const nums = raw.split(/\D+/).filter(Boolean).map(Number);
+    if (nums.length !== 3) return null;
+    const order = fieldOrder(locale);
+    const get = (f: Field) => nums[order.indexOf(f)];
+    [y, m, d] = [get("year"), get("month"), get("day")];
+    if (y < 100) y += y < 50 ? 2000 : 1900;
+  }
+
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return date;
+}
+
+export type DatePartType = "year" | "month" | "day" | "hour" | "minute" | "dayPeriod";
+
+export type DatePart = { type: DatePartType } | { type: "literal"; value: string };
+
+// Field order and separators of a numeric date/time format, e.g. month "/" day "/" year " " hour ":" minute.
+export function dateParts(locale: string, options: Intl.DateTimeFormatOptions): DatePart[] {
+  const out: DatePart[] = [];
+  for (const p of dateFormat(locale, options).formatToParts(new Date(2000, 10, 22, 15, 45))) {
+    if (p.type === "year" || p.type === "month" || p.type === "day" || p.type === "hour" || p.type === "minute" || p.type === "dayPeriod") {
+      out.push({ type: p.type });
+    } else {
+      const value = p.value.replace(BIDI_MARKS, "");
+      const prev = out[out.length - 1];
+      if (!value) continue;
+      if (prev?.type === "literal") prev.value += value;
+      else out.push({ type: "literal", value });
+    }
+  }
+  return out;
+}
+
+export function prefersHour12(locale: string): boolean {
+  const { hourCycle, hour12 } = dateFormat(locale, { hour: "numeric" }).resolvedOptions() as Intl.ResolvedDateTimeFormatOptions & {
+    hourCycle?: string;
+  };
+  return hourCycle ? hourCycle === "h11" || hourCycle === "h12" : !!hour12;
+}
+
+// Localized [AM, PM] labels.
+export function dayPeriodLabels(locale: string): [string, string] {
+  const f = dateFormat(locale, { hour: "numeric", hourCycle: "h12" });
+  const label = (h: number) =>
+    f.formatToParts(new Date(2000, 0, 1, h)).find((p) => p.type === "dayPeriod")?.value ?? (h < 12 ? "AM" : "PM");
+  return [label(9), label(21)];
+}
+
+// "HH:mm" (24-hour) ⇄ minutes since midnight.
+export function parseTime(text: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(text.trim());
+  if (!m) return null;
+  const [h, min] = [Number(m[1]), Number(m[2])];
+  return h < 24 && min < 60 ? h * 60 + min : null;
+}
+
+export const toTimeString = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
@@ -0,0 +1,8 @@
+import type { Direction } from "../theme/ThemeProvider";
+
+export const logicalArrowKey = (key: string, dir: Direction): string => {
+  if (dir !== "rtl") return key;
+  if (key === "ArrowLeft") return "ArrowRight";
+  if (key === "ArrowRight") return "ArrowLeft";
+  return key;
+};
@@ -0,0 +1,2 @@
+export const isDevEnv = () =>
+  (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env?.NODE_ENV !== "production";
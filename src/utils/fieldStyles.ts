@@ -0,0 +1,87 @@
+import type { CSSObject } from "@emotion/react";
+import type { PlainframeUITheme } from "../theme/theme";
+import { FORCED_COLORS } from "./forcedColors";
+
+// The box, label and helper text shared by TextField and the segmented date/time fields.
+export type FieldSize = "sm" | "md" | "lg";
+export type FieldVariant = "outlined" | "subtle" | "ghost";
+
+export type FieldState = {
+  size: FieldSize;
+  variant: FieldVariant;
+  error?: boolean;
+  disabled?: boolean;
+};
+
+const u = (v?: number | string) => (v == null ? undefined : typeof v === "number" ? `${v}px` : v);
+
+export function fieldMetrics(theme: PlainframeUITheme, size: FieldSize) {
+  return {
+    sm: { minHeight: theme.componentHeights.sm, labelFont: theme.typography.sizes.xs, helperFont: theme.typography.sizes.xs },
+    md: { minHeight: theme.componentHeights.md, labelFont: theme.typography.sizes.sm, helperFont: theme.typography.sizes.xs },
+    lg: { minHeight: theme.componentHeights.lg, labelFont: theme.typography.sizes.md, helperFont: theme.typography.sizes.sm },
+  }[size];
+}
+
+export function fieldSurfaceBg(theme: PlainframeUITheme, { variant, error, disabled }: FieldState): string {
+  if (disabled) return theme.neutral[200];
+  if (variant === "outlined") return error ? theme.palette.danger?.[50] ?? theme.surface.panelBg : theme.surface.panelBg;
+  if (variant === "subtle") return error ? theme.palette.danger?.[50] ?? theme.surface.subtleBg : theme.surface.subtleBg;
+  return "transparent";
+}
+
+export function fieldLabelStyle(theme: PlainframeUITheme, state: FieldState): CSSObject {
+  const { error, disabled } = state;
+  return {
+    fontSize: fieldMetrics(theme, state.size).labelFont,
+    fontWeight: 500,
+    color: error ? theme.palette.danger?.[700] ?? theme.text.primary : disabled ? theme.neutral[500] : theme.text.primary,
+    marginBottom: 4,
+    display: "inline-block",
+  };
+}
+
+export function fieldSurfaceStyle(theme: PlainframeUITheme, state: FieldState & { rounded?: boolean }): CSSObject {
+  const { variant, error, disabled, rounded } = state;
+  const border = error ? theme.palette.danger?.[300] ?? theme.surface.border : theme.surface.border;
+  return {
+    display: "flex",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+    padding: `0 ${u(theme.spacing.md)}`,
+    background: fieldSurfaceBg(theme, state),
+    border: variant === "outlined" ? `${theme.componentHeights.border} solid ${border}` : "none",
+    borderRadius: (rounded ? theme.radius.full : theme.radius.md) as string,
+    minHeight: fieldMetrics(theme, state.size).minHeight,
+    boxSizing: "border-box",
+    width: "100%",
+    cursor: disabled ? "not-allowed" : "text",
+    opacity: disabled ? 0.65 : 1,
+    transition: "box-shadow .18s, border-color .16s",
+    [FORCED_COLORS]: {
+      border: `${error ? 2 : 1}px solid ${disabled ? "GrayText" : "FieldText"}`,
+    },
+  };
+}
+
+export function fieldHelperRowStyle(theme: PlainframeUITheme, state: FieldState): CSSObject {
+  return {
+    minHeight: 16,
+    fontSize: fieldMetrics(theme, state.size).helperFont,
+    color: state.error ? theme.palette.danger?.[700] ?? theme.text.secondary : theme.text.secondary,
+    paddingTop: 3,
+    display: "flex",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: 8,
+    width: "100%",
+  };
+}
+
+export const FIELD_HELPER_TEXT_STYLE: CSSObject = {
+  flex: 1,
+  wordBreak: "break-word",
+  whiteSpace: "pre-wrap",
+  minWidth: 0,
+  fontWeight: 400,
+};
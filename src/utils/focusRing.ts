@@ -1,6 +1,7 @@
 /** @jsxImportSource @emotion/react */
 import { css, type SerializedStyles } from "@emotion/react";
 import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { FORCED_COLORS } from "./forcedColors";
 
 type FocusMode = "always" | "visible" | "none";
 
@@ -68,6 +69,9 @@ export function useFocusRing(): (opts?: FocusOpts) => SerializedStyles {
       outlineOffset: offset,
       zIndex: 10000,
     };
+    base[FORCED_COLORS] = {
+      [focusSel]: { outline: "2px solid Highlight", outlineOffset: Math.max(offset, 2) },
+    };
 
     return css(base);
   };
@@ -104,6 +108,9 @@ export function useFocusWithinRing(): (opts?: FocusOpts) => SerializedStyles {
       outlineOffset: offset,
       zIndex: 1000,
     };
+    base[FORCED_COLORS] = {
+      [withinSel]: { outline: "2px solid Highlight", outlineOffset: Math.max(offset, 2) },
+    };
 
     return css(base);
   };
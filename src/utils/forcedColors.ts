@@ -0,0 +1 @@
+export const FORCED_COLORS = "@media (forced-colors: active)";
@@ -0,0 +1,120 @@
+/** @jsxImportSource @emotion/react */
+import React, { useEffect, useRef } from "react";
+import { css } from "@emotion/react";
+
+export type NativeFormProps = {
+  name?: string;
+  required?: boolean;
+  form?: string;
+};
+
+export const hiddenInputCss = css({
+  position: "absolute",
+  opacity: 0,
+  width: 1,
+  height: 1,
+  margin: 0,
+  padding: 0,
+  border: 0,
+  pointerEvents: "none",
+  overflow: "hidden",
+  clipPath: "inset(50%)",
+});
+
+export function useFormReset(ref: React.RefObject<HTMLInputElement | null>, onReset: () => void): void {
+  const cb = useRef(onReset);
+  cb.current = onReset;
+  const owner = useRef<HTMLFormElement | null>(null);
+  const handle = useRef(() => cb.current()).current;
+
+  // The input can mount late or move to another form (e.g. a changed `form` attribute), so the owner
+  // is looked up again after every commit and the listener follows it.
+  useEffect(() => {
+    const next = ref.current?.form ?? null;
+    if (next === owner.current) return;
+    owner.current?.removeEventListener("reset", handle);
+    next?.addEventListener("reset", handle);
+    owner.current = next;
+  });
+
+  useEffect(
+    () => () => {
+      owner.current?.removeEventListener("reset", handle);
+      owner.current = null;
+    },
+    [handle]
+  );
+}
+
+type HiddenInputProps = NativeFormProps & {
+  value?: string | readonly string[];
+  checked?: boolean;
+  disabled?: boolean;
+  pattern?: string;
+  inputRef?: React.RefObject<HTMLInputElement>;
+  onFocus?: () => void;
+};
+
+const noop = () => {};
+// Inside a <label> the activation click lands on the input too; keep it from toggling the control twice.
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export const HiddenInput: React.FC<HiddenInputProps> = ({
+  name,
+  required,
+  form,
+  value = "",
+  checked,
+  disabled,
+  pattern,
+  inputRef,
+  onFocus,
+}) => {
+  const shared = {
+    form,
+    disabled,
+    tabIndex: -1,
+    "aria-hidden": true,
+    autoComplete: "off",
+    onChange: noop,
+    onClick: stop,
+    onFocus,
+    css: hiddenInputCss,
+  } as const;
+
+  if (checked !== undefined) {
+    return (
+      <input
+        {...shared}
+        ref={inputRef}
+        type="checkbox"
+        name={name}
+        value={typeof value === "string" && value ? value : "on"}
+        checked={checked}
+        required={required}
+      />
+    );
+  }
+
+  // An empty multi-value list submits nothing but still needs an input for `required` and reset.
+  // Without a name the single input stays out of submission and only ties the control to its form.
+  const values = typeof value === "string" ? [value] : value;
+  const list = values.length && name ? values : [values[0] ?? ""];
+
+  return (
+    <>
+      {list.map((v, i) => (
+        <input
+          {...shared}
+          key={i}
+          ref={i === 0 ? inputRef : undefined}
+          type="text"
+          name={values.length ? name : undefined}
+          value={v}
+          required={i === 0 ? required : undefined}
+          pattern={pattern}
+        />
+      ))}
+    </>
+  );
+};
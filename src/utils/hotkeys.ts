@@ -0,0 +1,138 @@
+import type React from "react";
+
+export type Hotkey = {
+  key: string;
+  mod: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  alt: boolean;
+  shift: boolean;
+};
+
+export const isMac = (): boolean =>
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad|iPod/i.test(navigator.platform || navigator.userAgent);
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: "escape",
+  return: "enter",
+  space: " ",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  del: "delete",
+  plus: "+",
+};
+
+// "mod+shift+k": `mod` is ⌘ on Apple platforms and Ctrl elsewhere.
+export function parseHotkey(combo: string): Hotkey {
+  const parts = combo.toLowerCase().split("+").map((p) => p.trim());
+  const raw = parts.pop() || "+";
+  const has = (m: string) => parts.includes(m);
+  return {
+    key: KEY_ALIASES[raw] ?? raw,
+    mod: has("mod"),
+    ctrl: has("ctrl") || has("control"),
+    meta: has("meta") || has("cmd") || has("command"),
+    alt: has("alt") || has("option"),
+    shift: has("shift"),
+  };
+}
+
+// "g then i" is a sequence of two hotkeys.
+export function parseShortcut(shortcut: string): Hotkey[] {
+  return shortcut.trim().split(/\s+then\s+/i).map(parseHotkey);
+}
+
+export function matchesHotkey(e: KeyboardEvent | React.KeyboardEvent, combo: string | Hotkey): boolean {
+  const hk = typeof combo === "string" ? parseHotkey(combo) : combo;
+  const mac = isMac();
+  const wantMeta = hk.meta || (hk.mod && mac);
+  const wantCtrl = hk.ctrl || (hk.mod && !mac);
+  if (e.metaKey !== wantMeta || e.ctrlKey !== wantCtrl || e.altKey !== hk.alt || e.shiftKey !== hk.shift) return false;
+  const key = (e.key || "").toLowerCase();
+  if (key === hk.key) return true;
+  // With Alt or Shift held, `key` may be a different character; fall back to the physical key.
+  const code = e.code || "";
+  return code.toLowerCase() === `key${hk.key}` || code.toLowerCase() === `digit${hk.key}`;
+}
+
+// Platform-resolved form used to compare shortcuts, e.g. "ctrl+shift+k then i".
+export function normalizeShortcut(shortcut: string): string {
+  const mac = isMac();
+  return parseShortcut(shortcut)
+    .map((hk) =>
+      [
+        (hk.ctrl || (hk.mod && !mac)) && "ctrl",
+        hk.alt && "alt",
+        hk.shift && "shift",
+        (hk.meta || (hk.mod && mac)) && "meta",
+        hk.key,
+      ]
+        .filter(Boolean)
+        .join("+")
+    )
+    .join(" then ");
+}
+
+const MAC_SYMBOLS: Record<string, string> = { mod: "⌘", meta: "⌘", ctrl: "⌃", alt: "⌥", shift: "⇧" };
+const MAC_NAMES: Record<string, string> = { mod: "Command", meta: "Command", ctrl: "Control", alt: "Option", shift: "Shift" };
+const PC_LABELS: Record<string, string> = { mod: "Ctrl", meta: "Win", ctrl: "Ctrl", alt: "Alt", shift: "Shift" };
+const KEY_LABELS: Record<string, string> = {
+  escape: "Esc",
+  enter: "↵",
+  " ": "Space",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  backspace: "⌫",
+  delete: "Del",
+  tab: "Tab",
+};
+const KEY_NAMES: Record<string, string> = {
+  escape: "Escape",
+  enter: "Enter",
+  " ": "Space",
+  arrowup: "Up",
+  arrowdown: "Down",
+  arrowleft: "Left",
+  arrowright: "Right",
+  backspace: "Backspace",
+  delete: "Delete",
+};
+
+const keyLabel = (key: string, table: Record<string, string>) =>
+  table[key] ?? (key.length === 1 ? key.toUpperCase() : key[0].toUpperCase() + key.slice(1));
+
+// Key caps for one hotkey. `names` spells modifiers out, for labels read by screen readers.
+export function formatHotkey(combo: string | Hotkey, names = false): string[] {
+  const hk = typeof combo === "string" ? parseHotkey(combo) : combo;
+  const mac = isMac();
+  const labels = mac ? (names ? MAC_NAMES : MAC_SYMBOLS) : PC_LABELS;
+  const out: string[] = [];
+  if (hk.ctrl) out.push(labels.ctrl);
+  if (hk.mod) out.push(labels.mod);
+  if (hk.alt) out.push(labels.alt);
+  if (hk.shift) out.push(labels.shift);
+  if (hk.meta) out.push(labels.meta);
+  out.push(keyLabel(hk.key, names ? KEY_NAMES : KEY_LABELS));
+  return out;
+}
+
+// Value for `aria-keyshortcuts`, e.g. "Control+Shift+K". The attribute can't express sequences.
+export function ariaKeyShortcuts(shortcut: string): string | undefined {
+  const steps = parseShortcut(shortcut);
+  if (steps.length !== 1) return undefined;
+  const [hk] = steps;
+  const mac = isMac();
+  return [
+    (hk.ctrl || (hk.mod && !mac)) && "Control",
+    hk.alt && "Alt",
+    hk.shift && "Shift",
+    (hk.meta || (hk.mod && mac)) && "Meta",
+    keyLabel(hk.key, KEY_NAMES),
+  ]
+    .filter(Boolean)
+    .join("+");
+}
@@ -0,0 +1,133 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+
+// Where a layer sits in the React tree; `parent` is the layer it was rendered inside.
+export type OverlayNode = { parent: OverlayNode | null };
+
+export type OverlayLayer = {
+  zIndex: number;
+  isTopmost: () => boolean;
+  node: OverlayNode;
+};
+
+export type OverlayLayerOptions = {
+  lockScroll?: boolean;
+  onEscape?: () => void;
+};
+
+type Entry = {
+  zIndex: number;
+  node: OverlayNode;
+  onEscape: () => (() => void) | undefined;
+  setZIndex: (z: number) => void;
+};
+
+const BASE_Z = 1000;
+const Z_STEP = 10;
+
+const stack: Entry[] = [];
+
+export const hasOverlay = (): boolean => stack.length > 0;
+
+const onKeyDown = (e: KeyboardEvent): void => {
+  if (e.key !== "Escape" || e.defaultPrevented) return;
+  const handler = stack[stack.length - 1]?.onEscape();
+  if (!handler) return;
+  e.preventDefault();
+  handler();
+};
+
+const isInside = (node: OverlayNode, ancestor: OverlayNode): boolean => {
+  for (let n = node.parent; n; n = n.parent) if (n === ancestor) return true;
+  return false;
+};
+
+// Layout effects run child-first, so a parent and child opened in the same commit register child-first.
+// A new layer therefore goes below any open layer rendered inside it, and on top otherwise.
+function push(entry: Entry): void {
+  if (!stack.length && typeof document !== "undefined") document.addEventListener("keydown", onKeyDown);
+  const inner = stack.findIndex((e) => isInside(e.node, entry.node));
+  const at = inner < 0 ? stack.length : inner;
+  stack.splice(at, 0, entry);
+  for (let i = at; i < stack.length; i++) {
+    const z = i === 0 ? BASE_Z : stack[i - 1].zIndex + Z_STEP;
+    if (i > at && stack[i].zIndex >= z) break;
+    stack[i].zIndex = z;
+    stack[i].setZIndex(z);
+  }
+}
+
+function remove(entry: Entry): void {
+  const i = stack.indexOf(entry);
+  if (i >= 0) stack.splice(i, 1);
+  if (!stack.length && typeof document !== "undefined") document.removeEventListener("keydown", onKeyDown);
+}
+
+let scrollLocks = 0;
+let prevOverflow = "";
+let prevPaddingRight = "";
+
+export function acquireScrollLock(): () => void {
+  if (typeof document === "undefined") return () => {};
+  if (scrollLocks === 0) {
+    const body = document.body;
+    prevOverflow = body.style.overflow;
+    prevPaddingRight = body.style.paddingRight;
+    const scrollbar = window.innerWidth - document.documentElement.clientWidth;
+    const computedPad = parseFloat(getComputedStyle(body).paddingRight || "0");
+    body.style.overflow = "hidden";
+    if (scrollbar > 0) body.style.paddingRight = `${computedPad + scrollbar}px`;
+  }
+  scrollLocks += 1;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    scrollLocks -= 1;
+    if (scrollLocks === 0) {
+      document.body.style.overflow = prevOverflow;
+      document.body.style.paddingRight = prevPaddingRight;
+    }
+  };
+}
+
+// Lets a component hand its layer to the Backdrop it renders, so the pair counts as one layer.
+export const OverlayLayerContext = createContext<OverlayLayer | null>(null);
+
+// The layer a component is rendered in, so hotkeys inside an overlay only fire while it is on top.
+export const OverlayScopeContext = createContext<OverlayLayer | null>(null);
+
+const useIsoLayoutEffect = typeof window !== "undefined" ? React.useLayoutEffect : React.useEffect;
+
+export function useOverlayLayer(active: boolean, { lockScroll = false, onEscape }: OverlayLayerOptions = {}): OverlayLayer {
+  const escapeRef = useRef(onEscape);
+  escapeRef.current = onEscape;
+  const entryRef = useRef<Entry | null>(null);
+  const [zIndex, setZIndex] = useState(BASE_Z);
+  const parent = useContext(OverlayScopeContext)?.node ?? null;
+  const [node] = useState<OverlayNode>(() => ({ parent: null }));
+
+  useIsoLayoutEffect(() => {
+    node.parent = parent;
+  }, [node, parent]);
+
+  useIsoLayoutEffect(() => {
+    if (!active) return;
+    const entry: Entry = { zIndex: BASE_Z, node, onEscape: () => escapeRef.current, setZIndex };
+    push(entry);
+    entryRef.current = entry;
+    return () => {
+      remove(entry);
+      if (entryRef.current === entry) entryRef.current = null;
+    };
+  }, [active, node]);
+
+  useEffect(() => {
+    if (!active || !lockScroll) return;
+    return acquireScrollLock();
+  }, [active, lockScroll]);
+
+  const isTopmost = useCallback(() => !!entryRef.current && stack[stack.length - 1] === entryRef.current, []);
+
+  return useMemo(() => ({ zIndex, isTopmost, node }), [zIndex, isTopmost, node]);
+}
@@ -0,0 +1,407 @@
+/** @jsxImportSource @emotion/react */
+import React, { forwardRef, useEffect, useId, useRef, useState } from "react";
+import { css, type Interpolation, type Theme } from "@emotion/react";
+import { usePlainframeUITheme } from "../theme/ThemeProvider";
+import { useLocale } from "../locale/LocaleProvider";
+import { useFocusWithinRing } from "./focusRing";
+import { FORCED_COLORS } from "./forcedColors";
+import {
+  fieldHelperRowStyle,
+  fieldLabelStyle,
+  fieldSurfaceStyle,
+  FIELD_HELPER_TEXT_STYLE,
+  type FieldSize,
+  type FieldVariant,
+} from "./fieldStyles";
+import type { DatePart, DatePartType } from "./dates";
+
+export type SegmentValues = Partial<Record<DatePartType, number | null>>;
+
+type Spec = { min: number; max: number; digits: number; step: number; initial?: number };
+
+function specFor(type: DatePartType, values: SegmentValues, hour12: boolean, minuteStep: number): Spec {
+  switch (type) {
+    case "year":
+      return { min: 1, max: 9999, digits: 4, step: 1, initial: new Date().getFullYear() };
+    case "month":
+      return { min: 1, max: 12, digits: 2, step: 1 };
+    case "day": {
+      const max = values.month ? new Date(values.year ?? 2000, values.month, 0).getDate() : 31;
+      return { min: 1, max, digits: 2, step: 1 };
+    }
+    case "hour":
+      return hour12 ? { min: 1, max: 12, digits: 2, step: 1 } : { min: 0, max: 23, digits: 2, step: 1 };
+    case "minute":
+      return { min: 0, max: 59, digits: 2, step: minuteStep };
+    case "dayPeriod":
+      return { min: 0, max: 1, digits: 1, step: 1 };
+  }
+}
+
+// Arrow keys wrap around and snap to the step, so 07 + 15 min gives 15 rather than 22.
+function stepValue(v: number | null | undefined, dir: 1 | -1, spec: Spec): number {
+  const { min, max, step } = spec;
+  if (v == null) return spec.initial ?? (dir > 0 ? min : Math.floor(max / step) * step);
+  const span = max - min + 1;
+  const next = dir > 0 ? Math.floor(v / step) * step + step : Math.ceil(v / step) * step - step;
+  return ((((next - min) % span) + span) % span) + min;
+}
+
+const u = (v?: number | string) => (v == null ? undefined : typeof v === "number" ? `${v}px` : v);
+
+export type SegmentFieldProps = {
+  parts: DatePart[];
+  values: SegmentValues;
+  onValuesChange: (next: SegmentValues) => void;
+  hour12: boolean;
+  dayPeriods: [string, string];
+  minuteStep?: number;
+  label?: React.ReactNode;
+  helperText?: React.ReactNode;
+  error?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+  size?: FieldSize;
+  variant?: FieldVariant;
+  width?: number | string;
+  fullWidth?: boolean;
+  endAdornment?: React.ReactNode;
+  // Called when focus leaves the field as a whole, not when it moves between segments.
+  onBlur?: () => void;
+  autoFocus?: boolean;
+  className?: string;
+  css?: Interpolation<Theme>;
+};
+
+export const SegmentField = forwardRef<HTMLDivElement, SegmentFieldProps>(function SegmentField(
+  {
+    parts,
+    values,
+    onValuesChange,
+    hour12,
+    dayPeriods,
+    minuteStep = 1,
+    label,
+    helperText,
+    error,
+    disabled,
+    readOnly,
+    required,
+    size = "md",
+    variant = "outlined",
+    width,
+    fullWidth,
+    endAdornment,
+    onBlur,
+    autoFocus,
+    className,
+    css: cssOverride,
+  },
+  ref
+) {
+  const theme = usePlainframeUITheme();
+  const { messages, formatNumber } = useLocale();
+  const labels = messages.dateSegments;
+  const ring = useFocusWithinRing();
+  const ids = useId();
+  const labelId = `${ids}-label`;
+  const helperId = `${ids}-help`;
+
+  const segmentRefs = useRef<Array<HTMLSpanElement | null>>([]);
+  // Digits typed into the focused segment so far, e.g. "1" while waiting to see if the hour is 1 or 12.
+  const [buffer, setBuffer] = useState<{ type: DatePartType | null; text: string }>({ type: null, text: "" });
+
+  const set = (type: DatePartType, v: number | null) => {
+    if (values[type] === v) return;
+    onValuesChange({ ...values, [type]: v });
+  };
+
+  const focusSibling = (index: number, dir: 1 | -1) => {
+    for (let i = index + dir; i >= 0 && i < parts.length; i += dir) {
+      if (parts[i].type !== "literal") {
+        segmentRefs.current[i]?.focus();
+        return;
+      }
+    }
+  };
+
+  const focusFirst = () => {
+    if (disabled) return;
+    const empty = parts.findIndex((p) => p.type !== "literal" && values[p.type] == null);
+    const first = parts.findIndex((p) => p.type !== "literal");
+    segmentRefs.current[empty >= 0 ? empty : first]?.focus();
+  };
+
+  useEffect(() => {
+    if (autoFocus) focusFirst();
+  }, []);
+
+  const typeDigit = (type: DatePartType, index: number, digit: number, spec: Spec) => {
+    let text = (buffer.type === type ? buffer.text : "") + digit;
+    if (Number(text) > spec.max || text.length > spec.digits) text = String(digit);
+    const n = Number(text);
+    const full = text.length >= spec.digits || n * 10 > spec.max;
+    setBuffer(full ? { type: null, text: "" } : { type, text });
+    set(type, n >= spec.min ? n : null);
+    if (full) focusSibling(index, 1);
+  };
+
+  const onSegmentKeyDown = (type: DatePartType, index: number) => (e: React.KeyboardEvent<HTMLSpanElement>) => {
+    if (disabled || e.altKey || e.ctrlKey || e.metaKey) return;
+    const spec = specFor(type, values, hour12, minuteStep);
+    const editable = !readOnly;
+    switch (e.key) {
+      case "ArrowLeft":
+        focusSibling(index, -1);
+        break;
+      case "ArrowRight":
+        focusSibling(index, 1);
+        break;
+      case "ArrowUp":
+      case "ArrowDown":
+        if (!editable) return;
+        setBuffer({ type: null, text: "" });
+        set(type, stepValue(values[type], e.key === "ArrowUp" ? 1 : -1, spec));
+        break;
+      case "Home":
+      case "End":
+        if (!editable) return;
+        set(type, e.key === "Home" ? spec.min : spec.max);
+        break;
+      case "Backspace":
+      case "Delete":
+        if (!editable) return;
+        if (values[type] != null || buffer.type === type) {
+          setBuffer({ type: null, text: "" });
+          set(type, null);
+        } else if (e.key === "Backspace") {
+          focusSibling(index, -1);
+        }
+        break;
+      default: {
+        if (!editable || e.key.length !== 1) return;
+        if (type === "dayPeriod") {
+          const k = e.key.toLowerCase();
+          let period = dayPeriods.findIndex((l) => l.toLowerCase().startsWith(k));
+          if (period < 0) period = k === "a" ? 0 : k === "p" ? 1 : -1;
+          if (period < 0) return;
+          set(type, period);
+          focusSibling(index, 1);
+        } else if (/^\d$/.test(e.key)) {
+          typeDigit(type, index, Number(e.key), spec);
+        } else {
+          return;
+        }
+      }
+    }
+    e.preventDefault();
+  };
+
+  const onSegmentBlur = (type: DatePartType) => {
+    if (buffer.type !== type) return;
+    // Two typed digits mean a two-digit year; same pivot as `parseDate`.
+    if (type === "year" && buffer.text.length <= 2) {
+      const y = Number(buffer.text);
+      set(type, y + (y < 50 ? 2000 : 1900));
+    }
+    setBuffer({ type: null, text: "" });
+  };
+
+  const display = (type: DatePartType) => {
+    if (buffer.type === type) return formatNumber(Number(buffer.text), { useGrouping: false });
+    const v = values[type];
+    if (v == null) return type === "year" ? "––––" : "––";
+    if (type === "dayPeriod") return dayPeriods[v];
+    return formatNumber(v, { minimumIntegerDigits: type === "year" ? 4 : 2, useGrouping: false });
+  };
+
+  const field = { size, variant, error, disabled };
+  const N = theme.neutral;
+  const T = theme.text;
+  const danger = theme.palette.danger;
+
+  const rootCss = css({
+    boxSizing: "border-box",
+    display: "block",
+    minWidth: 0,
+    width: fullWidth ? "100%" : u(width) ?? "auto",
+    fontWeight: 500,
+  });
+
+  const labelCss = css(fieldLabelStyle(theme, field));
+
+  const surfaceCss = css(fieldSurfaceStyle(theme, field));
+
+  const segmentsCss = css({
+    flex: 1,
+    display: "flex",
+    alignItems: "center",
+    minWidth: 0,
+    // Dates and times are typed left to right even in RTL layouts, like native inputs.
+    direction: "ltr",
+    unicodeBidi: "isolate",
+    fontSize: theme.typography.sizes.sm,
+    fontVariantNumeric: "tabular-nums",
+    color: disabled ? N[500] : error ? danger?.[800] ?? T.primary : T.primary,
+  });
+
+  const segmentCss = css({
+    padding: "1px 2px",
+    borderRadius: theme.radius.sm,
+    outline: "none",
+    caretColor: "transparent",
+    "&[data-placeholder]": { color: error ? danger?.[700] ?? T.secondary : T.secondary },
+    ":focus": { background: theme.palette.primary[600], color: theme.text.onColors.primary },
+    [FORCED_COLORS]: { ":focus": { background: "Highlight", color: "HighlightText" } },
+  });
+
+  const literalCss = css({ color: T.secondary, whiteSpace: "pre", userSelect: "none" });
+
+  const endSlotCss = css({
+    display: "inline-flex",
+    alignItems: "center",
+    color: error ? danger?.[800] ?? T.secondary : T.secondary,
+    lineHeight: 0,
+  });
+
+  const helperRowCss = css(fieldHelperRowStyle(theme, field));
+
+  const helperTextCss = css(FIELD_HELPER_TEXT_STYLE);
+
+  return (
+    <div className={["plainframe-ui-segment-field", className].filter(Boolean).join(" ")} css={[rootCss, cssOverride]}>
+      {label && (
+        <span id={labelId} className="plainframe-ui-segment-field-label" css={labelCss} onClick={focusFirst}>
+          {label}
+        </span>
+      )}
+      <div
+        ref={ref}
+        role="group"
+        aria-labelledby={label ? labelId : undefined}
+        aria-describedby={helperText != null ? helperId : undefined}
+        aria-invalid={!!error || undefined}
+        aria-disabled={disabled || undefined}
+        className="plainframe-ui-segment-field-surface"
+        css={[ring({ color: error ? "danger" : undefined }), surfaceCss]}
+        onMouseDown={(e) => {
+          const target = e.target as HTMLElement;
+          if (target.closest("[data-segment], button, [role='button']")) return;
+          e.preventDefault();
+          focusFirst();
+        }}
+        onBlur={(e) => {
+          if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+          onBlur?.();
+        }}
+      >
+        <div css={segmentsCss}>
+          {parts.map((p, i) =>
+            p.type === "literal" ? (
+              <span key={i} aria-hidden css={literalCss}>
+                {p.value}
+              </span>
+            ) : (
+              <span
+                key={i}
+                ref={(el) => {
+                  segmentRefs.current[i] = el;
+                }}
+                role="spinbutton"
+                tabIndex={disabled ? -1 : 0}
+                inputMode={p.type === "dayPeriod" ? "text" : "numeric"}
+                data-segment={p.type}
+                data-placeholder={values[p.type] == null && buffer.type !== p.type ? "" : undefined}
+                aria-label={labels[p.type]}
+                aria-valuemin={specFor(p.type, values, hour12, minuteStep).min}
+                aria-valuemax={specFor(p.type, values, hour12, minuteStep).max}
+                aria-valuenow={values[p.type] ?? undefined}
+                aria-valuetext={values[p.type] == null ? undefined : display(p.type)}
+                aria-readonly={readOnly || undefined}
+                aria-required={required || undefined}
+                aria-disabled={disabled || undefined}
+                className="plainframe-ui-segment"
+                css={segmentCss}
+                onKeyDown={onSegmentKeyDown(p.type, i)}
+                onBlur={() => onSegmentBlur(p.type)}
+              >
+                {display(p.type)}
+              </span>
+            )
+          )}
+        </div>
+        {endAdornment && <span css={endSlotCss}>{endAdornment}</span>}
+      </div>
+      {helperText != null && (
+        <div className="plainframe-ui-segment-field-helper-row" css={helperRowCss}>
+          <span id={helperId} className="plainframe-ui-segment-field-helper-text" css={helperTextCss}>
+            {helperText}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+});
+
+SegmentField.displayName = "SegmentField";
+
+type SegmentedValueOptions<V> = {
+  value: V | null | undefined;
+  defaultValue: V | null;
+  onChange?: (value: V | null) => void;
+  toSegments: (value: V | null) => SegmentValues;
+  // Returns null while segments are missing or the result isn't acceptable (out of range, Feb 30, …).
+  fromSegments: (segments: SegmentValues) => V | null;
+  same: (a: V | null, b: V | null) => boolean;
+};
+
+// Segments can be half-filled while the value is still null, so they're kept apart from it and only
+// re-derived when the value changes from outside.
+export function useSegmentedValue<V>({ value, defaultValue, onChange, toSegments, fromSegments, same }: SegmentedValueOptions<V>) {
+  const controlled = value !== undefined;
+  const [inner, setInner] = useState<V | null>(defaultValue);
+  const current = controlled ? (value as V | null) : inner;
+
+  const [segments, setSegments] = useState<SegmentValues>(() => toSegments(current));
+  const [seen, setSeen] = useState<V | null>(current);
+  const [invalid, setInvalid] = useState(false);
+  if (!same(current, seen)) {
+    setSeen(current);
+    setSegments(toSegments(current));
+  }
+
+  const emit = (next: V | null) => {
+    if (same(next, current)) return;
+    setSeen(next);
+    if (!controlled) setInner(next);
+    onChange?.(next);
+  };
+
+  const update = (next: SegmentValues) => {
+    setSegments(next);
+    const v = fromSegments(next);
+    if (v !== null) setInvalid(false);
+    emit(v);
+  };
+
+  const setValue = (next: V | null) => {
+    setSegments(toSegments(next));
+    setInvalid(false);
+    emit(next);
+  };
+
+  const validate = () => {
+    setInvalid(Object.values(segments).some((v) => v != null) && fromSegments(segments) === null);
+  };
+
+  const reset = () => {
+    const next = controlled ? current : defaultValue;
+    if (!controlled) setInner(defaultValue);
+    setSeen(next);
+    setSegments(toSegments(next));
+    setInvalid(false);
+  };
+
+  return { current, segments, update, setValue, invalid, validate, reset };
+}
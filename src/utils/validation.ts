@@ -0,0 +1,140 @@
+import type { FieldValidator, FieldValidatorContext, FormErrors, FormValidator, FormValues } from "../components/Form";
+import { en, formatMessage, type Messages } from "../locale/messages";
+
+export type ValidationIssue = {
+  path: string | ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+  message: string;
+};
+
+export type SchemaAdapter<S = unknown> = {
+  test: (schema: unknown) => schema is S;
+  validate: (schema: S, values: FormValues) => ValidationIssue[] | Promise<ValidationIssue[]>;
+};
+
+type StandardSchema = {
+  "~standard": {
+    validate: (value: unknown) => StandardResult | Promise<StandardResult>;
+  };
+};
+type StandardResult = { issues?: ReadonlyArray<ValidationIssue> };
+
+type ZodLikeSchema = {
+  safeParseAsync: (value: unknown) => Promise<{ success: boolean; error?: { issues: ValidationIssue[] } }>;
+};
+
+type YupLikeSchema = {
+  validate: (value: unknown, options: { abortEarly: boolean }) => Promise<unknown>;
+};
+type YupLikeError = { path?: string; message: string; inner?: YupLikeError[] };
+
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && (typeof v === "object" || typeof v === "function");
+
+export const standardSchemaAdapter: SchemaAdapter<StandardSchema> = {
+  test: (s): s is StandardSchema => isObj(s) && isObj(s["~standard"]),
+  validate: async (schema, values) => [...((await schema["~standard"].validate(values)).issues ?? [])],
+};
+
+export const zodAdapter: SchemaAdapter<ZodLikeSchema> = {
+  test: (s): s is ZodLikeSchema => isObj(s) && typeof s.safeParseAsync === "function",
+  validate: async (schema, values) => {
+    const res = await schema.safeParseAsync(values);
+    return res.success ? [] : res.error?.issues ?? [];
+  },
+};
+
+export const yupAdapter: SchemaAdapter<YupLikeSchema> = {
+  test: (s): s is YupLikeSchema => isObj(s) && typeof s.validate === "function" && "fields" in s,
+  validate: async (schema, values) => {
+    try {
+      await schema.validate(values, { abortEarly: false });
+      return [];
+    } catch (err) {
+      // Anything but a yup ValidationError is a bug (e.g. in a custom `test()`), not a form issue.
+      if ((err as { name?: unknown } | null)?.name !== "ValidationError") throw err;
+      const e = err as YupLikeError;
+      const list = e.inner?.length ? e.inner : [e];
+      return list.map((i) => ({ path: i.path ?? "", message: i.message }));
+    }
+  },
+};
+
+const ADAPTERS: SchemaAdapter<any>[] = [standardSchemaAdapter, zodAdapter, yupAdapter];
+
+export function issuePath(path: ValidationIssue["path"]): string {
+  if (typeof path === "string") return path;
+  return path.map((seg) => String(isObj(seg) ? seg.key : seg)).join(".");
+}
+
+export function issuesToErrors(issues: ReadonlyArray<ValidationIssue>): FormErrors {
+  const errors: FormErrors = {};
+  issues.forEach((i) => {
+    const name = issuePath(i.path);
+    if (errors[name] === undefined) errors[name] = i.message;
+  });
+  return errors;
+}
+
+// The schema is detected here, once, so an unsupported one fails where the form is set up rather than mid-validation.
+export function schemaValidator<T extends FormValues = FormValues>(schema: unknown, adapter?: SchemaAdapter<any>): FormValidator<T> {
+  const a = adapter ?? ADAPTERS.find((x) => x.test(schema));
+  if (!a) {
+    throw new Error(
+      "[plainframe-ui] schemaValidator: unsupported schema. Pass a Zod, Yup or Standard Schema object, or a `schemaAdapter` for other libraries."
+    );
+  }
+  return async (values) => issuesToErrors(await a.validate(schema, values));
+}
+
+// Messages come from the field's LocaleProvider through the context; called outside a form, they fall back to English.
+const message = (
+  custom: string | undefined,
+  context: FieldValidatorContext | undefined,
+  pick: (m: Messages["validation"]) => string,
+  values?: Record<string, string | number>
+) => formatMessage(custom ?? pick(context?.messages ?? en.validation), values);
+
+const isEmpty = (v: unknown) => v == null || v === "" || v === false || (Array.isArray(v) && v.length === 0);
+
+const lengthOf = (v: unknown) => (typeof v === "string" || Array.isArray(v) ? v.length : String(v).length);
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const validators = {
+  required:
+    (msg?: string): FieldValidator =>
+    (v, _values, context) =>
+      isEmpty(v) || (typeof v === "string" && !v.trim()) ? message(msg, context, (m) => m.required) : undefined,
+
+  minLength:
+    (min: number, msg?: string): FieldValidator =>
+    (v, _values, context) =>
+      !isEmpty(v) && lengthOf(v) < min ? message(msg, context, (m) => m.minLength, { min }) : undefined,
+
+  maxLength:
+    (max: number, msg?: string): FieldValidator =>
+    (v, _values, context) =>
+      !isEmpty(v) && lengthOf(v) > max ? message(msg, context, (m) => m.maxLength, { max }) : undefined,
+
+  pattern: (re: RegExp, msg?: string): FieldValidator => {
+    // `g` and `y` make `test` resume from `lastIndex`, so the same value would alternate between valid and invalid.
+    const safe = re.global || re.sticky ? new RegExp(re.source, re.flags.replace(/[gy]/g, "")) : re;
+    return (v, _values, context) => (!isEmpty(v) && !safe.test(String(v)) ? message(msg, context, (m) => m.pattern) : undefined);
+  },
+
+  email:
+    (msg?: string): FieldValidator =>
+    (v, _values, context) =>
+      !isEmpty(v) && !EMAIL_RE.test(String(v).trim()) ? message(msg, context, (m) => m.email) : undefined,
+
+  range:
+    (min: number | undefined, max: number | undefined, msg?: string): FieldValidator =>
+    (v, _values, context) => {
+      if (v == null || v === "") return undefined;
+      const n = typeof v === "number" ? v : Number(v);
+      if (Number.isNaN(n)) return message(msg, context, (m) => m.number);
+      if (min != null && max != null && (n < min || n > max)) return message(msg, context, (m) => m.range, { min, max });
+      if (min != null && n < min) return message(msg, context, (m) => m.min, { min });
+      if (max != null && n > max) return message(msg, context, (m) => m.max, { max });
+      return undefined;
+    },
+};
@@ -0,0 +1,273 @@
+/** @jsxImportSource @emotion/react */
+import React, { createContext, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { Interpolation, Theme } from "@emotion/react";
+
+export type VirtualizeOptions = {
+  // Rows are assumed to share one height per kind; both are measured from the first rendered row by default.
+  itemHeight?: number;
+  labelHeight?: number;
+  overscan?: number;
+};
+
+export type VirtualListHandle = {
+  count: number;
+  scrollToIndex: (index: number) => void;
+  // Moves focus for ArrowUp/ArrowDown/Home/End/PageUp/PageDown. Returns false for any other key.
+  navigate: (key: string) => boolean;
+};
+
+type RowCtx = { index: number; setSize: number };
+
+// Lets menu items report `aria-posinset`/`aria-setsize` against the full list, not just the mounted rows.
+export const VirtualRowContext = createContext<RowCtx | null>(null);
+
+type RowKind = "item" | "label" | "other";
+
+type Row = {
+  el: React.ReactElement<any>;
+  kind: RowKind;
+  itemIndex: number;
+  labelRow: number;
+  disabled: boolean;
+};
+
+// Components tell the list how to lay them out through a static marker; names don't survive minification.
+export type VirtualRowRole = "label" | "separator" | "wrapper";
+
+const ROLE_KEY = "__pfuiVirtualRole";
+
+export function markVirtualRow<T extends object>(component: T, role: VirtualRowRole): T {
+  (component as Record<string, unknown>)[ROLE_KEY] = role;
+  return component;
+}
+
+const roleOf = (type: unknown): VirtualRowRole | undefined => {
+  if (!type || (typeof type !== "object" && typeof type !== "function")) return undefined;
+  const t = type as { [ROLE_KEY]?: VirtualRowRole; type?: unknown };
+  return t[ROLE_KEY] ?? (t.type ? roleOf(t.type) : undefined);
+};
+
+const kindOf = (el: React.ReactElement): RowKind => {
+  const role = roleOf(el.type);
+  if (role === "label") return "label";
+  if (role === "separator") return "other";
+  return "item";
+};
+
+function collectRows(children: React.ReactNode) {
+  const rows: Row[] = [];
+  let wrapper: React.ReactElement<any> | null = null;
+  let items = 0;
+  let labelRow = -1;
+
+  const walk = (node: React.ReactNode) => {
+    React.Children.forEach(node, (child) => {
+      if (!React.isValidElement(child)) return;
+      const el = child as React.ReactElement<any>;
+      if (el.type === React.Fragment) return walk(el.props.children);
+      if (!wrapper && roleOf(el.type) === "wrapper") {
+        wrapper = el;
+        return walk(el.props.children);
+      }
+      const kind = kindOf(el);
+      if (kind === "label") labelRow = rows.length;
+      rows.push({
+        el,
+        kind,
+        itemIndex: kind === "item" ? items++ : -1,
+        labelRow: kind === "label" ? -1 : labelRow,
+        disabled: !!el.props.disabled,
+      });
+    });
+  };
+  walk(children);
+
+  return { rows, wrapper: wrapper as React.ReactElement<any> | null, itemCount: items };
+}
+
+export type VirtualListProps = {
+  children: React.ReactNode;
+  scrollRef: React.RefObject<HTMLElement | null>;
+  options?: VirtualizeOptions;
+  defaultItemHeight: number;
+  gap?: number;
+  stickyCss?: Interpolation<Theme>;
+  onActiveIndexChange?: (index: number) => void;
+};
+
+export const VirtualList = React.forwardRef<VirtualListHandle, VirtualListProps>(function VirtualList(
+  { children, scrollRef, options = {}, defaultItemHeight, gap = 0, stickyCss, onActiveIndexChange },
+  ref
+) {
+  const { rows, wrapper, itemCount } = useMemo(() => collectRows(children), [children]);
+  const itemRows = useMemo(() => rows.flatMap((r, i) => (r.kind === "item" ? [i] : [])), [rows]);
+
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const [measured, setMeasured] = useState<{ item?: number; label?: number }>({});
+  const [view, setView] = useState({ top: 0, height: 0 });
+  const [pendingFocus, setPendingFocus] = useState<{ index: number } | null>(null);
+
+  const overscan = options.overscan ?? 6;
+  const itemH = options.itemHeight ?? measured.item ?? defaultItemHeight;
+  const labelH = options.labelHeight ?? measured.label ?? itemH;
+
+  const offsets = useMemo(() => {
+    const out = new Array<number>(rows.length + 1);
+    out[0] = 0;
+    for (let i = 0; i < rows.length; i++) out[i + 1] = out[i] + (rows[i].kind === "label" ? labelH : itemH) + gap;
+    return out;
+  }, [rows, itemH, labelH, gap]);
+
+  const rowAt = (y: number) => {
+    let lo = 0;
+    let hi = rows.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (offsets[mid] <= y) lo = mid;
+      else hi = mid - 1;
+    }
+    return Math.max(0, lo);
+  };
+
+  const listTop = () => listRef.current?.offsetTop ?? 0;
+  // jsdom and hidden panels report 0; fall back to a plausible menu height so something renders.
+  const viewportHeight = () => scrollRef.current?.clientHeight || view.height || 320;
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const read = () => setView({ top: Math.max(0, el.scrollTop - listTop()), height: el.clientHeight });
+    read();
+    el.addEventListener("scroll", read, { passive: true });
+    return () => el.removeEventListener("scroll", read);
+  }, [scrollRef]);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const next = { ...measured };
+    if (options.itemHeight == null) {
+      const h = list.querySelector<HTMLElement>('[data-virtual-row="item"]')?.offsetHeight;
+      if (h) next.item = h;
+    }
+    if (options.labelHeight == null) {
+      const h = list.querySelector<HTMLElement>('[data-virtual-row="label"]')?.offsetHeight;
+      if (h) next.label = h;
+    }
+    if (next.item !== measured.item || next.label !== measured.label) setMeasured(next);
+  });
+
+  const scrollToIndex = (index: number) => {
+    const r = itemRows[index];
+    const el = scrollRef.current;
+    if (r == null || !el) return;
+    const base = listTop();
+    const sticky = rows[r].labelRow >= 0 ? labelH + gap : 0;
+    const top = base + offsets[r] - sticky;
+    const bottom = base + offsets[r] + itemH;
+    const height = viewportHeight();
+    const current = base + view.top;
+    let next = current;
+    if (top < current) next = top;
+    else if (bottom > current + height) next = bottom - height;
+    if (next === current) return;
+    el.scrollTop = next;
+    setView({ top: Math.max(0, next - base), height: el.clientHeight });
+  };
+
+  const enabledFrom = (start: number, step: 1 | -1, wrap: boolean): number => {
+    for (let n = 0, i = start; n < itemCount; n++, i += step) {
+      if (wrap) i = (i + itemCount) % itemCount;
+      else if (i < 0 || i >= itemCount) return -1;
+      if (!rows[itemRows[i]].disabled) return i;
+    }
+    return -1;
+  };
+
+  const currentIndex = (): number => {
+    const list = listRef.current;
+    if (!list) return -1;
+    const active = document.activeElement;
+    const el =
+      (active && list.contains(active) ? active : null) ??
+      list.querySelector("[data-highlighted], [data-active], [data-hovered]");
+    const row = el?.closest<HTMLElement>("[data-index]");
+    return row ? Number(row.dataset.index) : -1;
+  };
+
+  const navigate = (key: string): boolean => {
+    if (!itemCount) return false;
+    const cur = currentIndex();
+    const page = Math.max(1, Math.floor(viewportHeight() / (itemH + gap)) - 1);
+    let target = -1;
+    if (key === "ArrowDown") target = enabledFrom(cur + 1, 1, true);
+    else if (key === "ArrowUp") target = enabledFrom(cur < 0 ? itemCount - 1 : cur - 1, -1, true);
+    else if (key === "Home") target = enabledFrom(0, 1, false);
+    else if (key === "End") target = enabledFrom(itemCount - 1, -1, false);
+    else if (key === "PageDown") target = enabledFrom(Math.min(itemCount - 1, cur + page), -1, false);
+    else if (key === "PageUp") target = enabledFrom(Math.max(0, cur - page), 1, false);
+    else return false;
+    if (target < 0) return true;
+    scrollToIndex(target);
+    setPendingFocus({ index: target });
+    return true;
+  };
+
+  useImperativeHandle(ref, () => ({ count: itemCount, scrollToIndex, navigate }));
+
+  useLayoutEffect(() => {
+    if (!pendingFocus) return;
+    const el = listRef.current?.querySelector<HTMLElement>(`[data-index="${pendingFocus.index}"] > *`);
+    if (!el) return;
+    setPendingFocus(null);
+    document.querySelectorAll("[data-highlighted]").forEach((h) => h.removeAttribute("data-highlighted"));
+    document.querySelectorAll("[data-hovered]").forEach((h) => h.removeAttribute("data-hovered"));
+    el.setAttribute("data-highlighted", "");
+    el.focus({ preventScroll: true });
+    onActiveIndexChange?.(pendingFocus.index);
+  }, [pendingFocus, onActiveIndexChange]);
+
+  const height = viewportHeight();
+  const start = rows.length ? Math.max(0, rowAt(view.top) - overscan) : 0;
+  const end = rows.length ? Math.min(rows.length - 1, rowAt(view.top + height) + overscan) : -1;
+
+  // Keep the label of the first visible group mounted (and sticky) even when its own row scrolled away.
+  const heldLabel = start <= end && rows[start].kind !== "label" ? rows[start].labelRow : -1;
+  const padTop = offsets[start] - (heldLabel >= 0 ? labelH + gap : 0);
+  const padBottom = Math.max(0, offsets[rows.length] - offsets[end + 1]);
+
+  const renderRow = (i: number) => {
+    const r = rows[i];
+    return (
+      <div
+        key={r.el.key ?? i}
+        role="none"
+        data-virtual-row={r.kind}
+        data-index={r.kind === "item" ? r.itemIndex : undefined}
+        css={r.kind === "label" ? [{ position: "sticky", top: 0, zIndex: 1 }, stickyCss] : undefined}
+      >
+        {r.kind === "item" ? (
+          <VirtualRowContext.Provider value={{ index: r.itemIndex, setSize: itemCount }}>{r.el}</VirtualRowContext.Provider>
+        ) : (
+          r.el
+        )}
+      </div>
+    );
+  };
+
+  const visible: React.ReactNode[] = [];
+  if (heldLabel >= 0) visible.push(renderRow(heldLabel));
+  for (let i = start; i <= end; i++) visible.push(renderRow(i));
+
+  return (
+    <div
+      ref={listRef}
+      role="none"
+      className="plainframe-ui-virtual-list"
+      css={{ display: "flex", flexDirection: "column", gap, flexShrink: 0 }}
+      style={{ paddingTop: padTop, paddingBottom: padBottom }}
+    >
+      {wrapper ? React.cloneElement(wrapper, { children: visible }) : visible}
+    </div>
+  );
+});